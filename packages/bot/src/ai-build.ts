@@ -1,3 +1,4 @@
+import type { BazaarCard } from '@bazaarinfo/shared'
 import * as store from './store'
 import * as db from './db'
 import { isGameActive } from './trivia'
@@ -30,7 +31,7 @@ import {
   TITLE_SCHEDULE_RE,
 } from './schedule'
 import { getCachedChannelTitle } from './channel-title'
-import { isBoardQuery, getBoardLine } from './board'
+import { isBoardQuery, getBoardLine, isBoardHistoryQuery, getBoardHistoryLine } from './board'
 import { isHsBoardQuery, getHsBoardLine, HS_NO_BOARD } from './hs-board'
 import { maybeFetchTwitchInfo } from './ai-background'
 import type { AiContext } from './ai'
@@ -121,6 +122,18 @@ function stripChatMessage(msg: string): string {
 
 // --- game context builder ---
 
+// "what goes with X" — only then are the store's tag links worth their context budget
+const SYNERGY_Q = /\b(?:synerg\w*|combos?|combin\w*|pairs?|partners?|goes|build\s+around)\b/i
+const SYNERGY_SHOWN = 6
+
+// the partners a combo answer may name — each with the tags that link it, from the
+// dump's own references, so the model cites an edge instead of inventing one
+export function synergyLine(card: BazaarCard, hero?: string): string {
+  const partners = store.synergiesOf(card, hero).slice(0, SYNERGY_SHOWN)
+  if (!partners.length) return ''
+  return `${card.Title} synergies (tag links from the card data — name these, never invent a combo): ${partners.map((p) => `${p.card.Title} [${p.via.join('/')}]`).join(', ')}`
+}
+
 export function buildGameContext(entities: ResolvedEntities, channel?: string): string {
   const sections: string[] = []
 
@@ -166,6 +179,13 @@ export function buildGameContext(entities: ResolvedEntities, channel?: string):
     sections.push(serializeMonster(monster))
   }
 
+  if (entities.cards.length > 0 && SYNERGY_Q.test(entities.effects.join(' '))) {
+    for (const card of entities.cards) {
+      const line = synergyLine(card, entities.hero)
+      if (line) sections.push(line)
+    }
+  }
+
   // "what changed for vanessa this patch" — only on a patch-shaped ask, capped so a
   // hero with a dozen changes can't swallow the context budget.
   if (entities.hero && fresh && /\b(patch|change[ds]?|nerf(ed|s)?|buff(ed|s)?|new|update[ds]?)\b/i.test(entities.effects.join(' '))) {
@@ -715,13 +735,15 @@ export function buildUserMessage(query: string, ctx: AiContext & { user: string;
   const boardShaped = isBoardQuery(query)
   const boardLine = boardShaped ? getBoardLine(ctx.channel) : ''
   const ambientBoardLine = !boardShaped ? getBoardLine(ctx.channel, true) : ''
+  // "what did he have last fight" — the change log rides in Game data like the board
+  const historyLine = isBoardHistoryQuery(query) ? getBoardHistoryLine(ctx.channel) : ''
   let gameBlock = ''
   let hasGameData = false
-  if (entities.isGame || boardLine) {
+  if (entities.isGame || boardLine || historyLine) {
     const knowledge = entities.knowledge.length > 0
       ? `\nContext:\n${entities.knowledge.join('\n')}`
       : ''
-    const gameData = [buildGameContext(entities, ctx.channel), boardLine].filter(Boolean).join('\n')
+    const gameData = [buildGameContext(entities, ctx.channel), boardLine, historyLine].filter(Boolean).join('\n')
     hasGameData = !!(gameData || knowledge)
     gameBlock = [
       knowledge,
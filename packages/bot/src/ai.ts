@@ -27,7 +27,7 @@ import { isWorldCupQuery, refreshWorldCupIfNeeded } from './worldcup'
 import { isWeatherQuery, refreshWeatherIfNeeded } from './weather'
 import { isHsRatingQuery, refreshHsIfNeeded } from './hs'
 import { isHsCardQuery, isHearthstoneCategory, refreshHsCardsIfNeeded } from './hs-cards'
-import { refreshBoardIfNeeded } from './board'
+import { refreshBoardIfNeeded, isBoardHistoryQuery, refreshBoardHistoryIfNeeded } from './board'
 import { refreshHsBoardIfNeeded } from './hs-board'
 import { isScheduleQuery } from './schedule'
 import { resolveScheduleChannel } from './schedule-query'
@@ -226,6 +226,9 @@ async function doAiCall(query: string, ctx: AiContext & { user: string; channel:
   // the streamer's Bubble Gum stack needs the data even when nobody asked about the
   // board). localhost hop, 10s cache, fail-soft, never throws.
   await refreshBoardIfNeeded(ctx.channel)
+  // its history only when the ask is about change over time — a second localhost hop
+  // nobody else needs. same cache/fail-soft contract.
+  if (isBoardHistoryQuery(query)) await refreshBoardHistoryIfNeeded(ctx.channel)
 
   // the battlegrounds equivalent, gated on the channel actually being on Hearthstone:
   // there is no board to fetch during a Bazaar stream, and this is a round-trip per
@@ -8,6 +8,7 @@ import * as store from './store'
 import { sanitize, buildSystemPrompt, isModelRefusal, buildFTSQuery, GREETINGS } from './ai'
 import { handleCommand, parseArgs } from './commands'
 import { GAME_TERMS, extractEntities } from './ai-context'
+import { synergyLine } from './ai-build'
 import { AI_CHANNELS, enableAiForChannel, disableAiForChannel, aiUnavailableReason } from './ai-cache'
 
 // --- load real data so extractEntities / store calls work ---
@@ -69,6 +70,72 @@ describe('entity extraction via store', () => {
     expect(results.length).toBeGreaterThan(0)
   })
 
+  it('searchByEffect matchAll keeps only cards carrying every indexed word', () => {
+    const any = store.searchByEffect('burn heal', undefined, Infinity)
+    const all = store.searchByEffect('burn heal', undefined, Infinity, true)
+    expect(all.length).toBeGreaterThan(0)
+    expect(all.length).toBeLessThan(any.length)
+    for (const c of all) {
+      const text = c.Tooltips.map((t) => t.text).join(' ').toLowerCase()
+      expect(text).toContain('burn')
+      expect(text).toContain('heal')
+    }
+    // a word no card uses doesn't zero the result
+    expect(store.searchByEffect('burn zzzqx', undefined, Infinity, true).length).toBeGreaterThan(0)
+  })
+
+  it('byEnchantment is the reverse of each item\'s Enchantments record', () => {
+    const name = store.findEnchantment('Fier') // prefix resolves
+    expect(name).toBe('fiery')
+    const items = store.byEnchantment(name!)
+    expect(items.length).toBeGreaterThan(0)
+    for (const c of items) expect(Object.keys(c.Enchantments).map((k) => k.toLowerCase())).toContain('fiery')
+    expect(store.byEnchantment('Fiery')).toBe(items)
+    expect(store.byEnchantment('zzzqx')).toEqual([])
+  })
+
+  it('synergy graph links a tag reference to its carriers, both ways, within one pool', () => {
+    const torch = store.exact('Torch')!
+    const partners = store.synergiesOf(torch)
+    expect(partners.length).toBeGreaterThan(0)
+    for (const p of partners) {
+      expect(p.card.Heroes.includes('Common') || p.card.Heroes.some((h) => torch.Heroes.includes(h))).toBe(true)
+      expect(p.via.length).toBeGreaterThan(0)
+      // the edge is stored on both ends with the same citation
+      expect(store.synergiesOf(p.card).find((q) => q.card === torch)?.via.sort()).toEqual([...p.via].sort())
+    }
+    for (let i = 1; i < partners.length; i++) expect(partners[i - 1].weight).toBeGreaterThanOrEqual(partners[i].weight)
+  })
+
+  it('synergyLine grounds a combo answer in named edges', () => {
+    const line = synergyLine(store.exact('Torch')!)
+    expect(line).toStartWith('Torch synergies')
+    expect(line).toMatch(/\[[A-Z][\w/]*\]/)
+  })
+
+  it('a loaded locale table maps localized names back to the canonical card', () => {
+    const shield = store.exact('Subscraper')!
+    store.loadLocaleTable({
+      locale: 'pt',
+      fetchedAt: '',
+      cards: { Subscraper: { Title: 'Subraspador Mágico', Tooltips: shield.Tooltips.map((t) => `pt: ${t.text}`) } },
+    })
+    expect(store.getLocales()).toContain('pt')
+    expect(store.exactLocalized('subraspador magico', 'pt')).toBe(shield)
+    expect(store.exactLocalized('SubraspadorMágico', 'pt')).toBe(shield)
+    // a misspelling is only a fuzzy hit — never an exact one
+    expect(store.exactLocalized('subraspador magco', 'pt')).toBeUndefined()
+    expect(store.searchLocalized('subraspador magco', 'pt')).toBe(shield)
+    expect(store.exactLocalized('subraspador magico', 'es')).toBeUndefined()
+    const shown = store.localize(shield, 'pt')
+    expect(shown.Title).toBe('Subraspador Mágico')
+    expect(shown.Tooltips[0].text).toStartWith('pt: ')
+    expect(shown.TooltipReplacements).toBe(shield.TooltipReplacements)
+    // the card page is keyed by English titles, so the localized copy keeps its own
+    expect(shown.CanonicalTitle).toBe('Subscraper')
+    expect(store.localize(shield, 'en')).toBe(shield)
+  })
+
   // live regression: chat asked "what does the bubblegum do" and the bot answered
   // "no bubblegum item logged" — Bubble Gum exists, but fuzzy ranked the unrelated
   // single-word "Bubblegum Floor" first and the relevance gate then dropped it.
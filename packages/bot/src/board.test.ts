@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'bun:test'
-import { isBoardQuery, getBoardLine, __setBoardCacheForTest } from './board'
+import { isBoardQuery, getBoardLine, getBoardTitles, __setBoardCacheForTest, isBoardHistoryQuery, getBoardHistoryLine, __setBoardHistoryForTest } from './board'
 
 describe('isBoardQuery', () => {
   it('matches board/build-shaped asks', () => {
@@ -62,3 +62,72 @@ describe('getBoardLine', () => {
     expect(line).toContain('never state or guess them')
   })
 })
+
+describe('getBoardTitles', () => {
+  it('returns the streamer side of a fresh board only', () => {
+    __setBoardCacheForTest('kripp', {
+      cards: [{ title: 'Toaster', owner: 'player' }, { title: 'Fang', owner: 'opponent' }],
+      ageMs: 30_000,
+    })
+    expect(getBoardTitles('kripp')).toEqual(['Toaster'])
+    __setBoardCacheForTest('kripp', { cards: [{ title: 'Toaster', owner: 'player' }], ageMs: 60 * 60_000 })
+    expect(getBoardTitles('kripp')).toEqual([])
+    __setBoardCacheForTest('kripp', null)
+    expect(getBoardTitles('kripp')).toEqual([])
+  })
+})
+
+describe('isBoardHistoryQuery', () => {
+  it('matches asks about change over time', () => {
+    expect(isBoardHistoryQuery('what did he have last fight')).toBe(true)
+    expect(isBoardHistoryQuery('what was his previous board')).toBe(true)
+    expect(isBoardHistoryQuery('what has he changed')).toBe(true)
+    expect(isBoardHistoryQuery('what did he sell since last turn')).toBe(true)
+    expect(isBoardHistoryQuery('what has he sold since the fight')).toBe(true)
+    expect(isBoardHistoryQuery('board history')).toBe(true)
+  })
+
+  it('leaves the plain board ask to getBoardLine', () => {
+    expect(isBoardHistoryQuery("what's on his board")).toBe(false)
+    expect(isBoardHistoryQuery('rate this build')).toBe(false)
+  })
+})
+
+describe('getBoardHistoryLine', () => {
+  const mine = (...titles: string[]) => titles.map((title) => ({ title, owner: 'player' }))
+  const min = 60_000
+
+  it('logs each change of the streamer board, oldest first, with the board before the last one', () => {
+    __setBoardHistoryForTest('kripp', [
+      { cards: mine('Toaster', 'Fang'), ageMs: 20 * min },
+      { cards: [...mine('Toaster', 'Fang'), { title: 'Claw', owner: 'opponent' }], ageMs: 15 * min },
+      { cards: mine('Toaster', 'Barrel', 'Barrel'), ageMs: 10 * min },
+      { cards: [], ageMs: 8 * min },
+      { cards: mine('Toaster', 'Barrel', 'Barrel', 'Cutlass'), ageMs: 2 * min },
+    ])
+    const line = getBoardHistoryLine('kripp')
+    expect(line).toContain('10m ago +Barrel x2, -Fang; 2m ago +Cutlass.')
+    expect(line).toContain('Board before the latest change: Barrel x2, Toaster.')
+    expect(line).toContain('NOT known')
+    expect(line).not.toContain('Claw')
+  })
+
+  it('is empty without a fetched history or a single real change', () => {
+    __setBoardHistoryForTest('nobody', null)
+    expect(getBoardHistoryLine('nobody')).toBe('')
+    __setBoardHistoryForTest('still', [
+      { cards: mine('Toaster'), ageMs: 9 * min },
+      { cards: [], ageMs: 5 * min },
+      { cards: mine('Toaster'), ageMs: 1 * min },
+    ])
+    expect(getBoardHistoryLine('still')).toBe('')
+  })
+
+  it('ignores frames older than the window', () => {
+    __setBoardHistoryForTest('old', [
+      { cards: mine('Fang'), ageMs: 90 * min },
+      { cards: mine('Toaster'), ageMs: 5 * min },
+    ])
+    expect(getBoardHistoryLine('old')).toBe('')
+  })
+})
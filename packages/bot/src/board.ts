@@ -114,6 +114,128 @@ export function getBoardLine(channel: string, ambient = false): string {
   return line
 }
 
+// the streamer's own card titles off the same fresh frame getBoardLine reads (opponent
+// excluded) — empty unless refreshBoardIfNeeded found real, recent data.
+export function getBoardTitles(channel: string): string[] {
+  const entry = cache.get(channel.toLowerCase())
+  if (!entry?.snap) return []
+  if (entry.snap.ageMs + (Date.now() - entry.at) > FRESH_MS) return []
+  return entry.snap.cards.filter((c) => c.owner !== 'opponent').map((c) => c.title)
+}
+
+// ── board history ───────────────────────────────────────────────────────────
+// "what did he have last fight?" — the EBS keeps a ring of the distinct frames each
+// channel has shown (/board/history); this turns the recent stretch of it into a change
+// log. same honesty rules as the live line: names only, nothing between snapshots.
+
+const HISTORY_WINDOW_MS = 30 * 60_000 // a few shop/fight turns; older is another run's story
+const HISTORY_CHANGES = 5
+
+interface HistoryFrame {
+  cards: BoardCard[]
+  ageMs: number
+}
+interface HistoryEntry {
+  at: number
+  frames: HistoryFrame[] | null
+}
+const historyCache = new Map<string, HistoryEntry>()
+
+// only the "over time" asks pay for the extra fetch — "what's on his board" is getBoardLine's
+const HISTORY_RE = /\b(?:last|previous|prior|earlier)\s+(?:fight|turn|round|day|shop|board|build)s?\b|\bwhat(?:'?s|\s+has|\s+have)?\s+(?:he\s+|she\s+|they\s+)?changed\b|\b(?:sold|swapped|dropped|picked\s+up)\b.{0,40}\b(?:since|last|ago|turns?)\b|\bboard\s+history\b/i
+export function isBoardHistoryQuery(query: string): boolean {
+  return HISTORY_RE.test(query)
+}
+
+function setHistoryCache(ch: string, frames: HistoryFrame[] | null): void {
+  if (historyCache.size >= MAX_CACHE && !historyCache.has(ch)) {
+    const oldest = historyCache.keys().next().value
+    if (oldest !== undefined) historyCache.delete(oldest)
+  }
+  historyCache.set(ch, { at: Date.now(), frames })
+}
+
+// same contract as refreshBoardIfNeeded: TTL-gated, fail-soft, never throws
+export async function refreshBoardHistoryIfNeeded(channel: string): Promise<void> {
+  const ch = channel.toLowerCase()
+  const hit = historyCache.get(ch)
+  if (hit && Date.now() - hit.at < CACHE_MS) return
+  const id = resolveChannelId(ch)
+  const secret = process.env.INTERNAL_SECRET ?? ''
+  if (!id || !secret) {
+    setHistoryCache(ch, null)
+    return
+  }
+  try {
+    const since = Date.now() - HISTORY_WINDOW_MS
+    const res = await fetch(`${EBS_URL}/board/history?channel_id=${encodeURIComponent(id)}&since=${since}`, {
+      headers: { 'x-internal-secret': secret },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    })
+    if (!res.ok) {
+      setHistoryCache(ch, null)
+      return
+    }
+    const data = (await res.json()) as { frames?: unknown; now?: unknown }
+    const now = data.now
+    const ok =
+      Array.isArray(data.frames) &&
+      typeof now === 'number' &&
+      data.frames.every((f) => f && Array.isArray(f.cards) && typeof f.at === 'number' &&
+        (f.cards as unknown[]).every((c) => c && typeof (c as BoardCard).title === 'string'))
+    setHistoryCache(ch, ok
+      ? (data.frames as { cards: BoardCard[]; at: number }[]).map((f) => ({ cards: f.cards.slice(0, 50), ageMs: now - f.at }))
+      : null)
+  } catch {
+    setHistoryCache(ch, null)
+  }
+}
+
+// the streamer's own titles as a sorted multiset key — a shuffle or a tier-up is not
+// a change chat can see in names, so it isn't one here either
+function ownTitles(cards: BoardCard[]): string[] {
+  return cards.filter((c) => c.owner !== 'opponent').map((c) => c.title).sort()
+}
+
+function changeList(before: string[], after: string[]): string {
+  const counts = new Map<string, number>()
+  for (const t of after) counts.set(t, (counts.get(t) ?? 0) + 1)
+  for (const t of before) counts.set(t, (counts.get(t) ?? 0) - 1)
+  const parts: string[] = []
+  for (const [t, n] of counts) {
+    if (n === 0) continue
+    const name = Math.abs(n) > 1 ? `${t} x${Math.abs(n)}` : t
+    parts.push(n > 0 ? `+${name}` : `-${name}`)
+  }
+  return parts.join(', ')
+}
+
+// sync read for the prompt builder — refreshBoardHistoryIfNeeded must have run first.
+// empty unless the window holds at least one real change of the streamer's own board.
+export function getBoardHistoryLine(channel: string): string {
+  const entry = historyCache.get(channel.toLowerCase())
+  if (!entry?.frames) return ''
+  const elapsed = Date.now() - entry.at
+  // frames with none of the streamer's cards are the board being off screen, not sold
+  const boards = entry.frames
+    .map((f) => ({ titles: ownTitles(f.cards), ageMs: f.ageMs + elapsed }))
+    .filter((b) => b.titles.length > 0 && b.ageMs <= HISTORY_WINDOW_MS)
+    .filter((b, i, all) => i === 0 || b.titles.join('\u0000') !== all[i - 1].titles.join('\u0000'))
+  if (boards.length < 2) return ''
+  const changes = boards.slice(1).map((b, i) => `${humanizeDelta(b.ageMs)} ago ${changeList(boards[i].titles, b.titles)}`)
+  const previous = boards[boards.length - 2]
+  const prevCards = previous.titles.map((title) => ({ title }))
+  let line = `Board history for ${channel} (last ${HISTORY_WINDOW_MS / 60_000}m, oldest first): ${changes.slice(-HISTORY_CHANGES).join('; ')}.`
+  line += ` Board before the latest change: ${nameList(prevCards)}.`
+  line += ' Card names from overlay snapshots only — tiers/enchantments and anything between snapshots are NOT known.'
+  return line
+}
+
+export function __setBoardHistoryForTest(channel: string, frames: HistoryFrame[] | null): void {
+  if (frames === null) historyCache.delete(channel.toLowerCase())
+  else historyCache.set(channel.toLowerCase(), { at: Date.now(), frames })
+}
+
 export function __setBoardCacheForTest(channel: string, snap: BoardSnap | null): void {
   if (snap === null) cache.delete(channel.toLowerCase())
   else cache.set(channel.toLowerCase(), { at: Date.now(), snap })
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import { mkdtempSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { BazaarCard, CardCache } from '@bazaarinfo/shared'
+import { addSnapshot, archiveSnapshot, cardTransitions, diffCard, formatCardHistory, getHistory, snapshotOf } from './card-history'
+import type { HistoryArchive } from './card-history'
+
+function makeItem(overrides: Partial<BazaarCard> = {}): BazaarCard {
+  return {
+    Type: 'Item',
+    Title: 'Boomerang',
+    Size: 'Medium',
+    BaseTier: 'Bronze',
+    Tiers: ['Bronze', 'Silver', 'Gold', 'Diamond'],
+    Heroes: ['Pygmalien'],
+    Tags: [],
+    HiddenTags: [],
+    DisplayTags: [],
+    Tooltips: [{ text: 'Deal {DamageAmount} Damage', type: 'Active' }],
+    TooltipReplacements: { '{DamageAmount}': { Bronze: 10, Silver: 20, Gold: 40, Diamond: 80 } },
+    Enchantments: {},
+    Shortlink: 'https://bzdb.to/boomerang',
+    Cooldown: 5,
+    ...overrides,
+  }
+}
+
+function cache(items: BazaarCard[], fetchedAt = '2026-08-01T00:00:00Z'): CardCache {
+  return { items, skills: [], monsters: [], fetchedAt }
+}
+
+function archiveOf(...versions: [string, BazaarCard[]][]): HistoryArchive {
+  return versions.reduce<HistoryArchive>((a, [v, items]) => addSnapshot(a, snapshotOf(cache(items), v)), { snapshots: [] })
+}
+
+describe('addSnapshot', () => {
+  it('appends new versions oldest-first and caps the archive', () => {
+    let a: HistoryArchive = { snapshots: [] }
+    for (const v of ['1.0', '1.1', '1.2', '1.3']) a = addSnapshot(a, snapshotOf(cache([makeItem()]), v), 3)
+    expect(a.snapshots.map((s) => s.version)).toEqual(['1.1', '1.2', '1.3'])
+  })
+
+  it('replaces a same-version snapshot in place (the dump caught up)', () => {
+    const a = archiveOf(['1.0', [makeItem()]], ['1.1', [makeItem()]], ['1.0', [makeItem({ Cooldown: 4 })]])
+    expect(a.snapshots.map((s) => s.version)).toEqual(['1.0', '1.1'])
+    expect(a.snapshots[0].cards.Boomerang.Cooldown).toBe(4)
+  })
+})
+
+describe('diffCard', () => {
+  const base = snapshotOf(cache([makeItem()]), '1.0').cards.Boomerang
+
+  it('is empty for identical snapshots', () => {
+    expect(diffCard(base, base)).toEqual([])
+  })
+
+  it('labels a changed number by the tooltip words around it', () => {
+    const next = snapshotOf(cache([makeItem({ TooltipReplacements: { '{DamageAmount}': { Bronze: 10, Silver: 20, Gold: 30, Diamond: 60 } } })]), '1.1').cards.Boomerang
+    expect(diffCard(base, next)).toEqual(['Damage 10/20/40/80→10/20/30/60'])
+  })
+
+  it('reports cooldown, tier window and text reworks', () => {
+    const next = snapshotOf(cache([makeItem({
+      Cooldown: { Silver: 6, Gold: 5, Diamond: 4 },
+      Tiers: ['Silver', 'Gold', 'Diamond'],
+      Tooltips: [{ text: 'Deal {DamageAmount} Damage twice', type: 'Active' }],
+    })]), '1.1').cards.Boomerang
+    const out = diffCard(base, next)
+    expect(out).toContain('CD 5s→6/5/4s')
+    expect(out).toContain('tiers Bronze–Diamond→Silver–Diamond')
+    expect(out).toContain('text reworked')
+  })
+})
+
+describe('cardTransitions / formatCardHistory', () => {
+  it('walks newest first and stops at the patch the card arrived in', () => {
+    const a = archiveOf(
+      ['1.0', []],
+      ['1.1', [makeItem()]],
+      ['1.2', [makeItem({ Cooldown: 4 })]],
+      ['1.3', [makeItem({ Cooldown: 4 })]],
+    )
+    const t = cardTransitions(a, 'Boomerang', 5)
+    expect(t.map((x) => x.to)).toEqual(['1.3', '1.2', '1.1'])
+    expect(t[0].changes).toEqual([])
+    expect(t[1].changes).toEqual(['CD 5s→4s'])
+    expect(t[2].changes).toBeNull()
+    expect(formatCardHistory('Boomerang', a, 5)).toBe('[Boomerang history] 1.3: no change | 1.2: CD 5s→4s | 1.1: added')
+  })
+
+  it('respects the limit', () => {
+    const a = archiveOf(['1.0', [makeItem()]], ['1.1', [makeItem()]], ['1.2', [makeItem({ Cooldown: 3 })]])
+    expect(formatCardHistory('Boomerang', a, 1)).toBe('[Boomerang history] 1.2: CD 5s→3s')
+  })
+
+  it('is honest about a thin or empty archive', () => {
+    expect(formatCardHistory('Boomerang', { snapshots: [] }, 3)).toContain('no archived history')
+    expect(formatCardHistory('Boomerang', archiveOf(['1.0', [makeItem()]]), 3)).toContain('only 1.0 is archived')
+  })
+})
+
+describe('archiveSnapshot', () => {
+  let dir: string
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'card-history-'))
+    process.env.BAZAARINFO_HISTORY_CACHE = join(dir, 'card-history.json')
+  })
+  afterEach(() => {
+    delete process.env.BAZAARINFO_HISTORY_CACHE
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('persists snapshots and skips an unchanged rewrite', async () => {
+    expect(await archiveSnapshot(cache([makeItem()]), '1.0')).toBe(true)
+    expect(await archiveSnapshot(cache([makeItem()], '2026-08-02T00:00:00Z'), '1.0')).toBe(false)
+    expect(await archiveSnapshot(cache([makeItem({ Cooldown: 4 })]), '1.1')).toBe(true)
+    const onDisk = JSON.parse(readFileSync(join(dir, 'card-history.json'), 'utf8')) as HistoryArchive
+    expect(onDisk.snapshots.map((s) => s.version)).toEqual(['1.0', '1.1'])
+    expect(getHistory().snapshots).toHaveLength(2)
+  })
+})
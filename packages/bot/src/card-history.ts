@@ -0,0 +1,205 @@
+// per-patch card history.
+//
+// a refresh overwrites cache/items.json and content-diff.ts only ever sees the snapshot
+// right before it, so once new numbers land the old ones are gone — and "was X nerfed?"
+// is only answerable when the official notes happen to name the card (patch-notes.ts).
+// this module keeps a small archive of the stats that actually move on a balance pass
+// (tooltip numbers, cooldown, tier window), one snapshot per patch version, and diffs a
+// single card across them on demand.
+//
+// keyed by the bazaardb patch version (patch.ts). a refresh inside the same patch
+// REPLACES that version's snapshot: the dump lags a patch drop, so the first refresh
+// under a new version can still carry the old numbers — latest-wins heals that once
+// the dump catches up, while the previous version's snapshot is never touched.
+
+import { existsSync, readFileSync } from 'fs'
+import { resolve } from 'path'
+import type { BazaarCard, CardCache, ReplacementValue, TierName } from '@bazaarinfo/shared'
+import { TIER_ORDER, truncate } from '@bazaarinfo/shared'
+import { log } from './log'
+import { writeAtomic } from './fs-util'
+
+const CACHE_DEFAULT = resolve(import.meta.dir, '../../../cache/card-history.json')
+// ~0.5MB per snapshot; a dozen patches is months of history at a few MB on disk
+const MAX_SNAPSHOTS = 12
+
+// resolved fresh each call so tests can point at a scratch file (mirrors patch.ts)
+function cachePath(): string {
+  return process.env.BAZAARINFO_HISTORY_CACHE || CACHE_DEFAULT
+}
+
+export interface CardSnapshot {
+  Tiers: TierName[]
+  Cooldown?: BazaarCard['Cooldown']
+  TooltipReplacements: Record<string, ReplacementValue>
+  /** raw tooltip text — labels a changed placeholder and flags a rework */
+  Tooltips: string[]
+}
+
+export interface PatchSnapshot {
+  version: string
+  fetchedAt: string
+  cards: Record<string, CardSnapshot>
+}
+
+/** oldest first */
+export interface HistoryArchive {
+  snapshots: PatchSnapshot[]
+}
+
+export interface CardTransition {
+  from: string
+  to: string
+  /** null when the card didn't exist yet in `from` */
+  changes: string[] | null
+}
+
+// --- pure ---------------------------------------------------------------------
+
+export function snapshotOf(cache: CardCache, version: string): PatchSnapshot {
+  const cards: Record<string, CardSnapshot> = {}
+  // skills first so an item wins a title collision, same priority as the store's title map
+  for (const c of [...(cache.skills ?? []), ...cache.items]) {
+    cards[c.Title] = {
+      Tiers: c.Tiers,
+      ...(c.Cooldown != null ? { Cooldown: c.Cooldown } : {}),
+      TooltipReplacements: c.TooltipReplacements ?? {},
+      Tooltips: c.Tooltips.map((t) => t.text),
+    }
+  }
+  return { version, fetchedAt: cache.fetchedAt, cards }
+}
+
+/** same-version snapshot is replaced in place; a new version appends and the oldest falls off */
+export function addSnapshot(archive: HistoryArchive, snap: PatchSnapshot, max = MAX_SNAPSHOTS): HistoryArchive {
+  const idx = archive.snapshots.findIndex((s) => s.version === snap.version)
+  const snapshots = idx === -1
+    ? [...archive.snapshots, snap]
+    : archive.snapshots.map((s, i) => (i === idx ? snap : s))
+  return { snapshots: snapshots.slice(-max) }
+}
+
+function valueText(v: ReplacementValue | number | Partial<Record<TierName, number>> | undefined): string {
+  if (v == null) return '?'
+  if (typeof v === 'number') return String(v)
+  if ('Fixed' in v) return String(v.Fixed)
+  const vals = TIER_ORDER.map((t) => (v as Record<string, number>)[t]).filter((n) => n != null)
+  return vals.length ? vals.join('/') : '?'
+}
+
+function tierRange(tiers: TierName[]): string {
+  if (!tiers.length) return '?'
+  const sorted = TIER_ORDER.filter((t) => tiers.includes(t))
+  return sorted.length > 1 ? `${sorted[0]}–${sorted[sorted.length - 1]}` : sorted[0] ?? '?'
+}
+
+// "{ability.0}" means nothing to chat — name a changed number by the words that follow it
+// in the tooltip ("gains {ability.0}% Crit Chance" → "Crit Chance"), else by what precedes it.
+function placeholderLabel(key: string, tooltips: string[]): string {
+  for (const text of tooltips) {
+    const idx = text.indexOf(key)
+    if (idx === -1) continue
+    const after = text.slice(idx + key.length).replace(/^[%\s]+/, '').split(/[\s,.;]+/).filter(Boolean)
+    const words = after.filter((w) => !/[{}]/.test(w)).slice(0, 2)
+    if (words.length && !/^(?:to|for|and|the|a|an|of|if|times?)$/i.test(words[0])) return words.join(' ')
+    const before = text.slice(0, idx).split(/\s+/).filter((w) => w && !/[{}]/.test(w)).slice(-2)
+    if (before.length) return before.join(' ')
+  }
+  return key.replace(/[{}]/g, '')
+}
+
+export function diffCard(prev: CardSnapshot, next: CardSnapshot): string[] {
+  const out: string[] = []
+  if (prev.Tiers.join() !== next.Tiers.join()) out.push(`tiers ${tierRange(prev.Tiers)}→${tierRange(next.Tiers)}`)
+  const cdPrev = prev.Cooldown != null ? valueText(prev.Cooldown) : null
+  const cdNext = next.Cooldown != null ? valueText(next.Cooldown) : null
+  if (cdPrev !== cdNext) {
+    if (cdPrev && cdNext) out.push(`CD ${cdPrev}s→${cdNext}s`)
+    else if (cdNext) out.push(`gained CD ${cdNext}s`)
+    else out.push('lost its cooldown')
+  }
+  const keys = new Set([...Object.keys(prev.TooltipReplacements), ...Object.keys(next.TooltipReplacements)])
+  for (const key of keys) {
+    const a = prev.TooltipReplacements[key]
+    const b = next.TooltipReplacements[key]
+    // a placeholder that only exists on one side belongs to a rework, reported below
+    if (!a || !b) continue
+    const va = valueText(a)
+    const vb = valueText(b)
+    if (va !== vb) out.push(`${placeholderLabel(key, next.Tooltips)} ${va}→${vb}`)
+  }
+  if (prev.Tooltips.join('\n') !== next.Tooltips.join('\n')) out.push('text reworked')
+  return out
+}
+
+/** newest transition first, at most `limit` of them */
+export function cardTransitions(archive: HistoryArchive, title: string, limit: number): CardTransition[] {
+  const snaps = archive.snapshots
+  const out: CardTransition[] = []
+  for (let i = snaps.length - 1; i > 0 && out.length < limit; i--) {
+    const next = snaps[i].cards[title]
+    if (!next) continue
+    const prev = snaps[i - 1].cards[title]
+    out.push({ from: snaps[i - 1].version, to: snaps[i].version, changes: prev ? diffCard(prev, next) : null })
+    // nothing older is worth walking past the patch the card arrived in
+    if (!prev) break
+  }
+  return out
+}
+
+export function formatCardHistory(title: string, archive: HistoryArchive, limit: number): string {
+  const present = archive.snapshots.filter((s) => s.cards[title])
+  if (!present.length) return `no archived history for ${title} yet`
+  if (archive.snapshots.length < 2) {
+    return `only ${archive.snapshots[0].version} is archived so far — ${title}'s history builds up as patches land`
+  }
+  const transitions = cardTransitions(archive, title, limit)
+  if (!transitions.length) return `${title}: new in ${present[present.length - 1].version}, nothing older archived`
+  const parts = transitions.map((t) => {
+    if (!t.changes) return `${t.to}: added`
+    return `${t.to}: ${t.changes.length ? t.changes.join(', ') : 'no change'}`
+  })
+  return truncate(`[${title} history] ${parts.join(' | ')}`)
+}
+
+// --- io -------------------------------------------------------------------------
+
+let archive: HistoryArchive | null = null
+let loadedFrom = ''
+
+/** synchronous, memoized read. a missing or corrupt file is an empty archive, never a throw. */
+export function getHistory(): HistoryArchive {
+  const path = cachePath()
+  if (archive && loadedFrom === path) return archive
+  archive = { snapshots: [] }
+  loadedFrom = path
+  try {
+    if (existsSync(path)) {
+      const parsed = JSON.parse(readFileSync(path, 'utf8')) as HistoryArchive
+      if (Array.isArray(parsed?.snapshots)) archive = { snapshots: parsed.snapshots }
+    }
+  } catch (e) {
+    log(`history: archive read failed: ${e}`)
+  }
+  return archive
+}
+
+/**
+ * record `cache` as the snapshot for `version`. a no-op when that version is already
+ * archived with identical numbers — the 15-minute refresh cycle must not rewrite a few MB
+ * of json for nothing. fail-soft: a write error is logged and the in-memory copy kept.
+ */
+export async function archiveSnapshot(cache: CardCache, version: string): Promise<boolean> {
+  const current = getHistory()
+  const snap = snapshotOf(cache, version)
+  const existing = current.snapshots.find((s) => s.version === version)
+  if (existing && JSON.stringify(existing.cards) === JSON.stringify(snap.cards)) return false
+  archive = addSnapshot(current, snap)
+  try {
+    await writeAtomic(cachePath(), JSON.stringify(archive), 0o644)
+  } catch (e) {
+    log(`history: archive write failed: ${e}`)
+  }
+  log(`history: ${existing ? 'updated' : 'archived'} ${version} (${Object.keys(snap.cards).length} cards)`)
+  return true
+}
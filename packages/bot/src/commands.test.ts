@@ -1,5 +1,9 @@
 import { describe, expect, it, mock, beforeEach, afterEach } from 'bun:test'
 import type { BazaarCard, TierName, Monster } from '@bazaarinfo/shared'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { archiveSnapshot } from './card-history'
 
 // AI trivia ships OFF (see aiTriviaEnabled in ai-cache). The suite below covers the
 // routing INTO the generators, which only runs with the switch on — the off behaviour
@@ -29,6 +33,14 @@ const mockGetHeroNames = mock<() => string[]>(() => [])
 const mockGetTagNames = mock<() => string[]>(() => [])
 const mockGetDerivedEnchantDef = mock<(name: string) => string | null>(() => null)
 const mockIsDynamicGameTerm = mock<(query: string) => boolean>(() => false)
+const mockSearchByEffect = mock<(query: string, hero?: string, limit?: number, matchAll?: boolean) => BazaarCard[]>(() => [])
+const mockFindEnchantment = mock<(query: string) => string | undefined>(() => undefined)
+const mockByEnchantment = mock<(name: string) => BazaarCard[]>(() => [])
+const mockExactLocalized = mock<(query: string, locale: string) => BazaarCard | undefined>(() => undefined)
+const mockSearchLocalized = mock<(query: string, locale: string) => BazaarCard | undefined>(() => undefined)
+const mockLocalize = mock<(card: BazaarCard, locale: string) => BazaarCard>((card) => card)
+const mockGetLocales = mock<() => string[]>(() => ['en'])
+const mockSynergiesOf = mock<(card: BazaarCard, hero?: string) => { card: BazaarCard; via: string[]; weight: number }[]>(() => [])
 
 mock.module('./store', () => ({
   exact: mockExact,
@@ -53,6 +65,15 @@ mock.module('./store', () => ({
   monsterSuggest: mock(() => []),
   getHeroNames: mockGetHeroNames,
   getTagNames: mockGetTagNames,
+  searchByEffect: mockSearchByEffect,
+  findEnchantment: mockFindEnchantment,
+  byEnchantment: mockByEnchantment,
+  synergiesOf: mockSynergiesOf,
+  DEFAULT_LOCALE: 'en',
+  exactLocalized: mockExactLocalized,
+  searchLocalized: mockSearchLocalized,
+  localize: mockLocalize,
+  getLocales: mockGetLocales,
 }))
 
 // --- mock db ---
@@ -70,6 +91,8 @@ const mockGetLastTriviaResult = mock<(channel: string) => { question: string; an
 const mockUserChattedSince = mock<(user: string, channel: string, since?: string) => boolean>(() => false)
 
 const mockGetUserStats = mock<(u: string, ch?: string) => unknown>(() => null)
+const mockGetChannelLocale = mock<(channel: string) => string>(() => 'en')
+const mockSetChannelLocale = mock<(channel: string, locale: string) => void>(() => {})
 mock.module('./db', () => ({
   logCommand: mockLogCommand,
   getOrCreateUser: mockGetOrCreateUser,
@@ -89,6 +112,8 @@ mock.module('./db', () => ({
   recordTriviaAttempt: mock(() => {}),
   resetTriviaStreak: mock(() => {}),
   getDb: mock(() => null),
+  getChannelLocale: mockGetChannelLocale,
+  setChannelLocale: mockSetChannelLocale,
 }))
 
 // --- mock dnd ---
@@ -131,6 +156,11 @@ const mockIsGameActive = mock<(ch: string) => boolean>(() => false)
 const mockStartKrippTrivia = mock<(ch: string) => string | null>(() => null)
 const mockStartFallbackTrivia = mock<(ch: string) => string | null>(() => 'Trivia! fallback question (30s)')
 const mockStartQuizCultureTrivia = mock<(ch: string) => string | null>(() => 'Trivia! quiz culture question (30s)')
+const mockStartTournament = mock<(ch: string, rounds: number, by: string | null) => string>(() => 'Trivia tournament! 5 rounds')
+const mockSkipTrivia = mock<(ch: string, user?: string, byMod?: boolean) => string | null>(() => null)
+const mockIsTournamentActive = mock<(ch: string) => boolean>(() => false)
+const mockStartTeamTournament = mock<(ch: string, rounds: number, by: string | null, teams: string[] | 'subs') => string>(() => 'Team trivia!')
+const mockJoinTeam = mock<(ch: string, user: string, team: string) => string>(() => 'chatter joined red')
 mock.module('./trivia', () => ({
   startTrivia: mock(() => 'Trivia! test question (30s to answer)'),
   getTriviaScore: mock(() => 'no trivia scores yet'),
@@ -144,7 +174,7 @@ mock.module('./trivia', () => ({
   looksLikeAnswer: mock(() => true),
   resetForTest: mock(() => {}),
   getActiveGameForTest: mock(() => undefined),
-  skipTrivia: mock(() => null),
+  skipTrivia: mockSkipTrivia,
   startCustomTrivia: mock(() => 'Trivia! custom question (30s)'),
   recentQuestionList: mock(() => [] as string[]),
   isRecentQuestion: mock(() => false),
@@ -154,6 +184,26 @@ mock.module('./trivia', () => ({
   startFallbackTrivia: mockStartFallbackTrivia,
   startQuizCultureTrivia: mockStartQuizCultureTrivia,
   setRoundEndHook: mock(() => {}),
+  startTournament: mockStartTournament,
+  stopTournament: mock(() => null),
+  tournamentStatus: mock(() => 'no tournaments here yet'),
+  isTournamentActive: mockIsTournamentActive,
+  MIN_MATCH_ROUNDS: 3,
+  MAX_MATCH_ROUNDS: 20,
+  startTeamTournament: mockStartTeamTournament,
+  joinTeam: mockJoinTeam,
+  MIN_TEAMS: 2,
+  MAX_TEAMS: 4,
+}))
+
+const mockSetSeasonMode = mock<(ch: string, mode: string) => string>(() => 'trivia seasons are now one per game patch')
+mock.module('./trivia-seasons', () => ({
+  SEASON_MODES: ['monthly', 'patch'],
+  currentSeason: mock(() => null),
+  setSeasonMode: mockSetSeasonMode,
+  formatSeasonTop: mock(() => 'season 2026-10 (since Oct 1): 1. newbie (4pts)'),
+  formatLastSeason: mock(() => 'last season (2026-09): champion vet with 40pts'),
+  formatChampions: mock(() => 'season champions: 2026-09: vet (40pts)'),
 }))
 
 // custom-topic trivia generator — mocked so tests never hit the API. default returns
@@ -299,6 +349,25 @@ beforeEach(() => {
   mockFindExactHero.mockImplementation(() => undefined)
   mockFindTagName.mockImplementation(() => undefined)
   mockSuggest.mockImplementation(() => [])
+  mockSearchByEffect.mockReset()
+  mockSearchByEffect.mockImplementation(() => [])
+  mockFindEnchantment.mockReset()
+  mockFindEnchantment.mockImplementation(() => undefined)
+  mockByEnchantment.mockReset()
+  mockByEnchantment.mockImplementation(() => [])
+  mockSynergiesOf.mockReset()
+  mockSynergiesOf.mockImplementation(() => [])
+  mockExactLocalized.mockReset()
+  mockExactLocalized.mockImplementation(() => undefined)
+  mockSearchLocalized.mockReset()
+  mockSearchLocalized.mockImplementation(() => undefined)
+  mockLocalize.mockReset()
+  mockLocalize.mockImplementation((card) => card)
+  mockGetLocales.mockReset()
+  mockGetLocales.mockImplementation(() => ['en'])
+  mockGetChannelLocale.mockReset()
+  mockGetChannelLocale.mockImplementation(() => 'en')
+  mockSetChannelLocale.mockReset()
   mockAiRespond.mockReset()
   mockAiRespond.mockImplementation(() => null)
   mockGetAiCooldown.mockReset()
@@ -1058,14 +1127,50 @@ describe('!b hero', () => {
     expect(await handleCommand('!b Hero Pygmalien')).toContain('Boomerang')
   })
 
-  it('truncates long hero output', async () => {
+  it('pages long hero output with a "+N more" footer instead of a bare cut', async () => {
     const cards = Array.from({ length: 100 }, (_, i) =>
       makeCard({ Title: 'Item' + 'X'.repeat(20) + i }),
     )
     mockByHero.mockImplementation(() => cards)
     const result = (await handleCommand('!b hero pyg'))!
     expect(result.length).toBeLessThanOrEqual(480)
-    expect(result).toEndWith('...')
+    expect(result).toMatch(/\| \+\d+ more — page 2$/)
+    expect(result).toContain('100 items · p1/')
+  })
+
+  it('page N continues exactly where page N-1 stopped', async () => {
+    const cards = Array.from({ length: 100 }, (_, i) =>
+      makeCard({ Title: `Item${String(i).padStart(3, '0')}${'X'.repeat(20)}` }),
+    )
+    mockByHero.mockImplementation(() => cards)
+    const titlesOf = (r: string) => r.split(': ')[1].split(' | ')[0].split(', ').map((t) => t.replace(/^\p{Extended_Pictographic}/u, ''))
+    const p1 = titlesOf((await handleCommand('!b hero pyg'))!)
+    const p2 = titlesOf((await handleCommand('!b hero pyg page 2'))!)
+    expect(p2[0]).toBe(cards[p1.length].Title)
+    // same ask, same page — the order is stable
+    expect(titlesOf((await handleCommand('!b hero pyg p2'))!)).toEqual(p2)
+  })
+
+  it('sorts by base tier, then title', async () => {
+    mockByHero.mockImplementation(() => [
+      makeCard({ Title: 'Zebra' }),
+      makeCard({ Title: 'Apple', BaseTier: 'Gold' }),
+      makeCard({ Title: 'Mango' }),
+    ])
+    expect(await handleCommand('!b hero pyg')).toBe('[pyg] 3 items: 🟤Mango, Zebra, 🟡Apple')
+  })
+
+  it('filters by size, tag and tier', async () => {
+    const small = makeCard({ Title: 'Pebble', Size: 'Small' })
+    const gold = makeCard({ Title: 'Crown', Tiers: ['Gold', 'Diamond'], BaseTier: 'Gold' })
+    mockByHero.mockImplementation(() => [boomerang, small, gold])
+    mockFindHeroName.mockImplementation(() => 'Pygmalien')
+    expect(await handleCommand('!b hero pyg size:s')).toBe('[Pygmalien · Small] 1 item: 🟤Pebble')
+    expect(await handleCommand('!b hero pyg tier:diamond')).toContain('3 items')
+    expect(await handleCommand('!b hero pyg tier:legendary')).toBe('no Pygmalien · Legendary items')
+    mockFindTagName.mockImplementation(() => 'Weapon')
+    mockByTag.mockImplementation(() => [gold])
+    expect(await handleCommand('!b hero pyg tag:weapon')).toBe('[Pygmalien · Weapon] 1 item: 🟡Crown')
   })
 })
 
@@ -1742,6 +1847,442 @@ describe('!b skill', () => {
   })
 })
 
+// ---------------------------------------------------------------------------
+// !b <item> ladder — every tier on one line
+// ---------------------------------------------------------------------------
+describe('!b <item> ladder', () => {
+  it('parseArgs pulls the ladder word from any position', () => {
+    expect(parseArgs(['boomerang', 'ladder'])).toEqual({ item: 'boomerang', tier: undefined, enchant: undefined, ladder: true })
+    expect(parseArgs(['ladder', 'gold', 'boomerang']).ladder).toBe(true)
+    expect(parseArgs(['ladder']).ladder).toBeUndefined()
+  })
+
+  it('renders the ladder instead of one tier', async () => {
+    const scaling = makeCard({ TooltipReplacements: { '{DamageAmount}': { Bronze: 10, Silver: 20, Gold: 40, Diamond: 80 } } })
+    mockExact.mockImplementation((n: string) => (n.toLowerCase() === 'boomerang' ? scaling : undefined))
+    const result = await handleCommand('!b boomerang gold ladder')
+    expect(result).toContain('Deal Bronze 10 → Silver 20 → Gold 40 → Diamond 80 Damage')
+    expect(mockAiRespond).not.toHaveBeenCalled()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// enchant matrix — !b <item> enchants and !b enchant <name> items
+// ---------------------------------------------------------------------------
+describe('enchant matrix', () => {
+  const twoEnchants = makeCard({
+    Enchantments: {
+      ...makeCard().Enchantments,
+      Icy: { tags: ['Freeze'], tooltips: [{ text: 'Freeze an item for {FreezeAmount} second(s)', type: 'Active' }], tooltipReplacements: { '{FreezeAmount}': { Fixed: 1 } } },
+    },
+  })
+
+  it('parseArgs pulls the enchants word but not a bare "enchants"', () => {
+    expect(parseArgs(['boomerang', 'enchants']).enchants).toBe(true)
+    expect(parseArgs(['enchantments', 'boomerang']).item).toBe('boomerang')
+    expect(parseArgs(['enchants']).enchants).toBeUndefined()
+  })
+
+  it('lists every variant of an item at the asked tier', async () => {
+    mockExact.mockImplementation((n: string) => (n.toLowerCase() === 'boomerang' ? twoEnchants : undefined))
+    const result = await handleCommand('!b boomerang gold enchants')
+    expect(result).toContain('[Boomerang enchants]')
+    expect(result).toContain('Fiery: Burn for 15')
+    expect(result).toContain('Icy: Freeze an item for 1s')
+    expect(result.indexOf('Fiery')).toBeLessThan(result.indexOf('Icy'))
+  })
+
+  it('defaults to the base tier', async () => {
+    mockExact.mockImplementation((n: string) => (n.toLowerCase() === 'boomerang' ? twoEnchants : undefined))
+    expect(await handleCommand('!b boomerang enchants')).toContain('Fiery: Burn for 5')
+  })
+
+  it('reverse index: items that take an enchant, scoped by hero', async () => {
+    const torch = makeCard({ Title: 'Torch', Heroes: ['Vanessa'] })
+    mockFindEnchantment.mockImplementation((q: string) => (q === 'fiery' ? 'fiery' : undefined))
+    mockByEnchantment.mockImplementation(() => [torch, boomerang])
+    mockFindHeroName.mockImplementation((q: string) => (q.toLowerCase() === 'vanessa' ? 'Vanessa' : undefined))
+    expect(await handleCommand('!b enchant fiery items')).toContain('[Fiery] 2 items')
+    const scoped = await handleCommand('!b enchant fiery items hero:vanessa')
+    expect(scoped).toContain('[Fiery · Vanessa] 1 item:')
+    expect(scoped).toContain('Torch')
+    expect(scoped).not.toContain('Boomerang')
+  })
+
+  it('unknown enchant lists the roster', async () => {
+    mockGetEnchantments.mockImplementation(() => ['fiery', 'icy'])
+    const result = await handleCommand('!b enchant soggy items')
+    expect(result).toContain('no enchantment soggy')
+    expect(result).toContain('Fiery, Icy')
+    expect(mockByEnchantment).not.toHaveBeenCalled()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// !b synergy <item> — partners off the store's tag graph
+// ---------------------------------------------------------------------------
+describe('!b synergy', () => {
+  const torch = makeCard({ Title: 'Torch', Heroes: ['Pygmalien'] })
+  const ring = makeCard({ Title: 'Ring', Heroes: ['Common'] })
+
+  it('lists partners strongest first, citing the linking tags', async () => {
+    mockExact.mockImplementation((n: string) => (n.toLowerCase() === 'boomerang' ? boomerang : undefined))
+    mockSynergiesOf.mockImplementation(() => [
+      { card: torch, via: ['Burn', 'Weapon'], weight: 2 },
+      { card: ring, via: ['Damage'], weight: 1 },
+    ])
+    const result = await handleCommand('!b synergy boomerang')
+    expect(result).toBe('[Boomerang synergy · Pygmalien] Torch [Burn/Weapon], Ring [Damage]')
+  })
+
+  it('passes a hero filter through to the graph', async () => {
+    mockExact.mockImplementation((n: string) => (n.toLowerCase() === 'ring' ? ring : undefined))
+    mockFindHeroName.mockImplementation((q: string) => (q.toLowerCase() === 'vanessa' ? 'Vanessa' : undefined))
+    const result = await handleCommand('!b synergy ring hero:vanessa')
+    expect(mockSynergiesOf).toHaveBeenCalledWith(ring, 'Vanessa')
+    expect(result).toContain('[Ring synergy · Vanessa] nothing in this pool')
+  })
+
+  it('caps the list and counts the rest', async () => {
+    mockExact.mockImplementation(() => boomerang)
+    mockSynergiesOf.mockImplementation(() => Array.from({ length: 11 }, (_, i) => ({ card: makeCard({ Title: `Card ${i}` }), via: ['Burn'], weight: 1 })))
+    expect(await handleCommand('!b synergy boomerang')).toEndWith('Card 7 [Burn] +3 more')
+  })
+
+  it('unknown item suggests titles', async () => {
+    mockSuggest.mockImplementation(() => ['Boomerang'])
+    expect(await handleCommand('!b synergy boomrang')).toContain('did you mean: Boomerang')
+    expect(await handleCommand('!b synergy')).toContain('usage: !b synergy')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// !b trivia tournament
+// ---------------------------------------------------------------------------
+describe('trivia tournament', () => {
+  const ctx = { user: 'chatter', channel: 'stream' }
+
+  it('anyone reads the standings, only mods start one', async () => {
+    mockStartTournament.mockClear()
+    expect(await handleCommand('!b trivia tournament', ctx)).toBe('no tournaments here yet')
+    expect(await handleCommand('!b trivia tournament 5', ctx)).toContain('only mods')
+    expect(mockStartTournament).not.toHaveBeenCalled()
+    expect(await handleCommand('!b trivia tournament 5 rounds', { ...ctx, isMod: true })).toBe('Trivia tournament! 5 rounds')
+    expect(mockStartTournament).toHaveBeenCalledWith('stream', 5, 'chatter')
+  })
+
+  it('anything else gets the usage line, not a custom topic round', async () => {
+    expect(await handleCommand('!b trivia tournament soon', { ...ctx, isMod: true })).toContain('usage: !b trivia tournament <3-20 rounds>')
+  })
+
+  it('mods start a team match with named teams or subs vs non-subs', async () => {
+    mockStartTeamTournament.mockClear()
+    expect(await handleCommand('!b trivia teams 5 red blue', ctx)).toContain('only mods')
+    expect(mockStartTeamTournament).not.toHaveBeenCalled()
+    await handleCommand('!b trivia teams 5 rounds Red vs Blue, green', { ...ctx, isMod: true })
+    expect(mockStartTeamTournament).toHaveBeenCalledWith('stream', 5, 'chatter', ['red', 'blue', 'green'])
+    await handleCommand('!b trivia teams 8 subs', { ...ctx, isMod: true })
+    expect(mockStartTeamTournament).toHaveBeenLastCalledWith('stream', 8, 'chatter', 'subs')
+    expect(await handleCommand('!b trivia teams', ctx)).toBe('no tournaments here yet')
+  })
+
+  it('subs and VIPs are not mods: they can neither run a match nor skip its rounds', async () => {
+    mockStartTournament.mockClear()
+    mockStartTeamTournament.mockClear()
+    const vip = { ...ctx, privileged: true }
+    expect(await handleCommand('!b trivia tournament 5', vip)).toContain('only mods')
+    expect(await handleCommand('!b trivia teams 5 red blue', vip)).toContain('only mods')
+    expect(await handleCommand('!b trivia tournament stop', vip)).toContain('only mods')
+    expect(mockStartTournament).not.toHaveBeenCalled()
+    expect(mockStartTeamTournament).not.toHaveBeenCalled()
+
+    mockSkipTrivia.mockClear()
+    mockIsTournamentActive.mockImplementation(() => true)
+    try {
+      expect(await handleCommand('!b trivia skip', vip)).toContain('only mods can skip')
+      expect(await handleCommand('!b skip', vip)).toContain('only mods can skip')
+      expect(mockSkipTrivia).not.toHaveBeenCalled()
+      await handleCommand('!b trivia skip', { ...ctx, isMod: true })
+      expect(mockSkipTrivia).toHaveBeenCalledWith('stream', 'chatter', true)
+    } finally {
+      mockIsTournamentActive.mockImplementation(() => false)
+    }
+  })
+
+  it('anyone joins a team', async () => {
+    mockJoinTeam.mockClear()
+    expect(await handleCommand('!b trivia join red', ctx)).toBe('chatter joined red')
+    expect(mockJoinTeam).toHaveBeenCalledWith('stream', 'chatter', 'red')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// !b top season|alltime|last|champions
+// ---------------------------------------------------------------------------
+describe('trivia season boards', () => {
+  const ctx = { user: 'chatter', channel: 'stream' }
+
+  it('routes each board and leaves bare !b top alone', async () => {
+    expect(await handleCommand('!b top season', ctx)).toStartWith('season 2026-10')
+    expect(await handleCommand('!b top last', ctx)).toStartWith('last season (2026-09)')
+    expect(await handleCommand('!b top champions', ctx)).toStartWith('season champions:')
+    expect(await handleCommand('!b top alltime', ctx)).toBe('no trivia scores yet')
+    expect(await handleCommand('!b top', ctx)).toBe('no activity yet')
+  })
+
+  it('only mods change the season length, and only to a real mode', async () => {
+    mockSetSeasonMode.mockClear()
+    expect(await handleCommand('!b top season patch', ctx)).toContain('only mods')
+    expect(await handleCommand('!b top season weekly', { ...ctx, isMod: true })).toBe('seasons can be monthly or patch')
+    expect(mockSetSeasonMode).not.toHaveBeenCalled()
+    expect(await handleCommand('!b top season patch', { ...ctx, isMod: true })).toBe('trivia seasons are now one per game patch')
+    expect(mockSetSeasonMode).toHaveBeenCalledWith('stream', 'patch')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// !b lang + localized lookups
+// ---------------------------------------------------------------------------
+describe('card language', () => {
+  const ctx = { user: 'chatter', channel: 'stream' }
+  const bumerangue = { ...boomerang, Title: 'Bumerangue', Tooltips: [{ text: 'Cause {DamageAmount} de dano', type: 'Active' }] }
+
+  it('reports the channel setting and what is available', async () => {
+    mockGetLocales.mockImplementation(() => ['en', 'es', 'pt'])
+    mockGetChannelLocale.mockImplementation(() => 'pt')
+    expect(await handleCommand('!b lang', ctx)).toBe('card language: pt (available: en, es, pt)')
+  })
+
+  it('only mods set it, by code or by name', async () => {
+    mockGetLocales.mockImplementation(() => ['en', 'es', 'pt'])
+    expect(await handleCommand('!b lang pt', ctx)).toContain('only mods')
+    expect(mockSetChannelLocale).not.toHaveBeenCalled()
+    expect(await handleCommand('!b lang español', { ...ctx, isMod: true })).toBe('card language set to es')
+    expect(mockSetChannelLocale).toHaveBeenCalledWith('stream', 'es')
+    expect(await handleCommand('!b lang klingon', { ...ctx, isMod: true })).toContain('no card data for klingon')
+  })
+
+  it('a localized name resolves to the canonical card and answers in that language', async () => {
+    mockGetChannelLocale.mockImplementation(() => 'pt')
+    mockExactLocalized.mockImplementation((q: string, l: string) => (l === 'pt' && q === 'bumerangue' ? boomerang : undefined))
+    mockLocalize.mockImplementation((c: BazaarCard, l: string) => (l === 'pt' && c === boomerang ? bumerangue : c))
+    const result = await handleCommand('!b bumerangue', ctx)
+    expect(result).toContain('Bumerangue')
+    expect(result).toContain('Cause 60 de dano')
+    expect(mockLogCommand.mock.calls.at(-1)).toContain('Boomerang')
+  })
+
+  it('a fuzzy localized hit still has to look like what chat typed', async () => {
+    mockGetChannelLocale.mockImplementation(() => 'pt')
+    mockSearchLocalized.mockImplementation(() => boomerang)
+    mockLocalize.mockImplementation((c: BazaarCard, l: string) => (l === 'pt' && c === boomerang ? bumerangue : c))
+    expect(await handleCommand('!b bumerangu', ctx)).toContain('Bumerangue')
+    // a near name is not an exact one: a sentence that merely scores close falls through
+    mockAiRespond.mockResolvedValueOnce({ text: 'bora', mentions: [] })
+    expect(String(await handleCommand('!b quero jogar hoje', ctx))).not.toContain('Bumerangue')
+  })
+
+  it('an English channel never consults the tables', async () => {
+    mockExact.mockImplementation((n: string) => (n.toLowerCase() === 'boomerang' ? boomerang : undefined))
+    await handleCommand('!b boomerang', ctx)
+    expect(mockExactLocalized).not.toHaveBeenCalled()
+    expect(mockSearchLocalized).not.toHaveBeenCalled()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// !b find <effect> [filters] — effect search with hero/size/tier/tag filters
+// ---------------------------------------------------------------------------
+describe('!b find', () => {
+  const torch = makeCard({ Title: 'Torch', Size: 'Small', Heroes: ['Vanessa'], Tiers: ['Bronze', 'Silver'] })
+  const cannon = makeCard({ Title: 'Cannon', Size: 'Medium', Heroes: ['Vanessa'], Tiers: ['Silver', 'Gold'] })
+  const burnSkill = makeCard({ Title: 'Burn Skill', Type: 'Skill', Heroes: ['Vanessa'] })
+
+  beforeEach(() => {
+    mockSearchByEffect.mockImplementation(() => [torch, cannon, burnSkill])
+    mockFindHeroName.mockImplementation((q: string) => (q.toLowerCase() === 'vanessa' ? 'Vanessa' : undefined))
+  })
+
+  it('lists matching items with a count, skills excluded', async () => {
+    const result = await handleCommand('!b find burn hero:vanessa')
+    expect(result).toBe('[burn · Vanessa] 2 items: Cannon, Torch')
+    expect(mockSearchByEffect).toHaveBeenCalledWith('burn', 'Vanessa', Infinity, true)
+    expect(mockAiRespond).not.toHaveBeenCalled()
+  })
+
+  it('filters by size and tier', async () => {
+    expect(await handleCommand('!b find size:s burn')).toBe('[burn · Small] 1 item: Torch')
+    expect(await handleCommand('!b find burn tier:gold')).toBe('[burn · Gold] 1 item: Cannon')
+  })
+
+  it('filters by tag through the tag index', async () => {
+    mockFindTagName.mockImplementation(() => 'Weapon')
+    mockByTag.mockImplementation(() => [cannon])
+    expect(await handleCommand('!b find burn tag:weapon')).toBe('[burn · Weapon] 1 item: Cannon')
+  })
+
+  it('rejects an unknown filter value instead of ignoring it', async () => {
+    expect(await handleCommand('!b find burn hero:nobody')).toBe('unknown hero nobody')
+    expect(await handleCommand('!b find burn size:huge')).toContain('unknown size huge')
+    expect(await handleCommand('!b find burn tier:mythic')).toContain('unknown tier mythic')
+  })
+
+  it('says so when nothing matches', async () => {
+    mockSearchByEffect.mockImplementation(() => [])
+    expect(await handleCommand('!b find freeze hero:vanessa')).toBe('no items match freeze · Vanessa')
+  })
+
+  it('prints usage without an effect', async () => {
+    expect(await handleCommand('!b find')).toStartWith('usage: !b find <effect>')
+    expect(await handleCommand('!b find hero:vanessa')).toStartWith('usage: !b find <effect>')
+  })
+
+  it('leaves "find me ..." questions alone', async () => {
+    await handleCommand('!b find me a burn item')
+    expect(mockSearchByEffect).not.toHaveBeenCalled()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// !b counter <monster> [hero] — routing; the advice itself is covered in counter.test.ts
+// ---------------------------------------------------------------------------
+describe('!b counter', () => {
+  const kimono: Monster = {
+    Type: 'CombatEncounter', Title: 'Haunted Kimono',
+    Size: 'Medium', Tags: [], DisplayTags: [], HiddenTags: [],
+    Heroes: [],
+    MonsterMetadata: { available: 'Day 1', day: 1, health: 100, board: [], skills: [] },
+    Shortlink: 'https://bzdb.to/kimono',
+  }
+
+  beforeEach(() => {
+    mockFindMonster.mockImplementation((q) => (q === 'haunted kimono' ? kimono : undefined))
+    mockFindExactHero.mockImplementation((q) => (q.toLowerCase() === 'vanessa' ? 'Vanessa' : undefined))
+  })
+
+  it('takes a trailing hero, with or without "for"', async () => {
+    expect(await handleCommand('!b counter haunted kimono vanessa')).toStartWith('[vs Haunted Kimono · Vanessa]')
+    expect(await handleCommand('!b counter haunted kimono for vanessa')).toStartWith('[vs Haunted Kimono · Vanessa]')
+    expect(mockAiRespond).not.toHaveBeenCalled()
+  })
+
+  it('spans every hero when none is named or on the board', async () => {
+    expect(await handleCommand('!b counter haunted kimono')).toStartWith('[vs Haunted Kimono · any hero]')
+  })
+
+  it('prints usage bare', async () => {
+    expect(await handleCommand('!b counter')).toBe('usage: !b counter <monster> [hero]')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// !b route <from>-<to> — day planner over store.monstersByDay
+// ---------------------------------------------------------------------------
+describe('!b route', () => {
+  const boar: Monster = {
+    Type: 'CombatEncounter', Title: 'Boar',
+    Size: 'Medium', Tags: [], DisplayTags: [], HiddenTags: [],
+    Heroes: [],
+    MonsterMetadata: { available: 'Day 3', day: 3, health: 700, board: [{ title: 'Tusk', tier: 'Gold', id: 't' }], skills: [] },
+    Shortlink: 'https://bzdb.to/boar',
+  }
+
+  beforeEach(() => {
+    mockMonstersByDay.mockImplementation((d: number) => (d === 3 ? [boar] : []))
+  })
+
+  it('plans a range, accepting "-" or "to"', async () => {
+    expect(await handleCommand('!b route 2-4')).toBe('[Days 2–4] D3: Boar 700HP (🟡Tusk) low')
+    expect(await handleCommand('!b route 2 to 4')).toBe('[Days 2–4] D3: Boar 700HP (🟡Tusk) low')
+    expect(mockMonstersByDay).toHaveBeenCalledWith(2)
+    expect(mockMonstersByDay).toHaveBeenCalledWith(4)
+  })
+
+  it('rejects a backwards or oversized range', async () => {
+    expect(await handleCommand('!b route 5-2')).toContain('invalid day range')
+    expect(await handleCommand('!b route 1-30')).toContain('more than 10 days')
+  })
+
+  it('prints usage bare', async () => {
+    expect(await handleCommand('!b route')).toBe('usage: !b route <from>-<to>')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// !b compare A vs B — deterministic side-by-side, never the AI
+// ---------------------------------------------------------------------------
+describe('!b compare', () => {
+  const byName = (n: string) => ({ boomerang, shield } as Record<string, BazaarCard>)[n.toLowerCase()]
+
+  it('resolves both sides and formats them at one tier', async () => {
+    mockExact.mockImplementation(byName)
+    const result = await handleCommand('!b compare boomerang vs shield', { user: 'test' })
+    expect(result).toContain('[Boomerang vs Shield]')
+    expect(result).toContain('size M vs L')
+    expect(mockAiRespond).not.toHaveBeenCalled()
+    expect(mockLogCommand).toHaveBeenCalledWith({ user: 'test' }, 'compare', 'boomerang vs shield', 'Boomerang vs Shield', undefined)
+  })
+
+  it('takes a tier from either side', async () => {
+    mockExact.mockImplementation(byName)
+    expect(await handleCommand('!b compare boomerang gold versus shield')).toContain('🟡 Gold')
+  })
+
+  it('names the side that missed', async () => {
+    mockExact.mockImplementation(byName)
+    expect(await handleCommand('!b compare boomerang vs nothingburger')).toBe('no item found for nothingburger')
+  })
+
+  it('needs two sides', async () => {
+    expect(await handleCommand('!b compare boomerang')).toBe('usage: !b compare <item> vs <item> [tier]')
+    expect(await handleCommand('!b compare')).toBe('usage: !b compare <item> vs <item> [tier]')
+  })
+
+  it('does not split a title on "and"', async () => {
+    expect(await handleCommand('!b compare quill and ink')).toBe('usage: !b compare <item> vs <item> [tier]')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// !b history <item> — per-patch stat diff from the snapshot archive
+// ---------------------------------------------------------------------------
+describe('!b history', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'cmd-history-'))
+    process.env.BAZAARINFO_HISTORY_CACHE = join(dir, 'card-history.json')
+    const cache = (cd: number) => ({ items: [makeCard({ Cooldown: cd })], skills: [], monsters: [], fetchedAt: '' })
+    await archiveSnapshot(cache(5), '17.0')
+    await archiveSnapshot(cache(4), '17.1')
+  })
+  afterEach(() => {
+    delete process.env.BAZAARINFO_HISTORY_CACHE
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('diffs the resolved card across archived patches', async () => {
+    mockExact.mockImplementation((n: string) => (n.toLowerCase() === 'boomerang' ? boomerang : undefined))
+    const result = await handleCommand('!b history boomerang', { user: 'test' })
+    expect(result).toBe('[Boomerang history] 17.1: CD 5s→4s')
+    expect(mockLogCommand).toHaveBeenCalledWith({ user: 'test' }, 'history', 'boomerang', 'Boomerang', undefined)
+  })
+
+  it('takes a trailing patch count', async () => {
+    mockSearch.mockImplementation(() => [boomerang])
+    expect(await handleCommand('!b history boomer 2')).toContain('17.1: CD 5s→4s')
+  })
+
+  it('bare history stays the raid command', async () => {
+    expect(await handleCommand('!b history') ?? '').not.toContain('no item found')
+  })
+
+  it('misses honestly with suggestions', async () => {
+    mockSuggest.mockImplementation(() => ['Boomerang'])
+    expect(await handleCommand('!b history boomarang')).toBe('no item found for boomarang — did you mean: Boomerang?')
+  })
+})
+
 // ---------------------------------------------------------------------------
 // !b AI fallback — conversational queries (>2 words) fall through to AI
 // ---------------------------------------------------------------------------
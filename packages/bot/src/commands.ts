@@ -1,4 +1,4 @@
-import { formatItem, formatEnchantment, formatMonster, formatEvent, formatTagResults, formatDayResults, truncate, resolveTooltip, compressTooltip, TIER_ORDER } from '@bazaarinfo/shared'
+import { formatItem, formatItemLadder, formatItemEnchants, formatEnchantment, formatMonster, formatEvent, formatTagResults, formatDayResults, formatComparison, formatRoute, formatPool, planRoute, MAX_ROUTE_SPAN, truncate, resolveTooltip, compressTooltip, TIER_ORDER } from '@bazaarinfo/shared'
 import type { TierName, Monster, SkillDetail, BazaarCard } from '@bazaarinfo/shared'
 import * as store from './store'
 import * as db from './db'
@@ -6,9 +6,10 @@ import type { CmdType } from './db'
 import { snapshotSchedule, resolveScheduleChannel } from './schedule-query'
 import { formatSchedule, formatLastStream, isScheduleQuery, isPastStreamQuery, withTitleOverride } from './schedule'
 import { getChannelTitle } from './channel-title'
-import { startTrivia, startCustomTrivia, getTriviaScore, formatStats, formatTop, invalidateAliasCache, isGameActive, skipTrivia, recentQuestionList, isRecentQuestion, recentAnswerList, isRecentAnswer, startKrippTrivia, startFallbackTrivia, startQuizCultureTrivia, setRoundEndHook} from './trivia'
+import { startTrivia, startCustomTrivia, getTriviaScore, formatStats, formatTop, invalidateAliasCache, isGameActive, skipTrivia, recentQuestionList, isRecentQuestion, recentAnswerList, isRecentAnswer, startKrippTrivia, startFallbackTrivia, startQuizCultureTrivia, setRoundEndHook, startTournament, stopTournament, tournamentStatus, isTournamentActive, MIN_MATCH_ROUNDS, MAX_MATCH_ROUNDS, startTeamTournament, joinTeam, MIN_TEAMS, MAX_TEAMS} from './trivia'
 import { generateCustomTrivia, generateChatTrivia, generatePersonTrivia, generateGameTrivia, type CustomTrivia } from './ai-trivia'
 import { detectGameTopic, buildGameDossier } from './trivia-game-topic'
+import { formatSeasonTop, formatLastSeason, formatChampions, setSeasonMode, SEASON_MODES, type SeasonMode } from './trivia-seasons'
 import { parseDirective } from './ai-directive'
 import { addDirective, listDirectives, clearDirectives, isMuted } from './directives'
 import { aiRespond, dedupeEmote, dedupeMention, fixEmoteCase, fixEmotePunctuation, capEmoteTotal, capRepeatedSpam, CONTINUE_RE } from './ai'
@@ -27,6 +28,9 @@ import * as raidCmds from './raid/commands'
 import * as dungeon from './dungeon'
 import { BLOCKED_BANG_CMDS, isModAliasCommand, ALLOWED_SLASH_CMDS } from './text-safety'
 import { OVERLAY, isOverlayFresh, getCardChange } from './patch-notes'
+import { getHistory, formatCardHistory } from './card-history'
+import { formatCounter, heroFromBoard } from './counter'
+import { refreshBoardIfNeeded, getBoardTitles } from './board'
 
 const MAX_LEN = 480
 
@@ -333,13 +337,22 @@ interface ParsedArgs {
   item: string
   tier?: TierName
   enchant?: string
+  /** `ladder` word — print every tier's values instead of one tier */
+  ladder?: boolean
+  /** `enchants` word — list every enchant variant instead of the base card */
+  enchants?: boolean
 }
 
+const LADDER_WORDS = new Set(['ladder', 'ladders', 'scaling'])
+const ENCHANTS_WORDS = new Set(['enchants', 'enchantments'])
+
 export function parseArgs(words: string[]): ParsedArgs {
   const enchList = store.getEnchantments()
   const remaining = [...words]
   let tier: TierName | undefined
   let enchant: string | undefined
+  let ladder: boolean | undefined
+  let enchants: boolean | undefined
 
   // whole-phrase guard: if the ENTIRE phrase is a literal card title, never splice a
   // tier/enchant token out of it. "diamond heart" is the skill Diamond Heart — not a
@@ -349,6 +362,18 @@ export function parseArgs(words: string[]): ParsedArgs {
   const phrase = remaining.join(' ')
   if (store.exact(phrase) || store.exact(phrase.replace(/s$/, ''))) return { item: phrase }
 
+  // output mode, from any position — only when something is left to be the item
+  const ladderIdx = remaining.findIndex((w) => LADDER_WORDS.has(w.toLowerCase()))
+  if (ladderIdx !== -1 && remaining.length > 1) {
+    ladder = true
+    remaining.splice(ladderIdx, 1)
+  }
+  const enchantsIdx = remaining.findIndex((w) => ENCHANTS_WORDS.has(w.toLowerCase()))
+  if (enchantsIdx !== -1 && remaining.length > 1) {
+    enchants = true
+    remaining.splice(enchantsIdx, 1)
+  }
+
   // extract tier from any position (exact match wins over enchant prefix)
   const tierIdx = remaining.findIndex((w) => TIERS.includes(w.toLowerCase()))
   if (tierIdx !== -1) {
@@ -372,7 +397,7 @@ export function parseArgs(words: string[]): ParsedArgs {
     }
   }
 
-  return { item: remaining.join(' '), tier, enchant }
+  return { item: remaining.join(' '), tier, enchant, ladder, enchants }
 }
 
 // --- noise-tolerant salvage ---
@@ -485,6 +510,243 @@ function resolveSkills(monster: Monster): Map<string, SkillDetail> {
 
 type SubHandler = (query: string, ctx: CommandContext, suffix: string) => string | null | Promise<string | null>
 
+// `!b compare A vs B` — the separators chat actually types. no bare "and"/"or": real titles
+// carry them ("Quill and Ink", "Slow and Steady").
+const COMPARE_SPLIT_RE = /\s+(?:vs\.?|versus|compared?\s+(?:to|with)|against)\s+/i
+
+// pull a tier word off one side of a comparison ("boomerang gold"), unless the whole side
+// is itself a card title ("diamond heart")
+function splitCompareTier(side: string): { name: string; tier?: TierName } {
+  const words = side.split(/\s+/)
+  if (words.length < 2 || store.exact(side)) return { name: side }
+  const idx = words.findIndex((w) => TIERS.includes(w.toLowerCase()))
+  if (idx === -1) return { name: side }
+  const tier = capitalize(words[idx].toLowerCase()) as TierName
+  words.splice(idx, 1)
+  return { name: words.join(' '), tier }
+}
+
+// key:value card filters shared by `!b find` and `!b hero` — they ride anywhere in the
+// query, and whatever is left over is the command's own argument
+const FILTER_RE = /(?:^|\s)(hero|size|tier|tag):(\S+)/gi
+const SIZE_WORDS: Record<string, BazaarCard['Size']> = {
+  s: 'Small', small: 'Small', m: 'Medium', med: 'Medium', medium: 'Medium', l: 'Large', large: 'Large',
+}
+
+interface CardFilters {
+  hero?: string
+  size?: BazaarCard['Size']
+  tier?: TierName
+  tag?: string
+}
+
+// `error` is the chat reply for a filter value that doesn't resolve — an unknown value is
+// called out, never silently dropped (that would answer a narrower question than asked)
+function parseCardFilters(query: string): { rest: string; filters: CardFilters; error?: string } {
+  const raw: Record<string, string> = {}
+  const rest = query
+    .replace(FILTER_RE, (_m, key: string, val: string) => { raw[key.toLowerCase()] = val; return ' ' })
+    .replace(/\s+/g, ' ')
+    .trim()
+  const filters: CardFilters = {}
+  if (raw.hero) {
+    filters.hero = store.findHeroName(raw.hero)
+    if (!filters.hero) return { rest, filters, error: `unknown hero ${raw.hero}` }
+  }
+  if (raw.size) {
+    filters.size = SIZE_WORDS[raw.size.toLowerCase()]
+    if (!filters.size) return { rest, filters, error: `unknown size ${raw.size} — use small, medium or large` }
+  }
+  if (raw.tier) {
+    const t = raw.tier.toLowerCase()
+    if (!TIERS.includes(t)) return { rest, filters, error: `unknown tier ${raw.tier} — use ${TIERS.join(', ')}` }
+    filters.tier = capitalize(t) as TierName
+  }
+  if (raw.tag) {
+    filters.tag = store.findTagName(raw.tag)
+    if (!filters.tag) {
+      const s = suggestTags(raw.tag, 3)
+      return { rest, filters, error: `no tag ${raw.tag}${s.length ? ` — did you mean tag: ${s.join(', ')}?` : ''}` }
+    }
+  }
+  return { rest, filters }
+}
+
+// hero is left to the caller — searchByEffect and byHero both scope by it already.
+// tagCardMap is items-only, so a tag filter also drops skills.
+function filterCards(cards: BazaarCard[], f: CardFilters): BazaarCard[] {
+  const tagged = f.tag ? new Set(store.byTag(f.tag)) : null
+  return cards.filter((c) => (!f.size || c.Size === f.size)
+    && (!f.tier || c.Tiers.includes(f.tier))
+    && (!tagged || tagged.has(c)))
+}
+
+// `!b find <effect> [hero:x] [size:x] [tier:x] [tag:x]`
+const FIND_USAGE = 'usage: !b find <effect> [hero:<name>] [size:<s|m|l>] [tier:<tier>] [tag:<tag>]'
+
+function findReply(query: string, ctx: CommandContext, suffix: string): string {
+  const { rest: effect, filters, error } = parseCardFilters(query)
+  if (!effect) return FIND_USAGE
+  if (error) return withSuffix(error, suffix)
+
+  const { hero, size, tier, tag } = filters
+  const cards = filterCards(store.searchByEffect(effect, hero, Infinity, true), filters)
+    .filter((c) => c.Type === 'Item')
+    .sort((a, b) => a.Title.localeCompare(b.Title))
+
+  const label = [effect, hero, size, tier, tag].filter(Boolean).join(' · ')
+  if (!cards.length) {
+    logMiss(query, ctx)
+    return withSuffix(`no items match ${label}`, suffix)
+  }
+  logHit('find', effect, `${cards.length} items`, ctx, tier)
+  const noun = cards.length === 1 ? 'item' : 'items'
+  return withSuffix(truncate(`[${label}] ${cards.length} ${noun}: ${cards.map((c) => c.Title).join(', ')}`), suffix)
+}
+
+// `!b hero <name> [page N] [size:x] [tag:x] [tier:x]`
+const PAGE_RE = /(?:^|\s)(?:page|pg|p)\s*(\d{1,3})(?=\s|$)/i
+
+async function heroReply(query: string, ctx: CommandContext, suffix: string): Promise<string | null> {
+  const { rest, filters, error } = parseCardFilters(query)
+  const pageMatch = rest.match(PAGE_RE)
+  const page = pageMatch ? parseInt(pageMatch[1]) : 1
+  const name = (pageMatch ? rest.replace(PAGE_RE, ' ') : rest).replace(/\s+/g, ' ').trim()
+  if (!name) return 'usage: !b hero <name> [page N] [size:<s|m|l>] [tag:<tag>] [tier:<tier>]'
+  const resolved = store.findHeroName(name)
+  const items = store.byHero(name)
+  if (items.length === 0) {
+    logMiss(name, ctx)
+    return aiOrQuip(`hero ${name}`, ctx, suffix)
+  }
+  if (error) return withSuffix(error, suffix)
+  const pool = filterCards(items, filters)
+  const label = [resolved ?? name, filters.size, filters.tier, filters.tag].filter(Boolean).join(' · ')
+  if (!pool.length) {
+    logMiss(query, ctx)
+    return withSuffix(`no ${label} items`, suffix)
+  }
+  logHit('hero', name, `${pool.length} items`, ctx, filters.tier)
+  return heroPoolReply(label, pool, suffix, page)
+}
+
+// `!b enchant <name> items [hero:x] [page N]` — the reverse of an item+enchant lookup
+function enchantItemsReply(query: string, ctx: CommandContext, suffix: string): string {
+  const { rest, filters, error } = parseCardFilters(query)
+  const pageMatch = rest.match(PAGE_RE)
+  const page = pageMatch ? parseInt(pageMatch[1]) : 1
+  const words = (pageMatch ? rest.replace(PAGE_RE, ' ') : rest).split(/\s+/).filter((w) => w && !/^items?$/i.test(w))
+  const asked = words.join(' ')
+  const enchant = store.findEnchantment(asked)
+  if (!enchant) {
+    logMiss(asked, ctx)
+    return withSuffix(`no enchantment ${asked} — enchants are: ${store.getEnchantments().map(capitalize).join(', ')}`, suffix)
+  }
+  if (error) return withSuffix(error, suffix)
+  const { hero } = filters
+  const cards = filterCards(store.byEnchantment(enchant), filters)
+    .filter((c) => !hero || c.Heroes.includes(hero))
+  const label = [capitalize(enchant), hero, filters.size, filters.tier, filters.tag].filter(Boolean).join(' · ')
+  if (!cards.length) {
+    logMiss(query, ctx)
+    return withSuffix(`no items can be ${label}`, suffix)
+  }
+  logHit('enchant', enchant, `${cards.length} items`, ctx, filters.tier)
+  return heroPoolReply(label, cards, suffix, page)
+}
+
+// `!b counter <monster> [hero]` — the hero comes from a trailing name ("for vanessa" too),
+// else from what the live board is running, else suggestions span every hero
+async function counterReply(query: string, ctx: CommandContext, suffix: string): Promise<string | null> {
+  const words = query.split(/\s+/)
+  let hero: string | undefined
+  if (words.length > 1) {
+    hero = store.findExactHero(words[words.length - 1])
+    if (hero) {
+      words.pop()
+      if (words.length > 1 && /^(?:for|as|with)$/i.test(words[words.length - 1])) words.pop()
+    }
+  }
+  if (!hero && ctx.channel) {
+    await refreshBoardIfNeeded(ctx.channel)
+    hero = heroFromBoard(getBoardTitles(ctx.channel))
+  }
+  const name = words.join(' ')
+  const monster = store.findMonster(name)
+  if (!monster) {
+    logMiss(name, ctx)
+    const s = store.monsterSuggest(name, 3)
+    if (s.length) return withSuffix(`no monster found for ${name} — did you mean: ${s.join(', ')}?`, suffix)
+    // "counter for burn builds?" is a strategy question, not a monster lookup
+    return aiOrQuip(`counter ${query}`, ctx, suffix)
+  }
+  logHit('counter', name, monster.Title, ctx)
+  return withSuffix(formatCounter(monster, hero), suffix)
+}
+
+// `!b synergy <item> [hero:x]` — partners off the store's tag graph, strongest first
+const SYNERGY_USAGE = 'usage: !b synergy <item> [hero:<name>]'
+const SYNERGY_SHOWN = 8
+
+function synergyReply(query: string, ctx: CommandContext, suffix: string): string {
+  const { rest: name, filters, error } = parseCardFilters(query)
+  if (!name) return SYNERGY_USAGE
+  if (error) return withSuffix(error, suffix)
+  const card = store.exact(name) ?? store.search(name, 1)[0]
+  if (!card) {
+    logMiss(name, ctx)
+    const s = store.suggest(name, 3)
+    return withSuffix(s.length ? `no item found for ${name} — did you mean: ${s.join(', ')}?` : `no item found for ${name}`, suffix)
+  }
+  const partners = store.synergiesOf(card, filters.hero)
+  const pool = filters.hero ?? (card.Heroes.filter((h) => h !== 'Common' && h !== '???').join('/') || 'any hero')
+  const head = `[${card.Title} synergy · ${pool}]`
+  logHit('synergy', name, card.Title, ctx)
+  if (!partners.length) return withSuffix(`${head} nothing in this pool carries a tag it references, or references one it carries`, suffix)
+  const shown = partners.slice(0, SYNERGY_SHOWN).map((p) => `${p.card.Title} [${p.via.join('/')}]`)
+  const more = partners.length > SYNERGY_SHOWN ? ` +${partners.length - SYNERGY_SHOWN} more` : ''
+  return withSuffix(truncate(`${head} ${shown.join(', ')}${more}`), suffix)
+}
+
+// `!b lang [code]` — the card language for this channel. anyone can ask, mods set it.
+// chat names the language as often as the code, in English or in the language itself.
+const LANGUAGE_NAMES: Record<string, string> = {
+  english: 'en', portuguese: 'pt', portugues: 'pt', 'português': 'pt', 'pt-br': 'pt', brazilian: 'pt',
+  spanish: 'es', espanol: 'es', 'español': 'es', castellano: 'es',
+}
+
+function langReply(query: string, ctx: CommandContext, suffix: string): string | null {
+  if (!ctx.channel) return null
+  const available = store.getLocales()
+  const arg = /^lang(?:uage)?$/i.test(query) ? '' : query.trim().toLowerCase()
+  if (!arg) return withSuffix(`card language: ${db.getChannelLocale(ctx.channel)} (available: ${available.join(', ')})`, suffix)
+  if (!ctx.isMod) return withSuffix('only mods can change the card language', suffix)
+  const locale = LANGUAGE_NAMES[arg] ?? arg
+  if (!available.includes(locale)) return withSuffix(`no card data for ${arg} — available: ${available.join(', ')}`, suffix)
+  db.setChannelLocale(ctx.channel, locale)
+  return withSuffix(`card language set to ${locale}`, suffix)
+}
+
+// `!b top season|alltime|last|champions` — the trivia boards. bare `!b top` stays the
+// command-count board. `!b top season monthly|patch` is how a mod picks the season length.
+function topReply(query: string, ctx: CommandContext, suffix: string): string | null {
+  if (!ctx.channel) return null
+  const [which, arg] = query.toLowerCase().split(/\s+/)
+  if (which === 'season' && arg) {
+    if (!ctx.isMod) return withSuffix('only mods can change the trivia season length', suffix)
+    if (!SEASON_MODES.includes(arg as SeasonMode)) return withSuffix(`seasons can be ${SEASON_MODES.join(' or ')}`, suffix)
+    return withSuffix(setSeasonMode(ctx.channel, arg as SeasonMode), suffix)
+  }
+  if (which === 'season') return withSuffix(formatSeasonTop(ctx.channel), suffix)
+  if (which === 'last') return withSuffix(formatLastSeason(ctx.channel), suffix)
+  if (which === 'champions' || which === 'seasons') return withSuffix(formatChampions(ctx.channel), suffix)
+  return withSuffix(getTriviaScore(ctx.channel), suffix)
+}
+
+// `!b history <item> [n]` — how many patch-to-patch steps to show by default, and at most
+const HISTORY_DEFAULT = 3
+const HISTORY_MAX = 8
+
 
 const subcommands: [RegExp, SubHandler][] = [
   [/^alias$/i, (_q, ctx) => {
@@ -534,6 +796,12 @@ const subcommands: [RegExp, SubHandler][] = [
   [/^tag$/i, () => 'usage: !b tag <tagname>'],
   [/^skill$/i, () => 'usage: !b skill <name>'],
   [/^day$/i, () => 'usage: !b day <number>'],
+  [/^compare$/i, () => 'usage: !b compare <item> vs <item> [tier]'],
+  [/^find$/i, () => FIND_USAGE],
+  [/^counter$/i, () => 'usage: !b counter <monster> [hero]'],
+  [/^route$/i, () => 'usage: !b route <from>-<to>'],
+  [/^synergy$/i, () => SYNERGY_USAGE],
+  [/^lang(?:uage)?(?:\s+(\S+))?$/i, langReply],
   [/^(?:mob|monster)\s+(.+)$/i, async (query, ctx, suffix) => {
     const monster = store.findMonster(query)
     if (!monster) {
@@ -556,16 +824,8 @@ const subcommands: [RegExp, SubHandler][] = [
     logHit('event', query, event.Title, ctx)
     return withSuffix(formatEvent(event, patchNote(event.Title)), suffix)
   }],
-  [/^hero\s+(.+)$/i, async (query, ctx, suffix) => {
-    const resolved = store.findHeroName(query)
-    const items = store.byHero(query)
-    if (items.length === 0) {
-      logMiss(query, ctx)
-      return aiOrQuip(`hero ${query}`, ctx, suffix)
-    }
-    logHit('hero', query, `${items.length} items`, ctx)
-    return heroPoolReply(resolved ?? query, items, suffix)
-  }],
+  [/^hero\s+(.+)$/i, heroReply],
+  [/^enchant(?:ment)?s?\s+(\S+\s+items?\b.*)$/i, enchantItemsReply],
   [/^enchant(?:s|ments)?$/i, (_query, ctx, suffix) => {
     const names = store.getEnchantments().map(capitalize)
     logHit('enchants', _query, `${names.length} enchants`, ctx)
@@ -596,12 +856,65 @@ const subcommands: [RegExp, SubHandler][] = [
     logHit('day', query, `${mobs.length} monsters`, ctx)
     return withSuffix(formatDayResults(day, mobs), suffix)
   }],
+  [/^route\s+(\d+(?:\s*(?:-|–|to)\s*\d+)?)$/i, (query, ctx, suffix) => {
+    const [fromStr, toStr] = query.split(/\s*(?:-|–|to)\s*/i)
+    const from = parseInt(fromStr)
+    const to = toStr ? parseInt(toStr) : from
+    if (from < 1 || to > 99 || from > to) return `invalid day range (1-99, from ≤ to)`
+    if (to - from + 1 > MAX_ROUTE_SPAN) return `that's more than ${MAX_ROUTE_SPAN} days — try a shorter range`
+    const plan = planRoute(store.monstersByDay, from, to)
+    if (!plan.days.length) { logMiss(query, ctx); return withSuffix(formatRoute(plan), suffix) }
+    logHit('route', query, `${plan.days.reduce((n, d) => n + d.monsters.length, 0)} monsters`, ctx)
+    return withSuffix(formatRoute(plan), suffix)
+  }],
   [/^skill\s+(.+)$/i, async (query, ctx, suffix) => {
     const skill = store.findSkill(query)
     if (!skill) { logMiss(query, ctx); return aiOrQuip(`skill ${query}`, ctx, suffix) }
     logHit('skill', query, skill.Title, ctx)
     return withSuffix(formatItem(skill, undefined, patchNote(skill.Title)), suffix)
   }],
+  // side-by-side stats — deterministic, so "A vs B" never costs a model call or risks an
+  // invented number. a miss on either side names which one, instead of guessing.
+  [/^compare\s+(.+)$/i, (query, ctx, suffix) => {
+    const sides = query.split(COMPARE_SPLIT_RE).map((s) => s.trim()).filter(Boolean)
+    if (sides.length !== 2) return withSuffix('usage: !b compare <item> vs <item> [tier]', suffix)
+    const [left, right] = sides.map(splitCompareTier)
+    const cards: BazaarCard[] = []
+    for (const side of [left, right]) {
+      const card = store.exact(side.name) ?? store.search(side.name, 1)[0]
+      if (!card) {
+        logMiss(side.name, ctx)
+        const s = store.suggest(side.name, 3)
+        return withSuffix(s.length ? `no item found for ${side.name} — did you mean: ${s.join(', ')}?` : `no item found for ${side.name}`, suffix)
+      }
+      cards.push(card)
+    }
+    const [a, b] = cards
+    if (a.Title === b.Title) return withSuffix(`${a.Title} vs itself — same card, same numbers`, suffix)
+    const tier = left.tier ?? right.tier
+    logHit('compare', query, `${a.Title} vs ${b.Title}`, ctx, tier)
+    return withSuffix(formatComparison(a, b, tier), suffix)
+  }],
+  // "find me a burn item" is a question for the AI (QUESTION_PREFIX), not a filter query
+  [/^find\s+(?!me\b)(.+)$/i, findReply],
+  [/^counter\s+(.+)$/i, counterReply],
+  [/^synergy\s+(.+)$/i, synergyReply],
+  // per-patch stat history from the snapshot archive (card-history.ts). bare `!b history`
+  // stays the raid command below — this one needs a card name.
+  [/^history\s+(.+)$/i, (query, ctx, suffix) => {
+    // optional trailing count ("history boomerang 5") — unless the digits are part of a title
+    const counted = store.exact(query) ? null : query.match(/^(.+?)\s+(\d{1,2})$/)
+    const name = counted ? counted[1] : query
+    const limit = Math.min(HISTORY_MAX, Math.max(1, counted ? parseInt(counted[2]) : HISTORY_DEFAULT))
+    const card = store.exact(name) ?? store.search(name, 1)[0]
+    if (!card) {
+      logMiss(name, ctx)
+      const s = store.suggest(name, 3)
+      return withSuffix(s.length ? `no item found for ${name} — did you mean: ${s.join(', ')}?` : `no item found for ${name}`, suffix)
+    }
+    logHit('history', name, card.Title, ctx)
+    return withSuffix(formatCardHistory(card.Title, getHistory(), limit), suffix)
+  }],
   [/^trivia(?:\s+([\s\S]+))?$/i, (query, ctx, suffix) => runTrivia(ctx, query ?? '', suffix)],
   // natural-language trivia start: "make a trivia about happy gilmore", "do a quiz on
   // cats", "can you start a trivia". the verb + "trivia"/"quiz" makes intent explicit, so
@@ -614,7 +927,8 @@ const subcommands: [RegExp, SubHandler][] = [
   [/^(?:vibes?|directives?)(?:\s+([\s\S]+))?$/i, (query, ctx, suffix) => handleVibes(query ?? '', ctx, suffix)],
   [/^skip$/i, (_query, ctx, suffix) => {
     if (!ctx.channel) return null
-    const msg = skipTrivia(ctx.channel, ctx.user)
+    if (isTournamentActive(ctx.channel) && !ctx.isMod) return withSuffix('only mods can skip a tournament round', suffix)
+    const msg = skipTrivia(ctx.channel, ctx.user, ctx.isMod)
     return msg ? withSuffix(msg, suffix) : null
   }],
   [/^score$/i, (_query, ctx, suffix) => {
@@ -648,6 +962,7 @@ const subcommands: [RegExp, SubHandler][] = [
     if (!ctx.channel) return null
     return withSuffix(formatTop(ctx.channel), suffix)
   }],
+  [/^top\s+(season(?:\s+\S+)?|all[-\s]?time|last(?:\s+season)?|champions|seasons)$/i, (query, ctx, suffix) => topReply(query, ctx, suffix)],
 ]
 
 function validateTier(card: { Tiers: TierName[] }, tier?: TierName): { tier: TierName | undefined; note: string | null } {
@@ -733,13 +1048,11 @@ function stripQuestionPrefix(s: string): string {
   return stripped.length >= 2 ? stripped : s
 }
 
-// shared hero-pool reply ("[Vanessa] item, item, …") used by the `hero <name>` subcommand
-// and by itemLookup's bare-hero routing.
-function heroPoolReply(heroName: string, items: BazaarCard[], suffix: string): string {
-  // lead with the total count — the list truncates to ~40 of 130+ titles with a bare "...",
-  // which reads as a complete pool; the count supplies the missing scale.
-  const noun = items.length === 1 ? 'item' : 'items'
-  return withSuffix(truncate(`[${heroName}] ${items.length} ${noun}: ${items.map((i) => i.Title).join(', ')}`), suffix)
+// shared hero-pool reply ("[Vanessa] 132 items · p1/4: …") used by the `hero <name>`
+// subcommand and by itemLookup's bare-hero routing. leads with the total count and ends
+// with a "+N more" footer, so a page never reads as the complete pool.
+function heroPoolReply(label: string, items: BazaarCard[], suffix: string, page = 1): string {
+  return withSuffix(formatPool(label, items, page).text, suffix)
 }
 
 // a bazaar item name is often a plain english word (toaster, cannon, anchor, crane, lighter).
@@ -761,7 +1074,7 @@ function isIncidentalMention(title: string, qw: string[]): boolean {
 async function itemLookup(cleanArgs: string, ctx: CommandContext, suffix: string): Promise<string | null> {
   const stripped = stripQuestionPrefix(cleanArgs)
   const words = stripped.split(/\s+/)
-  const { item: query, tier, enchant } = parseArgs(words)
+  const { item: query, tier, enchant, ladder, enchants } = parseArgs(words)
 
   if (!query) return null
 
@@ -789,9 +1102,18 @@ async function itemLookup(cleanArgs: string, ctx: CommandContext, suffix: string
     return withSuffix(ev.note ? `${enchantResult} (${ev.note})` : enchantResult, suffix)
   }
 
+  // a channel set to another language types item names in it — those map back to the
+  // canonical card first, and the answer comes back in that language where the table has it
+  const locale = ctx.channel ? db.getChannelLocale(ctx.channel) : store.DEFAULT_LOCALE
+  const local = (c: BazaarCard) => store.localize(c, locale)
+
   // items first (exact then fuzzy) — !b mob exists for explicit monster lookups
-  const exactCard = store.exact(query)
-  const card = exactCard ?? store.search(query, 1)[0]
+  const foreign = locale !== store.DEFAULT_LOCALE
+  const exactCard = (foreign ? store.exactLocalized(query, locale) : undefined) ?? store.exact(query)
+  const localHit = !exactCard && foreign ? store.searchLocalized(query, locale) : undefined
+  const card = exactCard ?? localHit ?? store.search(query, 1)[0]
+  // a fuzzy localized hit is judged against the name chat typed at, not the English one
+  const matchedTitle = card && card === localHit ? local(card).Title : card?.Title
 
   // a bare hero name beats a mere fuzzy item match: "dooley"/"vanessa"/"pyg" mean the hero's
   // whole pool, not a card that just shares the stem ("Dooley's Scarf"). only when there's no
@@ -826,10 +1148,22 @@ async function itemLookup(cleanArgs: string, ctx: CommandContext, suffix: string
     return !isIncidentalMention(title, qw)
   }
 
-  if (card && isRelevantMatch(card.Title, !!exactCard)) {
+  if (card && matchedTitle && isRelevantMatch(matchedTitle, !!exactCard)) {
+    // the ladder already spans every tier the card has, so an accompanying tier word is moot
+    if (ladder) {
+      logHit('item', query, card.Title, ctx)
+      return withSuffix(formatItemLadder(local(card), patchNote(card.Title)), suffix)
+    }
     const v = validateTier(card, tier)
+    if (enchants) {
+      // one tier keeps thirteen variants readable; the card's own base tier unless asked
+      const at = v.tier ?? card.BaseTier
+      logHit('enchant', query, `${card.Title} enchants`, ctx, at)
+      const result = formatItemEnchants(local(card), at)
+      return withSuffix(v.note ? `${result} (${v.note})` : result, suffix)
+    }
     logHit('item', query, card.Title, ctx, v.tier)
-    const result = formatItem(card, v.tier, patchNote(card.Title))
+    const result = formatItem(local(card), v.tier, patchNote(card.Title))
     return withSuffix(v.note ? `${result} (${v.note})` : result, suffix)
   }
 
@@ -870,7 +1204,7 @@ async function itemLookup(cleanArgs: string, ctx: CommandContext, suffix: string
       if (sCard && isRelevantMatch(sCard.Title, !!sExact, sWords) && !isIncidentalMention(sCard.Title, queryWords)) {
         const v = validateTier(sCard, tier)
         logHit('item', query, sCard.Title, ctx, v.tier)
-        const result = formatItem(sCard, v.tier, patchNote(sCard.Title))
+        const result = formatItem(local(sCard), v.tier, patchNote(sCard.Title))
         return withSuffix(v.note ? `${result} (${v.note})` : result, suffix)
       }
       const sMonster = store.findMonster(salvaged.query)
@@ -1549,9 +1883,9 @@ async function handleCustomTrivia(ctx: CommandContext, topic: string, suffix: st
   if (isMetaTopic) {
     t = 'trivia and quiz culture — game shows, jeopardy, quiz history, famous trivia facts'
   }
-  if (isGameActive(channel)) {
+  if (isGameActive(channel) || isTournamentActive(channel)) {
     // hold it rather than dropping it — the reply below is a promise, and drainTopicQueue
-    // is what makes it true
+    // is what makes it true (after a tournament, once the whole match is over)
     const held = queueTopic(channel, t, ctx.user ?? 'chat')
     return held ? withSuffix(held, suffix) : null
   }
@@ -1745,8 +2079,45 @@ const TRIVIA_BAN_RE = /\b(?:no more|ban|enough(?: of)?(?: the| this)?|stop(?: th
 const TRIVIA_UNBAN_RE = /\b(?:unban|allow|re-?enable|bring back)\s+((?:[\w'-]+ ){0,4}?[\w'-]{2,})\s+(?:trivia|quiz(?:zes)?)\b/i
 const stripArticles = (s: string) => s.replace(/^(?:the|a|an|any|all|this|that)\s+/i, '').trim()
 
+// `!b trivia tournament [rounds|stop]` — anyone can read the standings, mods run the match
+function runTournament(ctx: CommandContext, arg: string): string | null {
+  if (!ctx.channel) return null
+  if (!arg) return tournamentStatus(ctx.channel)
+  // mods only — privileged also covers subs and VIPs, and a match is the channel's evening
+  const isMod = !!ctx.isMod
+  if (/^(?:stop|end|cancel)$/.test(arg)) {
+    if (!isMod) return 'only mods can end a tournament'
+    return stopTournament(ctx.channel, ctx.user) ?? 'no tournament running'
+  }
+  if (/^\d+(?:\s+rounds?)?$/.test(arg)) {
+    if (!isMod) return 'only mods can start a tournament'
+    return startTournament(ctx.channel, parseInt(arg), ctx.user ?? null)
+  }
+  return `usage: !b trivia tournament <${MIN_MATCH_ROUNDS}-${MAX_MATCH_ROUNDS} rounds> | !b trivia tournament stop`
+}
+
+// `!b trivia teams [<rounds> <team> <team>... | <rounds> subs | stop]` — the team form of
+// the above; chatters pick a side with `!b trivia join <team>`
+function runTeams(ctx: CommandContext, arg: string): string | null {
+  if (!ctx.channel) return null
+  if (!arg) return tournamentStatus(ctx.channel)
+  const isMod = !!ctx.isMod
+  if (/^(?:stop|end|cancel)$/.test(arg)) {
+    if (!isMod) return 'only mods can end a tournament'
+    return stopTournament(ctx.channel, ctx.user) ?? 'no tournament running'
+  }
+  const m = arg.match(/^(\d+)(?:\s+rounds?)?\s+(.+)$/)
+  if (m) {
+    if (!isMod) return 'only mods can start a tournament'
+    const names = m[2].split(/[\s,]+/).filter((t) => t && t !== 'vs')
+    const teams = names.length === 1 && /^subs?$/.test(names[0]) ? 'subs' : names
+    return startTeamTournament(ctx.channel, parseInt(m[1]), ctx.user ?? null, teams)
+  }
+  return `usage: !b trivia teams <${MIN_MATCH_ROUNDS}-${MAX_MATCH_ROUNDS} rounds> <${MIN_TEAMS}-${MAX_TEAMS} team names> | !b trivia teams <rounds> subs | !b trivia join <team>`
+}
+
 // single trivia router shared by `!trivia ...` and `!b trivia ...`. handles the
-// built-in subcommands (score/skip/stats/category), then treats anything else as a
+// built-in subcommands (score/skip/stats/tournament/teams/join/category), then treats anything else as a
 // custom AI topic.
 async function runTrivia(ctx: CommandContext, rawArg: string, suffix: string): Promise<string | null> {
   if (!ctx.channel) return null
@@ -1756,8 +2127,21 @@ async function runTrivia(ctx: CommandContext, rawArg: string, suffix: string): P
   // to cleanArgs when no group captured) — treat it, like an empty arg, as a random round.
   if (!arg || lower === 'trivia') return withSuffix(startTrivia(ctx.channel), suffix)
   if (lower === 'score') return withSuffix(getTriviaScore(ctx.channel), suffix)
+  if (lower === 'tournament' || lower.startsWith('tournament ')) {
+    const msg = runTournament(ctx, lower.slice('tournament'.length).trim())
+    return msg ? withSuffix(msg, suffix) : null
+  }
+  if (lower === 'teams' || lower.startsWith('teams ')) {
+    const msg = runTeams(ctx, lower.slice('teams'.length).trim())
+    return msg ? withSuffix(msg, suffix) : null
+  }
+  if (lower.startsWith('join ') && ctx.user) {
+    return withSuffix(joinTeam(ctx.channel, ctx.user, lower.slice('join'.length).trim()), suffix)
+  }
   if (lower === 'skip') {
-    const msg = skipTrivia(ctx.channel, ctx.user)
+    // a tournament round has points riding on it — only a mod can throw one away
+    if (isTournamentActive(ctx.channel) && !ctx.isMod) return withSuffix('only mods can skip a tournament round', suffix)
+    const msg = skipTrivia(ctx.channel, ctx.user, ctx.isMod)
     return msg ? withSuffix(msg, suffix) : null
   }
   if (lower === 'stats' || lower.startsWith('stats ')) {
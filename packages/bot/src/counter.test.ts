@@ -0,0 +1,85 @@
+import { describe, expect, it, beforeAll } from 'bun:test'
+import type { Monster, MonsterBoardEntry } from '@bazaarinfo/shared'
+import * as store from './store'
+import { classifyThreats, suggestCounters, formatCounter, heroFromBoard } from './counter'
+
+beforeAll(async () => {
+  await store.loadStore()
+})
+
+const entry = (title: string): MonsterBoardEntry => ({ title, tier: 'Bronze', id: title })
+
+function monster(board: string[], skills: string[] = []): Monster {
+  return {
+    Type: 'CombatEncounter',
+    Title: 'Test Mob',
+    Size: 'Medium',
+    Tags: [],
+    DisplayTags: [],
+    HiddenTags: [],
+    Heroes: ['Common'],
+    MonsterMetadata: { available: 'Day 1', day: 1, health: 100, board: board.map(entry), skills: skills.map(entry) },
+    Shortlink: 'https://bzdb.to/test',
+  }
+}
+
+// board cards picked from the fixture by tag, so the test tracks the dump rather than a name
+const withTag = (tag: string) => store.getItems().find((c) => c.HiddenTags.includes(tag) || c.DisplayTags.includes(tag))!
+
+describe('classifyThreats', () => {
+  it('reads mechanics off the board by tag and cites the cards that bring them', () => {
+    const burner = withTag('Burn')
+    const threats = classifyThreats(monster([burner.Title]))
+    expect(threats.find((t) => t.threat === 'burn')?.cards).toEqual([burner.Title])
+  })
+
+  it('ignores board entries the dump does not know', () => {
+    expect(classifyThreats(monster(['Not A Real Card']))).toEqual([])
+  })
+
+  it('orders the most-represented threat first', () => {
+    const poisons = store.getItems().filter((c) => c.HiddenTags.includes('Poison') && !c.HiddenTags.includes('Shield')).slice(0, 2)
+    const threats = classifyThreats(monster(poisons.map((c) => c.Title)))
+    expect(threats[0].threat).toBe('poison')
+  })
+})
+
+describe('suggestCounters', () => {
+  it('answers each threat from the pool, citing the tags, never repeating an item', () => {
+    const pool = store.byHero('Vanessa')
+    const answers = suggestCounters([{ threat: 'burn', cards: ['x'] }, { threat: 'shield', cards: ['y'] }], pool)
+    const burn = answers.get('burn')!
+    const shield = answers.get('shield')!
+    expect(burn.length).toBeGreaterThan(0)
+    for (const s of burn) expect(s.tags.some((t) => t === 'Heal' || t === 'Shield')).toBe(true)
+    for (const s of shield) expect(s.tags).toEqual(['Poison'])
+    const titles = [...burn, ...shield].map((s) => s.title)
+    expect(new Set(titles).size).toBe(titles.length)
+    // every suggestion really is in the hero's pool
+    for (const t of titles) expect(pool.some((c) => c.Title === t)).toBe(true)
+  })
+})
+
+describe('formatCounter', () => {
+  it('names the hero and fits the chat budget', () => {
+    const out = formatCounter(monster([withTag('Burn').Title, withTag('Shield').Title]), 'Vanessa')
+    expect(out).toStartWith('[vs Test Mob · Vanessa]')
+    expect(out).toContain('→')
+    expect([...out].length).toBeLessThanOrEqual(480)
+  })
+
+  it('calls a board with none of the four a damage race', () => {
+    const out = formatCounter(monster([]))
+    expect(out).toContain('any hero')
+    expect(out).toContain('straight damage race')
+  })
+})
+
+describe('heroFromBoard', () => {
+  it('picks the hero most of the board belongs to', () => {
+    const vanessa = store.byHero('Vanessa').filter((c) => c.Heroes.length === 1).slice(0, 3).map((c) => c.Title)
+    const dooley = store.byHero('Dooley').filter((c) => c.Heroes.length === 1)[0].Title
+    expect(heroFromBoard([...vanessa, dooley])).toBe('Vanessa')
+    expect(heroFromBoard([])).toBeUndefined()
+  })
+})
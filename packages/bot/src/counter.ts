@@ -0,0 +1,130 @@
+// deterministic counter-pick advice for a monster fight ("!b counter <monster>").
+//
+// "what beats <monster>" used to fall to the model, which happily recommended items the
+// hero can't even roll. everything here comes from the dump instead: the monster's board
+// and skills (MonsterMetadata), each card's mechanic tags plus the glossary keywords in
+// its tooltips, and the glossary's own rules for what cancels what. every suggestion
+// names the tags that earned it, so chat can check the reasoning rather than trust it.
+
+import type { BazaarCard, Monster } from '@bazaarinfo/shared'
+import { mechanicTags, truncate } from '@bazaarinfo/shared'
+import * as store from './store'
+import { keywordsIn, LABEL } from './glossary'
+
+export type Threat = 'burn' | 'poison' | 'shield' | 'heal'
+
+// what answers each threat, straight from GLOSSARY:
+//   burn   — a heal removes it and Shield halves it
+//   poison — a heal removes it and Regen eats into it (Shield does NOT block it)
+//   shield — Poison bypasses Shield entirely
+//   heal   — a heal strips Poison and Burn, so raw Damage is what sticks
+const ANSWERS: Record<Threat, string[]> = {
+  burn: ['Heal', 'Shield'],
+  poison: ['Heal', 'Regen'],
+  shield: ['Poison'],
+  heal: ['Damage'],
+}
+const THREATS = Object.keys(ANSWERS) as Threat[]
+// a board with none of the four is a plain damage race — Shield blocks Damage 1-for-1
+const DAMAGE_ANSWERS = ['Shield']
+const PER_THREAT = 3
+
+export interface ThreatSource {
+  threat: Threat
+  /** board/skill titles that bring it, first-seen order */
+  cards: string[]
+}
+
+export interface Suggestion {
+  title: string
+  /** the answer tags this item carries — the citation */
+  tags: string[]
+}
+
+/** the mechanics the monster's board and skills bring, most-represented first */
+export function classifyThreats(monster: Monster): ThreatSource[] {
+  const found = new Map<Threat, Set<string>>()
+  const meta = monster.MonsterMetadata
+  for (const entry of [...meta.board, ...meta.skills]) {
+    const card = store.findCard(entry.title)
+    if (!card) continue
+    const tags = mechanicTags(card)
+    const words = new Set(keywordsIn(card.Tooltips.map((t) => t.text).join(' ')))
+    for (const threat of THREATS) {
+      if (!tags.has(LABEL[threat]) && !words.has(threat)) continue
+      let set = found.get(threat)
+      if (!set) { set = new Set(); found.set(threat, set) }
+      set.add(entry.title)
+    }
+  }
+  return THREATS
+    .filter((t) => found.has(t))
+    .map((threat) => ({ threat, cards: [...found.get(threat)!] }))
+    .sort((a, b) => b.cards.length - a.cards.length)
+}
+
+// items from `pool` carrying any of `wanted`, ranked by how many of ALL the fight's answer
+// tags they cover (one item that heals AND shields beats two single-purpose ones), then title
+function pick(pool: BazaarCard[], wanted: string[], everything: Set<string>, used: Set<string>): Suggestion[] {
+  return pool
+    .filter((c) => !used.has(c.Title))
+    .map((c) => {
+      const tags = mechanicTags(c)
+      return { card: c, tags: wanted.filter((t) => tags.has(t)), cover: [...everything].filter((t) => tags.has(t)).length }
+    })
+    .filter((x) => x.tags.length > 0)
+    .sort((a, b) => b.cover - a.cover || a.card.Title.localeCompare(b.card.Title))
+    .slice(0, PER_THREAT)
+    .map((x) => ({ title: x.card.Title, tags: x.tags }))
+}
+
+/** up to PER_THREAT answers per threat from `pool`; an item is suggested at most once */
+export function suggestCounters(threats: ThreatSource[], pool: BazaarCard[]): Map<Threat, Suggestion[]> {
+  const items = pool.filter((c) => c.Type === 'Item')
+  const everything = new Set(threats.flatMap((t) => ANSWERS[t.threat]))
+  const used = new Set<string>()
+  const out = new Map<Threat, Suggestion[]>()
+  for (const { threat } of threats) {
+    const picks = pick(items, ANSWERS[threat], everything, used)
+    for (const p of picks) used.add(p.title)
+    out.set(threat, picks)
+  }
+  return out
+}
+
+/** the hero whose cards dominate a live board, if any — "current hero" without asking */
+export function heroFromBoard(titles: string[]): string | undefined {
+  const counts = new Map<string, number>()
+  for (const title of titles) {
+    for (const h of store.findCard(title)?.Heroes ?? []) {
+      if (h === 'Common' || h === '???') continue
+      counts.set(h, (counts.get(h) ?? 0) + 1)
+    }
+  }
+  let best: string | undefined
+  for (const [h, n] of counts) if (!best || n > counts.get(best)!) best = h
+  return best
+}
+
+const cite = (s: Suggestion[]) => s.map((x) => `${x.title} [${x.tags.join('/')}]`).join(', ')
+
+/** `hero` scopes suggestions to that hero's pool; without one every item is fair game */
+export function formatCounter(monster: Monster, hero?: string): string {
+  const pool = hero ? store.byHero(hero) : store.getItems()
+  const head = `[vs ${monster.Title} · ${hero ?? 'any hero'}]`
+  const threats = classifyThreats(monster)
+
+  if (!threats.length) {
+    const picks = pick(pool.filter((c) => c.Type === 'Item'), DAMAGE_ANSWERS, new Set(DAMAGE_ANSWERS), new Set())
+    const tail = picks.length ? ` → ${cite(picks)}` : ''
+    return truncate(`${head} no burn, poison, shield or heal on its board — a straight damage race, Shield blocks Damage 1-for-1${tail}`)
+  }
+
+  const answers = suggestCounters(threats, pool)
+  const parts = threats.map(({ threat, cards }) => {
+    const picks = answers.get(threat) ?? []
+    const need = ANSWERS[threat].join('/')
+    return `${LABEL[threat]} (${cards.join(', ')}) → ${picks.length ? cite(picks) : `no ${need} items in this pool`}`
+  })
+  return truncate(`${head} ${parts.join(' | ')}`)
+}
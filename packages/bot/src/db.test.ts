@@ -113,10 +113,13 @@ describe('db', () => {
     expect(stats!.trivia_streak).toBe(3)
     expect(stats!.trivia_best_streak).toBe(3)
 
-    db.resetTriviaStreak(userId)
+    expect(db.getTriviaStreak(userId, 'test')).toBe(3)
+
+    db.resetTriviaStreak(userId, 'test')
     stats = db.getUserStats('streaker')
     expect(stats!.trivia_streak).toBe(0)
     expect(stats!.trivia_best_streak).toBe(3)
+    expect(db.getTriviaStreak(userId, 'test')).toBe(0)
   })
 
   it('trivia leaderboard works', () => {
@@ -154,6 +157,101 @@ describe('db', () => {
     expect(board[1].points).toBe(3)
   })
 
+  it('trivia matches: a scoreboard of their own rounds, persisted with the winner', () => {
+    const a = db.getOrCreateUser('matcha')
+    const b = db.getOrCreateUser('matchb')
+    const m = db.createTriviaMatch('mt', 3, 'modname')
+    db.recordTriviaWin(db.createTriviaGame('mt', 1, 'q', 'a', m), a, 4000, 2, 3)
+    db.recordTriviaWin(db.createTriviaGame('mt', 1, 'q', 'a', m), b, 1500, 2, 3)
+    db.createTriviaGame('mt', 1, 'q', 'a', m) // nobody won this one
+    // a round outside the match counts all-time but not on the match board
+    db.recordTriviaWin(db.createTriviaGame('mt', 1, 'q', 'a'), a, 1000, 1, 50)
+
+    const standings = db.getTriviaMatchStandings(m)
+    // tied on points and wins — the quicker best answer takes it
+    expect(standings.map((s) => [s.username, s.points, s.wins])).toEqual([['matchb', 3, 1], ['matcha', 3, 1]])
+    expect(db.getTriviaLeaderboard('mt', 1)[0].points).toBe(53)
+
+    expect(db.getLastTriviaMatch('mt')).toBeNull() // still running
+    db.finishTriviaMatch(m, 3, standings)
+    const last = db.getLastTriviaMatch('mt')!
+    expect(last.winner).toBe('matchb')
+    expect(last.winner_points).toBe(3)
+    expect(last.rounds_played).toBe(3)
+    expect(last.team_standings).toBeNull()
+  })
+
+  it('team matches: members stick to their first team, and a team scores its members\' rounds', () => {
+    const a = db.getOrCreateUser('teama')
+    const b = db.getOrCreateUser('teamb')
+    const c = db.getOrCreateUser('teamc')
+    const m = db.createTriviaMatch('tt', 3, 'modname', ['red', 'blue'])
+    expect(db.joinTriviaMatchTeam(m, a, 'red')).toBe('red')
+    expect(db.joinTriviaMatchTeam(m, a, 'blue')).toBe('red')
+    db.joinTriviaMatchTeam(m, b, 'red')
+    db.joinTriviaMatchTeam(m, c, 'blue')
+    db.recordTriviaWin(db.createTriviaGame('tt', 1, 'q', 'a', m), a, 2000, 3, 4)
+    db.recordTriviaWin(db.createTriviaGame('tt', 1, 'q', 'a', m), b, 2000, 3, 2)
+    db.recordTriviaWin(db.createTriviaGame('tt', 1, 'q', 'a', m), c, 2000, 3, 5)
+
+    const teams = db.getTriviaMatchTeamStandings(m)
+    expect(teams).toEqual([
+      { team: 'red', points: 6, wins: 2, players: 2 },
+      { team: 'blue', points: 5, wins: 1, players: 1 },
+    ])
+    // the individual board is untouched by teams
+    expect(db.getTriviaLeaderboard('tt', 1)[0]).toMatchObject({ username: 'teamc', points: 5 })
+
+    db.finishTriviaMatch(m, 3, db.getTriviaMatchStandings(m), true, { standings: teams, winner: 'red' })
+    const last = db.getLastTriviaMatch('tt')!
+    expect(last.winner_team).toBe('red')
+    expect(last.team_standings).toEqual(teams)
+    expect(last.winner).toBe('teamc')
+  })
+
+  it('closes the matches a restart left open, with no winner', () => {
+    const a = db.getOrCreateUser('openmatcha')
+    const solo = db.createTriviaMatch('om', 5, 'modname')
+    db.recordTriviaWin(db.createTriviaGame('om', 1, 'q', 'a', solo), a, 1000, 1, 4)
+    db.createTriviaGame('om', 1, 'q', 'a', solo) // the round the restart cut off
+    const team = db.createTriviaMatch('omt', 3, 'modname', ['red', 'blue'])
+    db.joinTriviaMatchTeam(team, a, 'red')
+    db.recordTriviaWin(db.createTriviaGame('omt', 1, 'q', 'a', team), a, 1000, 1, 2)
+
+    expect(db.closeOpenTriviaMatches()).toBeGreaterThanOrEqual(2)
+    const last = db.getLastTriviaMatch('om')!
+    expect(last.rounds_played).toBe(2)
+    expect(last.winner).toBeNull()
+    const lastTeam = db.getLastTriviaMatch('omt')!
+    expect(lastTeam.winner_team).toBeNull()
+    expect(lastTeam.team_standings).toEqual([
+      { team: 'red', points: 2, wins: 1, players: 1 },
+      { team: 'blue', points: 0, wins: 0, players: 0 },
+    ])
+    expect(db.closeOpenTriviaMatches()).toBe(0)
+  })
+
+  it('a shared multiple-choice round credits every right voter on every board', () => {
+    const quick = db.getOrCreateUser('votequick')
+    const slow = db.getOrCreateUser('voteslow')
+    const m = db.createTriviaMatch('vs', 3, 'modname', ['red', 'blue'])
+    db.joinTriviaMatchTeam(m, quick, 'red')
+    db.joinTriviaMatchTeam(m, slow, 'blue')
+    const g = db.createTriviaGame('vs', 30, 'odd one out?', 'B) Boomerang', m)
+    db.recordTriviaAnswer(g, quick, 'b', true, 2000)
+    db.recordTriviaAnswer(g, slow, 'b', true, 9000)
+    db.recordTriviaWin(g, quick, 2000, 2, 3)
+    db.recordTriviaShare(g, slow, 9000, 2)
+
+    expect(db.getUserStats('voteslow')).toMatchObject({ trivia_points: 2, trivia_wins: 1 })
+    expect(db.getTriviaLeaderboard('vs', 5).map((r) => [r.username, r.points])).toEqual([['votequick', 3], ['voteslow', 2]])
+    expect(db.getTriviaMatchStandings(m).map((s) => [s.username, s.points])).toEqual([['votequick', 3], ['voteslow', 2]])
+    expect(db.getTriviaMatchTeamStandings(m).map((t) => [t.team, t.points])).toEqual([['red', 3], ['blue', 2]])
+    expect(db.getTriviaSeasonLeaderboard('vs', '2000-01-01 00:00:00', null)).toHaveLength(2)
+    // the round itself still has one winner
+    expect(db.getLastTriviaResult('vs')!.winner).toBe('votequick')
+  })
+
   it('migrations are idempotent — re-running initDb is a no-op', () => {
     // schema already at latest; running again must not throw or duplicate columns
     expect(() => db.initDb(dbPath)).not.toThrow()
@@ -637,6 +735,75 @@ describe('db', () => {
     expect(db.countBankedTrivia('glitch')).toBe(0)
   })
 
+  // --- per-question trivia outcomes ---
+
+  const outcome = (question: string, answer: string, o: db.TriviaOutcome, ms = 0, misses = 0) =>
+    db.recordTriviaQuestionOutcome(db.triviaFingerprint(question, answer), { type: 21, question, answer }, o, ms, misses)
+
+  it('the fingerprint ignores case, punctuation and spacing', () => {
+    expect(db.triviaFingerprint('Who built it?', 'Agrippa')).toBe(db.triviaFingerprint('who  built it', 'agrippa.'))
+    expect(db.triviaFingerprint('Who built it?', 'Agrippa')).not.toBe(db.triviaFingerprint('Who built it?', 'Hadrian'))
+  })
+
+  it('adds up outcomes against one question', () => {
+    outcome('who built it?', 'Agrippa', 'answered', 4000, 1)
+    outcome('Who built it', 'Agrippa', 'answered', 6000)
+    outcome('who built it?', 'Agrippa', 'skipped', 0, 2)
+    const s = db.getTriviaQuestionStats(db.triviaFingerprint('who built it?', 'Agrippa'))!
+    expect(s).toMatchObject({ answered: 2, skipped: 1, unanswered: 0, close_misses: 3, answer_ms_total: 10000 })
+    expect(db.triviaQuestionVerdict(s)).toBe('ok')
+  })
+
+  it('retires a question chat keeps walking past', () => {
+    for (let i = 0; i < 3; i++) outcome('which moon?', 'Io', 'unanswered')
+    outcome('which moon?', 'Io', 'skipped')
+    outcome('fine one?', 'a', 'answered', 2000)
+    outcome('fine one?', 'a', 'answered', 2000)
+    expect(db.isTriviaQuestionRetired(db.triviaFingerprint('which moon?', 'Io'))).toBe(true)
+    expect(db.getTriviaTypeQuality()).toEqual([{ question_type: 21, asked: 6, bad: 4 }])
+  })
+
+  it('prunes question records nobody has asked in the window, and re-reads the type totals', () => {
+    outcome('old one?', 'a', 'skipped')
+    outcome('new one?', 'b', 'answered', 1000)
+    expect(db.getTriviaTypeQuality()).toEqual([{ question_type: 21, asked: 2, bad: 1 }])
+    outcome('new one?', 'b', 'answered', 1000)
+    // cached: one more round doesn't regroup the table
+    expect(db.getTriviaTypeQuality()).toEqual([{ question_type: 21, asked: 2, bad: 1 }])
+
+    db.getDb().run(`UPDATE trivia_question_stats SET last_asked_at = datetime('now', '-200 days') WHERE answer = 'a'`)
+    db.pruneOldTriviaGames(180)
+    expect(db.getTriviaQuestionStats(db.triviaFingerprint('old one?', 'a'))).toBeNull()
+    expect(db.getTriviaTypeQuality()).toEqual([{ question_type: 21, asked: 2, bad: 0 }])
+  })
+
+  it('a retired question rests, then comes back weak with its record halved', () => {
+    const fp = db.triviaFingerprint('which comet?', 'Halley')
+    for (let i = 0; i < 4; i++) outcome('which comet?', 'Halley', 'skipped')
+    expect(db.isTriviaQuestionRetired(fp)).toBe(true)
+    db.getDb().run(`UPDATE trivia_question_stats SET last_asked_at = datetime('now', '-31 days') WHERE fingerprint = ?`, [fp])
+    expect(db.isTriviaQuestionRetired(fp)).toBe(false)
+    expect(db.triviaQuestionVerdict(db.getTriviaQuestionStats(fp))).toBe('weak')
+    // one more bad round lands on half the old record, not all of it
+    outcome('which comet?', 'Halley', 'unanswered')
+    expect(db.getTriviaQuestionStats(fp)).toMatchObject({ skipped: 2, unanswered: 1 })
+    expect(db.isTriviaQuestionRetired(fp)).toBe(false)
+  })
+
+  it('the bank drops retired questions and serves weak ones last', () => {
+    for (let i = 0; i < 4; i++) outcome('retired one?', 'a', 'skipped')
+    outcome('weak one?', 'b', 'unanswered')
+    outcome('weak one?', 'b', 'answered', 9000)
+    db.bankTrivia('moons', 'moons', q('retired one?', 'a'), 3, false)
+    expect(db.countBankedTrivia('moons')).toBe(0)
+
+    db.bankTrivia('moons', 'moons', q('weak one?', 'b'), 3, false)
+    db.bankTrivia('moons', 'moons', q('soft one?', 'c'), 2, true)
+    expect(db.takeBankedTrivia('moons')?.answer).toBe('c')
+    expect(db.takeBankedTrivia('moons')?.answer).toBe('b')
+    expect(db.takeBankedTrivia('moons')).toBeNull()
+  })
+
   it('records cache tokens separately from uncached input', () => {
     db.recordAiSpend('spendchan', 100, 20, 900, 50)
     const s = db.getDailyAiSpend('spendchan')
@@ -651,6 +818,16 @@ describe('db', () => {
     db.recordAiSpend('nocache', 10, 5)
     expect(db.getDailyAiSpend('nocache').cache_read_tokens).toBe(0)
   })
+
+  it('channel locale defaults to English and persists a mod\'s choice', () => {
+    expect(db.getChannelLocale('somechan')).toBe('en')
+    db.setChannelLocale('SomeChan', 'pt')
+    expect(db.getChannelLocale('somechan')).toBe('pt')
+    // survives a cold cache — the row, not the map, is the source of truth
+    db.closeDb()
+    db.initDb(dbPath)
+    expect(db.getChannelLocale('SOMECHAN')).toBe('pt')
+  })
 })
 
 // Pasta recall used to return the wrong message entirely. Two ranking bugs compounded:
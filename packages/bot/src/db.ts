@@ -8,7 +8,7 @@ const DB_PATH = resolve(homedir(), '.bazaarinfo.db')
 
 let db: Database
 
-export type CmdType = 'item' | 'enchant' | 'enchants' | 'mob' | 'hero' | 'skill' | 'tag' | 'day' | 'event' | 'miss' | 'ai' | 'glossary'
+export type CmdType = 'item' | 'enchant' | 'enchants' | 'mob' | 'hero' | 'skill' | 'tag' | 'day' | 'event' | 'miss' | 'ai' | 'glossary' | 'history' | 'compare' | 'find' | 'counter' | 'route' | 'synergy'
 
 // --- prepared statements (initialized after migrations) ---
 
@@ -32,6 +32,7 @@ let stmts: {
   updateTriviaWin: Statement
   updateTriviaUserWin: Statement
   incrTriviaAttempt: Statement
+  incrChannelStreak: Statement
   resetTriviaStreak: Statement
   triviaLeaderboard: Statement
   channelMessages: Statement
@@ -116,7 +117,7 @@ function prepareStatements() {
        GROUP BY c.user_id ORDER BY total_commands DESC LIMIT ?`,
     ),
     insertTriviaGame: db.prepare(
-      'INSERT INTO trivia_games (channel, question_type, question_text, correct_answer) VALUES (?, ?, ?, ?)',
+      'INSERT INTO trivia_games (channel, question_type, question_text, correct_answer, match_id) VALUES (?, ?, ?, ?, ?)',
     ),
     lastInsertId: db.prepare('SELECT last_insert_rowid() as id'),
     insertTriviaAnswer: db.prepare(
@@ -139,11 +140,16 @@ function prepareStatements() {
       WHERE id = ?`,
     ),
     incrTriviaAttempt: db.prepare('UPDATE users SET trivia_attempts = trivia_attempts + 1 WHERE id = ?'),
+    incrChannelStreak: db.prepare(
+      `INSERT INTO trivia_channel_streaks (channel, user_id, streak)
+       SELECT channel, ?, 1 FROM trivia_games WHERE id = ?
+       ON CONFLICT(channel, user_id) DO UPDATE SET streak = streak + 1`,
+    ),
     resetTriviaStreak: db.prepare('UPDATE users SET trivia_streak = 0 WHERE id = ?'),
     triviaLeaderboard: db.prepare(
-      `SELECT u.username, COALESCE(SUM(tg.points), 0) as points, COUNT(*) as trivia_wins FROM users u
-       JOIN trivia_games tg ON tg.winner_id = u.id
-       WHERE tg.channel = ?
+      `SELECT u.username, COALESCE(SUM(tc.points), 0) as points, COUNT(*) as trivia_wins FROM users u
+       JOIN trivia_credits tc ON tc.user_id = u.id
+       WHERE tc.channel = ?
        GROUP BY u.id ORDER BY points DESC, trivia_wins DESC LIMIT ?`,
     ),
     channelMessages: db.prepare(
@@ -817,6 +823,118 @@ const migrations: (() => void)[] = [
       PRIMARY KEY (day, source)
     )`)
   },
+
+  // migration 26: per-channel card language. a row only exists once a mod picks one —
+  // no row means English, so every existing channel is unchanged.
+  () => {
+    db.run(`CREATE TABLE channel_locales (
+      channel TEXT PRIMARY KEY COLLATE NOCASE,
+      locale TEXT NOT NULL,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )`)
+  },
+
+  // migration 27: trivia tournaments. a match is a fixed run of ordinary rounds — each
+  // still a trivia_games row (so it counts toward the all-time board), tagged with the
+  // match it belongs to. the final standings are copied onto the match row when it ends,
+  // so a weekly result outlives the 180-day trivia_games prune.
+  () => {
+    db.run(`CREATE TABLE trivia_matches (
+      id INTEGER PRIMARY KEY,
+      channel TEXT NOT NULL,
+      rounds INTEGER NOT NULL,
+      rounds_played INTEGER NOT NULL DEFAULT 0,
+      started_by TEXT,
+      winner_id INTEGER REFERENCES users(id),
+      winner_points INTEGER,
+      standings_json TEXT,
+      started_at TEXT NOT NULL DEFAULT (datetime('now')),
+      ended_at TEXT
+    )`)
+    db.run(`CREATE INDEX idx_trivia_matches_channel ON trivia_matches(channel, id)`)
+    db.run(`ALTER TABLE trivia_games ADD COLUMN match_id INTEGER REFERENCES trivia_matches(id)`)
+    db.run(`CREATE INDEX idx_trivia_games_match ON trivia_games(match_id) WHERE match_id IS NOT NULL`)
+  },
+
+  // migration 28: trivia seasons. only the boundaries and the champion are stored — a
+  // season's board is trivia_games summed over its window. the open season (ended_at
+  // NULL) carries the channel's mode; no row at all means monthly. a season close zeroes
+  // streaks, so the streak bonus reads a per-channel streak — users.trivia_streak follows
+  // a chatter into every channel and stays their all-channel record for !b stats.
+  // everyone starts at zero here: the old streak can't be split by channel.
+  () => {
+    db.run(`CREATE TABLE trivia_seasons (
+      id INTEGER PRIMARY KEY,
+      channel TEXT NOT NULL,
+      mode TEXT NOT NULL,
+      label TEXT NOT NULL,
+      started_at TEXT NOT NULL,
+      ended_at TEXT,
+      champion_id INTEGER REFERENCES users(id),
+      champion_points INTEGER
+    )`)
+    db.run(`CREATE INDEX idx_trivia_seasons_channel ON trivia_seasons(channel, id)`)
+    db.run(`CREATE INDEX idx_trivia_games_channel_time ON trivia_games(channel, started_at)`)
+    db.run(`CREATE TABLE trivia_channel_streaks (
+      channel TEXT NOT NULL,
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      streak INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (channel, user_id)
+    )`)
+  },
+
+  // migration 29: a multiple-choice round can have several scorers. the quickest correct
+  // voter is the round's winner_id as before; every other correct voter's points sit on
+  // their answer row. trivia_credits is the one place both are read from, so the boards,
+  // seasons and match standings count a shared round the same way.
+  () => {
+    db.run(`ALTER TABLE trivia_answers ADD COLUMN points INTEGER NOT NULL DEFAULT 0`)
+    db.run(`CREATE INDEX idx_trivia_answers_credit ON trivia_answers(game_id) WHERE points > 0`)
+    db.run(`CREATE VIEW trivia_credits AS
+      SELECT g.id AS game_id, g.channel, g.match_id, g.started_at, g.winner_id AS user_id, g.points, g.answer_time_ms
+        FROM trivia_games g WHERE g.winner_id IS NOT NULL
+      UNION ALL
+      SELECT g.id, g.channel, g.match_id, g.started_at, a.user_id, a.points, a.answer_time_ms
+        FROM trivia_answers a JOIN trivia_games g ON g.id = a.game_id WHERE a.points > 0`)
+  },
+
+  // migration 30: per-question trivia outcomes. getTriviaTypeStats sees a generator as a
+  // whole, so one broken question inside a good generator — or a banked AI question
+  // chat always skips — never shows up. keyed by triviaFingerprint() and counted across
+  // channels: a question nobody can answer is unanswerable everywhere.
+  () => {
+    db.run(`CREATE TABLE trivia_question_stats (
+      fingerprint TEXT PRIMARY KEY,
+      question_type INTEGER NOT NULL,
+      question TEXT NOT NULL,
+      answer TEXT NOT NULL,
+      answered INTEGER NOT NULL DEFAULT 0,
+      skipped INTEGER NOT NULL DEFAULT 0,
+      unanswered INTEGER NOT NULL DEFAULT 0,
+      close_misses INTEGER NOT NULL DEFAULT 0,
+      answer_ms_total INTEGER NOT NULL DEFAULT 0,
+      last_asked_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )`)
+    db.run(`CREATE INDEX idx_trivia_question_stats_type ON trivia_question_stats(question_type)`)
+  },
+
+  // migration 31: team tournaments. a team match is an ordinary match with team names on
+  // it; who played for which team is its own table, and a team's score is its members'
+  // round wins summed — the rounds themselves still belong to the individual who won them,
+  // so the all-time board reads exactly as before. the final team totals are copied onto
+  // the match row like the individual standings.
+  () => {
+    db.run(`ALTER TABLE trivia_matches ADD COLUMN teams_json TEXT`)
+    db.run(`ALTER TABLE trivia_matches ADD COLUMN team_standings_json TEXT`)
+    db.run(`ALTER TABLE trivia_matches ADD COLUMN winner_team TEXT`)
+    db.run(`CREATE TABLE trivia_match_teams (
+      match_id INTEGER NOT NULL REFERENCES trivia_matches(id),
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      team TEXT NOT NULL,
+      joined_at TEXT NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (match_id, user_id)
+    )`)
+  },
 ]
 
 function runMigrations() {
@@ -849,6 +967,38 @@ export function initDb(path?: string) {
   runMigrations()
   prepareStatements()
   userIdCache.clear()
+  localeCache.clear()
+  typeQualityCache = null
+}
+
+// per-channel card language ('en' default). read on every item lookup, so cached; the
+// setter is the only writer and keeps the cache in step.
+const localeCache = new Map<string, string>()
+
+export function getChannelLocale(channel: string): string {
+  const key = channel.toLowerCase()
+  const cached = localeCache.get(key)
+  if (cached) return cached
+  // on the hot item-lookup path: a db that isn't up yet answers in English, uncached
+  let row: { locale: string } | null
+  try {
+    row = db.query('SELECT locale FROM channel_locales WHERE channel = ?').get(key) as { locale: string } | null
+  } catch {
+    return 'en'
+  }
+  const locale = row?.locale ?? 'en'
+  localeCache.set(key, locale)
+  return locale
+}
+
+export function setChannelLocale(channel: string, locale: string) {
+  const key = channel.toLowerCase()
+  localeCache.set(key, locale)
+  db.run(
+    `INSERT INTO channel_locales (channel, locale, updated_at) VALUES (?, ?, datetime('now'))
+     ON CONFLICT(channel) DO UPDATE SET locale = excluded.locale, updated_at = datetime('now')`,
+    [key, locale],
+  )
 }
 
 // stream sessions — feeds the deterministic next-stream predictor (schedule.ts).
@@ -1049,8 +1199,9 @@ export function createTriviaGame(
   questionType: number,
   questionText: string,
   correctAnswer: string,
+  matchId: number | null = null,
 ): number {
-  stmts.insertTriviaGame.run(channel, questionType, questionText, correctAnswer)
+  stmts.insertTriviaGame.run(channel, questionType, questionText, correctAnswer, matchId)
   return (stmts.lastInsertId.get() as { id: number }).id
 }
 
@@ -1070,6 +1221,21 @@ export function recordTriviaWin(gameId: number, userId: number, answerTimeMs: nu
   db.transaction(() => {
     stmts.updateTriviaWin.run(userId, answerTimeMs, participantCount, points, gameId)
     stmts.updateTriviaUserWin.run(points, answerTimeMs, answerTimeMs, answerTimeMs, userId)
+    stmts.incrChannelStreak.run(userId, gameId)
+  })()
+}
+
+/**
+ * Score a correct multiple-choice voter who wasn't the quickest. The round row already
+ * names the quickest as its winner, so this voter's points go on their own answer row
+ * (read back through trivia_credits) and their aggregates update exactly as a win would.
+ */
+export function recordTriviaShare(gameId: number, userId: number, answerTimeMs: number, points: number) {
+  db.transaction(() => {
+    db.query('UPDATE trivia_answers SET points = ? WHERE game_id = ? AND user_id = ? AND is_correct = 1')
+      .run(points, gameId, userId)
+    stmts.updateTriviaUserWin.run(points, answerTimeMs, answerTimeMs, answerTimeMs, userId)
+    stmts.incrChannelStreak.run(userId, gameId)
   })()
 }
 
@@ -1090,14 +1256,195 @@ export function recordTriviaAttempt(userId: number) {
   stmts.incrTriviaAttempt.run(userId)
 }
 
-export function resetTriviaStreak(userId: number) {
+/** a miss ends the chatter's all-channel streak and their streak in `channel` */
+export function resetTriviaStreak(userId: number, channel: string) {
   stmts.resetTriviaStreak.run(userId)
+  db.query('UPDATE trivia_channel_streaks SET streak = 0 WHERE channel = ? AND user_id = ?').run(channel, userId)
 }
 
 export function getTriviaLeaderboard(channel: string, limit = 5): { username: string; points: number; trivia_wins: number }[] {
   return stmts.triviaLeaderboard.all(channel, limit) as { username: string; points: number; trivia_wins: number }[]
 }
 
+// --- trivia tournaments ---
+
+export interface TriviaMatchStanding {
+  user_id: number
+  username: string
+  points: number
+  wins: number
+}
+
+export interface TriviaTeamStanding {
+  team: string
+  points: number
+  wins: number
+  players: number
+}
+
+/** `teams` makes it a team match: the team names, in the order they were given */
+export function createTriviaMatch(channel: string, rounds: number, startedBy: string | null, teams: string[] | null = null): number {
+  db.query('INSERT INTO trivia_matches (channel, rounds, started_by, teams_json) VALUES (?, ?, ?, ?)')
+    .run(channel, rounds, startedBy, teams ? JSON.stringify(teams) : null)
+  return (stmts.lastInsertId.get() as { id: number }).id
+}
+
+/** put a chatter on a team for one match. the first team sticks — returns the team they are on */
+export function joinTriviaMatchTeam(matchId: number, userId: number, team: string): string {
+  db.query('INSERT OR IGNORE INTO trivia_match_teams (match_id, user_id, team) VALUES (?, ?, ?)').run(matchId, userId, team)
+  const row = db.query('SELECT team FROM trivia_match_teams WHERE match_id = ? AND user_id = ?').get(matchId, userId) as { team: string }
+  return row.team
+}
+
+// team totals: each member's round wins in the match, summed. a team nobody has joined
+// yet has no rows — the caller knows the team names and fills those in at zero.
+export function getTriviaMatchTeamStandings(matchId: number): TriviaTeamStanding[] {
+  return db.query(
+    `SELECT t.team, COALESCE(SUM(c.points), 0) AS points, COUNT(c.game_id) AS wins, COUNT(DISTINCT t.user_id) AS players
+       FROM trivia_match_teams t
+       LEFT JOIN trivia_credits c ON c.match_id = t.match_id AND c.user_id = t.user_id
+      WHERE t.match_id = ?
+      GROUP BY t.team ORDER BY points DESC, wins DESC`,
+  ).all(matchId) as TriviaTeamStanding[]
+}
+
+// the match scoreboard, summed from its rounds. ties on points go to more rounds won,
+// then to the quicker best answer — someone has to be named the winner.
+export function getTriviaMatchStandings(matchId: number): TriviaMatchStanding[] {
+  return db.query(
+    `SELECT u.id AS user_id, u.username, SUM(c.points) AS points, COUNT(*) AS wins
+       FROM trivia_credits c JOIN users u ON u.id = c.user_id
+      WHERE c.match_id = ?
+      GROUP BY u.id ORDER BY points DESC, wins DESC, MIN(c.answer_time_ms) ASC`,
+  ).all(matchId) as TriviaMatchStanding[]
+}
+
+/**
+ * close a match: the winner is the top of `standings`, or nobody when it is empty or `declare`
+ * is false. a team match also keeps its team totals and `winnerTeam` (null for no winner or a draw).
+ */
+export function finishTriviaMatch(
+  matchId: number,
+  roundsPlayed: number,
+  standings: TriviaMatchStanding[],
+  declare = true,
+  teams: { standings: TriviaTeamStanding[]; winner: string | null } | null = null,
+) {
+  const winner = declare ? standings[0] ?? null : null
+  db.query(
+    `UPDATE trivia_matches SET rounds_played = ?, winner_id = ?, winner_points = ?, standings_json = ?,
+       team_standings_json = ?, winner_team = ?, ended_at = datetime('now') WHERE id = ?`,
+  ).run(
+    roundsPlayed, winner?.user_id ?? null, winner?.points ?? null, JSON.stringify(standings),
+    teams ? JSON.stringify(teams.standings) : null, declare ? teams?.winner ?? null : null, matchId,
+  )
+}
+
+// a match lives in memory while it runs, so a restart mid-match leaves its row open for good.
+// close each one on startup the way leaving the channel does: the standings so far, no winner.
+// every round the match started counts as played — the one the restart cut off included.
+export function closeOpenTriviaMatches(): number {
+  const open = db.query(
+    `SELECT m.id, m.teams_json, (SELECT COUNT(*) FROM trivia_games g WHERE g.match_id = m.id) AS played
+       FROM trivia_matches m WHERE m.ended_at IS NULL`,
+  ).all() as { id: number; teams_json: string | null; played: number }[]
+  for (const m of open) {
+    let teams: { standings: TriviaTeamStanding[]; winner: null } | null = null
+    if (m.teams_json) {
+      const rows = getTriviaMatchTeamStandings(m.id)
+      const empty = (JSON.parse(m.teams_json) as string[])
+        .filter((team) => !rows.some((r) => r.team === team))
+        .map((team) => ({ team, points: 0, wins: 0, players: 0 }))
+      teams = { standings: [...rows, ...empty], winner: null }
+    }
+    finishTriviaMatch(m.id, m.played, getTriviaMatchStandings(m.id), false, teams)
+  }
+  return open.length
+}
+
+export interface LastTriviaMatch {
+  rounds: number
+  rounds_played: number
+  winner: string | null
+  winner_points: number | null
+  ended_at: string
+  /** final team totals, best first — null for an individual match */
+  team_standings: TriviaTeamStanding[] | null
+  winner_team: string | null
+}
+
+export function getLastTriviaMatch(channel: string): LastTriviaMatch | null {
+  const row = db.query(
+    `SELECT m.rounds, m.rounds_played, u.username AS winner, m.winner_points, m.ended_at,
+            m.team_standings_json, m.winner_team
+       FROM trivia_matches m LEFT JOIN users u ON u.id = m.winner_id
+      WHERE m.channel = ? AND m.ended_at IS NOT NULL ORDER BY m.id DESC LIMIT 1`,
+  ).get(channel) as (Omit<LastTriviaMatch, 'team_standings'> & { team_standings_json: string | null }) | undefined
+  if (!row) return null
+  const { team_standings_json, ...rest } = row
+  return { ...rest, team_standings: team_standings_json ? JSON.parse(team_standings_json) as TriviaTeamStanding[] : null }
+}
+
+// --- trivia seasons ---
+// times are sqlite datetime() text ('YYYY-MM-DD HH:MM:SS', UTC), the same as trivia_games.started_at
+
+export interface TriviaSeason {
+  id: number
+  channel: string
+  mode: string
+  label: string
+  started_at: string
+  ended_at: string | null
+}
+
+export function getOpenTriviaSeason(channel: string): TriviaSeason | null {
+  return db.query(
+    'SELECT id, channel, mode, label, started_at, ended_at FROM trivia_seasons WHERE channel = ? AND ended_at IS NULL ORDER BY id DESC LIMIT 1',
+  ).get(channel) as TriviaSeason | null
+}
+
+export function openTriviaSeason(channel: string, mode: string, label: string, startedAt: string): number {
+  db.query('INSERT INTO trivia_seasons (channel, mode, label, started_at) VALUES (?, ?, ?, ?)').run(channel, mode, label, startedAt)
+  return (stmts.lastInsertId.get() as { id: number }).id
+}
+
+export function getTriviaSeasonLeaderboard(
+  channel: string,
+  from: string,
+  until: string | null,
+  limit = 5,
+): { user_id: number; username: string; points: number; trivia_wins: number }[] {
+  return db.query(
+    `SELECT u.id AS user_id, u.username, SUM(c.points) AS points, COUNT(*) AS trivia_wins
+       FROM trivia_credits c JOIN users u ON u.id = c.user_id
+      WHERE c.channel = ? AND c.started_at >= ? AND (? IS NULL OR c.started_at < ?)
+      GROUP BY u.id ORDER BY points DESC, trivia_wins DESC LIMIT ?`,
+  ).all(channel, from, until, until, limit) as { user_id: number; username: string; points: number; trivia_wins: number }[]
+}
+
+/**
+ * Close a season at `endedAt`: archive its champion and zero every streak in its channel,
+ * so the next season starts level. Only that channel's — the same chatter's streak in
+ * another channel runs on. One transaction — a half-closed season would leave two open
+ * rows or a champion with no end date.
+ */
+export function closeTriviaSeason(season: TriviaSeason, endedAt: string) {
+  db.transaction(() => {
+    const champion = getTriviaSeasonLeaderboard(season.channel, season.started_at, endedAt, 1)[0]
+    db.query('UPDATE trivia_seasons SET ended_at = ?, champion_id = ?, champion_points = ? WHERE id = ?')
+      .run(endedAt, champion?.user_id ?? null, champion?.points ?? null, season.id)
+    db.query('DELETE FROM trivia_channel_streaks WHERE channel = ?').run(season.channel)
+  })()
+}
+
+export function getPastTriviaSeasons(channel: string, limit = 5): (TriviaSeason & { champion: string | null; champion_points: number | null })[] {
+  return db.query(
+    `SELECT s.id, s.channel, s.mode, s.label, s.started_at, s.ended_at, u.username AS champion, s.champion_points
+       FROM trivia_seasons s LEFT JOIN users u ON u.id = s.champion_id
+      WHERE s.channel = ? AND s.ended_at IS NOT NULL ORDER BY s.id DESC LIMIT ?`,
+  ).all(channel, limit) as (TriviaSeason & { champion: string | null; champion_points: number | null })[]
+}
+
 // the most recent finished trivia round in a channel + who won it (null if it timed out
 // with no winner). lets "who won the trivia?" be answered from real data instead of the
 // AI inventing a winner. returns null if the channel has never run a round.
@@ -1110,9 +1457,11 @@ export function getLastTriviaResult(channel: string): { question: string; answer
   return row ? { question: row.question, answer: row.answer, winner: row.winner ?? null } : null
 }
 
-export function getTriviaStreak(userId: number): number {
-  const row = db.query('SELECT trivia_streak FROM users WHERE id = ?').get(userId) as { trivia_streak: number } | undefined
-  return row?.trivia_streak ?? 0
+/** the chatter's current run of won rounds in `channel` — what the streak bonus pays on */
+export function getTriviaStreak(userId: number, channel: string): number {
+  const row = db.query('SELECT streak FROM trivia_channel_streaks WHERE channel = ? AND user_id = ?')
+    .get(channel, userId) as { streak: number } | null
+  return row?.streak ?? 0
 }
 
 export function getTriviaWins(userId: number): number {
@@ -1133,6 +1482,116 @@ export function getTriviaTypeStats(channel: string): { question_type: number; ga
   ).all(channel) as { question_type: number; games: number; wins: number }[]
 }
 
+// --- per-question trivia outcomes ---
+
+export type TriviaOutcome = 'answered' | 'skipped' | 'unanswered'
+
+export interface TriviaQuestionStats {
+  fingerprint: string
+  question_type: number
+  question: string
+  answer: string
+  answered: number
+  skipped: number
+  unanswered: number
+  close_misses: number
+  answer_ms_total: number
+  last_asked_at: string
+}
+
+// a question is retired once it has had a fair hearing and chat still skips it or lets
+// it run out three times in four. below that bar but still mostly bad, it is "weak":
+// a banked copy is served only after every clean one.
+//
+// retirement isn't for life — the card pool, the chat and the wording all move on. a
+// retired question rests RETIRE_DAYS from when it was last asked, then comes back as weak,
+// and a record that old is halved before its next outcome lands, so one more bad round
+// doesn't send it straight back.
+const RETIRE_MIN_ASKS = 4
+const RETIRE_BAD_SHARE = 0.75
+const WEAK_MIN_ASKS = 2
+const WEAK_BAD_SHARE = 0.5
+const RETIRE_DAYS = 30
+
+/** a question's identity across rewraps: case, punctuation and spacing don't count */
+export function triviaFingerprint(question: string, answer: string): string {
+  const canon = (s: string) => s.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()
+  return Bun.hash(`${canon(question)}|${canon(answer)}`).toString(36)
+}
+
+export function triviaQuestionVerdict(
+  s: Pick<TriviaQuestionStats, 'answered' | 'skipped' | 'unanswered'> & { last_asked_at?: string } | null,
+  now = Date.now(),
+): 'ok' | 'weak' | 'retired' {
+  if (!s) return 'ok'
+  const bad = s.skipped + s.unanswered
+  const asked = s.answered + bad
+  if (asked >= RETIRE_MIN_ASKS && bad / asked >= RETIRE_BAD_SHARE) {
+    const rested = s.last_asked_at !== undefined && now - new Date(s.last_asked_at + 'Z').getTime() > RETIRE_DAYS * 86_400_000
+    return rested ? 'weak' : 'retired'
+  }
+  if (asked >= WEAK_MIN_ASKS && bad / asked >= WEAK_BAD_SHARE) return 'weak'
+  return 'ok'
+}
+
+export function recordTriviaQuestionOutcome(
+  fingerprint: string,
+  q: { type: number; question: string; answer: string },
+  outcome: TriviaOutcome,
+  answerMs: number,
+  closeMisses: number,
+): void {
+  // the newest wording is kept for the report. the counters add up, except that a record
+  // not asked for RETIRE_DAYS is halved first — the decay that lets a retired question back
+  const stale = `last_asked_at < datetime('now', '-${RETIRE_DAYS} days')`
+  const decayed = (col: string) => `CASE WHEN ${stale} THEN ${col} / 2 ELSE ${col} END`
+  db.query(
+    `INSERT INTO trivia_question_stats
+       (fingerprint, question_type, question, answer, answered, skipped, unanswered, close_misses, answer_ms_total)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(fingerprint) DO UPDATE SET
+       question = excluded.question,
+       answered = ${decayed('answered')} + excluded.answered,
+       skipped = ${decayed('skipped')} + excluded.skipped,
+       unanswered = ${decayed('unanswered')} + excluded.unanswered,
+       close_misses = ${decayed('close_misses')} + excluded.close_misses,
+       answer_ms_total = ${decayed('answer_ms_total')} + excluded.answer_ms_total,
+       last_asked_at = datetime('now')`,
+  ).run(
+    fingerprint, q.type, q.question.slice(0, 300), q.answer.slice(0, 120),
+    outcome === 'answered' ? 1 : 0, outcome === 'skipped' ? 1 : 0, outcome === 'unanswered' ? 1 : 0,
+    closeMisses, outcome === 'answered' ? Math.max(0, Math.round(answerMs)) : 0,
+  )
+}
+
+export function getTriviaQuestionStats(fingerprint: string): TriviaQuestionStats | null {
+  return db.query('SELECT * FROM trivia_question_stats WHERE fingerprint = ?').get(fingerprint) as TriviaQuestionStats | null
+}
+
+export function isTriviaQuestionRetired(fingerprint: string): boolean {
+  return triviaQuestionVerdict(getTriviaQuestionStats(fingerprint)) === 'retired'
+}
+
+// per-question-type outcome totals across every channel — the generator-level view of
+// the same table, for down-weighting a generator whose questions chat keeps walking past.
+// read on every type pick, and a round only moves one question's row by one, so the
+// totals are kept for TYPE_QUALITY_TTL rather than grouped over the whole table each time.
+const TYPE_QUALITY_TTL = 10 * 60_000
+let typeQualityCache: { at: number; rows: { question_type: number; asked: number; bad: number }[] } | null = null
+
+export function getTriviaTypeQuality(): { question_type: number; asked: number; bad: number }[] {
+  if (typeQualityCache && Date.now() - typeQualityCache.at < TYPE_QUALITY_TTL) return typeQualityCache.rows
+  const rows = db.query(
+    `SELECT question_type,
+            SUM(answered + skipped + unanswered) as asked,
+            SUM(skipped + unanswered) as bad
+       FROM trivia_question_stats
+      GROUP BY question_type`,
+  ).all() as { question_type: number; asked: number; bad: number }[]
+  typeQualityCache = { at: Date.now(), rows }
+  return rows
+}
+
 // channel chat style profile
 export function getChannelMessages(channel: string, limit = 5000): string[] {
   const rows = stmts.channelMessages.all(channel, limit) as { message: string }[]
@@ -1700,6 +2159,8 @@ export function bankTrivia(
   soft: boolean,
 ): void {
   try {
+    // a question chat has already retired stays retired, however the panel scored it
+    if (isTriviaQuestionRetired(triviaFingerprint(q.question, q.answer))) return
     // OR IGNORE: the unique indexes on question and (topic, answer) make re-banking a
     // duplicate a no-op rather than an error — exactly the wanted behavior.
     db.run(
@@ -1716,7 +2177,8 @@ export function bankTrivia(
  * Claim the best banked question for a topic, or null if the shelf is empty.
  * `reject` lets the caller skip rows that would trip the channel's recent-question /
  * recent-answer gates — a banked question must clear exactly the same bar as a fresh one.
- * Strong questions before soft ("verified but reads easy") ones, highest quality first.
+ * Strong questions before soft ("verified but reads easy") ones, highest quality first,
+ * and any question with a weak record in chat after all of them. A retired one is dropped.
  */
 export function takeBankedTrivia(topicKey: string, reject?: (q: BankedTrivia) => boolean): BankedTrivia | null {
   try {
@@ -1727,6 +2189,7 @@ export function takeBankedTrivia(topicKey: string, reject?: (q: BankedTrivia) =>
            WHERE topic_key = ? ORDER BY soft ASC, quality DESC, id ASC LIMIT 20`,
         )
         .all(topicKey) as { id: number; question: string; answer: string; accept_json: string; quality: number; soft: number }[]
+      let weak: BankedTrivia | null = null
       for (const r of rows) {
         let accept: string[]
         try {
@@ -1739,11 +2202,21 @@ export function takeBankedTrivia(topicKey: string, reject?: (q: BankedTrivia) =>
           continue
         }
         const q: BankedTrivia = { id: r.id, question: r.question, answer: r.answer, accept, quality: r.quality, soft: r.soft === 1 }
+        const verdict = triviaQuestionVerdict(getTriviaQuestionStats(triviaFingerprint(r.question, r.answer)))
+        if (verdict === 'retired') {
+          db.run('DELETE FROM trivia_bank WHERE id = ?', [r.id])
+          continue
+        }
         if (reject?.(q)) continue
+        if (verdict === 'weak') {
+          weak ??= q
+          continue
+        }
         db.run('DELETE FROM trivia_bank WHERE id = ?', [r.id])
         return q
       }
-      return null
+      if (weak) db.run('DELETE FROM trivia_bank WHERE id = ?', [weak.id])
+      return weak
     })()
   } catch (e) {
     log(`trivia_bank read failed: ${e}`)
@@ -1792,7 +2265,14 @@ export function pruneOldTriviaGames(days = 180) {
       `DELETE FROM trivia_games WHERE started_at < datetime('now', ?)`,
       [`-${days} days`],
     )
-    const total = (result.changes ?? 0) + (result2.changes ?? 0)
+    // a question nobody has asked in the window has no record worth keeping — a retired
+    // one rested long ago, and the generators and AI topics keep minting new fingerprints
+    const result3 = db.run(
+      `DELETE FROM trivia_question_stats WHERE last_asked_at < datetime('now', ?)`,
+      [`-${days} days`],
+    )
+    if ((result3.changes ?? 0) > 0) typeQualityCache = null
+    const total = (result.changes ?? 0) + (result2.changes ?? 0) + (result3.changes ?? 0)
     if (total > 0) log(`pruned ${total} trivia records older than ${days}d`)
   } catch (e) {
     log(`trivia prune error: ${e}`)
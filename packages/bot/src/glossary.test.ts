@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'bun:test'
-import { lookupKeywords, DEFINITIONAL_INTENT, GLOSSARY, LABEL, glossaryAnswer, isBareKeyword } from './glossary'
+import { lookupKeywords, keywordsIn, DEFINITIONAL_INTENT, GLOSSARY, LABEL, glossaryAnswer, isBareKeyword } from './glossary'
 
 describe('glossary — authoritative keyword definitions', () => {
   it('returns the Flying rule for a flying query (the bug that got the bot called out)', () => {
@@ -62,6 +62,14 @@ describe('glossary — authoritative keyword definitions', () => {
   })
 })
 
+describe('keywordsIn — canonical keys only', () => {
+  it('maps surface forms to their key, once each', () => {
+    expect(keywordsIn('Burn an enemy item; when you burn, Heal 5 and gain Shield').sort()).toEqual(['burn', 'heal', 'shield'])
+    expect(keywordsIn('Poisons the enemy')).toContain('poison')
+    expect(keywordsIn('a plain sentence')).toEqual([])
+  })
+})
+
 describe('glossaryAnswer — deterministic structured-path answer', () => {
   it('answers "what is flying" with the rule (not the item Flying Pig)', () => {
     const a = glossaryAnswer('what is flying')
@@ -147,6 +147,18 @@ export function lookupKeywords(query: string, max = 4): string[] {
   return hits
 }
 
+// Canonical keys of every glossary keyword in `text`, definitions left out — for callers
+// that reason about which mechanics a tooltip names (the counter advisor) rather than
+// explain them.
+export function keywordsIn(text: string): string[] {
+  const t = text.toLowerCase()
+  const hits = new Set<string>()
+  for (const [surface, canon] of Object.entries(SURFACE)) {
+    if (!hits.has(canon) && new RegExp(`\\b${surface}\\b`).test(t)) hits.add(canon)
+  }
+  return [...hits]
+}
+
 // Does the query ask what a thing IS / DOES / how it works? Gates glossary
 // injection and the no-invent-mechanic guard. Also treats a bare keyword-only
 // query ("flying", "poison?") as definitional.
@@ -1,7 +1,8 @@
 import type { CardCache } from '@bazaarinfo/shared'
+import { setCardPageBase } from '@bazaarinfo/shared'
 import { TwitchClient, getUserId } from './twitch'
 import type { ChannelInfo } from './twitch'
-import { loadStore, reloadStore, CACHE_PATH } from './store'
+import { loadStore, reloadStore, CACHE_PATH, LOCALES_DIR } from './store'
 import { handleCommand, setRefreshHandler, setEmoteRefreshHandler, setJoinHandler, setPartHandler, setStatusHandler, BOT_ADMINS } from './commands'
 import { getCacheInfo } from './store'
 import { ensureValidToken, refreshToken, getAccessToken } from './auth'
@@ -27,10 +28,14 @@ import * as emoteEvents from './emote-events'
 import { loadDescriptionCache } from './emote-describe'
 import { preloadStyles } from './style'
 import { writeAtomic } from './fs-util'
+import { mkdir } from 'fs/promises'
+import { resolve } from 'path'
 import { log } from './log'
 import { notify } from './notify'
 import { sweepVocabularyChunked } from './grounding-sweep'
-import { fetchPatchInfo } from './patch'
+import { fetchPatchInfo, getPatchInfo } from './patch'
+import type { PatchInfo } from './patch'
+import { archiveSnapshot } from './card-history'
 import { diffContent, renderDiffChat, renderDiffAlert } from './content-diff'
 import { readJson } from './http'
 import * as raid from './raid'
@@ -80,6 +85,11 @@ const STALE_HOURS = 168 // 7 days — daily cron handles normal refresh, this is
 const REPLY_FRESHNESS_MS = 180_000
 
 const SCRAPE_TIMEOUT = 5 * 60_000 // 5min
+// alternate-language card tables to scrape alongside the dump ("pt,es") — see !b lang
+const LOCALES = (process.env.BAZAARDB_LOCALES ?? '').split(',').map((l) => l.trim().toLowerCase()).filter(Boolean)
+
+// point chat's item/skill links at the EBS card page (https://<ebs>/c) instead of bazaardb
+if (process.env.CARD_PAGE_BASE) setCardPageBase(process.env.CARD_PAGE_BASE)
 
 let refreshPromise: Promise<void> | null = null
 
@@ -99,10 +109,11 @@ async function doRefreshData(opts: RefreshOpts) {
   })
 
   const prev = opts.prev
-  const { cache, stats } = await Promise.race([
+  const { cache, stats, locales } = await Promise.race([
     scrapeDump((msg) => log(`dump: ${msg}`), {
       prev: prev ? { items: prev.items?.length ?? 0, skills: prev.skills?.length ?? 0, monsters: prev.monsters?.length ?? 0 } : undefined,
       force: opts.force,
+      locales: LOCALES,
     }),
     timeout,
   ]).finally(() => clearTimeout(timer))
@@ -116,6 +127,10 @@ async function doRefreshData(opts: RefreshOpts) {
     notify('unknown-enums', 'bazaarinfo: new tier/size values in dump', `${parts} — items kept, display degrades. add to scraper VALID sets + TIER_EMOJI.`, 'high')
   }
   await writeAtomic(CACHE_PATH, JSON.stringify(cache, null, 2), 0o644)
+  if (locales.length) await mkdir(LOCALES_DIR, { recursive: true })
+  for (const table of locales) {
+    await writeAtomic(resolve(LOCALES_DIR, `${table.locale}.json`), JSON.stringify(table), 0o644)
+  }
 }
 
 // wired to the lobby channel once the twitch client exists — content-news only, never failures
@@ -143,6 +158,19 @@ function runGroundingSweep(): void {
     .finally(() => { sweepRunning = false })
 }
 
+// keep the on-disk cache's numbers in the per-patch history archive (card-history.ts).
+// waits on the patch fetch so a refresh that coincides with a patch drop files under the
+// new version; falls back to the cached version, and skips rather than guessing a key.
+async function archiveCache(info: Promise<PatchInfo | null>): Promise<void> {
+  try {
+    const version = (await info)?.latestPatch ?? getPatchInfo()?.latestPatch
+    if (!version) { log('history: no patch version known, snapshot skipped'); return }
+    await archiveSnapshot(await Bun.file(CACHE_PATH).json() as CardCache, version)
+  } catch (e) {
+    log(`history: archive failed: ${e}`)
+  }
+}
+
 // full refresh pipeline: scrape → reload → rebuild → patch info → content diff.
 // every refresh trigger goes through here. returns the chat-ready diff line, null if no change.
 async function refreshAll(opts: { force?: boolean } = {}): Promise<string | null> {
@@ -155,7 +183,7 @@ async function refreshAll(opts: { force?: boolean } = {}): Promise<string | null
   invalidatePromptCache()
   runGroundingSweep()
   // patch pages ship alongside dump changes — refetch now, not just at 4am (fail-soft inside)
-  fetchPatchInfo()
+  archiveCache(fetchPatchInfo())
 
   if (!prev) return null
   try {
@@ -196,6 +224,9 @@ try {
   rebuildTriviaMaps()
   // fetch bazaardb patch/event info on startup + arm the daily refresh (fail-soft inside)
   schedulePatchRefresh()
+  // seed the history archive from whatever is on disk, so the first patch after a fresh
+  // install already has something to diff against
+  archiveCache(Promise.resolve(null))
   // warm the world cup scoreboard so team-name detection works from the first query
   // (fail-soft: null on any failure; the on-demand TTL refresh handles the rest)
   fetchWorldCup().then((d) => { if (d) log(`worldcup: ${d.matches.length} matches in window`) })
@@ -207,6 +238,8 @@ try {
 // init db
 db.initDb()
 raid.setDb(db.getDb())
+const abandoned = db.closeOpenTriviaMatches()
+if (abandoned > 0) log(`trivia: closed ${abandoned} tournament(s) a restart left open`)
 
 const doRefresh = () => refreshToken(CLIENT_ID, CLIENT_SECRET)
 
@@ -401,7 +434,7 @@ const client = new TwitchClient(
       // never silently kill answer detection (which would make a live round "go dead").
       if (isGameActive(channel) && !muted) {
         try {
-          checkAnswer(channel, username, text, (ch, msg) => client.say(ch, msg, messageId))
+          checkAnswer(channel, username, text, (ch, msg) => client.say(ch, msg, messageId), badges)
         } catch (e) {
           log(`trivia checkAnswer error #${channel} [${username}]: ${e}`)
         }
@@ -20,7 +20,7 @@ export const RESERVED_SUBS = new Set([
   'trivia', 'skip', 'score', 'stats', 'top', 'alias', 'help', 'info',
   'refresh', 'update', 'emotes', 'status', 'join', 'part',
   'leave', 'pick', 'vote', 'party', 'shop', 'history', 'resolve', 'game',
-  'overlay',
+  'overlay', 'compare', 'find', 'counter', 'route', 'synergy', 'lang', 'language',
 ])
 
 // questions aimed at the bot itself. deliberately requires a self-referent, so the bare
@@ -36,6 +36,13 @@ export function isSelfQuery(query: string): boolean {
 // stale label behind (see assertGroupsCoverSubs).
 const GROUPS: Record<string, string[]> = {
   'look up any card, hero, monster, skill, tag or day': ['hero', 'mob', 'monster', 'skill', 'tag', 'day', 'event', 'encounter', 'enchants'],
+  'plan a run: every monster across a day range, most dangerous first': ['route'],
+  'show how a card changed over the last few patches': ['history'],
+  'line two items up side by side': ['compare'],
+  'find items by what they do, filtered by hero, size, tier or tag': ['find'],
+  "suggest items that answer a monster's burn, poison, shield or heal": ['counter'],
+  'list the items that work best with a card, and why': ['synergy'],
+  "answer card lookups in the channel's language": ['lang', 'language'],
   'run trivia and keep the standings': ['trivia', 'skip', 'score', 'stats', 'top'],
   'play The Depths, the co-op dungeon run': ['pick', 'vote', 'party', 'shop', 'history', 'resolve', 'leave', 'game'],
   'join or leave a channel on request': ['join', 'part'],
@@ -1,12 +1,16 @@
-import type { BazaarCard, CardCache, Monster } from '@bazaarinfo/shared'
-import { buildIndex, buildTitleMap, searchCards, findExact, searchPrefix, searchAllWords, resolveTooltip, squashName } from '@bazaarinfo/shared'
+import type { BazaarCard, CardCache, LocaleTable, LocalizedTitle, Monster } from '@bazaarinfo/shared'
+import { buildIndex, buildTitleMap, buildLocalizedIndex, foldAccents, searchCards, findExact, searchPrefix, searchAllWords, resolveTooltip, squashName } from '@bazaarinfo/shared'
 import Fuse from 'fuse.js'
+import { readdir } from 'fs/promises'
 import { resolve } from 'path'
 import { log } from './log'
 import { notify } from './notify'
 import * as db from './db'
 
 export const CACHE_PATH = resolve(import.meta.dir, '../../../cache/items.json')
+// one LocaleTable per language (pt.json, es.json), written by the refresh alongside CACHE_PATH
+export const LOCALES_DIR = resolve(import.meta.dir, '../../../cache/locales')
+export const DEFAULT_LOCALE = 'en'
 
 // slang/common names → actual item names
 export const ALIASES: Record<string, string> = {
@@ -99,13 +103,23 @@ let heroNames: string[] = []
 let tagNames: string[] = []
 let heroCardMap: Map<string, BazaarCard[]> = new Map()
 let tagCardMap: Map<string, BazaarCard[]> = new Map()
+let enchantCardMap: Map<string, BazaarCard[]> = new Map()
 let effectWordMap: Map<string, Set<BazaarCard>> = new Map()
+let synergyMap: Map<BazaarCard, Map<BazaarCard, SynergyLink>> = new Map()
 let dayMap: Map<number, Monster[]> = new Map()
 let events: BazaarCard[] = []
 let eventMap: Map<string, BazaarCard> = new Map()
 let derivedEnchantDefs: Record<string, string> = {}
 let dynamicGameTermsRe: RegExp | null = null
 
+interface LocaleIndex {
+  table: LocaleTable
+  /** accent-folded localized title (and its squashed form) → canonical card */
+  byTitle: Map<string, BazaarCard>
+  fuse: Fuse<LocalizedTitle>
+}
+let locales: Map<string, LocaleIndex> = new Map()
+
 // house style for a derived def: lowercase leading letter, no trailing period.
 function normalizeDef(text: string): string {
   const t = text.trim().replace(/\.$/, '')
@@ -121,6 +135,48 @@ function dedup<T extends { Title: string }>(cards: T[]): T[] {
   })
 }
 
+export interface Synergy {
+  card: BazaarCard
+  /** the tags linking the pair, e.g. ['Burn', 'Weapon'] — the citation */
+  via: string[]
+  /** one per referencing link; a pair that feeds each other outweighs a one-way link */
+  weight: number
+}
+interface SynergyLink {
+  via: Set<string>
+  weight: number
+}
+
+// the tags a card asks for rather than carries: "BurnReference" in its tags, or a display
+// tag named in its own text ("your Weapons", "a Tool")
+function referencedTags(card: BazaarCard, displayTagRe: RegExp | null): Set<string> {
+  const refs = new Set<string>()
+  for (const t of [...card.Tags, ...card.HiddenTags]) {
+    if (t.endsWith('Reference')) refs.add(t.slice(0, -'Reference'.length))
+  }
+  if (displayTagRe) {
+    for (const tip of card.Tooltips) {
+      for (const m of tip.text.matchAll(displayTagRe)) refs.add(m[1])
+    }
+  }
+  return refs
+}
+
+// a shared hero, or a Common card on either side — anything else never meets on one board
+function coPlayable(a: BazaarCard, b: BazaarCard): boolean {
+  if (a.Heroes.includes('Common') || b.Heroes.includes('Common')) return true
+  return a.Heroes.some((h) => b.Heroes.includes(h))
+}
+
+function addSynergy(from: BazaarCard, to: BazaarCard, tag: string) {
+  let links = synergyMap.get(from)
+  if (!links) { links = new Map(); synergyMap.set(from, links) }
+  let link = links.get(to)
+  if (!link) { link = { via: new Set(), weight: 0 }; links.set(to, link) }
+  link.via.add(tag)
+  link.weight++
+}
+
 function loadCache(cache: CardCache) {
   items = dedup(cache.items)
   skills = dedup(cache.skills ?? [])
@@ -136,10 +192,18 @@ function loadCache(cache: CardCache) {
     includeScore: true,
   })
 
-  // extract all enchantment names from item data
+  // extract all enchantment names from item data, and the reverse enchant → items index
   const enchSet = new Set<string>()
+  enchantCardMap = new Map()
   for (const item of items) {
-    if (item.Enchantments) for (const key of Object.keys(item.Enchantments)) enchSet.add(key.toLowerCase())
+    if (!item.Enchantments) continue
+    for (const key of Object.keys(item.Enchantments)) {
+      const lower = key.toLowerCase()
+      enchSet.add(lower)
+      let list = enchantCardMap.get(lower)
+      if (!list) { list = []; enchantCardMap.set(lower, list) }
+      list.push(item)
+    }
   }
   enchantmentNames = [...enchSet].sort()
 
@@ -217,6 +281,21 @@ function loadCache(cache: CardCache) {
     }
   }
 
+  // synergy graph: a card that references a tag links to every item carrying it, stored
+  // both ways so "what goes with X" finds X's payoffs and X's enablers alike
+  synergyMap = new Map()
+  const escapedDisplay = [...displayTagSet].map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  const displayTagRe = escapedDisplay.length ? new RegExp(`\\b(${escapedDisplay.join('|')})s?\\b`, 'g') : null
+  for (const card of allCards) {
+    for (const tag of referencedTags(card, displayTagRe)) {
+      for (const partner of tagCardMap.get(tag.toLowerCase()) ?? []) {
+        if (partner === card || !coPlayable(card, partner)) continue
+        addSynergy(card, partner, tag)
+        addSynergy(partner, card, tag)
+      }
+    }
+  }
+
   // event encounters (name-only in the dump — no effect tooltips). loaded for
   // exact-name recognition so "!b bjorn" is identified as an encounter instead of
   // dead-ending in an ungrounded AI guess. exact-match only, lowest lookup priority.
@@ -250,6 +329,43 @@ function loadCache(cache: CardCache) {
   }
 }
 
+// indexed against the cards loaded right now — a reload rebuilds these too, so a localized
+// name can never point at a card object from the previous cache
+function indexLocale(table: LocaleTable): LocaleIndex {
+  const byTitle = new Map<string, BazaarCard>()
+  for (const card of allCards) {
+    const loc = table.cards[card.Title]
+    if (!loc?.Title) continue
+    const folded = foldAccents(loc.Title)
+    if (!byTitle.has(folded)) byTitle.set(folded, card)
+    const squashed = squashName(folded)
+    if (squashed && !byTitle.has(squashed)) byTitle.set(squashed, card)
+  }
+  return { table, byTitle, fuse: buildLocalizedIndex(allCards, table.cards) }
+}
+
+// fail-soft: no directory, or a bad table, just means fewer languages — English always works
+async function loadLocales() {
+  const next = new Map<string, LocaleIndex>()
+  let files: string[] = []
+  try { files = (await readdir(LOCALES_DIR)).filter((f) => f.endsWith('.json')) } catch {}
+  for (const file of files) {
+    try {
+      const table = await Bun.file(resolve(LOCALES_DIR, file)).json() as LocaleTable
+      if (!table?.locale || !table.cards) continue
+      next.set(table.locale.toLowerCase(), indexLocale(table))
+    } catch (e) {
+      log(`locale table ${file} failed to load: ${e}`)
+    }
+  }
+  locales = next
+  if (locales.size > 0) log(`loaded locales: ${[...locales.keys()].join(', ')}`)
+}
+
+export function loadLocaleTable(table: LocaleTable) {
+  locales.set(table.locale.toLowerCase(), indexLocale(table))
+}
+
 export async function loadStore() {
   let cache: CardCache
   try {
@@ -258,6 +374,7 @@ export async function loadStore() {
     throw new Error(`failed to load cache at ${CACHE_PATH}: ${err}`)
   }
   loadCache(cache)
+  await loadLocales()
   loadDynamicAliases()
   log(`loaded ${items.length} items + ${skills.length} skills + ${monsters.length} monsters (cached ${cache.fetchedAt})`)
 }
@@ -266,6 +383,7 @@ export async function reloadStore() {
   try {
     const cache: CardCache = await Bun.file(CACHE_PATH).json()
     loadCache(cache)
+    await loadLocales()
     loadDynamicAliases()
     log(`reloaded ${items.length} items + ${skills.length} skills + ${monsters.length} monsters (cached ${cache.fetchedAt})`)
   } catch (e) {
@@ -380,6 +498,27 @@ export function getEnchantments(): string[] {
   return enchantmentNames
 }
 
+// resolves against the dump's own roster (getEnchantments), prefix-tolerant like heroes/tags
+export function findEnchantment(query: string): string | undefined {
+  return findInList(enchantmentNames, query)
+}
+
+/** every item whose Enchantments record carries `name` (any case) */
+export function byEnchantment(name: string): BazaarCard[] {
+  return enchantCardMap.get(name.toLowerCase()) ?? []
+}
+
+// strongest first; at equal weight a hero's own cards beat Common ones, then title.
+// `hero` narrows a Common card's partners to one hero's pool.
+export function synergiesOf(card: BazaarCard, hero?: string): Synergy[] {
+  const heroLower = hero?.toLowerCase()
+  const common = (c: BazaarCard) => (c.Heroes.includes('Common') ? 1 : 0)
+  return [...(synergyMap.get(card) ?? [])]
+    .filter(([c]) => !heroLower || c.Heroes.includes('Common') || c.Heroes.some((h) => h.toLowerCase() === heroLower))
+    .map(([c, link]) => ({ card: c, via: [...link.via], weight: link.weight }))
+    .sort((a, b) => b.weight - a.weight || common(a.card) - common(b.card) || a.card.Title.localeCompare(b.card.Title))
+}
+
 // derived generic definition for an enchant name (dump-derived, lowercase key). null
 // when the name never appeared in the dump's item Enchantments. curated defs in
 // enchants.ts always take priority over this — it's the day-one fallback.
@@ -459,6 +598,45 @@ export function monsterSuggest(query: string, limit = 3): string[] {
     .map((r) => r.item.Title)
 }
 
+/** every locale chat can pick — English plus each table on disk */
+export function getLocales(): string[] {
+  return [DEFAULT_LOCALE, ...[...locales.keys()].sort()]
+}
+
+// a localized name back to the canonical card — the localized twin of exact(): accents
+// and spacing are forgiven, nothing else
+export function exactLocalized(query: string, locale: string): BazaarCard | undefined {
+  const idx = locales.get(locale.toLowerCase())
+  if (!idx) return undefined
+  const folded = foldAccents(query.trim())
+  return idx.byTitle.get(folded) ?? idx.byTitle.get(squashName(folded))
+}
+
+// the best fuzzy localized hit under the same gate English titles use. like search(), a
+// near name, not a match — the caller still has to judge whether it is what chat meant
+export function searchLocalized(query: string, locale: string): BazaarCard | undefined {
+  const idx = locales.get(locale.toLowerCase())
+  if (!idx) return undefined
+  const [fuzzy] = idx.fuse.search(foldAccents(query.trim()), { limit: 1 })
+  return fuzzy && (fuzzy.score ?? 1) <= SCORE_GATE ? fuzzy.item.card : undefined
+}
+
+// a display copy in `locale` — Title and tooltip text swapped where the table has them;
+// numbers, tags and everything else stay canonical. English (or no row) is the card itself.
+export function localize(card: BazaarCard, locale: string): BazaarCard {
+  const loc = locales.get(locale.toLowerCase())?.table.cards[card.Title]
+  if (!loc) return card
+  const tips = loc.Tooltips
+  return {
+    ...card,
+    Title: loc.Title,
+    CanonicalTitle: card.Title,
+    Tooltips: tips && tips.length === card.Tooltips.length
+      ? card.Tooltips.map((t, i) => ({ ...t, text: tips[i] }))
+      : card.Tooltips,
+  }
+}
+
 export function getHeroNames(): string[] { return heroNames }
 export function getTagNames(): string[] { return tagNames }
 const TOOLTIP_STOP_WORDS = new Set([
@@ -467,7 +645,10 @@ const TOOLTIP_STOP_WORDS = new Set([
   'both', 'over', 'only', 'same', 'used', 'using',
 ])
 
-export function searchByEffect(query: string, hero?: string, limit = 5): BazaarCard[] {
+// `matchAll` keeps only cards whose tooltips carry every indexed query word — the ranked
+// any-word default suits the AI context builder, but a filter listing ("!b find heal burn")
+// must not count a card that only heals. words no card uses are ignored either way.
+export function searchByEffect(query: string, hero?: string, limit = 5, matchAll = false): BazaarCard[] {
   const lower = query.toLowerCase()
   const words = lower.split(/\s+/)
     .map((w) => w.replace(/[.,;:!?()\[\]+]/g, ''))
@@ -477,10 +658,12 @@ export function searchByEffect(query: string, hero?: string, limit = 5): BazaarC
   // use precomputed word index to narrow candidates
   const heroLower = hero?.toLowerCase()
   const scored = new Map<BazaarCard, number>()
+  let indexed = 0
 
   for (const w of words) {
     const matches = effectWordMap.get(w)
     if (!matches) continue
+    indexed++
     for (const card of matches) {
       if (heroLower && !card.Heroes.some((h) => h.toLowerCase() === heroLower)) continue
       scored.set(card, (scored.get(card) ?? 0) + 1)
@@ -488,6 +671,7 @@ export function searchByEffect(query: string, hero?: string, limit = 5): BazaarC
   }
 
   return [...scored.entries()]
+    .filter(([, n]) => !matchAll || n === indexed)
     .sort((a, b) => b[1] - a[1])
     .slice(0, limit)
     .map(([card]) => card)
@@ -0,0 +1,105 @@
+import { describe, expect, it, beforeEach, afterEach } from 'bun:test'
+import { unlinkSync } from 'fs'
+import { resolve } from 'path'
+import { tmpdir } from 'os'
+
+// dynamic import to avoid mock.module conflicts from other test files
+const db = await import('./db')
+const { OVERLAY } = await import('./patch-notes')
+const seasons = await import('./trivia-seasons')
+
+let dbPath: string
+
+function cleanPath(p: string) {
+  try { unlinkSync(p) } catch {}
+  try { unlinkSync(p + '-wal') } catch {}
+  try { unlinkSync(p + '-shm') } catch {}
+}
+
+const OCT_10 = Date.UTC(2026, 9, 10)
+const OCT_20 = Date.UTC(2026, 9, 20)
+const NOV_3 = Date.UTC(2026, 10, 3)
+const JAN_5 = Date.UTC(2027, 0, 5)
+
+// a won round, backdated to `at`
+function win(user: string, at: string, points: number, channel = 'sc') {
+  const gameId = db.createTriviaGame(channel, 1, 'q', 'a')
+  db.recordTriviaWin(gameId, db.getOrCreateUser(user), 1000, 1, points)
+  db.getDb().run('UPDATE trivia_games SET started_at = ? WHERE id = ?', [at, gameId])
+}
+
+describe('trivia seasons', () => {
+  beforeEach(() => {
+    process.env.BAZAARINFO_PATCH_CACHE = resolve(tmpdir(), 'bazaarinfo-no-patch-cache.json')
+    dbPath = resolve(tmpdir(), `.bazaarinfo-test-${Date.now()}-${Math.random().toString(36).slice(2)}.db`)
+    db.initDb(dbPath)
+  })
+
+  afterEach(() => {
+    delete process.env.BAZAARINFO_PATCH_CACHE
+    try { db.closeDb() } catch {}
+    cleanPath(dbPath)
+  })
+
+  it('a monthly season counts only its own month, the all-time board everything', () => {
+    win('veteran', '2026-08-02 12:00:00', 90)
+    win('newbie', '2026-10-05 12:00:00', 4)
+    win('veteran', '2026-10-06 12:00:00', 1)
+
+    expect(seasons.formatSeasonTop('sc', OCT_10)).toBe('season 2026-10 (since Oct 1): 1. newbie (4pts) | 2. veteran (1pts)')
+    expect(db.getTriviaLeaderboard('sc', 1)[0].username).toBe('veteran')
+  })
+
+  it('rolls over at the month boundary, archiving the champion and zeroing streaks', () => {
+    seasons.currentSeason('sc', OCT_10)
+    win('newbie', '2026-10-05 12:00:00', 4)
+    win('newbie', '2026-10-07 12:00:00', 3)
+    win('other', '2026-10-08 12:00:00', 5)
+    expect(db.getTriviaStreak(db.getOrCreateUser('newbie'), 'sc')).toBe(2)
+
+    const season = seasons.currentSeason('sc', NOV_3)
+    expect(season.label).toBe('2026-11')
+    expect(season.started_at).toBe('2026-11-01 00:00:00')
+    expect(db.getTriviaStreak(db.getOrCreateUser('newbie'), 'sc')).toBe(0)
+    expect(seasons.formatLastSeason('sc', NOV_3)).toBe('last season (2026-10): champion newbie with 7pts — 1. newbie (7pts) | 2. other (5pts)')
+    expect(seasons.formatSeasonTop('sc', NOV_3)).toContain('season 2026-11 has no trivia wins yet')
+  })
+
+  it('closing a season zeroes streaks in its own channel only', () => {
+    seasons.currentSeason('sc', OCT_10)
+    win('newbie', '2026-10-05 12:00:00', 4)
+    win('newbie', '2026-10-06 12:00:00', 4, 'other')
+    win('newbie', '2026-10-07 12:00:00', 4, 'other')
+
+    seasons.currentSeason('sc', NOV_3)
+    const id = db.getOrCreateUser('newbie')
+    expect(db.getTriviaStreak(id, 'sc')).toBe(0)
+    expect(db.getTriviaStreak(id, 'other')).toBe(2)
+    expect(db.getUserStats('newbie')!.trivia_best_streak).toBe(3)
+  })
+
+  it('a quiet stretch does not fold into the old season', () => {
+    seasons.currentSeason('sc', OCT_10)
+    win('early', '2026-10-05 12:00:00', 2)
+    win('late', '2026-12-05 12:00:00', 9)
+
+    expect(seasons.currentSeason('sc', JAN_5).label).toBe('2027-01')
+    // october closed at the end of october: december's round belongs to no season
+    expect(seasons.formatChampions('sc', JAN_5)).toBe('season champions: 2026-10: early (2pts)')
+  })
+
+  it('switching to patch seasons ends the current one now', () => {
+    seasons.currentSeason('sc', OCT_10)
+    win('newbie', '2026-10-05 12:00:00', 4)
+
+    expect(seasons.setSeasonMode('sc', 'patch', OCT_20)).toBe(`trivia seasons are now one per game patch — season patch ${OVERLAY.version} starts now`)
+    expect(seasons.setSeasonMode('sc', 'patch', OCT_20)).toBe('trivia seasons are already patch')
+    expect(seasons.currentSeason('sc', OCT_20).label).toBe(`patch ${OVERLAY.version}`)
+    expect(seasons.formatChampions('sc', OCT_20)).toBe('season champions: 2026-10: newbie (4pts)')
+  })
+
+  it('says so when there is nothing to show', () => {
+    expect(seasons.formatLastSeason('sc', OCT_10)).toContain('no finished trivia season yet')
+    expect(seasons.formatChampions('sc', OCT_10)).toContain('no finished trivia season yet')
+  })
+})
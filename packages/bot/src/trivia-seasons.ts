@@ -0,0 +1,108 @@
+import * as db from './db'
+import { log } from './log'
+import { getPatchInfo } from './patch'
+import { OVERLAY, resolvePatch } from './patch-notes'
+
+// Trivia seasons. The all-time board only ever grows, so a regular with two years of wins
+// is out of reach and new chatters stop trying. A season is a window over trivia_games —
+// a calendar month by default, or one game patch — and its board is those rounds summed.
+// Nothing is copied: trivia_seasons records where each season starts and ends and who won
+// it. Rollover is lazy — the first read (or win) after a season runs out closes it.
+
+export type SeasonMode = 'monthly' | 'patch'
+export const SEASON_MODES: readonly SeasonMode[] = ['monthly', 'patch']
+
+const BOARD_SIZE = 5
+const ARCHIVE_SHOWN = 5
+
+// sqlite datetime() text, UTC — comparable with trivia_games.started_at as a string
+function sqlTime(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 19).replace('T', ' ')
+}
+
+function parseSqlTime(t: string): number {
+  return Date.parse(t.replace(' ', 'T') + 'Z')
+}
+
+function monthStart(ms: number, offset = 0): number {
+  const d = new Date(ms)
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + offset, 1)
+}
+
+function shortDate(t: string): string {
+  return new Date(parseSqlTime(t)).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+}
+
+// the season `mode` puts `now` in. a patch season starts at the patch's release when the
+// notes know it, else when the bot first saw the new version.
+function seasonAt(mode: SeasonMode, now: number): { label: string; start: number } {
+  if (mode === 'monthly') {
+    const start = monthStart(now)
+    return { label: new Date(start).toISOString().slice(0, 7), start }
+  }
+  const version = resolvePatch(getPatchInfo(), now).info?.latestPatch ?? OVERLAY.version
+  const released = version === OVERLAY.version ? Date.parse(OVERLAY.released + 'T00:00:00Z') : NaN
+  return { label: `patch ${version}`, start: Number.isNaN(released) || released > now ? now : released }
+}
+
+/** the channel's open season, rolling the previous one into the archive if it has run out */
+export function currentSeason(channel: string, now = Date.now()): db.TriviaSeason {
+  const open = db.getOpenTriviaSeason(channel)
+  const mode: SeasonMode = open?.mode === 'patch' ? 'patch' : 'monthly'
+  const want = seasonAt(mode, now)
+  if (open && open.label === want.label) return open
+
+  let start = want.start
+  if (open) {
+    // never end a season before it began; a month ends with its month even when nobody
+    // was around to roll it over, so a quiet stretch isn't folded into the old season
+    const openStart = parseSqlTime(open.started_at)
+    start = Math.max(start, openStart)
+    const end = open.mode === 'monthly' ? Math.min(monthStart(openStart, 1), start) : start
+    db.closeTriviaSeason(open, sqlTime(end))
+    log(`trivia: season ${open.label} closed in #${channel}`)
+  }
+  const startedAt = sqlTime(start)
+  const id = db.openTriviaSeason(channel, mode, want.label, startedAt)
+  return { id, channel, mode, label: want.label, started_at: startedAt, ended_at: null }
+}
+
+/** switch how a channel's seasons are cut. the current season ends now either way. */
+export function setSeasonMode(channel: string, mode: SeasonMode, now = Date.now()): string {
+  const open = currentSeason(channel, now)
+  if (open.mode === mode) return `trivia seasons are already ${mode}`
+  db.closeTriviaSeason(open, sqlTime(now))
+  const { label } = seasonAt(mode, now)
+  db.openTriviaSeason(channel, mode, label, sqlTime(now))
+  return `trivia seasons are now ${mode === 'patch' ? 'one per game patch' : 'monthly'} — season ${label} starts now`
+}
+
+function formatBoard(rows: { username: string; points: number }[]): string {
+  return rows.map((r, i) => `${i + 1}. ${r.username} (${r.points}pts)`).join(' | ')
+}
+
+export function formatSeasonTop(channel: string, now = Date.now()): string {
+  const season = currentSeason(channel, now)
+  const rows = db.getTriviaSeasonLeaderboard(channel, season.started_at, null, BOARD_SIZE)
+  if (rows.length === 0) return `season ${season.label} has no trivia wins yet — !b trivia to start a round`
+  return `season ${season.label} (since ${shortDate(season.started_at)}): ${formatBoard(rows)}`
+}
+
+export function formatLastSeason(channel: string, now = Date.now()): string {
+  currentSeason(channel, now)
+  const last = db.getPastTriviaSeasons(channel, 1)[0]
+  if (!last) return 'no finished trivia season yet — !b top season for this one'
+  if (!last.champion) return `last season (${last.label}) ended with no trivia wins`
+  // the rounds behind an old season can be pruned; the champion is kept on the season row
+  const rows = db.getTriviaSeasonLeaderboard(channel, last.started_at, last.ended_at, BOARD_SIZE)
+  const board = rows.length ? ` — ${formatBoard(rows)}` : ''
+  return `last season (${last.label}): champion ${last.champion} with ${last.champion_points}pts${board}`
+}
+
+export function formatChampions(channel: string, now = Date.now()): string {
+  currentSeason(channel, now)
+  const past = db.getPastTriviaSeasons(channel, ARCHIVE_SHOWN)
+  if (past.length === 0) return 'no finished trivia season yet — !b top season for this one'
+  const lines = past.map((s) => `${s.label}: ${s.champion ? `${s.champion} (${s.champion_points}pts)` : 'nobody'}`)
+  return `season champions: ${lines.join(' | ')}`
+}
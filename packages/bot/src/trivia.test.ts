@@ -136,17 +136,26 @@ mock.module('./store', () => ({
 const mockCreateTriviaGame = mock(() => 1)
 const mockRecordTriviaAnswer = mock(() => {})
 const mockRecordTriviaWin = mock(() => {})
+const mockRecordTriviaShare = mock(() => {})
 const mockRecordTriviaAttempt = mock(() => {})
 const mockResetTriviaStreak = mock(() => {})
 const mockGetOrCreateUser = mock(() => 1)
 const mockGetTriviaLeaderboard = mock<() => { username: string; points: number; trivia_wins: number }[]>(() => [])
 const mockGetUserStats = mock<() => any>(() => null)
 const mockGetChannelLeaderboard = mock<() => { username: string; total_commands: number }[]>(() => [])
+const mockCreateTriviaMatch = mock(() => 7)
+const mockGetTriviaMatchStandings = mock<() => { user_id: number; username: string; points: number; wins: number }[]>(() => [])
+const mockFinishTriviaMatch = mock((..._args: unknown[]) => {})
+const mockJoinTriviaMatchTeam = mock((_matchId: number, _userId: number, team: string) => team)
+const mockGetTriviaMatchTeamStandings = mock<() => { team: string; points: number; wins: number; players: number }[]>(() => [])
+const mockIsTriviaQuestionRetired = mock((_fingerprint: string) => false)
+const mockRecordTriviaQuestionOutcome = mock((..._args: unknown[]) => {})
 
 mock.module('./db', () => ({
   createTriviaGame: mockCreateTriviaGame,
   recordTriviaAnswer: mockRecordTriviaAnswer,
   recordTriviaWin: mockRecordTriviaWin,
+  recordTriviaShare: mockRecordTriviaShare,
   recordTriviaAttempt: mockRecordTriviaAttempt,
   resetTriviaStreak: mockResetTriviaStreak,
   getOrCreateUser: mockGetOrCreateUser,
@@ -158,9 +167,25 @@ mock.module('./db', () => ({
   getTriviaWins: mock(() => 5),
   getTriviaTypeStats: mock(() => []),
   getDb: mock(() => null),
+  recordTriviaEnd: mock(() => {}),
+  createTriviaMatch: mockCreateTriviaMatch,
+  getTriviaMatchStandings: mockGetTriviaMatchStandings,
+  finishTriviaMatch: mockFinishTriviaMatch,
+  getLastTriviaMatch: mock(() => null),
+  joinTriviaMatchTeam: mockJoinTriviaMatchTeam,
+  getTriviaMatchTeamStandings: mockGetTriviaMatchTeamStandings,
+  triviaFingerprint: mock((question: string, answer: string) => `${question}|${answer}`),
+  isTriviaQuestionRetired: mockIsTriviaQuestionRetired,
+  recordTriviaQuestionOutcome: mockRecordTriviaQuestionOutcome,
+  getTriviaTypeQuality: mock(() => []),
 }))
 
 
+const mockCurrentSeason = mock(() => null)
+mock.module('./trivia-seasons', () => ({
+  currentSeason: mockCurrentSeason,
+}))
+
 mock.module('./log', () => ({
   log: mock(() => {}),
 }))
@@ -187,6 +212,7 @@ const {
   looksLikeAnswer,
   resetForTest,
   getActiveGameForTest,
+  __expireRoundForTest,
   __forceGenIdxForTest,
   rebuildTriviaMaps,
   norm,
@@ -199,6 +225,13 @@ const {
   setQuizCulturePackForTest,
   startQuizCultureTrivia,
   carriesLiveQuestion,
+  startTournament,
+  startTeamTournament,
+  joinTeam,
+  stopTournament,
+  tournamentStatus,
+  isTournamentActive,
+  __setMatchDelaysForTest,
 } = await import('./trivia')
 
 rebuildTriviaMaps()
@@ -210,6 +243,7 @@ beforeEach(() => {
   mockCreateTriviaGame.mockReset()
   mockRecordTriviaAnswer.mockReset()
   mockRecordTriviaWin.mockReset()
+  mockRecordTriviaShare.mockReset()
   mockRecordTriviaAttempt.mockReset()
   mockResetTriviaStreak.mockReset()
   mockGetOrCreateUser.mockReset()
@@ -222,6 +256,16 @@ beforeEach(() => {
   mockGetTriviaLeaderboard.mockImplementation(() => [])
   mockGetUserStats.mockImplementation(() => null)
   mockGetChannelLeaderboard.mockImplementation(() => [])
+  mockCreateTriviaMatch.mockClear()
+  mockGetTriviaMatchStandings.mockReset()
+  mockGetTriviaMatchStandings.mockImplementation(() => [])
+  mockFinishTriviaMatch.mockClear()
+  mockJoinTriviaMatchTeam.mockClear()
+  mockGetTriviaMatchTeamStandings.mockReset()
+  mockGetTriviaMatchTeamStandings.mockImplementation(() => [])
+  mockIsTriviaQuestionRetired.mockReset()
+  mockIsTriviaQuestionRetired.mockImplementation(() => false)
+  mockRecordTriviaQuestionOutcome.mockClear()
   setSay(mockSay)
 })
 
@@ -409,6 +453,7 @@ describe('startTrivia', () => {
       expect(start).not.toContain('cooldown')
       const game = getActiveGameForTest('#test')!
       checkAnswer('#test', `winner${i}`, game.acceptedAnswers[0], mockSay)
+      if (game.choice) __expireRoundForTest('#test') // a vote scores at the close
       expect(getActiveGameForTest('#test')).toBeUndefined() // round ended on win
     }
   })
@@ -434,7 +479,7 @@ describe('startTrivia', () => {
       if (game) types.add(game.questionType)
     }
     for (const t of types) {
-      expect([2, 3, 5, 6, 8, 12, 13, 14, 16, 18]).toContain(t)
+      expect([2, 3, 5, 6, 8, 12, 13, 14, 16, 18, 28, 30]).toContain(t)
     }
   })
 
@@ -462,7 +507,7 @@ describe('startTrivia', () => {
       if (game) types.add(game.questionType)
     }
     for (const t of types) {
-      expect([4, 7, 10, 11, 15, 17, 19]).toContain(t)
+      expect([4, 7, 10, 11, 15, 17, 19, 29]).toContain(t)
     }
   })
 
@@ -484,7 +529,11 @@ describe('startTrivia', () => {
 // ---------------------------------------------------------------------------
 describe('checkAnswer', () => {
   beforeEach(() => {
-    startTrivia('#test')
+    // these cover free-text answers — reroll a multiple-choice round
+    do {
+      resetForTest()
+      startTrivia('#test')
+    } while (getActiveGameForTest('#test')?.choice)
   })
 
   it('correct answer ends game', () => {
@@ -520,6 +569,13 @@ describe('checkAnswer', () => {
     expect(mockRecordTriviaWin).toHaveBeenCalledTimes(1)
   })
 
+  it('a win rolls the season over before the streak is read', () => {
+    mockCurrentSeason.mockClear()
+    const game = getActiveGameForTest('#test')!
+    checkAnswer('#test', 'player1', game.acceptedAnswers[0], mockSay)
+    expect(mockCurrentSeason).toHaveBeenCalledWith('#test')
+  })
+
   it('records attempt for real answers', () => {
     checkAnswer('#test', 'player1', 'some real answer', mockSay)
     expect(mockRecordTriviaAttempt).toHaveBeenCalledTimes(1)
@@ -1640,3 +1696,361 @@ describe('isTypoOf — from real rounds', () => {
     expect(isTypoOf('vanesa', ['vanessa'])).toBe(true)
   })
 })
+
+// ---------------------------------------------------------------------------
+// tournaments — a fixed run of rounds with its own scoreboard and a declared winner
+// ---------------------------------------------------------------------------
+describe('tournaments', () => {
+  const said = () => mockSay.mock.calls.map((c) => c[1])
+  // a multiple-choice round only scores when it closes, so close it
+  const win = (channel: string, user: string) => {
+    const game = getActiveGameForTest(channel)!
+    checkAnswer(channel, user, game.acceptedAnswers[0], mockSay)
+    if (game.choice) __expireRoundForTest(channel)
+  }
+
+  beforeEach(() => __setMatchDelaysForTest(5, 5))
+
+  it('refuses a round count outside the bounds', () => {
+    expect(startTournament('#t', 2, 'mod')).toContain('3-20 rounds')
+    expect(startTournament('#t', 21, 'mod')).toContain('3-20 rounds')
+    expect(isTournamentActive('#t')).toBe(false)
+    expect(mockCreateTriviaMatch).not.toHaveBeenCalled()
+  })
+
+  it('tags every round with the match and blocks other rounds while it runs', () => {
+    const msg = startTournament('#t', 3, 'mod')
+    expect(msg).toContain('Trivia tournament! 3 rounds')
+    expect(msg).toContain('[round 1/3]')
+    expect(mockCreateTriviaMatch).toHaveBeenCalledWith('#t', 3, 'mod')
+    expect((mockCreateTriviaGame.mock.calls[0] as unknown[])[4]).toBe(7)
+    win('#t', 'player1')
+    // between rounds: no game is live, but the match still owns the channel
+    expect(isGameActive('#t')).toBe(false)
+    expect(startTrivia('#t')).toContain('tournament in progress (round 2/3)')
+    expect(startCustomTrivia('#t', { question: 'q?', answer: 'a', accept: [] })).toContain('tournament in progress')
+  })
+
+  it('announces standings between rounds and declares the winner after the last', async () => {
+    startTournament('#t', 3, 'mod')
+    mockGetTriviaMatchStandings.mockImplementation(() => [{ user_id: 1, username: 'player1', points: 4, wins: 1 }])
+    win('#t', 'player1')
+    await Bun.sleep(30)
+    expect(said().some((m) => m.startsWith('standings after 1/3: 1. player1 4pts'))).toBe(true)
+    expect(said().some((m) => m.startsWith('[round 2/3]'))).toBe(true)
+
+    skipTrivia('#t')
+    await Bun.sleep(30)
+    mockGetTriviaMatchStandings.mockImplementation(() => [
+      { user_id: 1, username: 'player1', points: 9, wins: 2 },
+      { user_id: 2, username: 'player2', points: 3, wins: 1 },
+    ])
+    win('#t', 'player1')
+    await Bun.sleep(30)
+    expect(said().at(-1)).toContain('tournament over! player1 wins with 9pts (2/3 rounds)')
+    expect(isTournamentActive('#t')).toBe(false)
+    expect(mockFinishTriviaMatch).toHaveBeenCalledTimes(1)
+    expect(mockFinishTriviaMatch.mock.calls[0].slice(0, 2)).toEqual([7, 3])
+    expect(mockFinishTriviaMatch.mock.calls[0][3]).toBe(true)
+  })
+
+  it('a mod stop abandons the live round and declares from the rounds played', async () => {
+    startTournament('#t', 5, 'mod')
+    win('#t', 'player1')
+    await Bun.sleep(30)
+    mockGetTriviaMatchStandings.mockImplementation(() => [{ user_id: 1, username: 'player1', points: 4, wins: 1 }])
+    const msg = stopTournament('#t', 'mod')!
+    expect(msg).toContain('mod ended the tournament. Answer:')
+    expect(msg).toContain('player1 wins with 4pts (1/1 rounds)')
+    expect(isGameActive('#t')).toBe(false)
+    expect(isTournamentActive('#t')).toBe(false)
+    expect(stopTournament('#t')).toBeNull()
+  })
+
+  it('reports the live standings', () => {
+    startTournament('#t', 4, 'mod')
+    mockGetTriviaMatchStandings.mockImplementation(() => [{ user_id: 2, username: 'player2', points: 2, wins: 1 }])
+    expect(tournamentStatus('#t')).toBe('tournament round 1/4: 1. player2 2pts')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// team matches — the same match, scored per team; rounds still go to individuals
+// ---------------------------------------------------------------------------
+describe('team matches', () => {
+  const said = () => mockSay.mock.calls.map((c) => c[1])
+  const answer = (channel: string, user: string, badges: string[] = []) => {
+    const game = getActiveGameForTest(channel)!
+    const text = game.choice ? game.choice.options[game.choice.correct] : game.acceptedAnswers[0]
+    checkAnswer(channel, user, text, mockSay, badges)
+    if (game.choice) __expireRoundForTest(channel)
+  }
+
+  beforeEach(() => __setMatchDelaysForTest(5, 5))
+
+  it('refuses too few, too many or clashing team names', () => {
+    expect(startTeamTournament('#tm', 3, 'mod', ['red'])).toContain('2-4 teams')
+    expect(startTeamTournament('#tm', 3, 'mod', ['a', 'b', 'c', 'd', 'e'])).toContain('2-4 teams')
+    expect(startTeamTournament('#tm', 3, 'mod', ['Red', 'red'])).toContain('all different')
+    expect(startTeamTournament('#tm', 3, 'mod', ['red', 'blue!'])).toContain('one word each')
+    expect(isTournamentActive('#tm')).toBe(false)
+  })
+
+  it('opens a match with the teams on it and lets chatters pick a side once', () => {
+    const msg = startTeamTournament('#tm', 3, 'mod', ['Red', 'Blue'])
+    expect(msg).toContain('Team trivia! red vs blue, 3 rounds')
+    expect(msg).toContain('[round 1/3]')
+    expect(mockCreateTriviaMatch).toHaveBeenCalledWith('#tm', 3, 'mod', ['red', 'blue'])
+    expect(joinTeam('#tm', 'alice', 'RED')).toBe('alice joined red')
+    expect(mockJoinTriviaMatchTeam).toHaveBeenCalledWith(7, 1, 'red')
+    expect(joinTeam('#tm', 'alice', 'blue')).toBe("you're on red for this match")
+    expect(joinTeam('#tm', 'bob', 'green')).toBe('teams are: red, blue')
+    expect(joinTeam('#other', 'bob', 'red')).toBe('no team match running')
+  })
+
+  it('places an unjoined answerer on the smallest team and credits the win to it', () => {
+    startTeamTournament('#tm', 3, 'mod', ['red', 'blue'])
+    joinTeam('#tm', 'alice', 'red')
+    answer('#tm', 'bob')
+    expect(mockJoinTriviaMatchTeam).toHaveBeenLastCalledWith(7, 1, 'blue')
+    expect(said()[0]).toMatch(/bob (got it in .*)?\+\d+pts for blue/)
+    // the round is still bob's: the individual win is recorded as always
+    expect(mockRecordTriviaWin).toHaveBeenCalledTimes(1)
+  })
+
+  it('a subs match sides by badge, and nobody picks', () => {
+    startTeamTournament('#tm', 3, 'mod', 'subs')
+    expect(joinTeam('#tm', 'carol', 'subs')).toContain('by sub badge')
+    answer('#tm', 'carol', ['founder'])
+    expect(mockJoinTriviaMatchTeam).toHaveBeenLastCalledWith(7, 1, 'subs')
+    expect(said()[0]).toContain('for subs')
+  })
+
+  it('posts team totals between rounds and names the winning team and the MVP', async () => {
+    startTeamTournament('#tm', 3, 'mod', ['red', 'blue'])
+    mockGetTriviaMatchTeamStandings.mockImplementation(() => [{ team: 'red', points: 4, wins: 1, players: 1 }])
+    answer('#tm', 'player1')
+    await Bun.sleep(30)
+    expect(said().some((m) => m.startsWith('standings after 1/3: red 4pts (1 player) | blue 0pts (0 players)'))).toBe(true)
+
+    mockGetTriviaMatchStandings.mockImplementation(() => [{ user_id: 1, username: 'player1', points: 9, wins: 2 }])
+    mockGetTriviaMatchTeamStandings.mockImplementation(() => [
+      { team: 'red', points: 9, wins: 2, players: 1 },
+      { team: 'blue', points: 0, wins: 0, players: 2 },
+    ])
+    const msg = stopTournament('#tm', 'mod')!
+    expect(msg).toContain('team match over! red wins with 9pts')
+    expect(msg).toContain('final: red 9pts (1 player) | blue 0pts (2 players) — MVP player1 9pts')
+    expect(mockFinishTriviaMatch.mock.calls[0][4]).toEqual({
+      standings: [{ team: 'red', points: 9, wins: 2, players: 1 }, { team: 'blue', points: 0, wins: 0, players: 2 }],
+      winner: 'red',
+    })
+  })
+
+  it('level teams are a draw', () => {
+    startTeamTournament('#tm', 3, 'mod', ['red', 'blue'])
+    answer('#tm', 'player1')
+    mockGetTriviaMatchStandings.mockImplementation(() => [{ user_id: 1, username: 'player1', points: 4, wins: 1 }])
+    mockGetTriviaMatchTeamStandings.mockImplementation(() => [
+      { team: 'red', points: 4, wins: 1, players: 1 },
+      { team: 'blue', points: 4, wins: 1, players: 1 },
+    ])
+    expect(stopTournament('#tm', 'mod')).toContain('a draw! final: red 4pts (1 player) | blue 4pts (1 player)')
+    expect(mockFinishTriviaMatch.mock.calls[0][4]).toMatchObject({ winner: null })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// multiple choice — vote by letter, one vote each, every right vote scores at the
+// close; odd one out from heroes/tags
+// ---------------------------------------------------------------------------
+describe('multiple-choice rounds', () => {
+  const SIZE_CHOICE_IDX = 26 // genSizeChoiceQuestion (type 28)
+  const HP_CHOICE_IDX = 27 // genHpChoiceQuestion (type 29)
+  const ODD_ONE_OUT_IDX = 28 // genOddOneOutQuestion (type 30)
+  const letterOf = (i: number) => 'abcd'[i]
+  const optionsOf = (msg: string) => [...msg.matchAll(/[A-D]\) (.+?)(?= [A-D]\) | — one vote)/g)].map((m) => m[1])
+
+  afterEach(() => __forceGenIdxForTest(null))
+
+  it('announces lettered options and takes each chatter\'s first vote only', () => {
+    __forceGenIdxForTest(ODD_ONE_OUT_IDX)
+    const msg = startTrivia('#mc')
+    expect(msg).toContain('one vote each, answer with the letter')
+    expect(optionsOf(msg)).toHaveLength(4)
+    const game = getActiveGameForTest('#mc')!
+    const right = game.choice!.correct
+    const wrong = (right + 1) % 4
+
+    checkAnswer('#mc', 'guesser', letterOf(wrong), mockSay)
+    checkAnswer('#mc', 'guesser', letterOf(right), mockSay) // second vote: ignored
+    expect(mockRecordTriviaAttempt).toHaveBeenCalledTimes(1)
+    expect(mockResetTriviaStreak).toHaveBeenCalledTimes(1)
+    checkAnswer('#mc', 'knower', `is it ${letterOf(right).toUpperCase()})?`, mockSay)
+    expect(game.choice!.right.map((v) => v.username)).toEqual(['knower'])
+  })
+
+  it('keeps the vote open after a right letter and scores every right voter at the close', () => {
+    __forceGenIdxForTest(ODD_ONE_OUT_IDX)
+    const ids: Record<string, number> = { quick: 1, slow: 2, wrong: 3 }
+    mockGetOrCreateUser.mockImplementation(((name: string) => ids[name]) as () => number)
+    startTrivia('#mc')
+    const game = getActiveGameForTest('#mc')!
+    const right = game.choice!.correct
+
+    checkAnswer('#mc', 'quick', letterOf(right), mockSay)
+    expect(isGameActive('#mc')).toBe(true)
+    expect(mockRecordTriviaWin).not.toHaveBeenCalled()
+    checkAnswer('#mc', 'wrong', letterOf((right + 1) % 4), mockSay)
+    checkAnswer('#mc', 'slow', letterOf(right), mockSay)
+
+    __expireRoundForTest('#mc')
+    expect(isGameActive('#mc')).toBe(false)
+    // the quickest takes the round row; the other right voter is credited on their answer
+    expect(mockRecordTriviaWin).toHaveBeenCalledTimes(1)
+    expect((mockRecordTriviaWin.mock.calls[0] as unknown[]).slice(0, 2)).toEqual([1, 1])
+    expect((mockRecordTriviaWin.mock.calls[0] as unknown[])[3]).toBe(3) // participants
+    expect(mockRecordTriviaShare).toHaveBeenCalledTimes(1)
+    expect((mockRecordTriviaShare.mock.calls[0] as unknown[]).slice(0, 2)).toEqual([1, 2])
+    expect((mockRecordTriviaShare.mock.calls[0] as unknown[])[3]).toBeGreaterThan(0)
+    const said = mockSay.mock.calls[0][1]
+    expect(said).toMatch(/^time's up! 2 got it: quick \+\d+pts \(\d+\.\ds\), slow \+\d+pts/)
+    expect(said).toContain(`Answer: ${'ABCD'[right]}) `)
+    expect(said).not.toContain('wrong')
+  })
+
+  it('a vote nobody got right times out like any round', () => {
+    __forceGenIdxForTest(ODD_ONE_OUT_IDX)
+    startTrivia('#mc')
+    const right = getActiveGameForTest('#mc')!.choice!.correct
+    checkAnswer('#mc', 'guesser', letterOf((right + 1) % 4), mockSay)
+    __expireRoundForTest('#mc')
+    expect(mockRecordTriviaWin).not.toHaveBeenCalled()
+    expect(mockSay.mock.calls[0][1]).toStartWith("time's up! answer: ")
+  })
+
+  it('counts an option named in full and ignores ordinary chat', () => {
+    __forceGenIdxForTest(ODD_ONE_OUT_IDX)
+    startTrivia('#mc')
+    const game = getActiveGameForTest('#mc')!
+    checkAnswer('#mc', 'chatter', 'lol this one is hard', mockSay)
+    expect(mockRecordTriviaAttempt).not.toHaveBeenCalled()
+    checkAnswer('#mc', 'chatter', game.choice!.options[game.choice!.correct].toUpperCase(), mockSay)
+    expect(game.choice!.right).toHaveLength(1)
+  })
+
+  it('odd one out always has exactly one item that does not fit', () => {
+    __forceGenIdxForTest(ODD_ONE_OUT_IDX)
+    const byTitle = new Map(allItems.map((c) => [c.Title, c]))
+    for (let i = 0; i < 30; i++) {
+      startTrivia(`#odd${i}`)
+      const { options, correct } = getActiveGameForTest(`#odd${i}`)!.choice!
+      const odd = byTitle.get(options[correct])!
+      const rest = options.filter((_, j) => j !== correct).map((t) => byTitle.get(t)!)
+      const sharedHero = rest.every((c) => c.Heroes[0] === rest[0].Heroes[0]) && odd.Heroes[0] !== rest[0].Heroes[0]
+      const sharedTag = rest[0].DisplayTags.some((t) => rest.every((c) => c.DisplayTags.includes(t)) && !odd.DisplayTags.includes(t))
+      expect(sharedHero || sharedTag).toBe(true)
+    }
+  })
+
+  it('the monster with the most health is the right option', () => {
+    const extra = [150, 90, 800].map((health, i) => ({ ...dragon, Title: `Beast ${i}`, MonsterMetadata: { ...dragon.MonsterMetadata, health } }))
+    allMonsters.push(...extra)
+    try {
+      __forceGenIdxForTest(HP_CHOICE_IDX)
+      for (let i = 0; i < 10; i++) {
+        startTrivia(`#hp${i}`)
+        const { options, correct } = getActiveGameForTest(`#hp${i}`)!.choice!
+        const hp = (t: string) => allMonsters.find((m) => m.Title === t)!.MonsterMetadata.health
+        expect(options.every((t) => hp(t) <= hp(options[correct]))).toBe(true)
+      }
+    } finally {
+      allMonsters.splice(allMonsters.length - extra.length)
+    }
+  })
+
+  it('the size round offers exactly one item of the asked size', () => {
+    const extra = ['Small', 'Large', 'Large'].map((Size, i) => makeCard({ Title: `Thing ${i}`, Heroes: ['Dooley'], Size: Size as BazaarCard['Size'] }))
+    allItems.push(...extra)
+    try {
+      __forceGenIdxForTest(SIZE_CHOICE_IDX)
+      for (let i = 0; i < 20; i++) {
+        const msg = startTrivia(`#size${i}`)
+        if (!msg.startsWith('Trivia!')) continue // a size with no wrong options to offer
+        const size = msg.match(/is (Small|Medium|Large)\?/)![1]
+        const sizes = optionsOf(msg).map((t) => allItems.find((c) => c.Title === t)!.Size)
+        expect(sizes.filter((s) => s === size)).toHaveLength(1)
+      }
+    } finally {
+      allItems.splice(allItems.length - extra.length)
+    }
+  })
+})
+
+// ---------------------------------------------------------------------------
+// per-question telemetry — every finished round lands against its question's
+// fingerprint, and a question chat has retired is never asked again
+// ---------------------------------------------------------------------------
+describe('question telemetry', () => {
+  const custom = { question: 'Which sword was forged for mercy?', answer: 'Sword of Mercy', accept: [] }
+  const fp = `${custom.question}|${custom.answer}`
+
+  it('a win records the answer time and every close miss', () => {
+    startCustomTrivia('#tel', custom)
+    checkAnswer('#tel', 'near', 'sword of marcx', mockSay)
+    checkAnswer('#tel', 'nearer', 'swerd of mercx', mockSay)
+    checkAnswer('#tel', 'winner', 'sword of mercy', mockSay)
+    expect(mockRecordTriviaQuestionOutcome).toHaveBeenCalledTimes(1)
+    const [fingerprint, q, outcome, ms, closeMisses] = mockRecordTriviaQuestionOutcome.mock.calls[0]
+    expect(fingerprint).toBe(fp)
+    expect(q).toMatchObject({ type: 21, answer: 'Sword of Mercy' })
+    expect(outcome).toBe('answered')
+    expect(ms).toBeGreaterThanOrEqual(0)
+    expect(closeMisses).toBe(2)
+  })
+
+  it('a mod skip is recorded as skipped', () => {
+    startCustomTrivia('#tel', custom)
+    skipTrivia('#tel', 'mod', true)
+    expect(mockRecordTriviaQuestionOutcome.mock.calls[0][2]).toBe('skipped')
+  })
+
+  it('a viewer skip only counts once someone has guessed', () => {
+    startCustomTrivia('#tel', custom)
+    skipTrivia('#tel', 'viewer')
+    expect(mockRecordTriviaQuestionOutcome).not.toHaveBeenCalled()
+
+    startCustomTrivia('#tel', custom)
+    checkAnswer('#tel', 'guesser', 'shield of wrath', mockSay)
+    skipTrivia('#tel', 'viewer')
+    expect(mockRecordTriviaQuestionOutcome.mock.calls[0][2]).toBe('skipped')
+  })
+
+  it('a retired generated question is rerolled', () => {
+    const asked: string[] = []
+    mockIsTriviaQuestionRetired.mockImplementation((f: string) => {
+      asked.push(f)
+      return asked.length === 1
+    })
+    expect(startTrivia('#tel')).toContain('Trivia!')
+    expect(asked.length).toBeGreaterThanOrEqual(2)
+    expect(getActiveGameForTest('#tel')!.fingerprint).toBe(asked[asked.length - 1])
+  })
+
+  it('a retired fallback question is never served', () => {
+    const pack = [
+      { question: 'what is the hottest planet?', answer: 'Venus', accept: [] },
+      { question: 'how many hearts does an octopus have?', answer: 'three', accept: ['3'] },
+    ]
+    setFallbackPackForTest(pack)
+    mockIsTriviaQuestionRetired.mockImplementation((f: string) => f.endsWith('|Venus'))
+    try {
+      for (let i = 0; i < 5; i++) {
+        startFallbackTrivia(`#fbr${i}`)
+        expect(getActiveGameForTest(`#fbr${i}`)!.correctAnswer).toBe('three')
+      }
+    } finally {
+      setFallbackPackForTest([])
+    }
+  })
+})
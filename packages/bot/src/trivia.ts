@@ -3,9 +3,10 @@ import { ALIASES, HERO_ALIASES } from './store'
 import * as db from './db'
 import { log } from './log'
 import { resolveTooltip } from '@bazaarinfo/shared'
-import type { Monster } from '@bazaarinfo/shared'
+import type { BazaarCard, Monster } from '@bazaarinfo/shared'
 import { pickEmoteByMood, isEmote } from './emotes'
 import { HS_GENERATORS, hsTriviaReady } from './hs-trivia'
+import { currentSeason } from './trivia-seasons'
 
 // what the channel is streaming, injected rather than imported: reaching into ai-cache
 // from here drags the whole AI graph into every consumer of trivia (and broke a mocked
@@ -236,7 +237,19 @@ interface TriviaState {
   timeout: Timer
   hintTimers: Timer[]
   closeMissCount: number
+  /** every wrong guess within closeMissDistance, taunted or not — telemetry, not chat */
+  closeMisses: number
+  /** db.triviaFingerprint of the question, for per-question outcome stats */
+  fingerprint: string
   say: SayFn
+  /** multiple-choice rounds: the options, the right one, who has voted, and the right votes in order */
+  choice: { options: string[]; correct: number; voted: Set<string>; right: CorrectVote[] } | null
+}
+
+interface CorrectVote {
+  username: string
+  userId: number
+  answerTimeMs: number
 }
 
 // clear all pending hint timers for a round — single chokepoint so no timer can leak
@@ -257,8 +270,15 @@ export function setSay(fn: SayFn) {
   globalSay = fn
 }
 
-// question generators
-type QuestionGen = () => { question: string; answer: string; accepted: string[]; type: number } | null
+// question generators. `choices` makes it a multiple-choice round: chat votes by letter
+// (or by naming an option), one vote each, instead of typing free text.
+type QuestionGen = () => {
+  question: string
+  answer: string
+  accepted: string[]
+  type: number
+  choices?: { options: string[]; correct: number }
+} | null
 
 function pickRandom<T>(arr: T[]): T {
   return arr[Math.floor(Math.random() * arr.length)]
@@ -628,6 +648,116 @@ function genKrippQuestion(): ReturnType<QuestionGen> {
   }
 }
 
+// --- multiple-choice generators ---
+//
+// The fair form of the coin-flip questions. Free text let a chatter win "what size is X?"
+// by typing all three sizes; here everyone gets one vote across four options, so a blind
+// guess is 1 in 4 and costs the guesser their shot at the round. Votes stay open for the
+// whole round and every right one scores, faster for more — the first letter in can't
+// close it on the rest of chat.
+
+const CHOICE_LETTERS = ['A', 'B', 'C', 'D']
+
+function pickDistinct<T>(arr: T[], n: number): T[] {
+  const pool = [...arr]
+  const out: T[] = []
+  while (out.length < n && pool.length > 0) out.push(pool.splice(Math.floor(Math.random() * pool.length), 1)[0])
+  return out
+}
+
+// shuffle the right option in among the wrong ones and print them after the question.
+// `reveal` is what the answer line says (the bare option when omitted).
+function choiceQuestion(question: string, right: string, wrong: string[], type: number, reveal = right): ReturnType<QuestionGen> {
+  const options = pickDistinct([right, ...wrong], wrong.length + 1)
+  if (options.length !== CHOICE_LETTERS.length || new Set(options.map(norm)).size !== options.length) return null
+  const correct = options.indexOf(right)
+  return {
+    question: `${question} ${options.map((o, i) => `${CHOICE_LETTERS[i]}) ${o}`).join(' ')}`,
+    answer: `${CHOICE_LETTERS[correct]}) ${reveal}`,
+    accepted: [right.toLowerCase()],
+    type,
+    choices: { options, correct },
+  }
+}
+
+// type 28: which of these items is <size>? (multiple-choice form of type 12)
+function genSizeChoiceQuestion(): ReturnType<QuestionGen> {
+  const items = store.getItems().filter((c) =>
+    c.Title && c.Size && c.Heroes.length > 0 && !FAKE_HEROES.has(c.Heroes[0]),
+  )
+  const size = pickRandom(['Small', 'Medium', 'Large'])
+  const hits = items.filter((c) => c.Size === size)
+  const misses = items.filter((c) => c.Size !== size)
+  if (hits.length === 0 || misses.length < 3) return null
+  return choiceQuestion(
+    `Which of these items is ${size}?`,
+    pickRandom(hits).Title,
+    pickDistinct(misses, 3).map((c) => c.Title),
+    CHOICE_TYPE_BASE,
+  )
+}
+
+// type 29: which of these monsters has the most health? (multiple-choice form of type 15)
+function genHpChoiceQuestion(): ReturnType<QuestionGen> {
+  const valid = store.getMonsters().filter((m) => m.Title && m.MonsterMetadata.health > 0)
+  for (let tries = 0; tries < 10; tries++) {
+    const four = pickDistinct(valid, 4)
+    if (four.length < 4 || new Set(four.map((m) => m.MonsterMetadata.health)).size < 4) continue
+    const top = four.reduce((a, b) => (b.MonsterMetadata.health > a.MonsterMetadata.health ? b : a))
+    return choiceQuestion(
+      'Which of these monsters has the most health?',
+      top.Title,
+      four.filter((m) => m !== top).map((m) => m.Title),
+      CHOICE_TYPE_BASE + 1,
+      `${top.Title} (${top.MonsterMetadata.health} HP)`,
+    )
+  }
+  return null
+}
+
+// type 30: odd one out — three items share a hero (or a tag), one doesn't. the question
+// names the dimension so there's exactly one defensible answer, and a tag round is
+// rerolled if the odd item makes some OTHER trio that shares a tag.
+function genOddOneOutQuestion(): ReturnType<QuestionGen> {
+  const items = store.getItems().filter((c) =>
+    c.Title && c.Heroes.length === 1 && !FAKE_HEROES.has(c.Heroes[0]),
+  )
+  if (Math.random() < 0.5) {
+    const byHero = new Map<string, BazaarCard[]>()
+    for (const c of items) byHero.set(c.Heroes[0], [...(byHero.get(c.Heroes[0]) ?? []), c])
+    const heroes = [...byHero.keys()].filter((h) => byHero.get(h)!.length >= 3)
+    if (heroes.length < 2) return null
+    const hero = pickRandom(heroes)
+    const odd = pickRandom(items.filter((c) => c.Heroes[0] !== hero))
+    return choiceQuestion(
+      'Odd one out — three of these share a hero:',
+      odd.Title,
+      pickDistinct(byHero.get(hero)!, 3).map((c) => c.Title),
+      CHOICE_TYPE_BASE + 2,
+      `${odd.Title} (the rest are ${hero} items)`,
+    )
+  }
+  const byTag = new Map<string, BazaarCard[]>()
+  for (const c of items) for (const t of c.DisplayTags) byTag.set(t, [...(byTag.get(t) ?? []), c])
+  const tags = [...byTag.keys()].filter((t) => byTag.get(t)!.length >= 3 && byTag.get(t)!.length < items.length)
+  for (let tries = 0; tries < 10 && tags.length > 0; tries++) {
+    const tag = pickRandom(tags)
+    const trio = pickDistinct(byTag.get(tag)!, 3)
+    const odd = pickRandom(items.filter((c) => !c.DisplayTags.includes(tag)))
+    const all = [...trio, odd]
+    const rival = odd.DisplayTags.some((t) => all.filter((c) => c.DisplayTags.includes(t)).length >= 3)
+    if (rival) continue
+    return choiceQuestion(
+      'Odd one out — three of these share a tag:',
+      odd.Title,
+      trio.map((c) => c.Title),
+      CHOICE_TYPE_BASE + 2,
+      `${odd.Title} (the rest are ${tag})`,
+    )
+  }
+  return null
+}
+
 const generators: QuestionGen[] = [
   genHeroQuestion,          // 0
   genTagQuestion,           // 1
@@ -666,6 +796,22 @@ for (const [i, gen] of HS_GENERATORS.entries()) {
 }
 const HS_GEN_INDICES = HS_GENERATORS.map((_, i) => HS_GEN_START + i)
 
+// multiple-choice generators, after the Battlegrounds set; their types follow on from it
+const CHOICE_GEN_START = generators.length
+const CHOICE_TYPE_BASE = HS_TYPE_BASE + HS_GENERATORS.length
+generators.push(genSizeChoiceQuestion, genHpChoiceQuestion, genOddOneOutQuestion)
+const SIZE_CHOICE_INDEX = CHOICE_GEN_START
+const HP_CHOICE_INDEX = CHOICE_GEN_START + 1
+const ODD_ONE_OUT_INDEX = CHOICE_GEN_START + 2
+
+// the db question_type a generator index produces — the Bazaar set is index + 1, the
+// appended sets count from their own bases
+function genType(idx: number): number {
+  if (idx >= CHOICE_GEN_START) return CHOICE_TYPE_BASE + idx - CHOICE_GEN_START
+  if (idx >= HS_GEN_START) return HS_TYPE_BASE + idx - HS_GEN_START
+  return idx + 1
+}
+
 // how much of an UNCATEGORIZED round is Battlegrounds while the channel is streaming it.
 // high on purpose: chat is looking at the game, and a Bazaar monster's HP is the question
 // that made twenty-four people answer with battlegrounds-sized numbers. not 100% — this is
@@ -675,9 +821,9 @@ const HS_MIX = 0.8
 type TriviaCategory = 'items' | 'heroes' | 'monsters' | 'kripp' | 'bg'
 
 const CATEGORY_GENERATORS: Record<TriviaCategory, number[]> = {
-  items: [1, 2, 4, 5, 7, 11, 12, 13, 15, 17],  // tag, tooltip, hero+size, hero+tag, mechanic, size, tier, enchant, fill-blank, legendary
+  items: [1, 2, 4, 5, 7, 11, 12, 13, 15, 17, SIZE_CHOICE_INDEX, ODD_ONE_OUT_INDEX], // tag, tooltip, hero+size, hero+tag, mechanic, size, tier, enchant, fill-blank, legendary, size choice, odd one out
   heroes: [0, 8],                              // hero-from-item, hero-from-skill
-  monsters: [3, 6, 9, 10, 14, 16, 18],         // board, day, monster-skill, health, hp-compare, monster-by-day, item-carrier
+  monsters: [3, 6, 9, 10, 14, 16, 18, HP_CHOICE_INDEX], // board, day, monster-skill, health, hp-compare, monster-by-day, item-carrier, hp choice
   kripp: [KRIPP_GEN_INDEX],                    // channel-scoped streamer pack
   bg: HS_GEN_INDICES,                          // hearthstone battlegrounds, from the card set
 }
@@ -696,6 +842,8 @@ const BAZAAR_INDICES = generators
 // disabled generators (array indices) — coin-flip questions a guesser wins on luck, not
 // knowledge: 11 = "what size is X?" (1-of-3), 14 = "which has more HP, A or B?" (50/50).
 // kept in the array (indices are load-bearing) but never selected. filtered in pickQuestionType.
+// both live on as multiple-choice rounds (types 28 and 29): one vote each, scored for everyone
+// right at the close, so a blind guess is 1 in 4 and can't take the round from those who knew.
 const DISABLED_GENERATORS = new Set([11, 14])
 
 // strip alternate-answer cruft so a hint counts the REAL answer, not the extras a
@@ -782,17 +930,31 @@ function generateHint(rawAnswer: string): string {
   return `Hint: ${initials.join(' ')}`
 }
 
+// a generator needs this many finished rounds (all channels) before its skip/timeout
+// record can cost it airtime
+const QUALITY_MIN_ASKS = 20
+
+// 1 while at most half a generator's rounds are skipped or time out with players trying,
+// then falling linearly to 0.2 as that share reaches 90%
+function qualityFactor(q: { asked: number; bad: number } | undefined): number {
+  if (!q || q.asked < QUALITY_MIN_ASKS) return 1
+  const badShare = q.bad / q.asked
+  return badShare <= 0.5 ? 1 : Math.max(0.2, 2 * (1 - badShare))
+}
+
 // adaptive weighting: types with mid-range solve rates get higher weight.
 // types nobody ever solves (too hard / broken) or always solves in 2s (boring)
-// get down-weighted. Laplace smoothing handles cold-start.
+// get down-weighted. Laplace smoothing handles cold-start. on top of that, a type
+// whose questions chat persistently skips or lets run out loses weight globally.
 // the generator-index → question_type mapping is +1 (see generators[]), so we
 // translate when looking up DB stats.
 function typeWeights(channel: string, allowed: number[]): number[] {
   const stats = db.getTriviaTypeStats(channel)
   const byType = new Map<number, { games: number; wins: number }>()
   for (const s of stats) byType.set(s.question_type, { games: s.games, wins: s.wins })
+  const quality = new Map(db.getTriviaTypeQuality().map((q) => [q.question_type, q]))
   return allowed.map((idx) => {
-    const qType = idx + 1
+    const qType = genType(idx)
     const s = byType.get(qType)
     // Laplace: pretend everyone goes 1/2 with no data, so cold start is uniform
     const games = (s?.games ?? 0) + 2
@@ -800,7 +962,7 @@ function typeWeights(channel: string, allowed: number[]): number[] {
     const rate = wins / games
     // peak weight at 50% solve rate, decay toward 0% and 100%
     // 4 * rate * (1 - rate) maps [0..1] → [0..1] with peak 1.0 at 0.5
-    return Math.max(0.15, 4 * rate * (1 - rate))
+    return Math.max(0.15, 4 * rate * (1 - rate)) * qualityFactor(quality.get(qType))
   })
 }
 
@@ -892,6 +1054,9 @@ const ENUM_ANSWER_SPACE: Record<number, number> = {
   12: 24,     // size — 1-in-3 coin flip, cheap (base 1)
   15: 24,     // hp compare — binary guess, cheap (base 1)
   16: 24,     // fill-the-blank — guess the modal number, cheap (base 1)
+  28: 8,      // multiple choice — one vote, 1-in-4 blind (base 2)
+  29: 8,
+  30: 8,
   20: 6,      // kripp lore — real recall, moderate pay (base 3)
   21: 3,      // custom AI topic — hard open-ended recall (base 4)
 }
@@ -986,6 +1151,8 @@ export function startTrivia(channel: string, category?: TriviaCategory): string
     const remaining = Math.ceil((ROUND_DURATION - (Date.now() - game.startedAt)) / 1000)
     return `trivia already active (${remaining}s left): ${game.question}`
   }
+  const match = matches.get(channel)
+  if (match) return matchBusyMessage(match)
 
   const lastEnd = lastGameEnd.get(channel) ?? 0
   const cooldownLeft = COOLDOWN - (Date.now() - lastEnd)
@@ -993,6 +1160,22 @@ export function startTrivia(channel: string, category?: TriviaCategory): string
     return `trivia on cooldown, ${Math.ceil(cooldownLeft / 1000)}s remaining`
   }
 
+  const q = generateQuestion(channel, category)
+  if (!q) return `couldn't generate a question, try again`
+  return launchRound(channel, q)
+}
+
+// pick a built-in question for the channel and record its type. null when every
+// generator came up empty or repeated a recent question.
+// a multiple-choice round reshuffles its options (and so its text and answer letter)
+// every time, so it is fingerprinted on the bare question and the right option
+function fingerprintOf(q: NonNullable<ReturnType<QuestionGen>>): string {
+  if (!q.choices) return db.triviaFingerprint(q.question, q.answer)
+  const stem = q.question.slice(0, q.question.indexOf(` ${CHOICE_LETTERS[0]}) `))
+  return db.triviaFingerprint(stem, q.choices.options[q.choices.correct])
+}
+
+function generateQuestion(channel: string, category?: TriviaCategory): ReturnType<QuestionGen> {
   // try generators until one works AND its question isn't a recent repeat.
   // recent-question check is independent of type-buffer so e.g. the same tag
   // doesn't fire twice in 5 rounds even though "tag question" is a permitted type.
@@ -1003,10 +1186,10 @@ export function startTrivia(channel: string, category?: TriviaCategory): string
   while (!q && attempts < 20) {
     lastTypeIdx = pickQuestionType(channel, category)
     const candidate = generators[lastTypeIdx]()
-    if (candidate && !recentQ.includes(candidate.question)) q = candidate
+    if (candidate && !recentQ.includes(candidate.question) && !db.isTriviaQuestionRetired(fingerprintOf(candidate))) q = candidate
     attempts++
   }
-  if (!q) return `couldn't generate a question, try again`
+  if (!q) return null
 
   // (recentQuestions recording is centralized in launchRound so the custom AI path
   // is deduped too — see below. the loop above still reads recentQ to pick a fresh one.)
@@ -1017,7 +1200,7 @@ export function startTrivia(channel: string, category?: TriviaCategory): string
   if (recent.length > RECENT_BUFFER_SIZE) recent.shift()
   recentTypes.set(channel, recent)
 
-  return launchRound(channel, q)
+  return q
 }
 
 // curated, web-verified kripp pack round for a kripp-subject custom topic ("trivia about
@@ -1058,7 +1241,8 @@ export function startFallbackTrivia(channel: string): string | null {
   const cycles = fallbackCycles.get(channel) ?? 0
 
   const unseen = fallbackPack.filter((q) =>
-    !served.has(norm(q.question)) && !recent.some((r) => norm(r) === norm(q.question)))
+    !served.has(norm(q.question)) && !recent.some((r) => norm(r) === norm(q.question))
+    && !db.isTriviaQuestionRetired(db.triviaFingerprint(q.question, q.answer)))
 
   if (unseen.length === 0) {
     // the pack has been all the way round this channel. count the cycle and take a
@@ -1118,7 +1302,7 @@ const CUSTOM_TYPE = 21
 // launch a round from a ready question object — shared by built-in (startTrivia)
 // and custom AI (startCustomTrivia) paths. assumes the channel has no active game
 // (callers guard); purely creates the DB row, timers, hint schedule, and state.
-function launchRound(channel: string, q: NonNullable<ReturnType<QuestionGen>>): string {
+function launchRound(channel: string, q: NonNullable<ReturnType<QuestionGen>>, matchId: number | null = null): string {
   // normalize every accepted answer through the canonical normalizer so the guess
   // (also normed) compares symmetrically — no punctuation/hyphen/"the" false-negatives.
   // #7: for answers that norm to empty (emoji/symbol/CJK), keep the raw trim+lower form
@@ -1136,7 +1320,8 @@ function launchRound(channel: string, q: NonNullable<ReturnType<QuestionGen>>):
   }
   q.accepted = [...normalizedSet]
 
-  const gameId = db.createTriviaGame(channel, q.type, q.question, q.answer)
+  const gameId = db.createTriviaGame(channel, q.type, q.question, q.answer, matchId)
+  const fingerprint = fingerprintOf(q)
 
   const timeout = setTimeout(() => {
     const msg = endTrivia(channel, gameId)
@@ -1154,7 +1339,8 @@ function launchRound(channel: string, q: NonNullable<ReturnType<QuestionGen>>):
   // gated on participants.size>0 so we never announce hints to dead chat. skipped
   // entirely for tiny-enum types where any hint uniquely identifies the answer.
   const hintTimers: Timer[] = []
-  if (!NO_HINT_TYPES.has(q.type)) {
+  // a multiple-choice hint would just strike options out — the choices are the hint
+  if (!q.choices && !NO_HINT_TYPES.has(q.type)) {
     const fire = (text: string) => () => {
       const game = activeGames.get(channel)
       if (game && game.gameId === gameId && game.participants.size > 0) globalSay(channel, text)
@@ -1176,7 +1362,10 @@ function launchRound(channel: string, q: NonNullable<ReturnType<QuestionGen>>):
     timeout,
     hintTimers,
     closeMissCount: 0,
+    closeMisses: 0,
+    fingerprint,
     say: globalSay,
+    choice: q.choices ? { ...q.choices, voted: new Set(), right: [] } : null,
   })
 
   // record the question for BOTH built-in and custom rounds so neither repeats it
@@ -1196,6 +1385,7 @@ function launchRound(channel: string, q: NonNullable<ReturnType<QuestionGen>>):
   // (when it started, its id) against answer/timeout activity.
   log(`trivia: launched #${channel} game ${gameId} type ${q.type} "${q.question.slice(0, 50)}"`)
 
+  if (q.choices) return `Trivia! ${q.question} — one vote each, answer with the letter, everyone right scores (30s)`
   return `Trivia! ${q.question} (30s)`
 }
 
@@ -1237,6 +1427,8 @@ export function startCustomTrivia(
     const remaining = Math.ceil((ROUND_DURATION - (Date.now() - game.startedAt)) / 1000)
     return `trivia already active (${remaining}s left): ${game.question}`
   }
+  const match = matches.get(channel)
+  if (match) return matchBusyMessage(match)
   // canonical answer always counts as accepted; norm/dedupe happens in launchRound.
   const accepted = [raw.answer, ...raw.accept]
   return launchRound(channel, {
@@ -1266,6 +1458,13 @@ const QUEUE_DRAIN_DELAY = 2_500
 function finishRound(channel: string): void {
   activeGames.delete(channel)
   lastGameEnd.set(channel, Date.now())
+  // a tournament owns the channel until it ends — queued topics wait for the match
+  const match = matches.get(channel)
+  if (match) return advanceMatch(channel, match)
+  drainQueue(channel)
+}
+
+function drainQueue(channel: string): void {
   const hook = roundEndHook
   if (!hook) return
   setTimeout(() => {
@@ -1275,6 +1474,285 @@ function finishRound(channel: string): void {
   }, QUEUE_DRAIN_DELAY).unref?.()
 }
 
+// --- tournaments ---
+//
+// `!b trivia tournament <rounds>` — a mod-started match of back-to-back built-in rounds,
+// for the weekly trivia nights that were being scored by hand. Every round is an ordinary
+// trivia_games row tagged with the match id, so it still counts toward the all-time board;
+// the match scoreboard is those rows summed (db.getTriviaMatchStandings), and the final
+// standings and winner are written to trivia_matches when the last round ends.
+//
+// A team match (`!b trivia teams ...`) is the same match with teams on it, for chats that
+// split into sides. Chatters pick a team with `!b trivia join`, or are placed on first
+// answer — by sub badge in a subs match, else on the smallest team. The round still goes
+// to the individual who answered (so the all-time board is untouched); a team's score is
+// its members' round points summed.
+export const MIN_MATCH_ROUNDS = 3
+export const MAX_MATCH_ROUNDS = 20
+// after a round: the reveal lands, then the standings, then the next question
+const MATCH_NEXT_ROUND_DELAY = 5_000
+let matchStandingsDelay = QUEUE_DRAIN_DELAY
+let matchNextRoundDelay = MATCH_NEXT_ROUND_DELAY
+export function __setMatchDelaysForTest(standingsMs: number, nextRoundMs: number): void {
+  matchStandingsDelay = standingsMs
+  matchNextRoundDelay = nextRoundMs
+}
+const MATCH_STANDINGS_SHOWN = 5
+export const MIN_TEAMS = 2
+export const MAX_TEAMS = 4
+const TEAM_NAME_RE = /^[a-z0-9_-]{1,20}$/
+const SUB_TEAMS = ['subs', 'non-subs']
+// founders wear their own badge in place of the subscriber one
+const SUB_BADGES = new Set(['subscriber', 'founder'])
+
+interface MatchTeams {
+  names: string[]
+  /** subs vs non-subs, placed by badge — nobody picks a side */
+  bySub: boolean
+  /** lowercased username → team, mirrored in trivia_match_teams */
+  members: Map<string, string>
+}
+
+interface TriviaMatch {
+  id: number
+  rounds: number
+  /** rounds finished — won, timed out or skipped */
+  played: number
+  timer: Timer | null
+  teams: MatchTeams | null
+}
+
+const matches = new Map<string, TriviaMatch>()
+
+function matchBusyMessage(match: TriviaMatch): string {
+  return `tournament in progress (round ${Math.min(match.played + 1, match.rounds)}/${match.rounds}) — !b trivia tournament for standings`
+}
+
+function formatStandings(standings: db.TriviaMatchStanding[]): string {
+  if (standings.length === 0) return 'nobody on the board yet'
+  return standings.slice(0, MATCH_STANDINGS_SHOWN)
+    .map((s, i) => `${i + 1}. ${s.username} ${s.points}pts`)
+    .join(' | ')
+}
+
+// every team, best first — one nobody has joined yet sits at zero
+function teamStandings(match: TriviaMatch): db.TriviaTeamStanding[] {
+  const rows = db.getTriviaMatchTeamStandings(match.id)
+  const empty = match.teams!.names
+    .filter((team) => !rows.some((r) => r.team === team))
+    .map((team) => ({ team, points: 0, wins: 0, players: 0 }))
+  return [...rows, ...empty]
+}
+
+function formatTeamStandings(standings: db.TriviaTeamStanding[]): string {
+  return standings.map((t) => `${t.team} ${t.points}pts (${t.players} player${t.players === 1 ? '' : 's'})`).join(' | ')
+}
+
+// the top team, or null when nobody scored or the top two are level on points and wins
+function teamWinner(standings: db.TriviaTeamStanding[]): string | null {
+  const [top, next] = standings
+  if (!top || top.points === 0) return null
+  if (next && next.points === top.points && next.wins === top.wins) return null
+  return top.team
+}
+
+function formatMatchStandings(match: TriviaMatch): string {
+  return match.teams ? formatTeamStandings(teamStandings(match)) : formatStandings(db.getTriviaMatchStandings(match.id))
+}
+
+// the team a chatter plays for in the channel's team match, placing them on first contact.
+// null outside a team match.
+function teamFor(channel: string, username: string, userId: number, badges: string[]): string | null {
+  const match = matches.get(channel)
+  if (!match?.teams) return null
+  const { teams } = match
+  const key = username.toLowerCase()
+  const known = teams.members.get(key)
+  if (known) return known
+  let pick: string
+  if (teams.bySub) {
+    pick = badges.some((b) => SUB_BADGES.has(b)) ? teams.names[0] : teams.names[1]
+  } else {
+    const size = (t: string) => [...teams.members.values()].filter((m) => m === t).length
+    const smallest = Math.min(...teams.names.map(size))
+    pick = pickRandom(teams.names.filter((t) => size(t) === smallest))
+  }
+  const team = db.joinTriviaMatchTeam(match.id, userId, pick)
+  teams.members.set(key, team)
+  return team
+}
+
+/** `!b trivia join <team>` — a side sticks for the whole match */
+export function joinTeam(channel: string, username: string, team: string): string {
+  const match = matches.get(channel)
+  if (!match?.teams) return 'no team match running'
+  const { teams } = match
+  if (teams.bySub) return 'teams go by sub badge this match — subs vs non-subs'
+  const want = team.toLowerCase()
+  if (!teams.names.includes(want)) return `teams are: ${teams.names.join(', ')}`
+  const on = teams.members.get(username.toLowerCase())
+  if (on) return on === want ? `you're already on ${on}` : `you're on ${on} for this match`
+  const joined = db.joinTriviaMatchTeam(match.id, db.getOrCreateUser(username), want)
+  teams.members.set(username.toLowerCase(), joined)
+  return `${username} joined ${joined}`
+}
+
+function launchMatchRound(channel: string, match: TriviaMatch): string | null {
+  const q = generateQuestion(channel)
+  if (!q) return null
+  return `[round ${match.played + 1}/${match.rounds}] ${launchRound(channel, q, match.id)}`
+}
+
+function openMatch(channel: string, rounds: number, startedBy: string | null, teams: MatchTeams | null): string {
+  const running = matches.get(channel)
+  if (running) return matchBusyMessage(running)
+  if (activeGames.has(channel)) return `a round is live — start the tournament once it ends`
+  if (!Number.isInteger(rounds) || rounds < MIN_MATCH_ROUNDS || rounds > MAX_MATCH_ROUNDS) {
+    return `a tournament is ${MIN_MATCH_ROUNDS}-${MAX_MATCH_ROUNDS} rounds`
+  }
+  const id = teams ? db.createTriviaMatch(channel, rounds, startedBy, teams.names) : db.createTriviaMatch(channel, rounds, startedBy)
+  const match: TriviaMatch = { id, rounds, played: 0, timer: null, teams }
+  matches.set(channel, match)
+  const first = launchMatchRound(channel, match)
+  if (!first) {
+    concludeMatch(channel, match, false)
+    return `couldn't generate a question, try again`
+  }
+  log(`trivia: tournament #${channel} match ${match.id} started (${rounds} rounds${teams ? `, teams ${teams.names.join('/')}` : ''}, by ${startedBy ?? '?'})`)
+  if (!teams) return `Trivia tournament! ${rounds} rounds, most points wins. ${first}`
+  const sides = teams.names.join(' vs ')
+  const howToJoin = teams.bySub
+    ? 'your sub badge picks your side'
+    : 'pick a side with !b trivia join <team>, or just answer and take the smallest one'
+  return `Team trivia! ${sides}, ${rounds} rounds — ${howToJoin}. ${first}`
+}
+
+export function startTournament(channel: string, rounds: number, startedBy: string | null): string {
+  return openMatch(channel, rounds, startedBy, null)
+}
+
+/** a team match between the named teams, or subs vs non-subs by badge */
+export function startTeamTournament(channel: string, rounds: number, startedBy: string | null, teams: string[] | 'subs'): string {
+  if (teams === 'subs') return openMatch(channel, rounds, startedBy, { names: SUB_TEAMS, bySub: true, members: new Map() })
+  const names = teams.map((t) => t.toLowerCase())
+  if (names.length < MIN_TEAMS || names.length > MAX_TEAMS) return `a team match has ${MIN_TEAMS}-${MAX_TEAMS} teams`
+  if (!names.every((n) => TEAM_NAME_RE.test(n)) || new Set(names).size !== names.length) {
+    return 'team names are one word each (letters, digits, - or _) and all different'
+  }
+  return openMatch(channel, rounds, startedBy, { names, bySub: false, members: new Map() })
+}
+
+// a round of the match just ended (finishRound): post the standings, then the next question —
+// or, after the last round, the result
+function advanceMatch(channel: string, match: TriviaMatch): void {
+  match.played++
+  const current = () => matches.get(channel) === match
+  match.timer = setTimeout(() => {
+    if (!current()) return
+    if (match.played >= match.rounds) {
+      globalSay(channel, concludeMatch(channel, match, true))
+      return
+    }
+    globalSay(channel, `standings after ${match.played}/${match.rounds}: ${formatMatchStandings(match)} — next question in ${Math.round(matchNextRoundDelay / 1000)}s`)
+    match.timer = setTimeout(() => {
+      if (!current()) return
+      match.timer = null
+      const next = launchMatchRound(channel, match)
+      if (next) globalSay(channel, next)
+      else globalSay(channel, `out of fresh questions — ${concludeMatch(channel, match, true)}`)
+    }, matchNextRoundDelay)
+    match.timer.unref?.()
+  }, matchStandingsDelay)
+  match.timer.unref?.()
+}
+
+/** end the match and persist it. `declare` = name a winner; the result line is returned either way */
+function concludeMatch(channel: string, match: TriviaMatch, declare: boolean): string {
+  if (match.timer) clearTimeout(match.timer)
+  match.timer = null
+  matches.delete(channel)
+  const standings = db.getTriviaMatchStandings(match.id)
+  const teams = match.teams ? teamStandings(match) : null
+  const winnerTeam = teams ? teamWinner(teams) : null
+  db.finishTriviaMatch(match.id, match.played, standings, declare, teams ? { standings: teams, winner: winnerTeam } : null)
+  log(`trivia: tournament #${channel} match ${match.id} ended after ${match.played}/${match.rounds} rounds`)
+  // topics chat queued during the match get their turn now
+  drainQueue(channel)
+  const winner = standings[0]
+  if (!declare || !winner) return `tournament over after ${match.played}/${match.rounds} rounds — no winner`
+  const emote = pickEmoteByMood(channel, 'hype', 'celebration')
+  if (teams) {
+    const mvp = `MVP ${winner.username} ${winner.points}pts`
+    if (!winnerTeam) return `team match over after ${match.played} rounds — a draw! final: ${formatTeamStandings(teams)} — ${mvp}`
+    return `team match over! ${winnerTeam} wins with ${teams[0].points}pts${emote ? ` ${emote}` : ''} — final: ${formatTeamStandings(teams)} — ${mvp}`
+  }
+  return `tournament over! ${winner.username} wins with ${winner.points}pts (${winner.wins}/${match.played} rounds)${emote ? ` ${emote}` : ''} — final: ${formatStandings(standings)}`
+}
+
+/** mod stop: abandons the live round (it doesn't count) and declares from the rounds played */
+export function stopTournament(channel: string, username?: string): string | null {
+  const match = matches.get(channel)
+  if (!match) return null
+  const game = activeGames.get(channel)
+  let reveal = ''
+  if (game) {
+    clearTimeout(game.timeout)
+    clearHints(game)
+    try {
+      db.recordTriviaEnd(game.gameId, game.participants.size)
+    } catch {}
+    activeGames.delete(channel)
+    lastGameEnd.set(channel, Date.now())
+    reveal = ` Answer: ${revealAnswer(game)}.`
+  }
+  const who = username ? `${username} ended the tournament.` : 'Tournament ended.'
+  return `${who}${reveal} ${concludeMatch(channel, match, match.played > 0)}`
+}
+
+export function isTournamentActive(channel: string): boolean {
+  return matches.has(channel)
+}
+
+/** the live match's standings, else the last match's result */
+export function tournamentStatus(channel: string): string {
+  const match = matches.get(channel)
+  if (match) {
+    const round = Math.min(match.played + 1, match.rounds)
+    return `tournament round ${round}/${match.rounds}: ${formatMatchStandings(match)}`
+  }
+  const last = db.getLastTriviaMatch(channel)
+  if (!last) return `no tournaments here yet — a mod can start one with !b trivia tournament <${MIN_MATCH_ROUNDS}-${MAX_MATCH_ROUNDS} rounds>`
+  const when = last.ended_at.slice(0, 10)
+  if (last.team_standings) {
+    return last.winner_team
+      ? `last team match (${when}): ${last.winner_team} won — ${formatTeamStandings(last.team_standings)}`
+      : `last team match (${when}) ended with no winning team — ${formatTeamStandings(last.team_standings)}`
+  }
+  return last.winner
+    ? `last tournament (${when}): ${last.winner} won with ${last.winner_points}pts over ${last.rounds_played} rounds`
+    : `last tournament (${when}) ended with no winner after ${last.rounds_played} rounds`
+}
+
+// one finished round against its question's record. a round nobody even guessed at is
+// dead chat, not a verdict on the question, so it isn't counted — unless a mod skipped
+// it, which is a judgement on the question itself. any viewer can !b skip, so an unplayed
+// viewer skip would let one chatter retire whatever they didn't like. telemetry must
+// never break a round, so a failed write is only logged.
+function recordOutcome(game: TriviaState, outcome: db.TriviaOutcome, answerMs = 0, byMod = false): void {
+  if (outcome !== 'answered' && game.participants.size === 0 && !byMod) return
+  try {
+    db.recordTriviaQuestionOutcome(
+      game.fingerprint,
+      { type: game.questionType, question: game.question, answer: game.correctAnswer },
+      outcome,
+      answerMs,
+      game.closeMisses,
+    )
+  } catch (e) {
+    log(`trivia: outcome write failed: ${e}`)
+  }
+}
+
 function endTrivia(channel: string, expectedGameId?: number): string | null {
   const game = activeGames.get(channel)
   if (!game) return null
@@ -1283,11 +1761,13 @@ function endTrivia(channel: string, expectedGameId?: number): string | null {
 
   clearTimeout(game.timeout)
   clearHints(game)
+  if (game.choice && game.choice.right.length > 0) return closeVote(channel, game)
   // record who tried BEFORE the row is forgotten — a round nobody won is exactly the one
   // worth studying later, and it used to read back as zero players however many guessed
   try {
     db.recordTriviaEnd(game.gameId, game.participants.size)
   } catch {}
+  recordOutcome(game, 'unanswered')
   finishRound(channel)
   log(`trivia: ended #${channel} game ${game.gameId} (${game.participants.size} players, timeout)`)
 
@@ -1298,18 +1778,132 @@ function endTrivia(channel: string, expectedGameId?: number): string | null {
   return `time's up! answer: ${revealAnswer(game)}${emote ? ` ${emote}` : ''}`
 }
 
-// called on every message to check for trivia answers
+// roll an expired season over before reading a streak — its close is what zeroes last
+// season's streaks, and a win now must not extend one
+function rolloverSeason(channel: string): void {
+  try {
+    currentSeason(channel)
+  } catch (e) {
+    log(`trivia: season rollover failed: ${e}`)
+  }
+}
+
+// points = difficulty base × speed multiplier + streak bonus (min 1). this is the
+// real leaderboard currency — knowing a hard answer fast beats spamming easy wins.
+function scoreAnswer(channel: string, game: TriviaState, userId: number, answerTimeMs: number): { points: number; streak: number } {
+  const streak = db.getTriviaStreak(userId, channel) + 1 // recording the win will set this value
+  const base = difficultyBase(game.questionType, game.acceptedAnswers.length)
+  // continuous speed decay (no 3s/5s/10s cliffs): 0s -> 1.5x, full round -> 0.5x.
+  const speedMult = Math.max(0.5, Math.min(1.5, 1.5 - answerTimeMs / ROUND_DURATION))
+  const streakBonus = streak >= 5 ? 2 : streak >= 3 ? 1 : 0
+  return { points: Math.max(1, Math.round(base * speedMult) + streakBonus), streak }
+}
+
+function teamTagOf(channel: string, username: string): string {
+  const team = matches.get(channel)?.teams?.members.get(username.toLowerCase())
+  return team ? ` for ${team}` : ''
+}
+
+// a free-text round's first correct answer: score it, end the round and announce the winner.
+function awardWin(channel: string, game: TriviaState, username: string, userId: number, answerTimeMs: number, say: SayFn) {
+  // re-check game is still active (another correct answer could have won in same tick)
+  if (activeGames.get(channel) !== game) return
+  const secs = answerTimeMs / 1000
+  rolloverSeason(channel)
+  const { points, streak } = scoreAnswer(channel, game, userId, answerTimeMs)
+  const firstWin = db.getTriviaWins(userId) === 0 // before recordTriviaWin increments it
+
+  db.recordTriviaWin(game.gameId, userId, answerTimeMs, game.participants.size, points)
+  recordOutcome(game, 'answered', answerTimeMs)
+  clearTimeout(game.timeout)
+  clearHints(game)
+  finishRound(channel)
+
+  const timeStr = secs.toFixed(1)
+  const speedTag = secs < 3 ? ' LEGENDARY' : secs < 5 ? ' FAST' : secs < 10 ? ' NICE' : ''
+  const streakTag = streak >= 5 ? ` (${streak} STREAK!!)` : streak >= 3 ? ` (${streak} streak)` : ''
+  const emote = secs < 3 || streak >= 5
+    ? pickEmoteByMood(channel, 'hype', 'celebration')
+    : secs < 5 || streak >= 3
+      ? pickEmoteByMood(channel, 'celebration', 'hype')
+      : pickEmoteByMood(channel, 'happy', 'celebration')
+  const firstTag = firstWin ? ' first win!' : ''
+  say(channel, `${username} got it in ${timeStr}s!${speedTag}${streakTag} +${points}pts${teamTagOf(channel, username)}${firstTag} Answer: ${revealAnswer(game)}${emote ? ` ${emote}` : ''}`)
+}
+
+const VOTE_SCORERS_SHOWN = 5
+
+// a multiple-choice round closes on the clock with at least one right vote: every right
+// voter scores by the same formula as a free-text win, so voting fast still pays. the
+// quickest takes the round row (recordTriviaWin); the rest are credited on their answer
+// rows (recordTriviaShare) and count on every board the same.
+function closeVote(channel: string, game: TriviaState): string {
+  rolloverSeason(channel)
+  const right = game.choice!.right
+  const scored = right.map((v, i) => {
+    const { points } = scoreAnswer(channel, game, v.userId, v.answerTimeMs)
+    if (i === 0) db.recordTriviaWin(game.gameId, v.userId, v.answerTimeMs, game.participants.size, points)
+    else db.recordTriviaShare(game.gameId, v.userId, v.answerTimeMs, points)
+    return `${v.username} +${points}pts${teamTagOf(channel, v.username)} (${(v.answerTimeMs / 1000).toFixed(1)}s)`
+  })
+  recordOutcome(game, 'answered', right[0].answerTimeMs)
+  finishRound(channel)
+  log(`trivia: closed vote #${channel} game ${game.gameId} (${right.length}/${game.participants.size} right)`)
+
+  const more = scored.length > VOTE_SCORERS_SHOWN ? ` +${scored.length - VOTE_SCORERS_SHOWN} more` : ''
+  const emote = pickEmoteByMood(channel, 'happy', 'celebration')
+  return `time's up! ${right.length} got it: ${scored.slice(0, VOTE_SCORERS_SHOWN).join(', ')}${more}. Answer: ${revealAnswer(game)}${emote ? ` ${emote}` : ''}`
+}
+
+// A multiple-choice vote: a letter ("b", "B)", "is it c?") or an option named in full.
+// Anything else is chat, not an attempt. Each chatter's first vote is final — that
+// single shot is what makes a four-way guess fair — and nothing is scored until the
+// round closes (closeVote).
+function parseVote(text: string, options: string[]): number {
+  const t = stripGuessNoise(text).toLowerCase()
+  const letter = t.match(/^\(?([a-d])[).:]?$/)
+  if (letter) {
+    const idx = letter[1].charCodeAt(0) - 97
+    return idx < options.length ? idx : -1
+  }
+  const n = norm(t)
+  return n ? options.findIndex((o) => norm(o) === n) : -1
+}
+
+function checkVote(channel: string, username: string, text: string, game: TriviaState, badges: string[]) {
+  const choice = game.choice!
+  const idx = parseVote(text, choice.options)
+  if (idx < 0) return
+  const voter = username.toLowerCase()
+  if (choice.voted.has(voter)) return
+  choice.voted.add(voter)
+
+  const userId = db.getOrCreateUser(username)
+  game.participants.add(username)
+  teamFor(channel, username, userId, badges)
+  db.recordTriviaAttempt(userId)
+  const isCorrect = idx === choice.correct
+  const answerTimeMs = Date.now() - game.startedAt
+  db.recordTriviaAnswer(game.gameId, userId, text, isCorrect, answerTimeMs)
+  if (isCorrect) choice.right.push({ username, userId, answerTimeMs })
+  else db.resetTriviaStreak(userId, channel)
+}
+
+// called on every message to check for trivia answers. `badges` only matters in a
+// subs-vs-non-subs team match, where it picks the chatter's side.
 export function checkAnswer(
   channel: string,
   username: string,
   text: string,
   say: (channel: string, text: string) => void,
+  badges: string[] = [],
 ) {
   const game = activeGames.get(channel)
   if (!game) return
 
   const trimmed = text.trim()
   if (!trimmed) return
+  if (game.choice) return checkVote(channel, username, trimmed, game, badges)
 
   // filter non-answers before cleaning/counting as attempt
   if (!looksLikeAnswer(trimmed, game)) return
@@ -1322,6 +1916,7 @@ export function checkAnswer(
 
   const userId = db.getOrCreateUser(username)
   game.participants.add(username)
+  teamFor(channel, username, userId, badges)
   db.recordTriviaAttempt(userId)
 
   // also try with leading emotes + guess-framing stripped; win on either form
@@ -1357,39 +1952,13 @@ export function checkAnswer(
   db.recordTriviaAnswer(game.gameId, userId, text, isCorrect, answerTimeMs)
 
   if (isCorrect) {
-    // re-check game is still active (another correct answer could have won in same tick)
-    if (!activeGames.has(channel)) return
-    const secs = answerTimeMs / 1000
-    // points = difficulty base × speed multiplier + streak bonus (min 1). this is the
-    // real leaderboard currency — knowing a hard answer fast beats spamming easy wins.
-    const streak = db.getTriviaStreak(userId) + 1 // recordTriviaWin will set this value
-    const firstWin = db.getTriviaWins(userId) === 0 // before recordTriviaWin increments it
-    const base = difficultyBase(game.questionType, game.acceptedAnswers.length)
-    // continuous speed decay (no 3s/5s/10s cliffs): 0s -> 1.5x, full round -> 0.5x.
-    const speedMult = Math.max(0.5, Math.min(1.5, 1.5 - answerTimeMs / ROUND_DURATION))
-    const streakBonus = streak >= 5 ? 2 : streak >= 3 ? 1 : 0
-    const points = Math.max(1, Math.round(base * speedMult) + streakBonus)
-
-    db.recordTriviaWin(game.gameId, userId, answerTimeMs, game.participants.size, points)
-    clearTimeout(game.timeout)
-    clearHints(game)
-    finishRound(channel)
-
-    const timeStr = secs.toFixed(1)
-    const speedTag = secs < 3 ? ' LEGENDARY' : secs < 5 ? ' FAST' : secs < 10 ? ' NICE' : ''
-    const streakTag = streak >= 5 ? ` (${streak} STREAK!!)` : streak >= 3 ? ` (${streak} streak)` : ''
-    const emote = secs < 3 || streak >= 5
-      ? pickEmoteByMood(channel, 'hype', 'celebration')
-      : secs < 5 || streak >= 3
-        ? pickEmoteByMood(channel, 'celebration', 'hype')
-        : pickEmoteByMood(channel, 'happy', 'celebration')
-    const firstTag = firstWin ? ' first win!' : ''
-    say(channel, `${username} got it in ${timeStr}s!${speedTag}${streakTag} +${points}pts${firstTag} Answer: ${revealAnswer(game)}${emote ? ` ${emote}` : ''}`)
+    awardWin(channel, game, username, userId, answerTimeMs, say)
   } else {
-    db.resetTriviaStreak(userId)
+    db.resetTriviaStreak(userId, channel)
     // close-miss taunt — capped per round so 10 chatters guessing close
     // don't produce 10 bot lines.
     const missDist = cleaned.length >= 4 ? closeMissDistance(cleaned, game.acceptedAnswers) : 0
+    if (missDist > 0) game.closeMisses++
     if (missDist > 0 && game.closeMissCount < MAX_CLOSE_MISS_PER_ROUND) {
       game.closeMissCount++
       const emote = pickEmoteByMood(channel, 'sarcasm', 'thinking')
@@ -1399,11 +1968,13 @@ export function checkAnswer(
   }
 }
 
-export function skipTrivia(channel: string, username?: string): string | null {
+/** `byMod` makes the skip count against the question even if nobody had guessed */
+export function skipTrivia(channel: string, username?: string, byMod = false): string | null {
   const game = activeGames.get(channel)
   if (!game) return null
   clearTimeout(game.timeout)
   clearHints(game)
+  recordOutcome(game, 'skipped', 0, byMod)
   finishRound(channel)
   const emote = pickEmoteByMood(channel, 'sad', 'thinking')
   const who = username ? `${username} skipped` : 'Skipped'
@@ -1416,6 +1987,16 @@ export function cleanupChannel(channel: string) {
     clearTimeout(game.timeout)
     clearHints(game)
   }
+  // leaving mid-match: close it with no winner, and without draining the topic queue
+  const match = matches.get(channel)
+  if (match) {
+    if (match.timer) clearTimeout(match.timer)
+    matches.delete(channel)
+    try {
+      const teams = match.teams ? { standings: teamStandings(match), winner: null } : null
+      db.finishTriviaMatch(match.id, match.played, db.getTriviaMatchStandings(match.id), false, teams)
+    } catch {}
+  }
   activeGames.delete(channel)
   lastGameEnd.delete(channel)
   recentTypes.delete(channel)
@@ -1481,9 +2062,19 @@ export function resetForTest() {
   recentTypes.clear()
   recentQuestions.clear()
   recentAnswers.clear()
+  for (const m of matches.values()) if (m.timer) clearTimeout(m.timer)
+  matches.clear()
+  matchStandingsDelay = QUEUE_DRAIN_DELAY
+  matchNextRoundDelay = MATCH_NEXT_ROUND_DELAY
   forcedGenIdxForTest = null
 }
 
 export function getActiveGameForTest(channel: string) {
   return activeGames.get(channel)
 }
+
+/** run a live round's timeout now, as if its 30s were up */
+export function __expireRoundForTest(channel: string) {
+  const msg = endTrivia(channel)
+  if (msg) globalSay(channel, msg)
+}
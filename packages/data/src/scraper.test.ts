@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'bun:test'
-import { computeDisplayTags, toCard, toMonster, parseDump, parseDumpWithStats, applyCooldowns, extractCooldown, checkDeltaGuard, loadPrevCooldowns } from './scraper'
+import { computeDisplayTags, toCard, toMonster, parseDump, parseDumpWithStats, applyCooldowns, extractCooldown, checkDeltaGuard, loadPrevCooldowns, buildLocaleTable } from './scraper'
 import type { DumpEntry } from './scraper'
 import type { CardCache } from '@bazaarinfo/shared'
 import { tmpdir } from 'os'
@@ -414,3 +414,31 @@ describe('parseDumpWithStats — art coverage', () => {
     expect(stats.artMisses).toBe(0)
   })
 })
+
+describe('buildLocaleTable', () => {
+  const en = {
+    a1: makeDumpEntry({ Title: 'Test Sword' }),
+    b2: makeDumpEntry({ Title: 'BLU-B33TL3' }),
+    c3: makeDumpEntry({ Title: 'Shield', Tooltips: [{ text: 'Gain {S} Shield', type: 'Active' }] }),
+  }
+
+  it('pairs entries by dump key and keys rows by the English title', () => {
+    const pt = {
+      a1: makeDumpEntry({ Title: 'Espada de Teste', Tooltips: [{ text: 'Cause {Damage} de dano', type: 'Active' }] }),
+      b2: makeDumpEntry({ Title: 'BLU-B33TL3' }),
+    }
+    const table = buildLocaleTable(en, pt, 'pt')
+    expect(table.locale).toBe('pt')
+    expect(table.cards['Test Sword']).toEqual({ Title: 'Espada de Teste', Tooltips: ['Cause {Damage} de dano'] })
+    // untranslated title and identical text → no row; missing key → no row
+    expect(table.cards['BLU-B33TL3']).toBeUndefined()
+    expect(table.cards.Shield).toBeUndefined()
+  })
+
+  it('drops tooltips that no longer line up with the English list', () => {
+    const es = {
+      c3: makeDumpEntry({ Title: 'Escudo', Tooltips: [{ text: 'Gana {S} de Escudo', type: 'Active' }, { text: 'extra', type: 'Passive' }] }),
+    }
+    expect(buildLocaleTable(en, es, 'es').cards.Shield).toEqual({ Title: 'Escudo' })
+  })
+})
@@ -1,10 +1,13 @@
-import type { BazaarCard, Monster, CardCache, DumpTooltip, DumpEnchantment, ReplacementValue, TierName, ItemSize, MonsterBoardEntry } from '@bazaarinfo/shared'
+import type { BazaarCard, Monster, CardCache, DumpTooltip, DumpEnchantment, ReplacementValue, TierName, ItemSize, MonsterBoardEntry, LocaleTable, LocalizedCard } from '@bazaarinfo/shared'
 import { resolve } from 'path'
 
 import artKeys from '../art-keys.json'
 
 const DUMP_URL = 'https://bazaardb.gg/dump.json'
 const HOWBAZAAR_URL = 'https://www.howbazaar.gg/api/items'
+// localized exports of the same dump, `{locale}` substituted ("pt", "es"). unset → no
+// alternate-language tables are scraped and the bot stays English-only, as before.
+const LOCALE_DUMP_URL = process.env.BAZAARDB_LOCALE_DUMP_URL ?? ''
 const USER_AGENT = 'BazaarInfo/1.0 (Twitch bot; github.com/mellen9999/bazaarinfo)'
 const COOLDOWN_RE = /^Cooldown\s+([\d.]+)\s+second/i
 const ART_MAP: Record<string, string> = artKeys as Record<string, string>
@@ -119,6 +122,8 @@ interface ScrapeStats {
 interface ParseResult {
   cache: CardCache
   stats: ScrapeStats
+  /** one per requested locale that fetched; always empty from parseDumpWithStats */
+  locales: LocaleTable[]
 }
 
 // scan a parsed card/monster for tier/size values outside the known set (they were
@@ -215,6 +220,7 @@ function parseDumpWithStats(dump: Record<string, DumpEntry>, onProgress?: (msg:
   return {
     cache: { items, skills, monsters, events, fetchedAt: new Date().toISOString() },
     stats: { unknownTiers: [...unknownTiers], unknownSizes: [...unknownSizes], skipped, total, artMisses, artMissSamples },
+    locales: [],
   }
 }
 
@@ -222,6 +228,57 @@ function parseDump(dump: Record<string, DumpEntry>, onProgress?: (msg: string) =
   return parseDumpWithStats(dump, onProgress).cache
 }
 
+// pair a localized export with the English one by dump key — the key is the card's id,
+// the one thing translation can't touch. only what differs is kept: a title left in
+// English (brand names, "BLU-B33TL3") needs no row, and a tooltip list whose length
+// changed can't be trusted to line up with the English placeholders, so it's dropped.
+function buildLocaleTable(english: Record<string, DumpEntry>, localized: Record<string, DumpEntry>, locale: string): LocaleTable {
+  const cards: Record<string, LocalizedCard> = {}
+  for (const [key, en] of Object.entries(english)) {
+    const loc = localized[key]
+    if (!loc?.Title || typeof loc.Title !== 'string' || !en.Title) continue
+    const enTips = en.Tooltips ?? []
+    const locTips = loc.Tooltips ?? []
+    const tipsDiffer = locTips.length === enTips.length && locTips.some((t, i) => t.text !== enTips[i].text)
+    if (loc.Title === en.Title && !tipsDiffer) continue
+    const row: LocalizedCard = { Title: loc.Title }
+    if (tipsDiffer) row.Tooltips = locTips.map((t) => t.text)
+    cards[en.Title] = row
+  }
+  return { locale, fetchedAt: new Date().toISOString(), cards }
+}
+
+// fail-soft per locale: a missing translation never costs the English scrape
+async function fetchLocaleTables(
+  english: Record<string, DumpEntry>,
+  locales: string[],
+  onProgress?: (msg: string) => void,
+): Promise<LocaleTable[]> {
+  if (!locales.length) return []
+  if (!LOCALE_DUMP_URL) {
+    onProgress?.(`locales requested (${locales.join(', ')}) but BAZAARDB_LOCALE_DUMP_URL is unset — skipping`)
+    return []
+  }
+  const tables: LocaleTable[] = []
+  for (const locale of locales) {
+    try {
+      const res = await fetch(LOCALE_DUMP_URL.replace('{locale}', encodeURIComponent(locale)), {
+        headers: { 'User-Agent': USER_AGENT },
+        signal: AbortSignal.timeout(30_000),
+      })
+      if (!res.ok) throw new Error(`HTTP ${res.status}`)
+      const raw = JSON.parse(await readTextCapped(res, 50_000_000)) as unknown
+      if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error('not an object')
+      const table = buildLocaleTable(english, raw as Record<string, DumpEntry>, locale)
+      onProgress?.(`${locale}: ${Object.keys(table.cards).length} localized cards`)
+      tables.push(table)
+    } catch (e) {
+      onProgress?.(`${locale} locale fetch failed (continuing without): ${e instanceof Error ? e.message : e}`)
+    }
+  }
+  return tables
+}
+
 type CooldownValue = number | Partial<Record<TierName, number>>
 
 interface HowbazaarTier { tooltips?: string[] }
@@ -321,7 +378,7 @@ async function loadPrevCooldowns(path: string = PREV_CACHE_PATH): Promise<Map<st
 }
 
 // exported for testing
-export { computeDisplayTags, toCard, toMonster, parseDump, parseDumpWithStats, fetchCooldowns, applyCooldowns, extractCooldown, loadPrevCooldowns }
+export { computeDisplayTags, toCard, toMonster, parseDump, parseDumpWithStats, fetchCooldowns, applyCooldowns, extractCooldown, loadPrevCooldowns, buildLocaleTable }
 export type { DumpEntry, ScrapeStats, ParseResult as ScrapeResult }
 
 interface PrevCounts { items: number; skills: number; monsters: number }
@@ -329,6 +386,7 @@ interface PrevCounts { items: number; skills: number; monsters: number }
 interface ScrapeOptions {
   prev?: PrevCounts
   force?: boolean  // bypass ONLY the delta guard, not the floors/skip-ratio guards
+  locales?: string[]  // alternate-language tables to build alongside the cache
 }
 
 // prev.items > 200 gates this off for a cold start / near-empty prior cache — a >30%
@@ -412,7 +470,7 @@ export async function scrapeDump(onProgress?: (msg: string) => void, opts?: Scra
         throw new Error(`suspiciously few monsters (${cache.monsters.length}), refusing to use`)
       }
       onProgress?.(`${cache.items.length} items, ${cache.skills.length} skills, ${cache.monsters.length} monsters`)
-      return { cache, stats }
+      return { cache, stats, locales: await fetchLocaleTables(dump, opts?.locales ?? [], onProgress) }
     } catch (e) {
       lastErr = e instanceof Error ? e : new Error(String(e))
       onProgress?.(`fetch failed: ${lastErr.message}`)
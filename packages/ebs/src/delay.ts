@@ -0,0 +1,98 @@
+// Spoiler delay — holds a channel's viewer-facing frames back by the broadcaster's
+// configured delay (shared/settings.ts spoilerDelaySec), so the overlay reveals a
+// board when the delayed video does, not when the companion sees it.
+//
+// It sits in front of everything a viewer can read: PubSub, the frame stream, and
+// (because the keyframe route serves what PubSub delivered) the resync path. The
+// bot's /board reads are deliberately not behind it. Frames are released with the
+// spacing they arrived with, so the companion's 30s heartbeat reaches PubSub on the
+// same cadence and its dedupe and keyframe timing behave exactly as undelayed.
+
+import type { DetectPayload } from './routes/detect-validate'
+
+type Cards = DetectPayload['cards']
+
+interface HeldFrame {
+  cards: Cards
+  /** when the first frame folded into this entry arrived */
+  firstAt: number
+  dueAt: number
+}
+
+interface ChannelQueue {
+  frames: HeldFrame[]
+  timer: ReturnType<typeof setTimeout> | null
+  deliver: (cards: Cards) => void
+}
+
+// Frames that arrive within this of each other share one slot: only the newest is
+// released, at its own due time. PubSub couldn't send them faster than ~1/s anyway,
+// and it bounds a ten-minute delay at a few hundred held boards per channel.
+const COALESCE_MS = 1_000
+// backstop over the coalescing bound, in case a clock step skews it
+const MAX_HELD = 700
+
+const queues = new Map<string, ChannelQueue>()
+
+function schedule(channelId: string, q: ChannelQueue): void {
+  if (q.timer) clearTimeout(q.timer)
+  q.timer = null
+  const head = q.frames[0]
+  if (!head) {
+    queues.delete(channelId)
+    return
+  }
+  q.timer = setTimeout(() => release(channelId, q), Math.max(0, head.dueAt - Date.now()))
+}
+
+function release(channelId: string, q: ChannelQueue): void {
+  q.timer = null
+  const now = Date.now()
+  while (q.frames.length && q.frames[0].dueAt <= now) {
+    const frame = q.frames.shift()!
+    try {
+      q.deliver(frame.cards)
+    } catch (e) {
+      console.error(`[delay] release failed (channel ${channelId}): ${e}`)
+    }
+  }
+  schedule(channelId, q)
+}
+
+/**
+ * Pass `cards` to `deliver` after `delayMs`, in order with the channel's other held
+ * frames. With no delay and nothing held it delivers synchronously. A frame due
+ * sooner than ones already held supersedes them — the broadcaster shortened the
+ * delay, and an older board must never land after a newer one.
+ */
+export function holdFrame(channelId: string, cards: Cards, delayMs: number, deliver: (cards: Cards) => void): void {
+  const now = Date.now()
+  let q = queues.get(channelId)
+  if (delayMs <= 0 && !q) {
+    deliver(cards)
+    return
+  }
+  if (!q) {
+    q = { frames: [], timer: null, deliver }
+    queues.set(channelId, q)
+  }
+  q.deliver = deliver
+
+  const dueAt = now + Math.max(0, delayMs)
+  while (q.frames.length && q.frames[q.frames.length - 1].dueAt >= dueAt) q.frames.pop()
+  const last = q.frames[q.frames.length - 1]
+  if (last && now - last.firstAt < COALESCE_MS) {
+    last.cards = cards
+    last.dueAt = dueAt
+  } else {
+    q.frames.push({ cards, firstAt: now, dueAt })
+  }
+  while (q.frames.length > MAX_HELD) q.frames.shift()
+  schedule(channelId, q)
+}
+
+export function delayStats(): { channels: number; held: number } {
+  let held = 0
+  for (const q of queues.values()) held += q.frames.length
+  return { channels: queues.size, held }
+}
@@ -5,7 +5,7 @@
 //   #3  all-or-nothing frame validation: one bad card must not blank the whole overlay
 //   #4/#13 no server-side title length cap — oversized/empty titles accepted
 
-import { describe, it, expect, beforeEach } from 'bun:test'
+import { describe, it, expect, beforeEach, beforeAll, afterEach } from 'bun:test'
 import { isValidCard, parsePayload } from './routes/detect-validate'
 
 // ── #2 rate-limiter ─────────────────────────────────────────────────────────
@@ -417,6 +417,76 @@ describe('/api/cards', () => {
   })
 })
 
+describe('/api/cards v2 (variants and diffs)', () => {
+  const card = (Title: string, extra: object = {}) => ({
+    Type: 'Item', Title, Size: 'Small', BaseTier: 'Bronze', Tiers: ['Bronze'], Heroes: [], Tags: [],
+    HiddenTags: ['Secret'], DisplayTags: [], TooltipReplacements: {}, Enchantments: {}, Shortlink: '',
+    Tooltips: [{ text: 'Deal 5', type: 'Active' }, { text: 'search blob', type: 'bzdbgg.HiddenSearchable' }],
+    ...extra,
+  })
+  const dump = (items: object[], fetchedAt = '2026-08-08T00:00:00Z') =>
+    ({ items, skills: [card('Skill', { Type: 'Skill' })], monsters: [{ Title: 'Rat' }], events: [], fetchedAt }) as never
+
+  const get = (qs: string) => handleCards(new Request(`https://ebs.test/api/cards?${qs}`))
+  const SLIM = 'v=2&kinds=items,skills&fields=overlay'
+
+  it('serves only the asked-for kinds, trimmed, with the tag in the body', async () => {
+    setCardCache(dump([card('A')]))
+    const res = get(SLIM)
+    const body = await res.json() as Record<string, unknown> & { items: Record<string, unknown>[] }
+    expect(Object.keys(body).sort()).toEqual(['etag', 'fetchedAt', 'items', 'skills', 'v'])
+    expect(body.etag).toBe(res.headers.get('ETag'))
+    expect(body.items[0].HiddenTags).toBeUndefined()
+    expect(body.items[0].Tooltips).toEqual([{ text: 'Deal 5', type: 'Active' }])
+  })
+
+  it('tags each variant separately and the plain request is unchanged', async () => {
+    setCardCache(dump([card('A')]))
+    const plain = get('')
+    expect(Object.keys(await plain.json() as object)).toContain('monsters')
+    const tags = new Set([plain, get(SLIM), get('v=2')].map((r) => r.headers.get('ETag')))
+    expect(tags.size).toBe(3)
+  })
+
+  it('rejects unknown versions and selectors', () => {
+    setCardCache(dump([card('A')]))
+    for (const qs of ['v=3', 'v=2&kinds=cards', 'v=2&kinds=', 'v=2&fields=tiny', 'kinds=items']) {
+      expect(get(qs).status).toBe(400)
+    }
+  })
+
+  it('serves only the overlay selector and the whole cache, never an ad-hoc one', () => {
+    setCardCache(dump([card('A')]))
+    expect(get('v=2&kinds=items,skills,monsters,events&fields=full').status).toBe(200)
+    for (const qs of ['v=2&kinds=items', 'v=2&fields=overlay', 'v=2&kinds=items,skills', 'v=2&kinds=monsters&fields=overlay']) {
+      expect(get(qs).status).toBe(400)
+    }
+  })
+
+  it('sends a returning viewer only what changed since their tag', async () => {
+    setCardCache(dump([card('A'), card('B'), card('B')]))
+    const old = get(SLIM).headers.get('ETag')!
+    setCardCache(dump([card('B'), card('C'), card('A', { Size: 'Large' }), card('B')], '2026-09-09T00:00:00Z'))
+    const res = get(`${SLIM}&since=${encodeURIComponent(old)}`)
+    expect(res.headers.get('ETag')).toBe(get(SLIM).headers.get('ETag'))
+    const body = await res.json() as { base: string; items: unknown[]; skills: unknown[] }
+    expect(body.base).toBe(old)
+    expect(body.items.map((x) => typeof x === 'number' ? x : (x as { Title: string }).Title)).toEqual([1, 'C', 'A', 2])
+    expect(body.skills).toEqual([0])
+  })
+
+  it('answers a tag for the current dump with 304, and an unknown one with the whole list', async () => {
+    setCardCache(dump([card('A')]))
+    const tag = get(SLIM).headers.get('ETag')!
+    expect(get(`${SLIM}&since=${encodeURIComponent(tag)}`).status).toBe(304)
+    const full = await get(`${SLIM}&since=${encodeURIComponent('"zzz-items.skills-overlay"')}`).json() as object
+    expect('base' in full).toBe(false)
+    // a tag for another selector is no base for this one
+    const other = await get(`v=2&since=${encodeURIComponent(tag)}`).json() as object
+    expect('base' in other).toBe(false)
+  })
+})
+
 import { handleBoard, storeBoard, __clearBoardsForTest } from './routes/board'
 
 describe('/board (bot-internal latest frame)', () => {
@@ -466,3 +536,443 @@ describe('/board (bot-internal latest frame)', () => {
     expect(body.cards).toEqual([])
   })
 })
+
+import { handleBoardHistory, loadBoardHistory, saveBoardHistory } from './routes/board'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+describe('/board/history (bot-internal frame ring)', () => {
+  const SECRET = 'test-internal-secret'
+  const card = (title: string) => ({ title, tier: 'Gold', x: 0.1, y: 0.1, w: 0.1, h: 0.1 })
+  type Frames = { frames: { cards: { title: string }[]; at: number }[]; now: number }
+
+  const get = (qs: string, secret: string | null = SECRET) =>
+    handleBoardHistory(
+      new Request(`https://ebs.test/board/history?${qs}`, { headers: secret ? { 'x-internal-secret': secret } : {} }),
+      new URL(`https://ebs.test/board/history?${qs}`),
+    )
+
+  beforeEach(() => {
+    process.env.INTERNAL_SECRET = SECRET
+    delete process.env.BOARD_HISTORY_PATH
+    __clearBoardsForTest()
+  })
+
+  it('has the same fail-closed 404 contract as /board', () => {
+    storeBoard('123', [card('Fang')])
+    expect(get('channel_id=123', 'nope').status).toBe(404)
+    expect(get('channel_id=123', null).status).toBe(404)
+    expect(get('channel_id=999').status).toBe(404)
+    expect(get('channel_id=123&since=soon').status).toBe(400)
+  })
+
+  it('keeps distinct frames oldest first, skipping unchanged repeats', async () => {
+    storeBoard('123', [card('Fang')])
+    storeBoard('123', [card('Fang')])
+    storeBoard('123', [card('Fang'), card('Toaster')])
+    const body = await get('channel_id=123').json() as Frames
+    expect(body.frames.map((f) => f.cards.map((c) => c.title))).toEqual([['Fang'], ['Fang', 'Toaster']])
+    expect(body.now).toBeGreaterThanOrEqual(body.frames[1].at)
+  })
+
+  it('since filters by time, and the ring keeps only the newest frames', async () => {
+    for (let i = 0; i < 130; i++) storeBoard('123', [card(`Card ${i}`)])
+    const all = await get('channel_id=123').json() as Frames
+    expect(all.frames.length).toBe(120)
+    expect(all.frames[0].cards[0].title).toBe('Card 10')
+    const none = await get(`channel_id=123&since=${all.now}`).json() as Frames
+    expect(none.frames).toEqual([])
+  })
+
+  it('persists to BOARD_HISTORY_PATH and restores on load', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'bzi-board-history-'))
+    try {
+      process.env.BOARD_HISTORY_PATH = join(dir, 'history.json')
+      expect(loadBoardHistory()).toBe(0) // missing file is a fresh start
+      storeBoard('123', [card('Fang')])
+      saveBoardHistory()
+      __clearBoardsForTest()
+      expect(loadBoardHistory()).toBe(1)
+      const body = await get('channel_id=123').json() as Frames
+      expect(body.frames[0].cards[0].title).toBe('Fang')
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
+
+// ── /api/route day planner ──────────────────────────────────────────────────
+
+import { handleRoute } from './routes/route'
+
+describe('/api/route (day planner JSON)', () => {
+  const mob = (title: string, day: number, tiers: string[]) => ({
+    Type: 'CombatEncounter', Title: title, Size: 'Medium', Tags: [], DisplayTags: [], HiddenTags: [],
+    Heroes: ['Common'], Shortlink: `https://bzdb.to/${title}`,
+    MonsterMetadata: { available: `Day ${day}`, day, health: 100 * day, board: tiers.map((tier, i) => ({ title: `${title} item ${i}`, tier, id: `${i}` })), skills: [] },
+  })
+  beforeEach(() => setCardCache({
+    items: [], skills: [], fetchedAt: '2026-08-08T00:00:00Z',
+    monsters: [mob('Rat', 1, ['Bronze']), mob('Boar', 2, ['Gold', 'Gold', 'Diamond']), mob('Crab', 2, ['Silver'])],
+  } as never))
+
+  const get = (qs: string) => handleRoute(new URL(`https://ebs.test/api/route?${qs}`))
+
+  it('serves the plan for a range, most dangerous first within a day', async () => {
+    const res = get('from=1&to=2')
+    expect(res.status).toBe(200)
+    const plan = await res.json() as { days: { day: number; monsters: { title: string; threat: { title: string } }[] }[] }
+    expect(plan.days.map((d) => d.day)).toEqual([1, 2])
+    expect(plan.days[1].monsters.map((m) => m.title)).toEqual(['Boar', 'Crab'])
+    expect(plan.days[1].monsters[0].threat.title).toBe('Boar item 2')
+  })
+
+  it('a lone from is a single day', async () => {
+    const plan = await get('from=2').json() as { from: number; to: number }
+    expect([plan.from, plan.to]).toEqual([2, 2])
+  })
+
+  it('rejects a malformed or oversized range', () => {
+    for (const qs of ['', 'from=x', 'from=3&to=1', 'from=0', 'from=1&to=40', 'from=1&to=']) {
+      expect(get(qs).status).toBe(400)
+    }
+  })
+})
+
+// ── /api/images disk cache ──────────────────────────────────────────────────
+
+import { handleImage, loadImageCache, prefetchArt, imageCacheStats } from './routes/images'
+import { mkdirSync, readdirSync, writeFileSync, existsSync } from 'fs'
+
+describe('/api/images (disk cache)', () => {
+  const A = 'a'.repeat(40)
+  const B = 'b'.repeat(40)
+  const C = 'c'.repeat(40)
+  const realFetch = globalThis.fetch
+  let dir = ''
+  let fetched: string[] = []
+  let upstreamDown = false
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ebs-img-'))
+    process.env.IMAGE_CACHE_DIR = dir
+    delete process.env.IMAGE_CACHE_MAX_MB
+    fetched = []
+    upstreamDown = false
+    globalThis.fetch = (async (url: string) => {
+      fetched.push(String(url))
+      if (upstreamDown) throw new Error('down')
+      return new Response(new Uint8Array(100).fill(7), { headers: { 'Content-Type': 'image/webp' } })
+    }) as unknown as typeof fetch
+  })
+  afterEach(() => {
+    globalThis.fetch = realFetch
+    delete process.env.IMAGE_CACHE_DIR
+    delete process.env.IMAGE_CACHE_MAX_MB
+    loadImageCache()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('fetches once, then serves from disk — even with the CDN down', async () => {
+    __resetMetricsForTest()
+    loadImageCache()
+    expect((await handleImage(A)).status).toBe(200)
+    upstreamDown = true
+    const again = await handleImage(A)
+    expect(again.status).toBe(200)
+    expect((await again.arrayBuffer()).byteLength).toBe(100)
+    expect(fetched).toHaveLength(1)
+    expect(imageCacheStats()).toMatchObject({ enabled: true, files: 1, hits: 1, misses: 1 })
+    const text = renderMetrics()
+    expect(text).toContain('# TYPE bazaarinfo_ebs_image_cache_requests_total counter')
+    expect(text).toContain('bazaarinfo_ebs_image_cache_requests_total{result="hit"} 1')
+    expect(text).toContain('bazaarinfo_ebs_image_cache_requests_total{result="miss"} 1')
+  })
+
+  it('tags images per CDN version and answers a matching revalidation with 304', async () => {
+    loadImageCache()
+    const res = await handleImage(A)
+    const etag = res.headers.get('ETag')!
+    expect(etag).toContain(A)
+    expect(res.headers.get('Cache-Control')).toContain('immutable')
+    const again = await handleImage(A, new Request('https://ebs.test/', { headers: { 'If-None-Match': etag } }))
+    expect(again.status).toBe(304)
+    expect(fetched).toHaveLength(1)
+  })
+
+  it('coalesces concurrent misses into one upstream fetch', async () => {
+    loadImageCache()
+    await Promise.all([handleImage(A), handleImage(A), handleImage(A)])
+    expect(fetched).toHaveLength(1)
+  })
+
+  it('evicts the least recently used image past the size bound', async () => {
+    process.env.IMAGE_CACHE_MAX_MB = String(250 / 1024 / 1024)
+    loadImageCache()
+    await handleImage(A)
+    await handleImage(B)
+    await handleImage(A) // A is now the fresher one
+    await handleImage(C)
+    fetched = []
+    await handleImage(A)
+    await handleImage(B)
+    expect(fetched.map((u) => u.includes(B))).toEqual([true])
+    expect(imageCacheStats().evictions).toBeGreaterThan(0)
+  })
+
+  it('survives a restart, and a CDN version bump sweeps the old renditions', async () => {
+    loadImageCache()
+    await handleImage(A)
+    mkdirSync(join(dir, 'cdn-z16.0'))
+    writeFileSync(join(dir, 'cdn-z16.0', `${B}.webp`), 'old')
+    writeFileSync(join(dir, 'items.json'), '{}')
+    expect(loadImageCache()).toBe(1)
+    expect(existsSync(join(dir, 'cdn-z16.0'))).toBe(false)
+    // only version directories are ever swept
+    expect(existsSync(join(dir, 'items.json'))).toBe(true)
+  })
+
+  it('prefetches every item and skill art once, skipping what is cached', async () => {
+    loadImageCache()
+    await handleImage(A)
+    const card = (ArtKey?: string) => ({ ArtKey })
+    const n = await prefetchArt({ items: [card(A), card(B), card(B), card()], skills: [card(C), card('nothex')], monsters: [] } as never)
+    expect(n).toBe(2)
+    expect(fetched).toHaveLength(3)
+    expect(readdirSync(readdirSync(dir).map((d) => join(dir, d))[0])).toHaveLength(3)
+  })
+
+  it('gives up a prefetch when the CDN is down', async () => {
+    loadImageCache()
+    upstreamDown = true
+    const keys = Array.from({ length: 20 }, (_, i) => ({ ArtKey: i.toString(16).padStart(40, '0') }))
+    expect(await prefetchArt({ items: keys, skills: [], monsters: [] } as never)).toBe(0)
+    expect(fetched.length).toBeLessThan(20)
+  })
+
+  it('proxies uncached with IMAGE_CACHE_DIR unset', async () => {
+    delete process.env.IMAGE_CACHE_DIR
+    loadImageCache()
+    await handleImage(A)
+    await handleImage(A)
+    expect(fetched).toHaveLength(2)
+    expect(imageCacheStats().enabled).toBe(false)
+    expect(await prefetchArt({ items: [{ ArtKey: B }], skills: [], monsters: [] } as never)).toBe(0)
+  })
+})
+
+// ── /c/:slug public card page ───────────────────────────────────────────────
+
+import { handleCardPage, CARD_PAGE_RE } from './routes/card-page'
+import { formatItem, setCardPageBase } from '@bazaarinfo/shared'
+
+describe('/c/:slug (public card page)', () => {
+  const keg = {
+    Type: 'Item', Title: 'Powder Keg', Size: 'Medium', BaseTier: 'Silver',
+    Tiers: ['Silver', 'Gold'], Heroes: ['Vanessa'], Tags: [], HiddenTags: [], DisplayTags: ['Ammo'],
+    Tooltips: [
+      { text: 'Deal {D} damage', type: 'Active' },
+      { text: 'internal', type: 'bzdbgg.HiddenSearchable' },
+    ],
+    TooltipReplacements: { '{D}': { Silver: 40, Gold: 80 } },
+    Enchantments: { Fiery: { tooltips: [{ text: 'Burn <b>{B}</b>', type: 'Active' }], tooltipReplacements: { '{B}': { Fixed: 5 } } } },
+    Shortlink: 'https://bzdb.to/keg', ArtKey: 'abcdef0123456789abcd', Cooldown: { Silver: 8, Gold: 6 },
+  }
+  beforeEach(() => setCardCache({
+    items: [keg], skills: [{ ...keg, Type: 'Skill', Title: 'Keen Eye', Cooldown: undefined, Enchantments: {} }],
+    monsters: [], fetchedAt: '2026-08-08T00:00:00Z',
+  } as never))
+
+  it('renders the tier ladders, enchants, art and the bazaardb credit', async () => {
+    const res = handleCardPage('powder-keg')
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Content-Type')).toContain('text/html')
+    const html = await res.text()
+    expect(html).toContain('<h1>Powder Keg</h1>')
+    expect(html).toMatch(/title="silver">40<.*title="gold">80</)
+    expect(html).toMatch(/title="silver">8<.*title="gold">6<.*s<\/span>/)
+    expect(html).toContain('<dt>Fiery</dt>')
+    expect(html).toContain('src="/api/images/abcdef0123456789abcd"')
+    expect(html).toContain('href="https://bzdb.to/keg"')
+    expect(html).not.toContain('internal')
+  })
+
+  it('escapes card text instead of trusting it', async () => {
+    const html = await handleCardPage('powder-keg').text()
+    expect(html).toContain('Burn &lt;b&gt;5&lt;/b&gt;')
+  })
+
+  it('serves skills too, and forbids scripts outright', async () => {
+    const res = handleCardPage('keen-eye')
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Content-Security-Policy')).toContain("default-src 'none'")
+  })
+
+  it('404s an unknown card, 503s before the cache loads', () => {
+    expect(handleCardPage('no-such-card').status).toBe(404)
+    setCardCache(null as never)
+    expect(handleCardPage('powder-keg').status).toBe(503)
+  })
+
+  it('a localized chat line links to the English card page', () => {
+    // what the bot's store.localize hands formatItem on a channel set to Portuguese
+    const shown = { ...keg, Title: 'Barril de Pólvora', CanonicalTitle: 'Powder Keg' }
+    setCardPageBase('https://ebs.example.com/c')
+    try {
+      const path = formatItem(shown as never).match(/ebs\.example\.com(\/c\/\S+)$/)![1]
+      expect(path).toBe('/c/powder-keg')
+      expect(handleCardPage(path.match(CARD_PAGE_RE)![1]).status).toBe(200)
+    } finally {
+      setCardPageBase('')
+    }
+  })
+
+  it('only matches slug-shaped paths', () => {
+    expect(CARD_PAGE_RE.test('/c/powder-keg')).toBe(true)
+    for (const p of ['/c/', '/c/Powder-Keg', '/c/a/b', '/c/../x']) expect(CARD_PAGE_RE.test(p)).toBe(false)
+  })
+})
+
+// ── /api/stream SSE frames ──────────────────────────────────────────────────
+
+describe('/api/stream (SSE overlay frames)', () => {
+  // the frame carries pubsub's PROTOCOL_VERSION, and pubsub pulls in auth — env first
+  let stream: typeof import('./routes/stream')
+  beforeAll(async () => {
+    process.env.TWITCH_EXTENSION_SECRET ||= 'dGVzdA=='
+    process.env.COMPANION_SECRET = 'test-master-secret-value-do-not-ship'
+    stream = await import('./routes/stream')
+  })
+
+  const CARD = { title: 'Fang', tier: 'Gold', x: 0.1, y: 0.1, w: 0.1, h: 0.1 }
+  const dec = new TextDecoder()
+  const soon = () => Math.floor(Date.now() / 1000) + 300
+  const open = (channelId: string, exp = soon()) =>
+    stream.handleStream(new Request('https://ebs.test/api/stream'), channelId, exp).body!.getReader()
+  const next = async (r: ReadableStreamDefaultReader<Uint8Array>) => dec.decode((await r.read()).value)
+
+  beforeEach(() => __clearBoardsForTest())
+
+  it('is an event stream that never gets cached', () => {
+    const res = stream.handleStream(new Request('https://ebs.test/api/stream'), '1', soon())
+    expect(res.headers.get('Content-Type')).toBe('text/event-stream')
+    expect(res.headers.get('Cache-Control')).toContain('no-cache')
+    void res.body!.cancel()
+  })
+
+  it('opens with the last published board, then relays frames for its channel only', async () => {
+    stream.publishFrame('42', [CARD])
+    const r = open('42')
+    expect(await next(r)).toBe(`data: ${JSON.stringify({ v: 2, cards: [CARD] })}\n\n`)
+    stream.publishFrame('43', [CARD])
+    stream.publishFrame('42', [])
+    expect(await next(r)).toBe('data: {"v":2,"cards":[]}\n\n')
+    await r.cancel()
+  })
+
+  it('tracks open streams and forgets a channel once its last viewer leaves', async () => {
+    const before = stream.streamStats()
+    const a = open('50')
+    const b = open('50')
+    expect(stream.streamStats().viewers).toBe(before.viewers + 2)
+    expect(stream.streamStats().channels).toBe(before.channels + 1)
+    await a.cancel()
+    await b.cancel()
+    expect(stream.streamStats()).toEqual(before)
+  })
+
+  it('closes when the token that opened it expires', async () => {
+    const r = open('60', Math.floor(Date.now() / 1000) - 1)
+    await Bun.sleep(5)
+    expect((await r.read()).done).toBe(true)
+    expect(stream.streamStats().viewers).toBe(0)
+  })
+})
+
+// ── spoiler delay queue ─────────────────────────────────────────────────────
+
+import { holdFrame, delayStats } from './delay'
+
+describe('holdFrame (spoiler delay)', () => {
+  const board = (title: string) => [{ title, tier: 'Gold', x: 0.1, y: 0.1, w: 0.1, h: 0.1 }]
+  const titles = (out: { title: string }[][]) => out.map((cards) => cards[0]?.title)
+
+  it('delivers synchronously with no delay and nothing held', () => {
+    const out: { title: string }[][] = []
+    holdFrame('d1', board('Fang'), 0, (c) => out.push(c))
+    expect(titles(out)).toEqual(['Fang'])
+    expect(delayStats().held).toBe(0)
+  })
+
+  it('holds frames for the delay and releases them in order', async () => {
+    const out: { title: string }[][] = []
+    holdFrame('d2', board('Fang'), 1_200, (c) => out.push(c))
+    await Bun.sleep(1_050)
+    holdFrame('d2', board('Barrel'), 400, (c) => out.push(c))
+    expect(out).toEqual([])
+    expect(delayStats()).toEqual({ channels: 1, held: 2 })
+    await Bun.sleep(200)
+    expect(titles(out)).toEqual(['Fang'])
+    await Bun.sleep(250)
+    expect(titles(out)).toEqual(['Fang', 'Barrel'])
+    expect(delayStats()).toEqual({ channels: 0, held: 0 })
+  })
+
+  it('folds a burst into its newest frame', async () => {
+    const out: { title: string }[][] = []
+    for (const t of ['A', 'B', 'C']) holdFrame('d3', board(t), 20, (c) => out.push(c))
+    expect(delayStats().held).toBe(1)
+    await Bun.sleep(50)
+    expect(titles(out)).toEqual(['C'])
+  })
+
+  it('a shorter delay supersedes older frames still held', async () => {
+    const out: { title: string }[][] = []
+    holdFrame('d4', board('Old'), 5_000, (c) => out.push(c))
+    holdFrame('d4', board('New'), 0, (c) => out.push(c))
+    await Bun.sleep(10)
+    expect(titles(out)).toEqual(['New'])
+    expect(delayStats().held).toBe(0)
+  })
+})
+
+// ── /metrics exposition ─────────────────────────────────────────────────────
+
+import { renderMetrics, routeLabel, observeRequest, rateLimited, __resetMetricsForTest } from './metrics'
+
+describe('metrics', () => {
+  beforeEach(() => __resetMetricsForTest())
+
+  it('folds request paths into a fixed set of route templates', () => {
+    expect(routeLabel('/api/cards')).toBe('/api/cards')
+    expect(routeLabel('/api/images/abcdef0123456789abcd')).toBe('/api/images/:hash')
+    expect(routeLabel('/c/powder-keg')).toBe('/c/:slug')
+    expect(routeLabel('/wp-login.php')).toBe('other')
+  })
+
+  it('renders counters, cumulative histogram buckets and gauges', () => {
+    observeRequest('GET', '/api/cards', 200, 0.003)
+    observeRequest('GET', '/api/cards', 304, 0.2)
+    observeRequest('PROPFIND', '/x', 404, 0.001)
+    rateLimited.inc({ bucket: 'viewer' }, 2)
+    const text = renderMetrics([{ name: 'pubsub_queue_depth', help: 'Queued.', value: 3 }, { name: 'gone', help: 'Unset.', value: null }])
+
+    expect(text).toContain('# TYPE bazaarinfo_ebs_http_requests_total counter')
+    expect(text).toContain('bazaarinfo_ebs_http_requests_total{route="/api/cards",method="GET",status="304"} 1')
+    expect(text).toContain('bazaarinfo_ebs_http_requests_total{route="other",method="other",status="404"} 1')
+    expect(text).toContain('bazaarinfo_ebs_http_request_duration_seconds_bucket{route="/api/cards",le="0.005"} 1')
+    expect(text).toContain('bazaarinfo_ebs_http_request_duration_seconds_bucket{route="/api/cards",le="0.25"} 2')
+    expect(text).toContain('bazaarinfo_ebs_http_request_duration_seconds_bucket{route="/api/cards",le="+Inf"} 2')
+    expect(text).toContain('bazaarinfo_ebs_http_request_duration_seconds_count{route="/api/cards"} 2')
+    expect(text).toContain('bazaarinfo_ebs_rate_limited_total{bucket="viewer"} 2')
+    expect(text).toContain('# TYPE bazaarinfo_ebs_pubsub_queue_depth gauge\nbazaarinfo_ebs_pubsub_queue_depth 3')
+    expect(text).not.toContain('gone')
+    expect(text.endsWith('\n')).toBe(true)
+  })
+
+  it('counts the cards parsePayload drops', () => {
+    parsePayload({ channelId: '123', secret: 's', cards: [{ title: 'Fang', tier: 'Gold', x: 0.1, y: 0.1, w: 0.1, h: 0.1 }, { title: 7 }, null] })
+    expect(renderMetrics()).toContain('bazaarinfo_ebs_detect_cards_dropped_total 2')
+  })
+})
@@ -7,14 +7,22 @@ import type { CardCache } from '@bazaarinfo/shared'
 import { verifyTwitchJwt, deriveChannelSecret } from './auth'
 import { loadRotations, bumpVersion, rotationCount } from './rotation'
 import { handleCards, setCardCache, getCardCache } from './routes/cards'
-import { handleImage } from './routes/images'
+import { handleImage, loadImageCache, prefetchArt, imageCacheStats } from './routes/images'
+import { handleCardPage, CARD_PAGE_RE } from './routes/card-page'
+import { handleRoute } from './routes/route'
 import { handleDetect } from './routes/detect'
-import { handleBoard } from './routes/board'
+import { handleBoard, handleBoardHistory, loadBoardHistory } from './routes/board'
+import { handleStream, streamStats } from './routes/stream'
+import { handleSettingsGet, handleSettingsPost } from './routes/settings'
+import { loadSettings } from './settings'
 import { handleHsPost, handleHsBoard } from './routes/hsboard'
 import { redirectTarget } from './routes/redirects'
 import { readyStatus } from './routes/health'
-import { pubsubStats } from './pubsub'
+import { pubsubStats, keyframeFor } from './pubsub'
+import { delayStats } from './delay'
 import { rateOk } from './ratelimit'
+import { observeRequest, rateLimited, renderMetrics } from './metrics'
+import type { Gauge } from './metrics'
 
 const STARTED_AT = Date.now()
 
@@ -59,7 +67,21 @@ function getIp(req: Request): string | null {
 
 let warnedNoIp = false
 
+// Every request is counted under its route template with the status it got; a route
+// that throws is recorded as the 500 Bun's error handler turns it into.
 export async function handleRequest(req: Request): Promise<Response> {
+  const started = performance.now()
+  let status = 500
+  try {
+    const res = await routeRequest(req)
+    status = res.status
+    return res
+  } finally {
+    observeRequest(req.method, new URL(req.url).pathname, status, (performance.now() - started) / 1000)
+  }
+}
+
+async function routeRequest(req: Request): Promise<Response> {
   const url = new URL(req.url)
   const path = url.pathname
   const origin = allowedOrigin(req)
@@ -86,9 +108,11 @@ export async function handleRequest(req: Request): Promise<Response> {
     }
   } else {
     const image = IMAGE_PATH_RE.test(path)
-    const rateMax = (path === '/detect' || path === '/hs') ? 600 : image ? 300 : 60
+    const companion = path === '/detect' || path === '/hs'
+    const rateMax = companion ? 600 : image ? 300 : 60
     const bucket = image ? `img:${ip}` : ip
     if (!rateOk(bucket, rateMax)) {
+      rateLimited.inc({ bucket: companion ? 'companion' : image ? 'image' : 'viewer' })
       return cors(new Response('rate limited', { status: 429 }), origin)
     }
   }
@@ -111,6 +135,11 @@ export async function handleRequest(req: Request): Promise<Response> {
     return cors(handleBoard(req, url), origin)
   }
 
+  // GET /board/history — bot-internal ring of recent distinct frames, same contract
+  if (req.method === 'GET' && path === '/board/history') {
+    return cors(handleBoardHistory(req, url), origin)
+  }
+
   // POST /hs — companion's battlegrounds board. Same companion-secret auth as /detect,
   // but never broadcast: HDT already draws a board for viewers, so the bot is the only
   // consumer and the state is read back through /hsboard.
@@ -130,7 +159,14 @@ export async function handleRequest(req: Request): Promise<Response> {
   // nothing to protect by gating it.
   const imageMatch = path.match(IMAGE_PATH_RE)
   if (req.method === 'GET' && imageMatch) {
-    return cors(await handleImage(imageMatch[1]), origin)
+    return cors(await handleImage(imageMatch[1], req), origin)
+  }
+
+  // GET /c/:slug — public card page, the target of chat's card links when the bot
+  // has CARD_PAGE_BASE set. Opened from chat in a plain browser tab: no JWT to send.
+  const cardPageMatch = path.match(CARD_PAGE_RE)
+  if (req.method === 'GET' && cardPageMatch) {
+    return cors(handleCardPage(cardPageMatch[1]), origin)
   }
 
   // All other routes require valid Twitch JWT
@@ -173,11 +209,41 @@ export async function handleRequest(req: Request): Promise<Response> {
     return cors(Response.json({ channelId, secret: deriveChannelSecret(channelId) }), origin)
   }
 
+  // GET /api/settings — the channel's overlay settings, for any viewer of it
+  if (req.method === 'GET' && path === '/api/settings' && twitchAuth) {
+    return cors(handleSettingsGet(twitchAuth.channel_id), origin)
+  }
+
+  // POST /api/settings — broadcaster saves a partial update; same bearer-token CSRF
+  // reasoning as companion-rotate
+  if (req.method === 'POST' && path === '/api/settings' && twitchAuth) {
+    return cors(await handleSettingsPost(req, twitchAuth.channel_id, twitchAuth.role), origin)
+  }
+
   // GET /api/cards
   if (req.method === 'GET' && path === '/api/cards') {
     return cors(handleCards(req), origin)
   }
 
+  // GET /api/stream — SSE frames for the overlay, faster than PubSub's ~1/s. fetch-read,
+  // not EventSource, so the JWT still travels in the Authorization header.
+  if (req.method === 'GET' && path === '/api/stream' && twitchAuth) {
+    return cors(handleStream(req, twitchAuth.channel_id, twitchAuth.exp), origin)
+  }
+
+  // GET /api/keyframe — the overlay's resync after a PubSub sequence gap: the last
+  // frame PubSub delivered to this channel, whole. 404 until the first one goes out.
+  if (req.method === 'GET' && path === '/api/keyframe' && twitchAuth) {
+    const frame = keyframeFor(twitchAuth.channel_id)
+    if (!frame) return cors(new Response('not found', { status: 404 }), origin)
+    return cors(new Response(frame, { headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' } }), origin)
+  }
+
+  // GET /api/route?from=&to= — day planner JSON for the panel
+  if (req.method === 'GET' && path === '/api/route') {
+    return cors(handleRoute(url), origin)
+  }
+
   // GET /health/live — process is up
   if (req.method === 'GET' && path === '/health/live') {
     return cors(new Response('ok'), origin)
@@ -200,6 +266,9 @@ export async function handleRequest(req: Request): Promise<Response> {
       skills: cache.skills.length,
       monsters: cache.monsters.length,
       pubsub: pubsubStats(),
+      stream: streamStats(),
+      delay: delayStats(),
+      images: imageCacheStats(),
       cacheAgeHours,
     } : {
       status: stale ? 'stale' : 'ready',
@@ -208,6 +277,16 @@ export async function handleRequest(req: Request): Promise<Response> {
     return cors(Response.json(body, { status: stale ? 503 : 200 }), origin)
   }
 
+  // GET /metrics — Prometheus exposition for the local scraper. Same exposure rule as
+  // /health/ready's full stats, but stricter: proxied requests get a 404, so the
+  // route doesn't exist from outside at all.
+  if (req.method === 'GET' && path === '/metrics') {
+    if (ip !== null) return cors(new Response('not found', { status: 404 }), origin)
+    return new Response(renderMetrics(metricGauges()), {
+      headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8', 'Cache-Control': 'no-store' },
+    })
+  }
+
   // GET /health (back-compat alias of /health/live)
   if (req.method === 'GET' && path === '/health') {
     return cors(new Response('ok'), origin)
@@ -216,6 +295,36 @@ export async function handleRequest(req: Request): Promise<Response> {
   return cors(new Response('not found', { status: 404 }), origin)
 }
 
+// the point-in-time half of /metrics, read from each owner at scrape time
+function metricGauges(): Gauge[] {
+  const cache = getCardCache()
+  const fetchedAt = cache ? Date.parse(cache.fetchedAt) : NaN
+  const pubsub = pubsubStats()
+  const stream = streamStats()
+  const delay = delayStats()
+  const images = imageCacheStats()
+  return [
+    { name: 'uptime_seconds', help: 'Seconds since the EBS started.', value: Math.floor((Date.now() - STARTED_AT) / 1000) },
+    { name: 'process_resident_memory_bytes', help: 'Resident set size of the EBS process.', value: process.memoryUsage().rss },
+    { name: 'card_cache_loaded', help: '1 when a card cache is loaded.', value: cache ? 1 : 0 },
+    {
+      name: 'card_cache_age_seconds',
+      help: 'Age of the loaded card dump, from its fetchedAt.',
+      value: Number.isFinite(fetchedAt) ? Math.round((Date.now() - fetchedAt) / 1000) : null,
+    },
+    { name: 'pubsub_channels', help: 'Channels with PubSub state.', value: pubsub.channels },
+    { name: 'pubsub_queue_depth', help: 'Frames waiting in PubSub send queues, all channels.', value: pubsub.queued },
+    { name: 'pubsub_backed_off_channels', help: 'Channels currently in send backoff after a failure.', value: pubsub.backedOff },
+    { name: 'stream_channels', help: 'Channels with at least one open /api/stream.', value: stream.channels },
+    { name: 'stream_viewers', help: 'Open /api/stream connections.', value: stream.viewers },
+    { name: 'delay_channels', help: 'Channels with frames held for a spoiler delay.', value: delay.channels },
+    { name: 'delay_held_frames', help: 'Frames held for a spoiler delay, all channels.', value: delay.held },
+    { name: 'secret_rotations', help: 'Channels that have rotated their companion secret.', value: rotationCount() },
+    { name: 'image_cache_files', help: 'Card art files in the disk cache.', value: images.enabled ? images.files : null },
+    { name: 'image_cache_bytes', help: 'Bytes of card art in the disk cache.', value: images.enabled ? images.bytes : null },
+  ]
+}
+
 const CACHE_PATH = process.env.CACHE_PATH ?? 'cache/items.json'
 
 // atomic read-then-swap: parse the full file and only swap the in-memory cache on success,
@@ -228,6 +337,10 @@ function loadCache(initial = false): boolean {
     }
     setCardCache(cache)
     console.log(`[ebs] loaded ${cache.items.length} items, ${cache.skills.length} skills, ${cache.monsters.length} monsters`)
+    // a new dump brings new art; fetch it now rather than on the first viewer's hover
+    prefetchArt(cache)
+      .then((n) => { if (n) console.log(`[ebs] prefetched art for ${n} card(s)`) })
+      .catch((e) => console.error('[ebs] art prefetch failed:', e))
     return true
   } catch (e) {
     console.error(`[ebs] ${initial ? 'failed to load' : 'reload failed, keeping current'} card cache:`, e)
@@ -246,6 +359,14 @@ function init() {
     process.exit(1)
   }
 
+  console.log(`[ebs] loaded overlay settings for ${loadSettings()} channel(s)`)
+
+  const restored = loadBoardHistory()
+  if (restored) console.log(`[ebs] restored board history for ${restored} channel(s)`)
+
+  const images = loadImageCache()
+  if (images) console.log(`[ebs] indexed ${images} cached image(s)`)
+
   console.log(`[ebs] loading card cache from ${CACHE_PATH}...`)
   if (!loadCache(true)) process.exit(1)
 
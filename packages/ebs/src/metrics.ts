@@ -0,0 +1,157 @@
+// Prometheus instrumentation for GET /metrics (text exposition format 0.0.4).
+//
+// Deliberately tiny — counters and histograms in Maps, no client library. Every
+// label value comes from a fixed set chosen by the code (route templates, bucket
+// kinds, outcomes), never from the request, so the series count stays bounded
+// however the EBS is poked. Point-in-time numbers (queue depth, cache age) are not
+// tracked here: the route reads them from their owners at scrape time and passes
+// them to renderMetrics as gauges.
+
+type Labels = Record<string, string>
+
+interface Series {
+  labels: Labels
+  value: number
+}
+
+interface HistogramSeries {
+  labels: Labels
+  counts: number[]
+  sum: number
+  count: number
+}
+
+export interface Gauge {
+  name: string
+  help: string
+  value: number | null
+  labels?: Labels
+}
+
+const PREFIX = 'bazaarinfo_ebs_'
+// request latency, seconds: a cached 304 at the bottom, a cold art fetch at the top
+const LATENCY_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 10]
+
+const counters = new Map<string, { help: string; series: Map<string, Series> }>()
+const histograms = new Map<string, { help: string; buckets: number[]; series: Map<string, HistogramSeries> }>()
+
+function key(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+function counter(name: string, help: string) {
+  const entry = { help, series: new Map<string, Series>() }
+  counters.set(PREFIX + name, entry)
+  return {
+    inc(labels: Labels = {}, n = 1): void {
+      const k = key(labels)
+      const s = entry.series.get(k)
+      if (s) s.value += n
+      else entry.series.set(k, { labels, value: n })
+    },
+  }
+}
+
+function histogram(name: string, help: string, buckets: number[]) {
+  const entry = { help, buckets, series: new Map<string, HistogramSeries>() }
+  histograms.set(PREFIX + name, entry)
+  return {
+    observe(labels: Labels, value: number): void {
+      const k = key(labels)
+      let s = entry.series.get(k)
+      if (!s) {
+        s = { labels, counts: buckets.map(() => 0), sum: 0, count: 0 }
+        entry.series.set(k, s)
+      }
+      for (let i = 0; i < buckets.length; i++) if (value <= buckets[i]) s.counts[i]++
+      s.sum += value
+      s.count++
+    },
+  }
+}
+
+export const httpRequests = counter('http_requests_total', 'HTTP requests by route template, method and status.')
+export const httpRequestSeconds = histogram('http_request_duration_seconds', 'Time to response headers by route template.', LATENCY_BUCKETS)
+export const rateLimited = counter('rate_limited_total', 'Requests refused by a rate-limit bucket.')
+export const detectFrames = counter('detect_frames_total', 'Companion /detect frames by outcome.')
+export const detectCardsDropped = counter('detect_cards_dropped_total', 'Invalid cards dropped from otherwise accepted /detect frames.')
+export const pubsubSends = counter('pubsub_sends_total', 'Helix PubSub send attempts by result.')
+export const imageCacheRequests = counter('image_cache_requests_total', 'Card art requests by disk cache result.')
+export const imageCacheEvictions = counter('image_cache_evictions_total', 'Card art files evicted from the disk cache.')
+
+// The route templates requests are counted under. Anything else is 'other' —
+// a scanner walking random paths must not mint a series per path.
+const EXACT_ROUTES = new Set([
+  '/detect', '/board', '/board/history', '/hs', '/hsboard', '/metrics',
+  '/api/companion-setup', '/api/companion-rotate', '/api/settings', '/api/cards',
+  '/api/stream', '/api/keyframe', '/api/route',
+  '/health', '/health/live', '/health/ready',
+])
+const KNOWN_METHODS = new Set(['GET', 'POST', 'OPTIONS'])
+
+export function routeLabel(path: string): string {
+  if (EXACT_ROUTES.has(path)) return path
+  if (path.startsWith('/api/images/')) return '/api/images/:hash'
+  if (path.startsWith('/c/')) return '/c/:slug'
+  return 'other'
+}
+
+export function observeRequest(method: string, path: string, status: number, seconds: number): void {
+  const route = routeLabel(path)
+  httpRequests.inc({ route, method: KNOWN_METHODS.has(method) ? method : 'other', status: String(status) })
+  httpRequestSeconds.observe({ route }, seconds)
+}
+
+function escapeLabel(v: string): string {
+  return v.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function fmtLabels(labels: Labels, extra?: [string, string]): string {
+  const pairs = Object.entries(labels)
+  if (extra) pairs.push(extra)
+  if (!pairs.length) return ''
+  return `{${pairs.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(',')}}`
+}
+
+function fmtNumber(n: number): string {
+  if (Number.isNaN(n)) return 'NaN'
+  if (n === Infinity) return '+Inf'
+  if (n === -Infinity) return '-Inf'
+  return String(n)
+}
+
+/** the full exposition: every counter and histogram, then `gauges` (a null value is left out) */
+export function renderMetrics(gauges: Gauge[] = []): string {
+  const lines: string[] = []
+  for (const [name, c] of counters) {
+    lines.push(`# HELP ${name} ${c.help}`, `# TYPE ${name} counter`)
+    for (const s of c.series.values()) lines.push(`${name}${fmtLabels(s.labels)} ${fmtNumber(s.value)}`)
+  }
+  for (const [name, h] of histograms) {
+    lines.push(`# HELP ${name} ${h.help}`, `# TYPE ${name} histogram`)
+    for (const s of h.series.values()) {
+      h.buckets.forEach((b, i) => lines.push(`${name}_bucket${fmtLabels(s.labels, ['le', String(b)])} ${s.counts[i]}`))
+      lines.push(`${name}_bucket${fmtLabels(s.labels, ['le', '+Inf'])} ${s.count}`)
+      lines.push(`${name}_sum${fmtLabels(s.labels)} ${fmtNumber(s.sum)}`)
+      lines.push(`${name}_count${fmtLabels(s.labels)} ${s.count}`)
+    }
+  }
+  // one HELP/TYPE per name, however many labelled values it has
+  const seen = new Set<string>()
+  for (const g of gauges) {
+    if (g.value === null) continue
+    const name = PREFIX + g.name
+    if (!seen.has(name)) {
+      seen.add(name)
+      lines.push(`# HELP ${name} ${g.help}`, `# TYPE ${name} gauge`)
+    }
+    lines.push(`${name}${fmtLabels(g.labels ?? {})} ${fmtNumber(g.value)}`)
+  }
+  return lines.join('\n') + '\n'
+}
+
+/** reset every counter and histogram — tests only */
+export function __resetMetricsForTest(): void {
+  for (const c of counters.values()) c.series.clear()
+  for (const h of histograms.values()) h.series.clear()
+}
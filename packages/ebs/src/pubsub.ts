@@ -1,7 +1,15 @@
 // Twitch PubSub Extension broadcast — bounded queue, 1/sec token bucket, dedupe.
 // See: https://dev.twitch.tv/docs/extensions/reference/#send-extension-pubsub-message
+//
+// Frames go out as protocol v2 (see shared/frames.ts): a keyframe, then deltas against
+// the last frame Twitch actually accepted. Encoding happens at send time, not enqueue,
+// so frames the bounded queue drops or dedupe skips can never open a sequence gap —
+// the next delta simply covers everything since the last delivery.
 
+import { assignIds, diffSlots } from '@bazaarinfo/shared'
+import type { KeyedSlot } from '@bazaarinfo/shared'
 import { createServerJwt } from './auth'
+import { pubsubSends } from './metrics'
 
 const CLIENT_ID = process.env.TWITCH_EXTENSION_CLIENT_ID ?? ''
 
@@ -22,13 +30,19 @@ interface BroadcastPayload {
   cards: DetectedCard[]
 }
 
-const PROTOCOL_VERSION = 1
+export const PROTOCOL_VERSION = 2
 const HELIX_RATE_MS = 1_100
 const MAX_QUEUE_PER_CHANNEL = 4
 const MAX_BACKOFF_MS = 30_000
+// Keyframe cadence. A viewer who tunes in mid-stream or misses a message resyncs at
+// the next keyframe even if their keyframe fetch fails, and v1 overlays (which only
+// read keyframes) lag the board by at most this. The companion's 30s heartbeat of an
+// unchanged board always lands past KEYFRAME_MS, so idle boards go out as keyframes.
+const KEYFRAME_EVERY = 20
+const KEYFRAME_MS = 15_000
 
 interface QueueItem {
-  message: string
+  cards: DetectedCard[]
   hash: string
   enqueuedAt: number
   attempts: number
@@ -40,6 +54,24 @@ interface ChannelState {
   lastHash: string
   pumping: boolean
   backoffMs: number
+  /** names this state's seq numbering; a recreated state (restart, eviction) gets a new one */
+  epoch: string
+  /** seq of the last delivered frame, 0 before the first */
+  seq: number
+  /** the board as of `seq` — what the next delta is computed against */
+  sent: KeyedSlot[]
+  nextId: number
+  sinceKey: number
+  keyAt: number
+  /** a send failed after Twitch may have taken it: re-key so viewers can't drift */
+  forceKey: boolean
+}
+
+interface EncodedFrame {
+  message: string
+  slots: KeyedSlot[]
+  nextId: number
+  key: boolean
 }
 
 const channels = new Map<string, ChannelState>()
@@ -66,20 +98,24 @@ function djb2(s: string): string {
 function getState(channelId: string): ChannelState {
   let s = channels.get(channelId)
   if (!s) {
-    s = { queue: [], lastSendAt: 0, lastHash: '', pumping: false, backoffMs: 0 }
+    s = {
+      queue: [], lastSendAt: 0, lastHash: '', pumping: false, backoffMs: 0,
+      epoch: crypto.randomUUID().slice(0, 8), seq: 0, sent: [], nextId: 1, sinceKey: 0, keyAt: 0, forceKey: false,
+    }
     channels.set(channelId, s)
   }
   return s
 }
 
-function fitForLimit(payload: BroadcastPayload): string | null {
-  const wrapped = { v: PROTOCOL_VERSION, ...payload }
-  const full = JSON.stringify(wrapped)
+function fitForLimit(epoch: string, seq: number, cards: KeyedSlot[]): string | null {
+  const full = JSON.stringify({ v: PROTOCOL_VERSION, e: epoch, seq, cards })
   if (full.length <= 5000) return full
   const slim = {
     v: PROTOCOL_VERSION,
-    cards: payload.cards.map(({ title, tier, x, y, w, h, owner, type, enchantment }) =>
-      ({ title, tier, x, y, w, h, owner, type, enchantment })),
+    e: epoch,
+    seq,
+    cards: cards.map(({ id, title, tier, x, y, w, h, owner, type, enchantment }) =>
+      ({ id, title, tier, x, y, w, h, owner, type, enchantment })),
   }
   const slimMsg = JSON.stringify(slim)
   if (slimMsg.length <= 5000) return slimMsg
@@ -87,18 +123,41 @@ function fitForLimit(payload: BroadcastPayload): string | null {
   return null
 }
 
-export function broadcastState(channelId: string, payload: BroadcastPayload): boolean {
+// the next frame for `cards`: a delta against `state.sent` when one is due and
+// smaller, else a keyframe. null when even the slimmed keyframe is over the cap.
+function encodeFrame(state: ChannelState, cards: DetectedCard[]): EncodedFrame | null {
+  const { slots, nextId } = assignIds(state.sent, cards, state.nextId)
+  const seq = state.seq + 1
+  const keyframe = fitForLimit(state.epoch, seq, slots)
+  if (!keyframe) return null
+  const keyDue = state.seq === 0 || state.forceKey || state.sinceKey + 1 >= KEYFRAME_EVERY || Date.now() - state.keyAt >= KEYFRAME_MS
+  if (!keyDue) {
+    const delta = JSON.stringify({ v: PROTOCOL_VERSION, e: state.epoch, seq, ...diffSlots(state.sent, slots) })
+    if (delta.length < keyframe.length) return { message: delta, slots, nextId, key: false }
+  }
+  return { message: keyframe, slots, nextId, key: true }
+}
+
+/**
+ * Whether `cards` could go out at all — checked when /detect takes a frame, so the
+ * companion hears about a refusal even while the frame itself sits in the spoiler
+ * delay (delay.ts) and reaches broadcastState much later.
+ */
+export function canBroadcast(channelId: string, cards: DetectedCard[]): boolean {
   if (!CLIENT_ID) {
     console.error('[pubsub] TWITCH_EXTENSION_CLIENT_ID not set')
     return false
   }
+  return encodeFrame(getState(channelId), cards) !== null
+}
 
-  const message = fitForLimit(payload)
-  if (!message) return false
-
-  const hash = djb2(message)
+export function broadcastState(channelId: string, payload: BroadcastPayload): boolean {
+  // refuse up front what could never be sent, so the companion hears about it
+  if (!canBroadcast(channelId, payload.cards)) return false
   const state = getState(channelId)
 
+  const hash = djb2(JSON.stringify(payload.cards))
+
   // dedupe: identical message currently last in queue or last sent → drop
   const last = state.queue[state.queue.length - 1]
   if (last?.hash === hash) return true
@@ -106,7 +165,7 @@ export function broadcastState(channelId: string, payload: BroadcastPayload): bo
     return true
   }
 
-  state.queue.push({ message, hash, enqueuedAt: Date.now(), attempts: 0 })
+  state.queue.push({ cards: payload.cards, hash, enqueuedAt: Date.now(), attempts: 0 })
 
   // bound queue: keep newest, drop oldest
   while (state.queue.length > MAX_QUEUE_PER_CHANNEL) state.queue.shift()
@@ -125,13 +184,28 @@ async function pump(channelId: string): Promise<void> {
       if (wait > 0) await new Promise((r) => setTimeout(r, wait))
 
       const item = state.queue.shift()!
-      const ok = await sendOnce(channelId, item.message)
+      const frame = encodeFrame(state, item.cards)
+      if (!frame) continue
+      const ok = await sendOnce(channelId, frame.message)
       state.lastSendAt = Date.now()
 
       if (ok) {
         state.lastHash = item.hash
         state.backoffMs = 0
+        state.seq++
+        state.sent = frame.slots
+        state.nextId = frame.nextId
+        state.forceKey = false
+        if (frame.key) {
+          state.sinceKey = 0
+          state.keyAt = state.lastSendAt
+        } else {
+          state.sinceKey++
+        }
       } else {
+        // a timeout can fail a send Twitch still delivered — the retry reuses this seq,
+        // so it must be a keyframe that overrides whatever the viewer got
+        state.forceKey = true
         item.attempts++
         state.backoffMs = Math.min(MAX_BACKOFF_MS, state.backoffMs === 0 ? 1_000 : state.backoffMs * 2)
         // requeue at front if queue is empty and item hasn't hit the give-up cap.
@@ -156,6 +230,7 @@ async function sendOnce(channelId: string, message: string): Promise<boolean> {
     jwt = await createServerJwt(channelId)
   } catch (e) {
     console.error(`[pubsub] jwt error: ${e}`)
+    pubsubSends.inc({ result: 'jwt_error' })
     return false
   }
 
@@ -178,15 +253,25 @@ async function sendOnce(channelId: string, message: string): Promise<boolean> {
     })
     if (!res.ok) {
       console.error(`[pubsub] broadcast failed: ${res.status}`)
+      pubsubSends.inc({ result: res.status === 429 ? 'throttled' : 'http_error' })
       return false
     }
+    pubsubSends.inc({ result: 'ok' })
     return true
   } catch (e) {
     console.error(`[pubsub] network error: ${e}`)
+    pubsubSends.inc({ result: 'network_error' })
     return false
   }
 }
 
+/** the channel's last delivered frame as a keyframe — the overlay's resync after a sequence gap. Not size-capped: it goes out over HTTP. */
+export function keyframeFor(channelId: string): string | null {
+  const state = channels.get(channelId)
+  if (!state || state.seq === 0) return null
+  return JSON.stringify({ v: PROTOCOL_VERSION, e: state.epoch, seq: state.seq, cards: state.sent })
+}
+
 export function pubsubStats(): { channels: number; queued: number; backedOff: number } {
   let queued = 0
   let backedOff = 0
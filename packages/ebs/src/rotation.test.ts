@@ -14,11 +14,13 @@ const TEST_DIR = join(tmpdir(), `bzi-rotation-test-${process.pid}`)
 mkdirSync(TEST_DIR, { recursive: true })
 const TEST_PATH = join(TEST_DIR, 'rotations.json')
 process.env.ROTATIONS_PATH = TEST_PATH
+process.env.SETTINGS_PATH = join(TEST_DIR, 'settings.json')
 
 const { loadRotations, getVersion, bumpVersion, rotationCount } = await import('./rotation')
 const { deriveChannelSecret, verifyCompanionSecret } = await import('./auth')
 const { handleRequest } = await import('./index')
 const { setCardCache } = await import('./routes/cards')
+const { loadSettings } = await import('./settings')
 
 function resetState() {
   if (existsSync(TEST_PATH)) unlinkSync(TEST_PATH)
@@ -92,6 +94,7 @@ describe('rotation state', () => {
     process.env.ROTATIONS_PATH = join(TEST_DIR, 'no-such-dir', 'rotations.json')
     expect(() => bumpVersion(ch)).toThrow()
     process.env.ROTATIONS_PATH = TEST_PATH
+process.env.SETTINGS_PATH = join(TEST_DIR, 'settings.json')
     expect(getVersion(ch)).toBe(before)
   })
 })
@@ -177,6 +180,145 @@ describe('POST /api/companion-rotate', () => {
   })
 })
 
+describe('GET /api/stream', () => {
+  it('401 without a JWT', async () => {
+    expect((await handleRequest(req('/api/stream'))).status).toBe(401)
+  })
+
+  it("a viewer's stream carries /detect frames for the token's channel, even when PubSub fails", async () => {
+    const ch = '121000121'
+    const viewer = await broadcasterJwt(ch, 'viewer')
+    const res = await handleRequest(req('/api/stream', { headers: { Authorization: `Bearer ${viewer}` } }))
+    expect(res.status).toBe(200)
+    const reader = res.body!.getReader()
+
+    const card = { title: 'Fang', tier: 'Gold', x: 0.1, y: 0.1, w: 0.1, h: 0.1 }
+    // no TWITCH_EXTENSION_CLIENT_ID here, so the PubSub leg answers 502
+    const detect = await handleRequest(req('/detect', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ channelId: ch, secret: deriveChannelSecret(ch), cards: [card] }),
+    }))
+    expect(detect.status).toBe(502)
+    const chunk = new TextDecoder().decode((await reader.read()).value)
+    expect(JSON.parse(chunk.replace(/^data: /, ''))).toEqual({ v: 2, cards: [card] })
+    await reader.cancel()
+  })
+})
+
+describe('/api/settings', () => {
+  const post = (jwt: string, body: unknown) => handleRequest(req('/api/settings', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${jwt}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  }))
+
+  it('401 without a JWT; a viewer reads the defaults but cannot write', async () => {
+    expect((await handleRequest(req('/api/settings'))).status).toBe(401)
+    const viewer = await broadcasterJwt('141000141', 'viewer')
+    const res = await handleRequest(req('/api/settings', { headers: { Authorization: `Bearer ${viewer}` } }))
+    expect(res.status).toBe(200)
+    expect(((await res.json()) as { tooltipPlacement: string }).tooltipPlacement).toBe('above')
+    expect((await post(viewer, { opponentHover: false })).status).toBe(403)
+  })
+
+  it('a broadcaster patch merges, persists across a reload and reaches open streams', async () => {
+    const ch = '151000151'
+    const jwt = await broadcasterJwt(ch)
+    const viewer = await broadcasterJwt(ch, 'viewer')
+    const stream = await handleRequest(req('/api/stream', { headers: { Authorization: `Bearer ${viewer}` } }))
+    const reader = stream.body!.getReader()
+
+    expect((await post(jwt, { spoilerDelaySec: 45 })).status).toBe(200)
+    const res = await post(jwt, { hiddenTypes: ['Skill'] })
+    const saved = await res.json() as { spoilerDelaySec: number; hiddenTypes: string[] }
+    expect(saved.spoilerDelaySec).toBe(45)
+    expect(saved.hiddenTypes).toEqual(['Skill'])
+
+    const pushed = new TextDecoder().decode((await reader.read()).value)
+    expect(JSON.parse(pushed.replace(/^data: /, '')).settings.spoilerDelaySec).toBe(45)
+    await reader.cancel()
+
+    loadSettings()
+    const read = await handleRequest(req('/api/settings', { headers: { Authorization: `Bearer ${viewer}` } }))
+    expect(await read.json()).toEqual(saved)
+  })
+
+  it('400 on a bad patch, leaving the stored settings alone', async () => {
+    const ch = '161000161'
+    const jwt = await broadcasterJwt(ch)
+    const res = await post(jwt, { spoilerDelaySec: -1 })
+    expect(res.status).toBe(400)
+    expect(await res.text()).toBe('invalid value for spoilerDelaySec')
+    expect((await post(jwt, { glow: true })).status).toBe(400)
+    // keys Object.prototype already has are unknown too, not a crash or a pass
+    for (const body of [JSON.parse('{"__proto__":1}'), { toString: 1 }, { constructor: 5 }]) {
+      const bad = await post(jwt, body)
+      expect(bad.status).toBe(400)
+      expect(await bad.text()).toStartWith('unknown setting')
+    }
+    const read = await handleRequest(req('/api/settings', { headers: { Authorization: `Bearer ${jwt}` } }))
+    expect(((await read.json()) as { spoilerDelaySec: number }).spoilerDelaySec).toBe(0)
+  })
+})
+
+describe('spoiler delay', () => {
+  it("a channel's delay holds /detect frames back from its viewers, not the bot's /board", async () => {
+    const ch = '171000171'
+    const jwt = await broadcasterJwt(ch)
+    await handleRequest(req('/api/settings', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${jwt}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ spoilerDelaySec: 1 }),
+    }))
+    const viewer = await broadcasterJwt(ch, 'viewer')
+    const res = await handleRequest(req('/api/stream', { headers: { Authorization: `Bearer ${viewer}` } }))
+    const reader = res.body!.getReader()
+
+    const card = { title: 'Fang', tier: 'Gold', x: 0.1, y: 0.1, w: 0.1, h: 0.1 }
+    const sentAt = Date.now()
+    await handleRequest(req('/detect', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ channelId: ch, secret: deriveChannelSecret(ch), cards: [card] }),
+    }))
+    process.env.INTERNAL_SECRET = 'test-internal'
+    const board = await handleRequest(req(`/board?channel_id=${ch}`, { headers: { 'x-internal-secret': 'test-internal' } }))
+    delete process.env.INTERNAL_SECRET
+    expect(board.status).toBe(200)
+
+    const chunk = new TextDecoder().decode((await reader.read()).value)
+    expect(Date.now() - sentAt).toBeGreaterThanOrEqual(990)
+    expect(JSON.parse(chunk.replace(/^data: /, ''))).toEqual({ v: 2, cards: [card] })
+    await reader.cancel()
+  })
+})
+
+describe('GET /api/keyframe', () => {
+  it('401 without a JWT, 404 while the channel has no delivered frame', async () => {
+    expect((await handleRequest(req('/api/keyframe'))).status).toBe(401)
+    const viewer = await broadcasterJwt('131000131', 'viewer')
+    const res = await handleRequest(req('/api/keyframe', { headers: { Authorization: `Bearer ${viewer}` } }))
+    expect(res.status).toBe(404)
+  })
+})
+
+describe('GET /metrics exposure', () => {
+  it('does not exist through the proxy; a localhost scrape sees the traffic', async () => {
+    expect((await handleRequest(req('/metrics'))).status).toBe(404)
+    await handleRequest(req('/api/cards'))
+
+    const res = await handleRequest(new Request('https://ebs.test/metrics'))
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Content-Type')).toContain('text/plain; version=0.0.4')
+    const text = await res.text()
+    expect(text).toMatch(/bazaarinfo_ebs_http_requests_total\{route="\/api\/cards",method="GET",status="401"\} \d+/)
+    expect(text).toMatch(/bazaarinfo_ebs_http_requests_total\{route="\/metrics",method="GET",status="404"\} \d+/)
+    expect(text).toContain('# TYPE bazaarinfo_ebs_pubsub_queue_depth gauge')
+    expect(text).toContain('bazaarinfo_ebs_uptime_seconds ')
+  })
+})
+
 describe('GET /health/ready exposure', () => {
   const cache = { items: [], skills: [], monsters: [], fetchedAt: new Date().toISOString() }
 
@@ -2,7 +2,12 @@
 // companion frame per channel, so chat questions about the live board get real card
 // names instead of a shrug. guarded by INTERNAL_SECRET, shared with the bot only —
 // never the extension (JWT) or the companion (per-channel derived secret).
+//
+// GET /board/history — the same frames over time: a bounded ring of the distinct boards
+// each channel has shown, so chat can ask what changed since the last fight, not just
+// what's there now. Set BOARD_HISTORY_PATH to have it survive an EBS restart.
 
+import { readFileSync, writeFileSync, renameSync } from 'fs'
 import type { DetectPayload } from './detect-validate'
 
 interface StoredBoard {
@@ -11,19 +16,88 @@ interface StoredBoard {
 }
 
 const latest = new Map<string, StoredBoard>()
+// oldest first. only a frame that differs from the one before it is kept — the
+// companion's heartbeat resends an unchanged board every 30s, which is no history
+const history = new Map<string, StoredBoard[]>()
+// a run is a few hundred board changes at most; this covers the last stretch of one
+// at ~2-3MB worst case per live channel
+const HISTORY_MAX = 120
 
 // entries only appear after companion-secret auth, so growth is bounded by real
-// adoption — but a streamer who stops playing shouldn't pin their last board forever
+// adoption — but a streamer who stops playing shouldn't pin their last board forever.
+// history follows the same rule, judged by its newest frame or the latest heartbeat.
 const IDLE_EVICT_MS = 6 * 60 * 60 * 1000
-setInterval(() => {
-  const now = Date.now()
+function evictIdle(now = Date.now()): void {
+  for (const [id, frames] of history) {
+    const last = Math.max(frames[frames.length - 1].at, latest.get(id)?.at ?? 0)
+    if (now - last > IDLE_EVICT_MS) history.delete(id)
+  }
   for (const [id, b] of latest) {
     if (now - b.at > IDLE_EVICT_MS) latest.delete(id)
   }
-}, 60 * 60 * 1000).unref?.()
+}
+setInterval(() => evictIdle(), 60 * 60 * 1000).unref?.()
+
+// optional persistence: flushed on a timer, not per frame — a busy shop posts several
+// frames a second, and losing the last minute of history to a crash costs nothing
+const HISTORY_FLUSH_MS = 60_000
+let historyDirty = false
+setInterval(() => {
+  if (historyDirty) saveBoardHistory()
+}, HISTORY_FLUSH_MS).unref?.()
+
+function historyPath(): string {
+  return process.env.BOARD_HISTORY_PATH ?? ''
+}
 
 export function storeBoard(channelId: string, cards: DetectPayload['cards']): void {
-  latest.set(channelId, { cards, at: Date.now() })
+  const at = Date.now()
+  latest.set(channelId, { cards, at })
+  let frames = history.get(channelId)
+  if (!frames) { frames = []; history.set(channelId, frames) }
+  const prev = frames[frames.length - 1]
+  if (prev && JSON.stringify(prev.cards) === JSON.stringify(cards)) return
+  frames.push({ cards, at })
+  if (frames.length > HISTORY_MAX) frames.splice(0, frames.length - HISTORY_MAX)
+  historyDirty = true
+}
+
+// Unlike rotations, history is disposable: a missing or corrupt file means starting
+// empty, never refusing to start. Returns the number of channels restored.
+export function loadBoardHistory(): number {
+  const path = historyPath()
+  if (!path) return 0
+  let data: unknown
+  try {
+    data = JSON.parse(readFileSync(path, 'utf-8'))
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== 'ENOENT') console.error('[ebs] board history unreadable, starting empty:', e)
+    return 0
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return 0
+  history.clear()
+  for (const [id, frames] of Object.entries(data as Record<string, unknown>)) {
+    if (!Array.isArray(frames)) continue
+    const ok = frames.filter((f): f is StoredBoard =>
+      !!f && Array.isArray((f as StoredBoard).cards) && typeof (f as StoredBoard).at === 'number')
+    if (ok.length) history.set(id, ok.slice(-HISTORY_MAX))
+  }
+  evictIdle()
+  return history.size
+}
+
+// atomic temp+rename, same as rotations; a failed write keeps the dirty flag for the next tick
+export function saveBoardHistory(): void {
+  const path = historyPath()
+  if (!path) return
+  try {
+    const tmp = `${path}.tmp`
+    writeFileSync(tmp, JSON.stringify(Object.fromEntries(history)))
+    renameSync(tmp, path)
+    historyDirty = false
+  } catch (e) {
+    console.error('[ebs] board history save failed:', e)
+  }
 }
 
 const enc = new TextEncoder()
@@ -48,6 +122,19 @@ export function handleBoard(req: Request, url: URL): Response {
   return Response.json({ cards: b.cards, ageMs: Date.now() - b.at })
 }
 
+// ?since= is epoch ms (default: everything held). `at` is on the EBS clock and `now`
+// comes along with it, so the caller can take ages without trusting its own clock.
+export function handleBoardHistory(req: Request, url: URL): Response {
+  if (!secretOk(req.headers.get('x-internal-secret'))) return new Response('not found', { status: 404 })
+  const frames = history.get(url.searchParams.get('channel_id') ?? '')
+  if (!frames) return new Response('not found', { status: 404 })
+  const rawSince = url.searchParams.get('since')
+  const since = rawSince === null ? 0 : Number(rawSince)
+  if (!Number.isFinite(since)) return new Response('bad request', { status: 400 })
+  return Response.json({ frames: frames.filter((f) => f.at > since), now: Date.now() })
+}
+
 export function __clearBoardsForTest(): void {
   latest.clear()
+  history.clear()
 }
@@ -0,0 +1,155 @@
+// GET /c/:slug — a public, server-rendered page for one card.
+//
+// Chat lines end in one link. Pointed here (the bot's CARD_PAGE_BASE) instead of at
+// bazaardb, that link carries what a 480-char line can't: every tier's numbers as a
+// coloured ladder, the cooldown ladder and every enchant variant. It renders from the
+// card cache the EBS already holds, so it keeps working while bazaardb is down; only
+// the art goes through the /api/images proxy and may be missing then.
+//
+// Plain HTML, no script: nothing on the page runs, and the CSP says so.
+
+import type { BazaarCard, ReplacementValue, LadderStep } from '@bazaarinfo/shared'
+import { cardSlug, resolveTooltipParts, cooldownLadder, isDisplayTooltip } from '@bazaarinfo/shared'
+import { getCardCache } from './cards'
+
+export const CARD_PAGE_RE = /^\/c\/([a-z0-9-]{1,80})$/
+
+// the overlay's tier hues (extension/src/tiers.ts); here, as there, the hue is the
+// only label a ladder rung gets
+const TIER_COLORS: Record<string, string> = {
+  Bronze: '#d75f00',
+  Silver: '#bcbcbc',
+  Gold: '#ffd700',
+  Diamond: '#87ffff',
+  Legendary: '#af87ff',
+}
+
+const SIZE_LABEL: Record<string, string> = { Small: 'small', Medium: 'medium', Large: 'large' }
+
+// rebuilt when the card cache object is swapped, never per request
+let indexed: object | null = null
+let bySlug = new Map<string, BazaarCard>()
+
+function lookup(slug: string): BazaarCard | null {
+  const cache = getCardCache()
+  if (!cache) return null
+  if (indexed !== cache) {
+    bySlug = new Map()
+    // items win a slug shared with a skill — the same order chat search prefers
+    for (const c of [...cache.items, ...cache.skills]) {
+      const s = cardSlug(c.Title)
+      if (s && !bySlug.has(s)) bySlug.set(s, c)
+    }
+    indexed = cache
+  }
+  return bySlug.get(slug) ?? null
+}
+
+function esc(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function ladder(steps: LadderStep[], suffix = ''): string {
+  const rungs = steps.map((s) =>
+    `<span style="color:${TIER_COLORS[s.tier] ?? '#8a8a8a'}" title="${esc(s.tier.toLowerCase())}">${esc(s.value)}</span>`)
+  return `<span class="ladder">${rungs.join('<span class="sep">/</span>')}${suffix}</span>`
+}
+
+function tooltip(text: string, replacements: Record<string, ReplacementValue>): string {
+  return resolveTooltipParts(text, replacements)
+    .map((p) => (p.t === 'text' ? esc(p.s) : ladder(p.steps)))
+    .join('')
+}
+
+function cooldown(card: BazaarCard): string {
+  if (card.Cooldown == null) return ''
+  const steps = cooldownLadder(card.Cooldown)
+  const value = steps ? ladder(steps, 's') : typeof card.Cooldown === 'number' ? `${esc(String(card.Cooldown))}s` : ''
+  return value ? `<p class="cd">cooldown ${value}</p>` : ''
+}
+
+function enchantments(card: BazaarCard): string {
+  const names = Object.keys(card.Enchantments ?? {}).sort()
+  if (!names.length) return ''
+  const rows = names.map((name) => {
+    const e = card.Enchantments[name]
+    const text = (e.tooltips ?? []).filter(isDisplayTooltip)
+      .map((t) => tooltip(t.text, e.tooltipReplacements ?? {}))
+      .join('<br>')
+    return `<dt>${esc(name)}</dt><dd>${text || '—'}</dd>`
+  })
+  return `<h2>enchantments</h2><dl>${rows.join('')}</dl>`
+}
+
+const STYLE = `
+body{margin:0;background:#0e0e0e;color:#d0d0d0;font:15px/1.5 system-ui,sans-serif}
+main{max-width:36rem;margin:0 auto;padding:1.5rem 1rem}
+header{display:flex;gap:1rem;align-items:center}
+img{width:96px;height:96px;border-radius:6px;background:#1c1c1c;object-fit:cover}
+h1{margin:0;font-size:1.4rem;color:#eee}
+h2{margin:1.5rem 0 .5rem;font-size:.8rem;text-transform:uppercase;letter-spacing:.08em;color:#8a8a8a}
+.meta{color:#8a8a8a;font-size:.85rem}
+.ladder{white-space:nowrap}.sep{color:#4e4e4e;padding:0 .1em}
+ul{padding-left:1.1rem}li{margin:.3rem 0}
+dt{color:#af87ff;margin-top:.6rem}dd{margin:0 0 0 .8rem}
+footer{margin-top:2rem;font-size:.8rem;color:#6c6c6c}a{color:#8a8a8a}
+`
+
+function page(title: string, body: string): string {
+  return `<!doctype html><html lang="en"><head><meta charset="utf-8">`
+    + `<meta name="viewport" content="width=device-width,initial-scale=1">`
+    + `<title>${esc(title)} · BazaarInfo</title><style>${STYLE}</style></head>`
+    + `<body><main>${body}</main></body></html>`
+}
+
+function render(card: BazaarCard): string {
+  const art = card.ArtKey ? `<img src="/api/images/${esc(card.ArtKey)}" alt="">` : ''
+  const tiers = card.Tiers.map((t) => `<span style="color:${TIER_COLORS[t] ?? '#8a8a8a'}">${esc(t.toLowerCase())}</span>`).join(' ')
+  const meta = [
+    SIZE_LABEL[card.Size] ?? '',
+    card.Type === 'Skill' ? 'skill' : '',
+    card.Heroes.filter((h) => h !== 'Common' && h !== '???').join(', '),
+    (card.DisplayTags ?? []).join(', '),
+  ].filter(Boolean).map(esc).join(' · ')
+  const abilities = card.Tooltips.filter(isDisplayTooltip)
+    .map((t) => `<li>${tooltip(t.text, card.TooltipReplacements ?? {})}</li>`)
+    .join('')
+  // bazaardb is where the data comes from; the credit stays on every page
+  const credit = card.Shortlink
+    ? `card data from <a href="${esc(card.Shortlink)}" rel="noopener">bazaardb.gg</a>`
+    : 'card data from bazaardb.gg'
+
+  return page(card.Title, [
+    `<header>${art}<div><h1>${esc(card.Title)}</h1><div class="meta">${meta}</div><div class="meta">${tiers}</div></div></header>`,
+    cooldown(card),
+    abilities ? `<ul>${abilities}</ul>` : '',
+    enchantments(card),
+    `<footer>${credit} · <a href="https://github.com/mellen9999/bazaarinfo" rel="noopener">bazaarinfo</a></footer>`,
+  ].join(''))
+}
+
+const HEADERS = {
+  'Content-Type': 'text/html; charset=utf-8',
+  // no script, no frames, no outside fetches — only our own art proxy
+  'Content-Security-Policy': "default-src 'none'; img-src 'self'; style-src 'unsafe-inline'; base-uri 'none'; form-action 'none'; frame-ancestors 'none'",
+  'X-Content-Type-Options': 'nosniff',
+}
+
+export function handleCardPage(slug: string): Response {
+  if (!getCardCache()) return new Response('service unavailable', { status: 503 })
+  const card = lookup(slug)
+  if (!card) {
+    return new Response(page('Card not found', '<h1>card not found</h1><p class="meta">no item or skill by that name in the current patch</p>'), {
+      status: 404,
+      headers: { ...HEADERS, 'Cache-Control': 'public, max-age=60' },
+    })
+  }
+  return new Response(render(card), {
+    headers: { ...HEADERS, 'Cache-Control': 'public, max-age=300' },
+  })
+}
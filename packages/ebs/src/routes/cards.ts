@@ -6,79 +6,240 @@
 // load, never per request: compressed ahead of time and tagged, so a repeat
 // viewer spends a 304 instead of megabytes and a first-time viewer on mobile data
 // downloads a fraction of the raw JSON.
+//
+// Protocol v2 (`?v=2`) trims it further. `kinds=items,skills&fields=overlay` is
+// just the lists the overlay and panel use, minus what no extension surface reads;
+// with neither it is the whole cache. Those are the only two selectors: each is
+// encoded once per cache load and tagged on its own, and any other combination is
+// a 400 rather than a fresh compression pass over the dump on someone's request.
+// A viewer holding an older variant sends its tag as `since=` and, if this EBS
+// still remembers that dump, gets only what changed:
+//
+//   full  {v: 2, etag, fetchedAt, items?: card[], skills?: card[], ...}
+//   diff  {v: 2, etag, base, fetchedAt, items?: (number | card)[], ...}
+//
+// A diff list is the new list in order; a number is "the card at this index of your
+// copy, unchanged". Titles repeat in the dump, so positions, not names, are the key.
+// `etag` repeats the ETag header in the body: a cross-origin fetch can't read the
+// header without an expose rule, and the extension needs it for its next `since`.
+// The plain request (no `v`) is the whole cache exactly as before.
 
 import { gzipSync, brotliCompressSync, constants as zlibConstants } from 'node:zlib'
-import type { CardCache } from '@bazaarinfo/shared'
+import type { BazaarCard, CardCache } from '@bazaarinfo/shared'
+import { isDisplayTooltip } from '@bazaarinfo/shared'
 
 // Quality 5, not 11. This runs on the bot host at startup and on every patch-day
 // cache swap; 11 spends minutes of CPU on a passively-cooled box to save a few
 // percent that nobody can perceive over a network.
 const BROTLI_QUALITY = 5
 
+export const CARD_KINDS = ['items', 'skills', 'monsters', 'events'] as const
+type CardKind = typeof CARD_KINDS[number]
+type FieldSet = 'full' | 'overlay'
+
+// the variant the overlay and panel ask for: encoded with the cache, not on the
+// first viewer's request
+const EAGER_VARIANT = { kinds: ['items', 'skills'] as CardKind[], fields: 'overlay' as FieldSet }
+// every selector v2 serves — the eager one and the whole cache
+const VARIANTS = [EAGER_VARIANT, { kinds: [...CARD_KINDS], fields: 'full' as FieldSet }]
+// how many earlier dumps a diff can start from — a patch week is a handful
+const MAX_DIFF_BASES = 4
+// variants and diffs memoized per cache load, least recently used out first. room
+// for every selector's full body and a diff from each base, so none is built twice
+const MAX_MEMO = VARIANTS.length * (MAX_DIFF_BASES + 1)
+
 interface Encoded {
   body: Uint8Array<ArrayBuffer>
   encoding: string
 }
 
+interface Prepared {
+  json: string
+  etag: string
+  gzip: Encoded
+  brotli: Encoded
+}
+
 let cache: CardCache | null = null
-let cachedJson: string | null = null
-let cachedEtag: string | null = null
-let cachedGzip: Encoded | null = null
-let cachedBrotli: Encoded | null = null
+let full: Prepared | null = null
+let dumpId = ''
+const memo = new Map<string, Prepared>()
+// dump id → per-kind list of card hashes, for diffing a viewer's copy against now
+const bases = new Map<string, Record<CardKind, string[]>>()
+
+function prepare(json: string, etag: string): Prepared {
+  // copy out of the zlib Buffers: detaches from any pooled slab and gives the
+  // plain-ArrayBuffer view Response wants — runs only on cache swaps, not requests
+  return {
+    json,
+    etag,
+    gzip: { body: new Uint8Array(gzipSync(json)), encoding: 'gzip' },
+    brotli: {
+      body: new Uint8Array(brotliCompressSync(json, {
+        params: { [zlibConstants.BROTLI_PARAM_QUALITY]: BROTLI_QUALITY },
+      })),
+      encoding: 'br',
+    },
+  }
+}
+
+function kindList(data: CardCache, kind: CardKind): unknown[] {
+  return (data[kind] ?? []) as unknown[]
+}
+
+function cardHash(card: unknown): string {
+  return Bun.hash(JSON.stringify(card)).toString(36)
+}
+
+// exactly what the overlay and panel read: internal search tags and bazaardb's own
+// metadata tooltips never reach a viewer
+function project(card: unknown, kind: CardKind, fields: FieldSet): unknown {
+  if (fields === 'full' || (kind !== 'items' && kind !== 'skills')) return card
+  const { HiddenTags: _hidden, ...rest } = card as BazaarCard
+  return { ...rest, Tooltips: (rest.Tooltips ?? []).filter(isDisplayTooltip) }
+}
+
+function variantEtag(kinds: CardKind[], fields: FieldSet): string {
+  return `"${dumpId}-${kinds.join('.')}-${fields}"`
+}
 
 export function setCardCache(data: CardCache) {
   cache = data
-  cachedJson = JSON.stringify(data)
+  const json = JSON.stringify(data)
   // Content-addressed, so an unchanged dump keeps its tag across a restart and
   // viewers keep their cached copy instead of re-downloading on every deploy.
-  cachedEtag = `"${Bun.hash(cachedJson).toString(36)}"`
-  // copy out of the zlib Buffers: detaches from any pooled slab and gives the
-  // plain-ArrayBuffer view Response wants — runs only on cache swaps, not requests
-  cachedGzip = { body: new Uint8Array(gzipSync(cachedJson)), encoding: 'gzip' }
-  cachedBrotli = {
-    body: new Uint8Array(brotliCompressSync(cachedJson, {
-      params: { [zlibConstants.BROTLI_PARAM_QUALITY]: BROTLI_QUALITY },
-    })),
-    encoding: 'br',
-  }
+  dumpId = Bun.hash(json).toString(36)
+  full = prepare(json, `"${dumpId}"`)
+  memo.clear()
+  if (!data) return
+
+  bases.delete(dumpId)
+  bases.set(dumpId, Object.fromEntries(
+    CARD_KINDS.map((k) => [k, kindList(data, k).map(cardHash)]),
+  ) as Record<CardKind, string[]>)
+  while (bases.size > MAX_DIFF_BASES) bases.delete(bases.keys().next().value!)
+
+  variant(EAGER_VARIANT.kinds, EAGER_VARIANT.fields, null)
 }
 
 export function getCardCache(): CardCache | null {
   return cache
 }
 
+function remember(key: string, build: () => Prepared): Prepared {
+  let p = memo.get(key)
+  if (p) {
+    memo.delete(key)
+  } else {
+    p = build()
+    if (memo.size >= MAX_MEMO) memo.delete(memo.keys().next().value!)
+  }
+  memo.set(key, p)
+  return p
+}
+
+// the full v2 body for a selector, or the diff from `since` when that dump is known
+function variant(kinds: CardKind[], fields: FieldSet, since: string | null): Prepared {
+  const data = cache!
+  const etag = variantEtag(kinds, fields)
+  const base = since ? bases.get(since) : undefined
+  const key = `${kinds.join('.')}|${fields}|${base ? since : ''}`
+  return remember(key, () => {
+    const body: Record<string, unknown> = { v: 2, etag }
+    if (base) body.base = `"${since}-${kinds.join('.')}-${fields}"`
+    body.fetchedAt = data.fetchedAt
+    for (const kind of kinds) {
+      const list = kindList(data, kind)
+      if (!base) {
+        body[kind] = list.map((c) => project(c, kind, fields))
+        continue
+      }
+      // first unclaimed index of each hash in the viewer's copy
+      const at = new Map<string, number[]>()
+      base[kind].forEach((h, i) => {
+        const slots = at.get(h)
+        if (slots) slots.push(i)
+        else at.set(h, [i])
+      })
+      const now = bases.get(dumpId)![kind]
+      body[kind] = list.map((c, i) => at.get(now[i])?.shift() ?? project(c, kind, fields))
+    }
+    return prepare(JSON.stringify(body), etag)
+  })
+}
+
+// `kinds=a,b` in canonical order; null on anything unknown, so a typo is a 400 and
+// not a silently different payload
+function parseKinds(raw: string | null): CardKind[] | null {
+  if (raw === null) return [...CARD_KINDS]
+  const want = new Set(raw.split(',').map((s) => s.trim()).filter(Boolean))
+  if (!want.size || [...want].some((k) => !(CARD_KINDS as readonly string[]).includes(k))) return null
+  return CARD_KINDS.filter((k) => want.has(k))
+}
+
+// a `since` tag is only a usable base when it names the same selector
+function sinceDump(raw: string | null, kinds: CardKind[], fields: FieldSet): string | null {
+  if (!raw) return null
+  const m = raw.replace(/^W\//, '').replace(/"/g, '').match(/^([a-z0-9]+)-([a-z.]+)-(full|overlay)$/)
+  if (!m || m[2] !== kinds.join('.') || m[3] !== fields) return null
+  return m[1]
+}
+
 // Only what the client actually said it accepts. An unrecognised or absent
 // Accept-Encoding falls through to the raw JSON — correct beats small.
-function pickEncoding(accept: string | null): Encoded | null {
+function pickEncoding(p: Prepared, accept: string | null): Encoded | null {
   if (!accept) return null
   const a = accept.toLowerCase()
-  if (cachedBrotli && /(^|[\s,])br($|[\s,;])/.test(a)) return cachedBrotli
-  if (cachedGzip && /(^|[\s,])gzip($|[\s,;])/.test(a)) return cachedGzip
+  if (/(^|[\s,])br($|[\s,;])/.test(a)) return p.brotli
+  if (/(^|[\s,])gzip($|[\s,;])/.test(a)) return p.gzip
   return null
 }
 
-export function handleCards(req?: Request): Response {
-  if (!cachedJson || !cachedEtag) {
-    return new Response('service unavailable', { status: 503 })
-  }
-
+function serve(p: Prepared, req?: Request, current = false): Response {
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
     'Cache-Control': 'public, max-age=300',
-    ETag: cachedEtag,
+    ETag: p.etag,
     // The body differs by encoding; without this a shared cache can hand a
     // brotli body to a client that never asked for one.
     Vary: 'Accept-Encoding',
   }
 
   // A viewer who already has this exact dump re-opens the stream for free.
-  if (req?.headers.get('If-None-Match') === cachedEtag) {
+  if (current || req?.headers.get('If-None-Match') === p.etag) {
     return new Response(null, { status: 304, headers })
   }
 
-  const enc = pickEncoding(req?.headers.get('Accept-Encoding') ?? null)
+  const enc = pickEncoding(p, req?.headers.get('Accept-Encoding') ?? null)
   if (enc) {
     return new Response(enc.body, { headers: { ...headers, 'Content-Encoding': enc.encoding } })
   }
-  return new Response(cachedJson, { headers })
+  return new Response(p.json, { headers })
+}
+
+export function handleCards(req?: Request): Response {
+  if (!cache || !full) {
+    return new Response('service unavailable', { status: 503 })
+  }
+
+  const q = req ? new URL(req.url).searchParams : null
+  const v = q?.get('v') ?? null
+  if (v === null || v === '1') {
+    if (q?.has('kinds') || q?.has('fields') || q?.has('since')) {
+      return new Response('kinds, fields and since need v=2', { status: 400 })
+    }
+    return serve(full, req)
+  }
+  if (v !== '2') return new Response('unsupported version', { status: 400 })
+
+  const kinds = parseKinds(q!.get('kinds'))
+  const fieldsRaw = q!.get('fields') ?? 'full'
+  const selector = kinds && VARIANTS.find((s) => s.fields === fieldsRaw && s.kinds.join('.') === kinds.join('.'))
+  if (!selector) return new Response('bad selector', { status: 400 })
+  const { fields } = selector
+
+  const since = sinceDump(q!.get('since'), kinds, fields)
+  // a `since` naming this very dump gets the answer If-None-Match would
+  if (since === dumpId) return serve(variant(kinds, fields, null), req, true)
+  return serve(variant(kinds, fields, since), req)
 }
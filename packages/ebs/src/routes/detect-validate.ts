@@ -1,4 +1,7 @@
 // Pure validators for detect route — no external dependencies so tests can import safely.
+// (metrics is only in-memory counters: no env, no I/O.)
+
+import { detectCardsDropped } from '../metrics'
 
 export interface DetectPayload {
   channelId: string
@@ -72,7 +75,10 @@ export function parsePayload(body: unknown): DetectPayload | null {
       dropped++
     }
   }
-  if (dropped > 0) console.warn(`detect: dropped ${dropped} invalid card(s) from frame for channel ${b.channelId}`)
+  if (dropped > 0) {
+    detectCardsDropped.inc({}, dropped)
+    console.warn(`detect: dropped ${dropped} invalid card(s) from frame for channel ${b.channelId}`)
+  }
 
   return {
     channelId: b.channelId,
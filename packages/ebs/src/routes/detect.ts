@@ -1,10 +1,16 @@
 // POST /detect — receives card detections from companion app, broadcasts via PubSub
+// and pushes them straight to any viewer holding an /api/stream — both after the
+// channel's spoiler delay, when the broadcaster has set one
 
 import { verifyCompanionSecret } from '../auth'
-import { broadcastState } from '../pubsub'
+import { broadcastState, canBroadcast } from '../pubsub'
+import { holdFrame } from '../delay'
+import { getSettings } from '../settings'
 import { parsePayload } from './detect-validate'
 import { rateOk } from '../ratelimit'
 import { storeBoard } from './board'
+import { publishFrame } from './stream'
+import { detectFrames, rateLimited } from '../metrics'
 
 const MAX_BODY = 100_000
 
@@ -16,38 +22,52 @@ const MAX_CHANNEL_RATE = 600
 
 export async function handleDetect(req: Request): Promise<Response> {
   const len = Number(req.headers.get('Content-Length') ?? 0)
-  if (Number.isFinite(len) && len > MAX_BODY) return new Response('bad request', { status: 413 })
+  if (Number.isFinite(len) && len > MAX_BODY) {
+    detectFrames.inc({ outcome: 'too_large' })
+    return new Response('bad request', { status: 413 })
+  }
 
   let body: unknown
   try {
     body = await req.json()
   } catch {
+    detectFrames.inc({ outcome: 'invalid' })
     return new Response('bad request', { status: 400 })
   }
 
   const payload = parsePayload(body)
   if (!payload) {
+    detectFrames.inc({ outcome: 'invalid' })
     return new Response('bad request', { status: 400 })
   }
 
   if (!verifyCompanionSecret(payload.secret, payload.channelId)) {
+    detectFrames.inc({ outcome: 'unauthorized' })
     return new Response('unauthorized', { status: 401 })
   }
 
   if (!rateOk(`det:${payload.channelId}`, MAX_CHANNEL_RATE)) {
+    rateLimited.inc({ bucket: 'detect_channel' })
+    detectFrames.inc({ outcome: 'rate_limited' })
     return new Response('rate limited', { status: 429 })
   }
 
   // retain for the bot's /board reads regardless of PubSub outcome — a Helix outage
   // shouldn't also blind chat answers about the live board
   storeBoard(payload.channelId, payload.cards)
-
-  const accepted = broadcastState(payload.channelId, {
-    cards: payload.cards,
+  // streaming viewers aren't throttled by Helix, so they get the frame as soon as
+  // it's due, and a PubSub refusal doesn't take it back
+  const { channelId } = payload
+  const accepted = canBroadcast(channelId, payload.cards)
+  holdFrame(channelId, payload.cards, getSettings(channelId).spoilerDelaySec * 1000, (cards) => {
+    publishFrame(channelId, cards)
+    if (accepted) broadcastState(channelId, { cards })
   })
   if (!accepted) {
+    detectFrames.inc({ outcome: 'broadcast_refused' })
     return new Response('broadcast failed', { status: 502 })
   }
+  detectFrames.inc({ outcome: 'accepted' })
 
   return new Response('ok', { status: 202 })
 }
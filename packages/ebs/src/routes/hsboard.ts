@@ -11,6 +11,7 @@
 
 import { verifyCompanionSecret } from '../auth'
 import { rateOk } from '../ratelimit'
+import { rateLimited } from '../metrics'
 import type { HsState } from '@bazaarinfo/shared'
 import { parseHsState, CHANNEL_ID_RE, MAX_SECRET_LEN } from './hsboard-validate'
 
@@ -57,7 +58,10 @@ export async function handleHsPost(req: Request): Promise<Response> {
   if (typeof b.secret !== 'string' || !b.secret || b.secret.length > MAX_SECRET_LEN) return new Response('bad request', { status: 400 })
 
   if (!verifyCompanionSecret(b.secret, b.channelId)) return new Response('unauthorized', { status: 401 })
-  if (!rateOk(`hs:${b.channelId}`, MAX_CHANNEL_RATE)) return new Response('rate limited', { status: 429 })
+  if (!rateOk(`hs:${b.channelId}`, MAX_CHANNEL_RATE)) {
+    rateLimited.inc({ bucket: 'hs_channel' })
+    return new Response('rate limited', { status: 429 })
+  }
 
   // hs: null is the leave-the-game signal, and must be accepted as readily as a board
   if (b.hs === null || b.hs === undefined) {
@@ -1,5 +1,17 @@
 // GET /api/images/:hash — proxies bazaardb.gg CDN images
 // so the extension only needs to allowlist the EBS domain
+//
+// Every tooltip on every channel fetches art, and without a cache each of those is a
+// CDN round trip that a bazaardb outage turns into a broken image. With IMAGE_CACHE_DIR
+// set, fetched art is kept on disk, bounded in size with least-recently-used eviction,
+// and warmed for every card whenever the card cache reloads — so a patch day's first
+// viewers hit local files, and art keeps loading while the CDN is down.
+
+import { mkdirSync, readdirSync, statSync, rmSync, renameSync, unlinkSync, writeFileSync } from 'fs'
+import { utimes } from 'fs/promises'
+import { join } from 'path'
+import type { CardCache } from '@bazaarinfo/shared'
+import { imageCacheEvictions, imageCacheRequests } from '../metrics'
 
 // The z-segment tracks the game version. It is a rendition selector, not part of
 // the identity — a given hash resolves under old versions too — but it should still
@@ -10,11 +22,144 @@ const CDN_BASE = `https://s.bazaardb.gg/v1/${CDN_VERSION}`
 const HASH_RE = /^[a-f0-9]{20,64}$/
 const MAX_IMAGE_SIZE = 2 * 1024 * 1024 // 2MB
 
-export async function handleImage(hash: string): Promise<Response> {
-  if (!HASH_RE.test(hash)) {
-    return new Response('invalid hash', { status: 400 })
+// the cache keeps one directory per CDN version, `cdn-<version>`. Only directories
+// with that prefix are ever swept, so pointing IMAGE_CACHE_DIR at a shared folder
+// (say, next to items.json) can't cost anything but stale art.
+const VERSION_PREFIX = 'cdn-'
+const VERSION_RE = /^[\w.-]+$/
+const CACHED_FILE_RE = /^([a-f0-9]{20,64})\.webp$/
+const DEFAULT_CACHE_MB = 256
+
+// the warm-up is a courtesy fetch, not a crawl: two at a time, and it stops after a
+// run of upstream failures (an outage) or once the cache is nearly full — past that it
+// would only evict what it had just fetched
+const PREFETCH_CONCURRENCY = 2
+const PREFETCH_GIVE_UP = 5
+const PREFETCH_FILL = 0.9
+
+// The URL carries no version, so "immutable" holds only for the max-age. A day of a
+// stale rendition after a version bump is fine; after it, the browser revalidates and
+// the ETag (version + hash) no longer matches.
+const CACHE_CONTROL = 'public, max-age=86400, immutable'
+
+type Fetched =
+  | { ok: true; body: Uint8Array<ArrayBuffer>; type: string }
+  | { ok: false; status: number; message: string }
+
+// hash → bytes on disk. Insertion order is recency: a hit re-inserts, eviction takes
+// from the front.
+const disk = new Map<string, number>()
+let diskBytes = 0
+// the current version's directory, '' while the disk cache is off
+let dir = ''
+// one upstream fetch per hash, however many viewers (and the warm-up) ask at once
+const inflight = new Map<string, Promise<Fetched>>()
+const stats = { hits: 0, misses: 0, evictions: 0, prefetched: 0 }
+let prefetchGen = 0
+
+function maxBytes(): number {
+  const mb = parseFloat(process.env.IMAGE_CACHE_MAX_MB ?? '')
+  return (Number.isFinite(mb) && mb > 0 ? mb : DEFAULT_CACHE_MB) * 1024 * 1024
+}
+
+function fileFor(hash: string): string {
+  return join(dir, `${hash}.webp`)
+}
+
+function evict(): void {
+  for (const [hash, size] of disk) {
+    if (diskBytes <= maxBytes()) break
+    try { unlinkSync(fileFor(hash)) } catch {}
+    disk.delete(hash)
+    diskBytes -= size
+    stats.evictions++
+    imageCacheEvictions.inc()
+  }
+}
+
+/**
+ * Index the on-disk cache (IMAGE_CACHE_DIR; off when unset). Directories left by
+ * another BAZAARDB_CDN_VERSION are deleted — a version bump invalidates every old
+ * rendition at once instead of serving them. Fail-soft: any fs error means serving
+ * uncached, never refusing to start. Returns the number of images indexed.
+ */
+export function loadImageCache(): number {
+  disk.clear()
+  diskBytes = 0
+  dir = ''
+  const root = process.env.IMAGE_CACHE_DIR ?? ''
+  if (!root) return 0
+  if (!VERSION_RE.test(CDN_VERSION)) {
+    console.error(`[ebs] BAZAARDB_CDN_VERSION "${CDN_VERSION}" is not a safe directory name — image cache off`)
+    return 0
   }
+  try {
+    const current = `${VERSION_PREFIX}${CDN_VERSION}`
+    mkdirSync(join(root, current), { recursive: true })
+    for (const name of readdirSync(root)) {
+      if (name.startsWith(VERSION_PREFIX) && name !== current) rmSync(join(root, name), { recursive: true, force: true })
+    }
+    const vdir = join(root, current)
+    const found: { hash: string; size: number; at: number }[] = []
+    for (const name of readdirSync(vdir)) {
+      const m = name.match(CACHED_FILE_RE)
+      // anything else is a temp file a crash left mid-write
+      if (!m) { try { unlinkSync(join(vdir, name)) } catch {} continue }
+      const st = statSync(join(vdir, name))
+      found.push({ hash: m[1], size: st.size, at: st.mtimeMs })
+    }
+    // hits touch the mtime, so this restores the recency order across a restart
+    found.sort((a, b) => a.at - b.at)
+    for (const f of found) {
+      disk.set(f.hash, f.size)
+      diskBytes += f.size
+    }
+    dir = vdir
+    evict()
+  } catch (e) {
+    console.error('[ebs] image cache unavailable, proxying uncached:', e)
+    disk.clear()
+    diskBytes = 0
+    dir = ''
+  }
+  return disk.size
+}
+
+async function readCached(hash: string): Promise<Uint8Array<ArrayBuffer> | null> {
+  if (!dir || !disk.has(hash)) return null
+  const path = fileFor(hash)
+  try {
+    const body = new Uint8Array(await Bun.file(path).arrayBuffer())
+    const size = disk.get(hash)
+    if (size !== undefined) { disk.delete(hash); disk.set(hash, size) }
+    const now = new Date()
+    utimes(path, now, now).catch(() => {})
+    return body
+  } catch {
+    // deleted from under us — forget it and refetch
+    const size = disk.get(hash)
+    if (size !== undefined) { disk.delete(hash); diskBytes -= size }
+    return null
+  }
+}
+
+// atomic temp+rename, so a reader (or a crash) never sees half an image
+function store(hash: string, body: Uint8Array): void {
+  if (!dir || disk.has(hash)) return
+  try {
+    const path = fileFor(hash)
+    const tmp = `${path}.tmp`
+    writeFileSync(tmp, body)
+    renameSync(tmp, path)
+    disk.set(hash, body.byteLength)
+    diskBytes += body.byteLength
+    evict()
+  } catch (e) {
+    console.error('[ebs] image cache write failed:', e)
+  }
+}
 
+async function fetchUpstream(hash: string): Promise<Fetched> {
   // DNS failure / timeout must be a clean 502, not a throw into the generic
   // 500 handler — an upstream outage is not an internal error
   const url = `${CDN_BASE}/${hash}@256.webp`
@@ -24,26 +169,19 @@ export async function handleImage(hash: string): Promise<Response> {
       signal: AbortSignal.timeout(10_000),
     })
   } catch {
-    return new Response('upstream unavailable', { status: 502 })
+    return { ok: false, status: 502, message: 'upstream unavailable' }
   }
 
   if (!upstream.ok) {
-    return new Response('not found', { status: upstream.status })
+    return { ok: false, status: upstream.status, message: 'not found' }
   }
   if (!upstream.body) {
-    return new Response('upstream unavailable', { status: 502 })
+    return { ok: false, status: 502, message: 'upstream unavailable' }
   }
 
   const contentLength = parseInt(upstream.headers.get('Content-Length') ?? '0')
   if (contentLength > MAX_IMAGE_SIZE) {
-    return new Response('too large', { status: 413 })
-  }
-
-  const contentType = upstream.headers.get('Content-Type') ?? 'image/webp'
-  const responseHeaders = {
-    'Content-Type': contentType,
-    'Cache-Control': 'public, max-age=86400',
-    'X-Content-Type-Options': 'nosniff',
+    return { ok: false, status: 413, message: 'too large' }
   }
 
   // Always stream with a running size check. The declared Content-Length is only a
@@ -60,7 +198,7 @@ export async function handleImage(hash: string): Promise<Response> {
     totalBytes += value.byteLength
     if (totalBytes > MAX_IMAGE_SIZE) {
       await reader.cancel()
-      return new Response('too large', { status: 413 })
+      return { ok: false, status: 413, message: 'too large' }
     }
     chunks.push(value)
   }
@@ -73,5 +211,109 @@ export async function handleImage(hash: string): Promise<Response> {
     offset += chunk.byteLength
   }
 
-  return new Response(body, { headers: responseHeaders })
+  return { ok: true, body, type: upstream.headers.get('Content-Type') ?? 'image/webp' }
+}
+
+function fetchOnce(hash: string): Promise<Fetched> {
+  let p = inflight.get(hash)
+  if (!p) {
+    p = fetchUpstream(hash)
+      .then((got) => {
+        // only art goes to disk — a 200 error page from a misbehaving CDN is served
+        // this once and never pinned
+        if (got.ok && got.type.startsWith('image/')) store(hash, got.body)
+        return got
+      })
+      .finally(() => inflight.delete(hash))
+    inflight.set(hash, p)
+  }
+  return p
+}
+
+function etagFor(hash: string): string {
+  return `"${CDN_VERSION}-${hash}"`
+}
+
+function imageHeaders(hash: string, type = 'image/webp'): Record<string, string> {
+  return {
+    'Content-Type': type,
+    'Cache-Control': CACHE_CONTROL,
+    ETag: etagFor(hash),
+    'X-Content-Type-Options': 'nosniff',
+  }
+}
+
+export async function handleImage(hash: string, req?: Request): Promise<Response> {
+  if (!HASH_RE.test(hash)) {
+    return new Response('invalid hash', { status: 400 })
+  }
+
+  // content-addressed per CDN version: a matching tag is this exact rendition
+  if (req?.headers.get('If-None-Match') === etagFor(hash)) {
+    return new Response(null, { status: 304, headers: imageHeaders(hash) })
+  }
+
+  const cached = await readCached(hash)
+  if (cached) {
+    stats.hits++
+    imageCacheRequests.inc({ result: 'hit' })
+    return new Response(cached, { headers: imageHeaders(hash) })
+  }
+
+  stats.misses++
+  imageCacheRequests.inc({ result: 'miss' })
+  const got = await fetchOnce(hash)
+  if (!got.ok) return new Response(got.message, { status: got.status })
+  return new Response(got.body, { headers: imageHeaders(hash, got.type) })
+}
+
+/**
+ * Warm the disk cache with art for every item and skill in `cache`. Called on each
+ * card-cache load; a newer load supersedes a warm-up still running. Resolves to the
+ * number of images fetched.
+ */
+export async function prefetchArt(cache: CardCache): Promise<number> {
+  if (!dir) return 0
+  const gen = ++prefetchGen
+  const queue = [...new Set(
+    [...cache.items, ...cache.skills]
+      .map((c) => c.ArtKey)
+      .filter((k): k is string => !!k && HASH_RE.test(k) && !disk.has(k)),
+  )]
+  let fetched = 0
+  let failures = 0
+
+  const worker = async () => {
+    while (queue.length && gen === prefetchGen && failures < PREFETCH_GIVE_UP) {
+      if (diskBytes >= maxBytes() * PREFETCH_FILL) return
+      const hash = queue.shift()!
+      if (disk.has(hash)) continue
+      const got = await fetchOnce(hash)
+      if (got.ok) {
+        fetched++
+        stats.prefetched++
+        failures = 0
+      } else if (got.status >= 500) {
+        // a missing image is one card's problem; a 5xx run is the CDN's
+        failures++
+      }
+    }
+  }
+  await Promise.all(Array.from({ length: PREFETCH_CONCURRENCY }, worker))
+  if (failures >= PREFETCH_GIVE_UP) console.error(`[ebs] art prefetch stopped after ${failures} upstream failures`)
+  return fetched
+}
+
+export function imageCacheStats() {
+  const served = stats.hits + stats.misses
+  return {
+    enabled: dir !== '',
+    files: disk.size,
+    bytes: diskBytes,
+    hits: stats.hits,
+    misses: stats.misses,
+    hitRate: served ? Math.round((stats.hits / served) * 1000) / 1000 : null,
+    evictions: stats.evictions,
+    prefetched: stats.prefetched,
+  }
 }
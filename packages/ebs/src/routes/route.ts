@@ -0,0 +1,48 @@
+// GET /api/route?from=&to= — the day planner behind chat's "!b route", as JSON for the
+// panel. same planRoute the bot runs, so both surfaces rank the same fight as the scary
+// one. JWT-gated like /api/cards (it sits under /api/), and computed from the cache the
+// EBS already holds — no second copy of the dump.
+
+import type { CardCache, Monster } from '@bazaarinfo/shared'
+import { planRoute, MAX_ROUTE_SPAN } from '@bazaarinfo/shared'
+import { getCardCache } from './cards'
+
+// day index per loaded cache: rebuilt only when a reload swaps the object
+const dayIndex = new WeakMap<CardCache, Map<number, Monster[]>>()
+
+function byDayFor(cache: CardCache): (day: number) => Monster[] {
+  let index = dayIndex.get(cache)
+  if (!index) {
+    index = new Map()
+    for (const m of cache.monsters) {
+      const d = m.MonsterMetadata.day
+      if (d == null) continue
+      let list = index.get(d)
+      if (!list) { list = []; index.set(d, list) }
+      list.push(m)
+    }
+    dayIndex.set(cache, index)
+  }
+  const built = index
+  return (day) => built.get(day) ?? []
+}
+
+function dayParam(url: URL, name: string): number | null {
+  const raw = url.searchParams.get(name)
+  if (raw == null || !/^\d{1,2}$/.test(raw)) return null
+  return parseInt(raw)
+}
+
+export function handleRoute(url: URL): Response {
+  const cache = getCardCache()
+  if (!cache) return new Response('service unavailable', { status: 503 })
+  const from = dayParam(url, 'from')
+  const to = url.searchParams.has('to') ? dayParam(url, 'to') : from
+  if (from == null || to == null || from < 1 || from > to || to - from + 1 > MAX_ROUTE_SPAN) {
+    return new Response('bad range', { status: 400 })
+  }
+  return Response.json(planRoute(byDayFor(cache), from, to), {
+    // derived from the dump alone, so it changes exactly as often as /api/cards does
+    headers: { 'Cache-Control': 'public, max-age=300' },
+  })
+}
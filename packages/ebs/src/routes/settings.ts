@@ -0,0 +1,44 @@
+// GET/POST /api/settings — the channel's overlay settings (shared/settings.ts).
+//
+// Any viewer's JWT reads them; only the broadcaster's writes. The channel comes from
+// the token, never the request, like every other /api route. A saved change goes
+// straight down the live frame stream so open overlays apply it without a reload;
+// overlays on PubSub pick it up on their next token refresh.
+
+import { settingsPatchError } from '@bazaarinfo/shared'
+import { getSettings, saveSettings } from '../settings'
+import { publishSettings } from './stream'
+
+// a full settings object is a few hundred bytes
+const MAX_BODY = 4_000
+
+export function handleSettingsGet(channelId: string): Response {
+  return Response.json(getSettings(channelId), { headers: { 'Cache-Control': 'no-store' } })
+}
+
+export async function handleSettingsPost(req: Request, channelId: string, role: string): Promise<Response> {
+  if (role !== 'broadcaster') return new Response('broadcaster only', { status: 403 })
+  const len = Number(req.headers.get('Content-Length') ?? 0)
+  if (Number.isFinite(len) && len > MAX_BODY) return new Response('bad request', { status: 413 })
+
+  let body: unknown
+  try {
+    body = await req.json()
+  } catch {
+    return new Response('bad request', { status: 400 })
+  }
+  const error = settingsPatchError(body)
+  if (error) return new Response(error, { status: 400 })
+
+  let settings
+  try {
+    settings = saveSettings(channelId, body as object)
+  } catch (e) {
+    // failed persist is a clean no-op: the old settings stay in force and the
+    // broadcaster is told the save did NOT happen
+    console.error('[ebs] settings save failed to persist:', e)
+    return new Response('save failed', { status: 500 })
+  }
+  publishSettings(channelId, settings)
+  return Response.json(settings)
+}
@@ -0,0 +1,130 @@
+// GET /api/stream — overlay frames over Server-Sent Events, the low-latency path.
+//
+// Helix PubSub is ~1 message/s per channel and backs off further when Twitch throttles,
+// so a busy shop can leave the overlay seconds behind the board. A viewer holding this
+// stream gets each accepted companion frame the moment /detect takes it. PubSub keeps
+// broadcasting every frame regardless and stays the fallback for anyone whose stream
+// drops — the overlay feeds both into one handler, and identical frames are no-ops.
+//
+// JWT-gated like the rest of /api/*; the channel comes from the token, never the query,
+// so a viewer can only follow the channel they're watching.
+
+import type { OverlaySettings } from '@bazaarinfo/shared'
+import type { DetectPayload } from './detect-validate'
+import { PROTOCOL_VERSION } from '../pubsub'
+
+// comment ping under the server's 10s idleTimeout — without it Bun reaps a quiet stream
+// between frames (and cloudflared would eventually do the same)
+const PING_MS = 5_000
+// global ceiling on open streams: each one pins a socket and a ping timer on a low-RAM
+// host. Past it viewers get a 503 and simply stay on PubSub.
+const MAX_STREAMS = 2_000
+// a viewer who can't drain their socket shouldn't make us buffer frames forever —
+// past this many queued chunks they're cut off and reconnect (or fall back)
+const MAX_QUEUED = 32
+// the overlay wipes a board after 75s without a frame; anything older isn't worth
+// opening with, it would only flash up and expire
+const OPENING_FRAME_MAX_AGE_MS = 75_000
+
+interface Subscriber {
+  send: (chunk: string) => void
+}
+
+const subscribers = new Map<string, Set<Subscriber>>()
+let open = 0
+// the last frame published per channel — what a new stream opens with. Not /detect's
+// latest board: under a spoiler delay that one hasn't been shown to anyone yet.
+const published = new Map<string, { cards: DetectPayload['cards']; at: number }>()
+setInterval(() => {
+  const now = Date.now()
+  for (const [id, p] of published) {
+    if (now - p.at >= OPENING_FRAME_MAX_AGE_MS) published.delete(id)
+  }
+}, 10 * 60 * 1000).unref?.()
+
+const enc = new TextEncoder()
+
+function frame(cards: DetectPayload['cards']): string {
+  return `data: ${JSON.stringify({ v: PROTOCOL_VERSION, cards })}\n\n`
+}
+
+/** fan a frame out to every viewer streaming this channel; no-op when nobody is */
+export function publishFrame(channelId: string, cards: DetectPayload['cards']): void {
+  published.set(channelId, { cards, at: Date.now() })
+  const subs = subscribers.get(channelId)
+  if (!subs) return
+  const chunk = frame(cards)
+  for (const s of subs) s.send(chunk)
+}
+
+/** a broadcaster's saved overlay settings, to every open overlay on the channel — applied live, no reload */
+export function publishSettings(channelId: string, settings: OverlaySettings): void {
+  const subs = subscribers.get(channelId)
+  if (!subs) return
+  const chunk = `data: ${JSON.stringify({ v: PROTOCOL_VERSION, settings })}\n\n`
+  for (const s of subs) s.send(chunk)
+}
+
+/** `expiresAt` is the JWT's exp (unix seconds) — the stream closes with the token */
+export function handleStream(req: Request, channelId: string, expiresAt: number): Response {
+  if (open >= MAX_STREAMS) return new Response('stream capacity reached', { status: 503 })
+
+  let drop = () => {}
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+      let subs = subscribers.get(channelId)
+      if (!subs) { subs = new Set(); subscribers.set(channelId, subs) }
+
+      const close = () => {
+        if (closed) return
+        try { controller.close() } catch {}
+        drop()
+      }
+      const sub: Subscriber = {
+        send(chunk) {
+          if (closed) return
+          if ((controller.desiredSize ?? 0) < -MAX_QUEUED) { close(); return }
+          try { controller.enqueue(enc.encode(chunk)) } catch { drop() }
+        },
+      }
+      const ping = setInterval(() => sub.send(': ping\n\n'), PING_MS)
+      // a stream must never outlive the token that opened it; the overlay reconnects
+      // with the refreshed one onAuthorized hands it
+      const expiry = setTimeout(close, Math.max(0, expiresAt * 1000 - Date.now()))
+
+      drop = () => {
+        if (closed) return
+        closed = true
+        clearInterval(ping)
+        clearTimeout(expiry)
+        subs.delete(sub)
+        if (subs.size === 0 && subscribers.get(channelId) === subs) subscribers.delete(channelId)
+        open--
+      }
+
+      subs.add(sub)
+      open++
+      req.signal.addEventListener('abort', () => drop())
+
+      const last = published.get(channelId)
+      if (last && Date.now() - last.at < OPENING_FRAME_MAX_AGE_MS) sub.send(frame(last.cards))
+    },
+    cancel() {
+      drop()
+    },
+  })
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      // keep any buffering proxy from holding frames back
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
+
+export function streamStats(): { channels: number; viewers: number } {
+  return { channels: subscribers.size, viewers: open }
+}
@@ -0,0 +1,62 @@
+// Per-channel overlay settings (shared/settings.ts), chosen by the broadcaster in the
+// extension config view and read by every viewer's overlay.
+// Sparse map channelId -> settings. An absent channel has the defaults, so a missing
+// file is valid fresh state. Unlike rotations nothing here is security state: a
+// corrupt file is logged and the channels in it fall back to defaults rather than
+// keeping the EBS down.
+
+import { readFileSync, writeFileSync, renameSync } from 'fs'
+import { join } from 'path'
+import { homedir } from 'os'
+import { DEFAULT_OVERLAY_SETTINGS, parseOverlaySettings } from '@bazaarinfo/shared'
+import type { OverlaySettings } from '@bazaarinfo/shared'
+
+function settingsPath(): string {
+  return process.env.SETTINGS_PATH ?? join(homedir(), '.bazaarinfo-settings.json')
+}
+
+let stored: Record<string, OverlaySettings> | null = null
+
+// Returns the number of channels with settings. Each entry goes through the same
+// lenient parse the overlay uses, so a field an older build wrote wrong is dropped,
+// not fatal.
+export function loadSettings(): number {
+  let data: unknown
+  try {
+    data = JSON.parse(readFileSync(settingsPath(), 'utf-8'))
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== 'ENOENT') console.error('[ebs] settings file unreadable, using defaults:', e)
+    stored = {}
+    return 0
+  }
+  stored = {}
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    for (const [channel, s] of Object.entries(data)) stored[channel] = parseOverlaySettings(s)
+  }
+  return Object.keys(stored).length
+}
+
+function ensureLoaded(): Record<string, OverlaySettings> {
+  if (!stored) loadSettings()
+  return stored!
+}
+
+export function getSettings(channelId: string): OverlaySettings {
+  return ensureLoaded()[channelId] ?? DEFAULT_OVERLAY_SETTINGS
+}
+
+// Persist-then-commit, same as rotations: the merged settings hit disk (atomic
+// temp+rename) before memory, and a failed write throws with both unchanged — the
+// broadcaster is told the save didn't happen instead of losing it on restart.
+// `patch` must already have passed settingsPatchError.
+export function saveSettings(channelId: string, patch: Partial<OverlaySettings>): OverlaySettings {
+  const current = ensureLoaded()
+  const merged = parseOverlaySettings(patch, getSettings(channelId))
+  const next = { ...current, [channelId]: merged }
+  const path = settingsPath()
+  const tmp = `${path}.tmp`
+  writeFileSync(tmp, JSON.stringify(next))
+  renameSync(tmp, path)
+  stored = next
+  return merged
+}
@@ -7,6 +7,12 @@
 // /api/cards, and broadcasts a full sample board (player + opponent + skills) on a
 // heartbeat so the overlay renders exactly as a viewer sees it. Uses live card data
 // from cache/items.json when available, else a small embedded fallback.
+//
+// ?stream=1 also drives the overlay's low-latency path: the page posts a frame every
+// 500ms (an enchantment walking along the board) to a local stand-in for the EBS's
+// /api/stream, which relays it over real SSE — PubSub's heartbeat keeps firing and
+// should be ignored while the stream is up. Without it /api/stream answers 503 and the
+// overlay falls back to PubSub, exactly as it would against a saturated EBS.
 import { join } from 'path'
 
 const DIST = join(import.meta.dir, '..', 'dist')
@@ -50,7 +56,7 @@ const BOARD = loadBoard()
 
 // ── the harness page: mock Twitch + stub fetch + broadcast a board on a heartbeat ──
 // Pass ?crop=x,y,scale to preload a game-area crop and eyeball the aligned board.
-function page(crop: string | null): string {
+function page(crop: string | null, stream: boolean): string {
   return `<!doctype html><html><head><meta charset="utf-8">
 <meta name="viewport" content="width=device-width, initial-scale=1">
 <title>overlay harness</title>
@@ -61,11 +67,12 @@ function page(crop: string | null): string {
   .hint{position:fixed;top:6px;left:8px;color:#3a4654;font:11px monospace;z-index:0}
   .crop-frame{position:fixed;border:1px dashed #3a5a7a;pointer-events:none;z-index:0}
 </style></head><body>
-<div class="hint">overlay harness — hover a slot${crop ? ` · crop=${crop}` : ''}</div>
+<div class="hint">overlay harness — hover a slot${crop ? ` · crop=${crop}` : ''}${stream ? ' · stream' : ''}</div>
 <div id="root"></div>
 <script>
   const CARDS = ${JSON.stringify(BOARD)};
   const CROP = ${JSON.stringify(crop)};
+  const STREAM = ${stream};
   // draw the crop rectangle so we can see the board land inside it
   if (CROP) { const [x,y,s]=CROP.split(',').map(Number);
     const f=document.createElement('div'); f.className='crop-frame';
@@ -82,12 +89,15 @@ function page(crop: string | null): string {
   const _f = window.fetch.bind(window);
   window.fetch = (u,o) => String(u).includes('/api/cards')
     ? Promise.resolve(new Response(JSON.stringify(CARDS), {headers:{'content-type':'application/json'}}))
+    : String(u).includes('/api/stream')
+    ? (STREAM ? _f('/api/stream', o) : Promise.resolve(new Response('stream off', {status:503})))
     : _f(u,o);
+  let tick = 0;
   function board(){
     const it=CARDS.items, sk=CARDS.skills||[], D=[];
     const w=s=>s==='Small'?0.058:s==='Large'?0.14:0.092;
     let x=0.075; it.forEach((c,i)=>{const cw=w(c.Size);
-      D.push({title:c.Title,tier:(c.Tiers||['Gold']).slice(-1)[0],x,y:0.60,w:cw,h:0.23,tierKnown:false,owner:'player',type:c.Type,enchantment:i===1?'Fiery':i===4?'Golden':undefined}); x+=cw+0.012;});
+      D.push({title:c.Title,tier:(c.Tiers||['Gold']).slice(-1)[0],x,y:0.60,w:cw,h:0.23,tierKnown:false,owner:'player',type:c.Type,enchantment:STREAM?(i===tick%it.length?'Fiery':undefined):i===1?'Fiery':i===4?'Golden':undefined}); x+=cw+0.012;});
     let ox=0.10; it.slice(0,4).forEach(c=>{const cw=w(c.Size);
       D.push({title:c.Title,tier:(c.Tiers||['Gold']).slice(-1)[0],x:ox,y:0.135,w:cw,h:0.20,tierKnown:false,owner:'opponent',type:c.Type}); ox+=cw+0.012;});
     let sx=0.06; sk.forEach(c=>{D.push({title:c.Title,tier:(c.Tiers||['Gold']).slice(-1)[0],x:sx,y:0.865,w:0.033,h:0.058,owner:'player',type:'Skill'}); sx+=0.043;});
@@ -97,6 +107,8 @@ function page(crop: string | null): string {
   // heartbeat < the overlay's 75s stale-TTL so the board never self-wipes while you look
   const hb = setInterval(fire, 10000);
   const t = setInterval(()=>{ if(window.__bcast){ fire(); clearInterval(t);} }, 300);
+  // stand-in companion: post to the local relay, which pushes it down /api/stream
+  if (STREAM) setInterval(()=>{ tick++; _f('/harness/frame',{method:'POST',body:JSON.stringify({v:1,cards:board()})}); }, 500);
 </script>
 <script src="/video_overlay.js"></script>
 </body></html>`
@@ -124,6 +136,25 @@ async function configPage(): Promise<string> {
   return html
 }
 
+// open /api/stream responses; /harness/frame fans each posted frame out to all of them
+const streams = new Set<ReadableStreamDefaultController<Uint8Array>>()
+const enc = new TextEncoder()
+
+function streamResponse(): Response {
+  let me: ReadableStreamDefaultController<Uint8Array>
+  let ping: ReturnType<typeof setInterval>
+  const body = new ReadableStream<Uint8Array>({
+    start(c) {
+      me = c
+      streams.add(c)
+      // under Bun's 10s idle timeout, same as the real EBS
+      ping = setInterval(() => { try { c.enqueue(enc.encode(': ping\n\n')) } catch { clearInterval(ping) } }, 5_000)
+    },
+    cancel() { streams.delete(me); clearInterval(ping) },
+  })
+  return new Response(body, { headers: { 'content-type': 'text/event-stream', 'cache-control': 'no-cache' } })
+}
+
 Bun.serve({
   port: PORT,
   hostname: '127.0.0.1',
@@ -131,7 +162,15 @@ Bun.serve({
     const url = new URL(req.url)
     const path = url.pathname
     if (path === '/' || path === '/index.html') {
-      return new Response(page(url.searchParams.get('crop')), { headers: { 'content-type': 'text/html' } })
+      return new Response(page(url.searchParams.get('crop'), url.searchParams.get('stream') === '1'), { headers: { 'content-type': 'text/html' } })
+    }
+    if (path === '/api/stream') return streamResponse()
+    if (req.method === 'POST' && path === '/harness/frame') {
+      const chunk = enc.encode(`data: ${await req.text()}\n\n`)
+      for (const c of streams) {
+        try { c.enqueue(chunk) } catch { streams.delete(c) }
+      }
+      return new Response(null, { status: 204 })
     }
     if (path === '/config' || path === '/config.html') {
       return new Response(await configPage(), { headers: { 'content-type': 'text/html' } })
@@ -144,5 +183,6 @@ Bun.serve({
 
 console.log(`[harness] overlay running → http://127.0.0.1:${PORT}`)
 console.log(`[harness]   overlay (cropped): http://127.0.0.1:${PORT}/?crop=0.15,0.1,0.7`)
+console.log(`[harness]   overlay (stream):  http://127.0.0.1:${PORT}/?stream=1`)
 console.log(`[harness]   calibrator:        http://127.0.0.1:${PORT}/config`)
 console.log('[harness] hover any slot to see the tooltip. ctrl-c to stop.')
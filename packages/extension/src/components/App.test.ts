@@ -1,8 +1,10 @@
 import { describe, expect, it, afterEach } from 'bun:test'
-import { makeSlotValidator, slotsEqual, computeOverlayRect, parseAspect } from './App'
+import { slotsEqual, computeOverlayRect, parseAspect, offeredSlots, delayGraceMs } from './App'
+import { makeSlotValidator } from '../tiers'
+import { DEFAULT_OVERLAY_SETTINGS } from '@bazaarinfo/shared/src/settings'
 
-// These four are the validators standing directly on the PubSub broadcast input
-// path (see the compatibility-contract comment on onBroadcast in App.tsx) — a
+// These four are the validators standing directly on the PubSub/stream frame input
+// path (see the compatibility-contract comment on applyFrame in App.tsx) — a
 // hostile or malformed frame reaching them must fail closed, never throw or
 // silently coerce.
 
@@ -181,3 +183,31 @@ describe('parseAspect', () => {
     expect(parseAspect('-1920x1080')).toBeNull()
   })
 })
+
+describe('offeredSlots', () => {
+  const board = [
+    { ...baseSlot(), type: 'Item', owner: 'player' },
+    { ...baseSlot(), type: 'Skill', owner: 'player' },
+    { ...baseSlot(), type: 'Item', owner: 'opponent' },
+  ]
+
+  it('offers every slot under the defaults, untouched', () => {
+    expect(offeredSlots(board, DEFAULT_OVERLAY_SETTINGS)).toBe(board)
+  })
+
+  it('drops hidden types and, with opponent hover off, the opponent board', () => {
+    expect(offeredSlots(board, { ...DEFAULT_OVERLAY_SETTINGS, hiddenTypes: ['Skill'] })).toEqual([board[0], board[2]])
+    expect(offeredSlots(board, { ...DEFAULT_OVERLAY_SETTINGS, opponentHover: false })).toEqual([board[0], board[1]])
+  })
+})
+
+describe('delayGraceMs', () => {
+  const at = (spoilerDelaySec: number) => ({ ...DEFAULT_OVERLAY_SETTINGS, spoilerDelaySec })
+
+  it('stretches the stale window by a delay increase, never by a decrease', () => {
+    expect(delayGraceMs(at(0), at(90))).toBe(90_000)
+    expect(delayGraceMs(at(30), at(45))).toBe(15_000)
+    expect(delayGraceMs(at(90), at(0))).toBe(0)
+    expect(delayGraceMs(at(20), { ...at(20), opponentHover: false })).toBe(0)
+  })
+})
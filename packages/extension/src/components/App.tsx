@@ -5,12 +5,14 @@ import type { DetectedSlot } from './HoverZone'
 import { CardTooltip } from './CardTooltip'
 import type { MissingReason } from './CardTooltip'
 import { TooltipBoundary } from './TooltipBoundary'
-import { fetchCards, CARD_FETCH_BACKOFF } from '../twitch'
-import { deriveValidTiers, isPlausibleTierString } from '../tiers'
+import { fetchCards, fetchSettings, CARD_FETCH_BACKOFF, streamFrames, STREAM_RETRY_MS, createBoardFeed } from '../twitch'
+import { deriveValidTiers, makeSlotValidator } from '../tiers'
 import { parseCrop, applyCrop, IDENTITY_CROP } from '../viewport'
 import type { Crop } from '../viewport'
 import { tessellate, separateRows, padVertical } from '../tessellate'
 import { uiScale, fitScale } from '../scale'
+import { DEFAULT_OVERLAY_SETTINGS } from '@bazaarinfo/shared/src/settings'
+import type { OverlaySettings } from '@bazaarinfo/shared/src/settings'
 
 const VIEWPORT_MARGIN = 4
 const MAX_SLOTS = 50
@@ -24,6 +26,14 @@ const TOOLTIP_BORDER = 2
 // viewers hovering phantom cards over a board that has since changed.
 const STALE_TTL_MS = 75_000
 
+// Raising the spoiler delay opens a gap in the frames: the EBS (ebs/src/delay.ts)
+// holds everything from the change on by the longer delay, while what it already
+// held goes out on the old schedule. Nothing arrives for the difference, so the
+// current board gets that much longer before it counts as stale.
+export function delayGraceMs(prev: OverlaySettings, next: OverlaySettings): number {
+  return Math.max(0, next.spoilerDelaySec - prev.spoilerDelaySec) * 1000
+}
+
 const DEFAULT_ASPECT = 16 / 9 // Twitch/The Bazaar broadcast; onContext refines it
 
 interface Rect { left: number; top: number; width: number; height: number }
@@ -57,30 +67,6 @@ export function parseAspect(res: string | undefined): number | null {
   return w > 0 && h > 0 ? w / h : null
 }
 
-export function makeSlotValidator(validTiers: Set<string>) {
-  return function isValidSlot(s: unknown): s is DetectedSlot {
-    if (!s || typeof s !== 'object') return false
-    const o = s as Record<string, unknown>
-    if (typeof o.title !== 'string' || o.title.length === 0 || o.title.length > 80) return false
-    if (!isPlausibleTierString(o.tier, validTiers)) return false
-    if (typeof o.x !== 'number' || typeof o.y !== 'number') return false
-    if (typeof o.w !== 'number' || typeof o.h !== 'number') return false
-    if (!Number.isFinite(o.x) || !Number.isFinite(o.y) || !Number.isFinite(o.w) || !Number.isFinite(o.h)) return false
-    if (o.x < 0 || o.x > 1 || o.y < 0 || o.y > 1) return false
-    if (o.w <= 0 || o.w > 1 || o.h <= 0 || o.h > 1) return false
-    // reject a zone big enough to blanket the video and swallow all clicks — no real
-    // card covers a fifth of the frame; a buggy/hostile whole-board bbox would.
-    if (o.w * o.h > 0.2) return false
-    // optional fields: if present they must be well-formed strings (a non-string
-    // slips through the `typeof === 'string'` guards below and violates the contract)
-    if (o.owner !== undefined && (typeof o.owner !== 'string' || o.owner.length > 50)) return false
-    if (o.type !== undefined && (typeof o.type !== 'string' || o.type.length > 50)) return false
-    if (o.enchantment !== undefined && (typeof o.enchantment !== 'string' || o.enchantment.length > 50)) return false
-    if (o.tierKnown !== undefined && typeof o.tierKnown !== 'boolean') return false
-    return true
-  }
-}
-
 // Identity of a detected slot across frames. Includes w/h and type so a resized or
 // retyped slot is a distinct identity (used for the render key AND for tracking the
 // hovered slot as the board updates). NUL-separated so values can't run together.
@@ -96,12 +82,24 @@ export function slotsEqual(a: DetectedSlot[], b: DetectedSlot[]): boolean {
   return true
 }
 
+// The slots the broadcaster's settings offer for hover: a hidden type, or the
+// opponent's board with opponent hover off, gets no zone at all.
+export function offeredSlots<T extends { type?: string; owner?: string }>(slots: T[], s: OverlaySettings): T[] {
+  if (!s.hiddenTypes.length && s.opponentHover) return slots
+  return slots.filter((slot) =>
+    !(slot.type && s.hiddenTypes.includes(slot.type)) && (s.opponentHover || slot.owner !== 'opponent'))
+}
+
 export function App() {
   const [cards, setCards] = useState<Map<string, BazaarCard>>(new Map())
   const [detected, setDetected] = useState<DetectedSlot[]>([])
   // Broadcaster's game-area crop (identity = fullscreen; the default). Applied to
   // every slot before it is painted so windowed/letterboxed captures line up.
   const [crop, setCrop] = useState<Crop>(IDENTITY_CROP)
+  // The broadcaster's overlay settings from the EBS; defaults until they load, and
+  // the overlay behaves exactly as it always has under the defaults.
+  const [settings, setSettings] = useState<OverlaySettings>(DEFAULT_OVERLAY_SETTINGS)
+  const settingsRef = useRef(settings)
   // Video rect within the iframe (see computeOverlayRect). Sizes the overlay so
   // % -positioned zones track the video through letterbox/pillarbox; no-op at 16:9.
   const [overlayRect, setOverlayRect] = useState<Rect>(() => computeOverlayRect(DEFAULT_ASPECT))
@@ -120,9 +118,16 @@ export function App() {
   // Real wall-clock time of the last accepted frame, so visibility-on can re-judge
   // staleness against how much time actually passed — not just re-arm a fresh window.
   const lastFrameAtRef = useRef(0)
+  // extra stale window owed to a spoiler-delay increase (delayGraceMs), until the next frame
+  const staleGraceRef = useRef(0)
 
   useEffect(() => {
     let mounted = true
+    // the EBS frame stream (startStream below): whether it's connected, and its abort
+    let streamLive = false
+    let streamAbort: AbortController | null = null
+    // latest JWT, for the keyframe fetch on a PubSub sequence gap
+    let authToken = ''
     const twitch = window.Twitch?.ext
     // An overlay sits on top of gameplay, so it stays visually silent even when
     // broken — no banner belongs on someone's stream — but a console line means
@@ -146,7 +151,24 @@ export function App() {
     })
     refit()
 
+    const applySettings = (next: OverlaySettings) => {
+      if (!mounted) return
+      const grace = delayGraceMs(settingsRef.current, next)
+      settingsRef.current = next
+      setSettings(next)
+      if (grace && lastFrameAtRef.current) {
+        staleGraceRef.current += grace
+        if (staleTimerRef.current) armStaleTimer(staleTtl() - (Date.now() - lastFrameAtRef.current))
+      }
+    }
+
     twitch.onAuthorized(async (auth) => {
+      // every (re)authorization restarts the stream on the fresh token and re-reads
+      // the settings (how a PubSub-only viewer catches a change); the card fetch
+      // below only ever runs once
+      authToken = auth.token
+      startStream(auth.token)
+      fetchSettings(auth.token).then(applySettings).catch(() => {})
       if (cardsLoaded.current) return
       for (let i = 0; i < CARD_FETCH_BACKOFF.length; i++) {
         if (CARD_FETCH_BACKOFF[i] > 0) {
@@ -176,7 +198,8 @@ export function App() {
     // frames) proves the sender is alive, so arm a fresh expiry each time. If
     // the timer ever fires, the companion has gone silent past the heartbeat —
     // wipe the board so viewers never hover a stale detection.
-    const armStaleTimer = (delay = STALE_TTL_MS) => {
+    const staleTtl = () => STALE_TTL_MS + staleGraceRef.current
+    const armStaleTimer = (delay = staleTtl()) => {
       if (staleTimerRef.current) clearTimeout(staleTimerRef.current)
       staleTimerRef.current = setTimeout(() => {
         setDetected([])
@@ -184,28 +207,51 @@ export function App() {
       }, delay)
     }
 
+    // Forward-compatible on purpose: render whatever cards we can validate,
+    // regardless of the protocol version field. The per-slot validator below IS
+    // the compatibility contract — a future additive field is ignored, and an
+    // incompatible one (e.g. out-of-range coords) is filtered out, failing safe
+    // to an empty overlay rather than a wrong one. This is what lets the backend
+    // evolve the protocol forever without ever forcing an extension re-review;
+    // never reintroduce a version gate that hard-drops whole messages.
+    const render = (raw: unknown[]) => {
+      const next = raw.slice(0, MAX_SLOTS).filter(validatorRef.current)
+      setDetected(prev => slotsEqual(prev, next) ? prev : next)
+      lastFrameAtRef.current = Date.now()
+      staleGraceRef.current = 0
+      armStaleTimer()
+    }
+
+    // a stream that came up while a keyframe was being fetched is already ahead of it
+    const applyFrame = createBoardFeed(() => authToken, render, () => mounted && !streamLive, applySettings)
+
+    // PubSub is the fallback path. While the EBS stream is up it has already delivered
+    // every frame PubSub is about to, so PubSub's copy — up to seconds late behind
+    // Helix's rate limit — could only rewind the board to an older state.
     const onBroadcast = (_target: string, _contentType: string, message: string) => {
-      if (!message.includes('"cards"')) return
-      try {
-        const data = JSON.parse(message)
-        // Forward-compatible on purpose: render whatever `cards` we can validate,
-        // regardless of the protocol version field. The per-slot validator below IS
-        // the compatibility contract — a future additive field is ignored, and an
-        // incompatible one (e.g. out-of-range coords) is filtered out, failing safe
-        // to an empty overlay rather than a wrong one. This is what lets the backend
-        // evolve the protocol forever without ever forcing an extension re-review;
-        // never reintroduce a version gate that hard-drops whole messages.
-        const raw = data?.cards
-        if (Array.isArray(raw)) {
-          const next = raw.slice(0, MAX_SLOTS).filter(validatorRef.current)
-          setDetected(prev => slotsEqual(prev, next) ? prev : next)
-          lastFrameAtRef.current = Date.now()
-          armStaleTimer()
-        }
-      } catch {}
+      if (!streamLive) applyFrame(message)
     }
     twitch.listen('broadcast', onBroadcast)
 
+    // Sub-second frames straight from the EBS. Any failure (refused, dropped, token
+    // expired) just hands the board back to PubSub until a reconnect lands.
+    function startStream(token: string) {
+      streamAbort?.abort()
+      const ac = new AbortController()
+      streamAbort = ac
+      void (async () => {
+        let failures = 0
+        while (mounted && !ac.signal.aborted) {
+          try {
+            await streamFrames(token, ac.signal, () => { streamLive = true; failures = 0 }, applyFrame)
+          } catch {}
+          if (streamAbort === ac) streamLive = false
+          if (!mounted || ac.signal.aborted) return
+          await new Promise((r) => setTimeout(r, STREAM_RETRY_MS[Math.min(failures++, STREAM_RETRY_MS.length - 1)]))
+        }
+      })()
+    }
+
     twitch.onVisibilityChanged?.((isVisible) => {
       if (!isVisible) {
         // Stop counting down while hidden — a viewer toggling the overlay off
@@ -219,23 +265,29 @@ export function App() {
       // companion that had already gone quiet before we hid must still hide the
       // board on return, not linger up to another full TTL past reappearing.
       const age = Date.now() - lastFrameAtRef.current
-      if (lastFrameAtRef.current === 0 || age >= STALE_TTL_MS) {
+      if (lastFrameAtRef.current === 0 || age >= staleTtl()) {
         setDetected([])
       } else {
-        armStaleTimer(STALE_TTL_MS - age)
+        armStaleTimer(staleTtl() - age)
       }
     })
 
     return () => {
       mounted = false
+      streamAbort?.abort()
       twitch.unlisten('broadcast', onBroadcast)
       if (staleTimerRef.current) clearTimeout(staleTimerRef.current)
     }
   }, [])
 
-  // One number for how big the overlay's UI should be, from how big the video is.
-  const uiBase = useMemo(() => uiScale(overlayRect.height), [overlayRect.height])
+  // One number for how big the overlay's UI should be, from how big the video is —
+  // never under the broadcaster's floor.
+  const uiBase = useMemo(
+    () => Math.max(uiScale(overlayRect.height), settings.minTooltipScale),
+    [overlayRect.height, settings.minTooltipScale],
+  )
 
+  const placement = settings.tooltipPlacement
   const positionTooltip = useCallback((slot: DetectedSlot) => {
     lastSlotRef.current = slot
     const tip = tooltipRef.current
@@ -276,16 +328,29 @@ export function App() {
     const minTop = VIEWPORT_MARGIN - overlayRect.top
     const maxTop = frameH - overlayRect.top - tipH - VIEWPORT_MARGIN
 
-    // Prefer placing tooltip right of slot center, but flip if it overflows
-    const wantLeft = slotCx + tipW / 2 > frameRight ? slotCx - tipW : slotCx
+    const above = slotTop - tipH - 8
+    const below = slotBottom + 8
+    let wantLeft: number
+    let wantTop: number
+    if (placement === 'side') {
+      // Beside the card, level with it: right of it, flipped left if it overflows
+      const slotLeft = slot.x * vw
+      const slotRight = (slot.x + slot.w) * vw
+      wantLeft = slotRight + 8 + tipW > frameRight ? slotLeft - 8 - tipW : slotRight + 8
+      wantTop = (slotTop + slotBottom) / 2 - tipH / 2
+    } else {
+      // Prefer placing tooltip right of slot center, but flip if it overflows
+      wantLeft = slotCx + tipW / 2 > frameRight ? slotCx - tipW : slotCx
+      // The preferred side of the slot, falling back to the other if no room
+      wantTop = placement === 'below'
+        ? (below > maxTop && above >= minTop ? above : below)
+        : (above < minTop ? below : above)
+    }
     const left = Math.max(minLeft, Math.min(maxLeft, wantLeft))
-
-    // Prefer above slot, fall back to below if no room
-    const wantTop = slotTop - tipH - 8 < minTop ? slotBottom + 8 : slotTop - tipH - 8
     const top = Math.max(minTop, Math.min(maxTop, wantTop))
 
     setTooltipPos({ left: `${left}px`, top: `${top}px` })
-  }, [overlayRect, uiBase])
+  }, [overlayRect, uiBase, placement])
 
   const handleHover = useCallback((slot: DetectedSlot) => {
     setHovered(slot)
@@ -304,10 +369,11 @@ export function App() {
   // pass-through, so fullscreen streamers are unaffected by the remap; none of the
   // three steps ever shifts a card off its center. Everything downstream (zones,
   // tooltip, hover tracking) consumes these display coords; `detected` stays raw for
-  // the wire contract.
+  // the wire contract. Slots the settings don't offer are dropped before any of it,
+  // so no neighbour's zone reaches over them either.
   const displayed = useMemo(
-    () => padVertical(separateRows(tessellate(detected.map(s => applyCrop(s, crop)))), 0.12, 0.03),
-    [detected, crop],
+    () => padVertical(separateRows(tessellate(offeredSlots(detected, settings).map(s => applyCrop(s, crop)))), 0.12, 0.03),
+    [detected, crop, settings],
   )
 
   // re-clamp tooltip when its rendered size is known and on resize
@@ -0,0 +1,96 @@
+import { useState, useMemo } from 'preact/hooks'
+import type { BazaarCard } from '@bazaarinfo/shared/src/types'
+import type { DetectedSlot } from './HoverZone'
+import { CardTooltip } from './CardTooltip'
+import type { MissingReason } from './CardTooltip'
+import { tierColor } from '../tiers'
+
+// The panel's board tab: the same live frame the overlay draws, as a list. A phone
+// viewer can't hover the video, so without this the companion gives them nothing;
+// here every card on both boards is one tap from its full tooltip.
+
+interface Props {
+  slots: DetectedSlot[]
+  cards: Map<string, BazaarCard> | null
+  missing: MissingReason
+}
+
+// streamer first, then their opponent; within each, items then skills, left to
+// right as they sit on screen
+function sides(slots: DetectedSlot[]): { label: string; slots: DetectedSlot[] }[] {
+  const order = (a: DetectedSlot, b: DetectedSlot) =>
+    Number(a.type === 'Skill') - Number(b.type === 'Skill') || a.x - b.x
+  const mine = slots.filter((s) => s.owner !== 'opponent').sort(order)
+  const theirs = slots.filter((s) => s.owner === 'opponent').sort(order)
+  return [
+    { label: 'streamer', slots: mine },
+    { label: 'opponent', slots: theirs },
+  ].filter((g) => g.slots.length > 0)
+}
+
+// a slot's identity in this list; the board changes under an open row, and the
+// row should stay open only while that same card is still there
+function rowKey(s: DetectedSlot): string {
+  return [s.owner ?? '', s.type ?? '', s.title, s.tier, s.enchantment ?? '', s.x].join('\u0000')
+}
+
+export function BoardInspector({ slots, cards, missing }: Props) {
+  const [open, setOpen] = useState<string | null>(null)
+  const groups = useMemo(() => sides(slots), [slots])
+
+  if (groups.length === 0) {
+    return (
+      <div class="panel-keys">
+        <div class="panel-lede">no board on screen right now</div>
+        <div>it fills in live while the streamer is in a run</div>
+      </div>
+    )
+  }
+
+  return (
+    <div class="board">
+      {groups.map((g) => (
+        <section key={g.label} class="board-side" aria-label={g.label}>
+          <div class={`board-head${g.label === 'opponent' ? ' board-head--opponent' : ''}`}>{g.label}</div>
+          <ul class="board-list">
+            {g.slots.map((s) => {
+              const key = rowKey(s)
+              const isOpen = open === key
+              const card = cards?.get(s.title.toLowerCase()) ?? null
+              return (
+                <li key={key} class="board-row">
+                  <button
+                    type="button"
+                    class={`board-card${isOpen ? ' active' : ''}`}
+                    aria-expanded={isOpen}
+                    onClick={() => setOpen(isOpen ? null : key)}
+                  >
+                    <span class="board-title">{s.title}</span>
+                    {/* a tier the companion only guessed (its starting tier) is not stated —
+                        the tooltip below carries every tier's numbers instead */}
+                    {s.tierKnown !== false && (
+                      <span class="board-tier" style={{ '--tier': tierColor(s.tier) }}>{s.tier.toLowerCase()}</span>
+                    )}
+                    {s.enchantment && <span class="board-ench">{s.enchantment.toLowerCase()}</span>}
+                  </button>
+                  {isOpen && (
+                    <CardTooltip
+                      card={card}
+                      title={s.title}
+                      tier={s.tier}
+                      enchantment={s.enchantment}
+                      tierKnown={s.tierKnown}
+                      missing={card ? undefined : missing}
+                      visible={true}
+                      style={{ position: 'relative', width: '100%' }}
+                    />
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        </section>
+      ))}
+    </div>
+  )
+}
@@ -1,8 +1,10 @@
-// Twitch extension config view — broadcaster fetches their companion secret
-// and calibrates the game-area crop for windowed / cropped captures.
+// Twitch extension config view — broadcaster fetches their companion secret,
+// calibrates the game-area crop for windowed / cropped captures and picks how
+// the overlay behaves for viewers.
 // Loaded as a static script via <script src>. CSP-clean: no inline handlers.
 
 import { initCalibrator } from './calibrate'
+import { initSettingsForm } from './settings-form'
 
 const EBS_URL = 'https://ebs.bazaarinfo.com'
 
@@ -197,6 +199,7 @@ function init() {
   setupCopyHandlers()
   setupSecretHandlers()
   initCalibrator()
+  const loadSettings = initSettingsForm(EBS_URL)
   const twitch = window.Twitch?.ext
   if (!twitch) {
     setStatus('twitch extension helper unavailable', 'error')
@@ -207,6 +210,7 @@ function init() {
 
   twitch.onAuthorized(async (auth) => {
     authToken = auth.token
+    loadSettings(auth.token)
     try {
       const res = await fetch(`${EBS_URL}/api/companion-setup`, {
         headers: { Authorization: `Bearer ${auth.token}` },
@@ -3,12 +3,20 @@ import { useState, useEffect, useCallback, useRef, useMemo } from 'preact/hooks'
 import type { BazaarCard, TierName } from '@bazaarinfo/shared/src/types'
 import { buildIndex, searchCards, type ScoredCard } from '@bazaarinfo/shared/src/search'
 import { CardTooltip } from './components/CardTooltip'
-import { fetchCards, CARD_FETCH_BACKOFF } from './twitch'
-import { tierColor } from './tiers'
+import { BoardInspector } from './components/BoardInspector'
+import type { DetectedSlot } from './components/HoverZone'
+import { fetchCards, CARD_FETCH_BACKOFF, createBoardFeed } from './twitch'
+import { tierColor, deriveValidTiers, makeSlotValidator } from './tiers'
 import './style.css'
 
 const MAX_RESULTS = 8
 const MIN_QUERY = 2
+const MAX_SLOTS = 50
+// same expiry as the overlay's: the companion heartbeats every 30s while a board is
+// up, so this long with no frame means it's gone and the list would be a ghost
+const STALE_TTL_MS = 75_000
+
+type Tab = 'search' | 'board'
 
 function Panel() {
   const [query, setQuery] = useState('')
@@ -27,6 +35,10 @@ function Panel() {
   // against re-running then, independent of `cards`/`indexRef` which effect deps
   // can't see (the effect below has deps []).
   const cardsLoaded = useRef(false)
+  const [tab, setTab] = useState<Tab>('search')
+  // the live board, off the same PubSub frames the overlay reads
+  const [board, setBoard] = useState<DetectedSlot[]>([])
+  const validatorRef = useRef<(s: unknown) => s is DetectedSlot>(makeSlotValidator(new Set<string>()))
 
   // Focus on open so the panel is usable without touching the mouse — but only
   // where there is a mouse. On a phone an autofocused field throws up the soft
@@ -37,13 +49,26 @@ function Panel() {
 
   useEffect(() => {
     let mounted = true
+    let authToken = ''
+    let staleTimer: ReturnType<typeof setTimeout> | null = null
     const twitch = window.Twitch?.ext
     if (!twitch) {
       console.error('bazaarinfo panel: twitch extension helper unavailable')
       setError('twitch extension helper unavailable')
       return
     }
+
+    const onCards = (raw: unknown[]) => {
+      setBoard(raw.slice(0, MAX_SLOTS).filter(validatorRef.current))
+      if (staleTimer) clearTimeout(staleTimer)
+      staleTimer = setTimeout(() => setBoard([]), STALE_TTL_MS)
+    }
+    const feed = createBoardFeed(() => authToken, onCards, () => mounted)
+    const onBroadcast = (_target: string, _contentType: string, message: string) => feed(message)
+    twitch.listen('broadcast', onBroadcast)
+
     twitch.onAuthorized(async (auth) => {
+      authToken = auth.token
       if (cardsLoaded.current) return
       for (let i = 0; i < CARD_FETCH_BACKOFF.length; i++) {
         if (CARD_FETCH_BACKOFF[i] > 0) {
@@ -57,6 +82,7 @@ function Panel() {
           // rather than sitting on "loading…" forever.
           if (all.length === 0) throw new Error('empty')
           setCards(all)
+          validatorRef.current = makeSlotValidator(deriveValidTiers(all))
           cardsLoaded.current = true
           return
         } catch {
@@ -64,9 +90,21 @@ function Panel() {
         }
       }
     })
-    return () => { mounted = false }
+    return () => {
+      mounted = false
+      twitch.unlisten('broadcast', onBroadcast)
+      if (staleTimer) clearTimeout(staleTimer)
+    }
   }, [])
 
+  // the board tab looks cards up by name, like the overlay does on hover
+  const cardsByTitle = useMemo(() => {
+    if (!cards) return null
+    const map = new Map<string, BazaarCard>()
+    for (const c of cards) map.set(c.Title.toLowerCase(), c)
+    return map
+  }, [cards])
+
   const runSearch = useCallback((q: string) => {
     setSelected(null)
     setCursor(0)
@@ -158,86 +196,120 @@ function Panel() {
 
   return (
     <div class="panel">
-      {/* stays usable while the dump is still downloading — a query typed early
-          runs itself the moment the data lands. Only a hard failure, where nothing
-          typed could ever resolve, takes the field away. */}
-      <input
-        type="text"
-        class="panel-search"
-        value={query}
-        onInput={handleInput}
-        onKeyDown={handleKey}
-        placeholder={placeholder}
-        disabled={!cards && Boolean(error)}
-        ref={inputRef}
-        autocomplete="off"
-        spellcheck={false}
-        role="combobox"
-        aria-expanded={results.length > 0}
-        aria-controls="panel-results"
-        aria-activedescendant={results.length > 0 ? `panel-opt-${cursor}` : undefined}
-        aria-label="search cards"
-      />
+      <div class="panel-tabs" role="tablist" aria-label="view">
+        <button
+          type="button"
+          role="tab"
+          class={`panel-tab${tab === 'search' ? ' active' : ''}`}
+          aria-selected={tab === 'search'}
+          onClick={() => setTab('search')}
+        >
+          search
+        </button>
+        <button
+          type="button"
+          role="tab"
+          class={`panel-tab${tab === 'board' ? ' active' : ''}`}
+          aria-selected={tab === 'board'}
+          onClick={() => setTab('board')}
+        >
+          board{board.length > 0 ? ` · ${board.length}` : ''}
+        </button>
+      </div>
 
-      {results.length > 0 && (
-        <ul class="panel-results" id="panel-results" role="listbox" aria-label="results">
-          {results.map((c, i) => (
-            <li
-              key={c.item.Title}
-              id={`panel-opt-${i}`}
-              class="panel-result"
-              role="option"
-              aria-selected={i === cursor}
-              onMouseEnter={() => setCursor(i)}
-              onClick={() => pick(c.item)}
-            >
-              {c.item.Title}
-            </li>
-          ))}
-        </ul>
+      {tab === 'board' && (
+        <BoardInspector
+          slots={board}
+          cards={cardsByTitle}
+          missing={cards ? 'unknown' : error ? 'failed' : 'loading'}
+        />
       )}
 
-      {selected && (
-        <div class="panel-selected">
-          <CardTooltip
-            card={selected.card}
-            tier={selected.tier}
-            visible={true}
-            style={{ position: 'relative', width: '100%' }}
+      {tab === 'search' && (
+        <>
+          {/* stays usable while the dump is still downloading — a query typed early
+              runs itself the moment the data lands. Only a hard failure, where nothing
+              typed could ever resolve, takes the field away. */}
+          <input
+            type="text"
+            class="panel-search"
+            value={query}
+            onInput={handleInput}
+            onKeyDown={handleKey}
+            placeholder={placeholder}
+            disabled={!cards && Boolean(error)}
+            ref={inputRef}
+            autocomplete="off"
+            spellcheck={false}
+            role="combobox"
+            aria-expanded={results.length > 0}
+            aria-controls="panel-results"
+            aria-activedescendant={results.length > 0 ? `panel-opt-${cursor}` : undefined}
+            aria-label="search cards"
           />
-          <div class="panel-tiers" role="group" aria-label="tier">
-            {selected.card.Tiers.map((t, i) => (
-              <button
-                key={t}
-                type="button"
-                class={`panel-tier${selected.tier === t ? ' active' : ''}`}
-                style={tierStyles[i]}
-                aria-pressed={selected.tier === t}
-                onClick={() => pickTier(t)}
-              >
-                {t.toLowerCase()}
-              </button>
-            ))}
-          </div>
-        </div>
-      )}
 
-      {noMatch && <div class="panel-note">no card matches "{trimmed}"</div>}
+          {results.length > 0 && (
+            <ul class="panel-results" id="panel-results" role="listbox" aria-label="results">
+              {results.map((c, i) => (
+                <li
+                  key={c.item.Title}
+                  id={`panel-opt-${i}`}
+                  class="panel-result"
+                  role="option"
+                  aria-selected={i === cursor}
+                  onMouseEnter={() => setCursor(i)}
+                  onClick={() => pick(c.item)}
+                >
+                  {c.item.Title}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {selected && (
+            <div class="panel-selected">
+              <CardTooltip
+                card={selected.card}
+                tier={selected.tier}
+                visible={true}
+                style={{ position: 'relative', width: '100%' }}
+              />
+              <div class="panel-tiers" role="group" aria-label="tier">
+                {selected.card.Tiers.map((t, i) => (
+                  <button
+                    key={t}
+                    type="button"
+                    class={`panel-tier${selected.tier === t ? ' active' : ''}`}
+                    style={tierStyles[i]}
+                    aria-pressed={selected.tier === t}
+                    onClick={() => pickTier(t)}
+                  >
+                    {t.toLowerCase()}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {noMatch && <div class="panel-note">no card matches "{trimmed}"</div>}
+
+          {/* two deliberate lines — a Twitch panel is 318px wide, and one long hint
+              wraps into an orphan word */}
+          {!selected && results.length === 0 && !noMatch && (
+            <div class="panel-keys">
+              {/* the only place we can say the overlay exists without putting anything
+                  on the broadcaster's video */}
+              <div class="panel-lede">hover any card on the stream for its tooltip</div>
+              <div><kbd>↑</kbd><kbd>↓</kbd> move · <kbd>⏎</kbd> pick</div>
+              <div><kbd>←</kbd><kbd>→</kbd> tier · <kbd>esc</kbd> clear</div>
+            </div>
+          )}
 
-      {/* two deliberate lines — a Twitch panel is 318px wide, and one long hint
-          wraps into an orphan word */}
-      {!selected && results.length === 0 && !noMatch && (
-        <div class="panel-keys">
-          {/* the only place we can say the overlay exists without putting anything
-              on the broadcaster's video */}
-          <div class="panel-lede">hover any card on the stream for its tooltip</div>
-          <div><kbd>↑</kbd><kbd>↓</kbd> move · <kbd>⏎</kbd> pick</div>
-          <div><kbd>←</kbd><kbd>→</kbd> tier · <kbd>esc</kbd> clear</div>
-        </div>
+        </>
       )}
 
       <div class="panel-foot">
-        {selected?.card.Shortlink && (
+        {tab === 'search' && selected?.card.Shortlink && (
           <a
             class="panel-link panel-link--card"
             href={selected.card.Shortlink}
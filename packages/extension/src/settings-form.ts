@@ -0,0 +1,145 @@
+// Overlay behavior settings for the extension config view.
+//
+// The broadcaster's choices live on the EBS (shared/settings.ts), not in the Twitch
+// config service the crop uses: the EBS can validate them and push a save straight
+// to every open overlay. The form loads once the JWT arrives and saves only what the
+// broadcaster changed.
+//
+// CSP-clean: no inline handlers, no eval.
+
+import { DEFAULT_OVERLAY_SETTINGS, parseOverlaySettings, MAX_SPOILER_DELAY_SEC } from '@bazaarinfo/shared/src/settings'
+import type { OverlaySettings, TooltipPlacement } from '@bazaarinfo/shared/src/settings'
+
+interface Els {
+  form: HTMLFormElement
+  placement: HTMLSelectElement
+  opponent: HTMLInputElement
+  hideItems: HTMLInputElement
+  hideSkills: HTMLInputElement
+  scale: HTMLInputElement
+  scaleOut: HTMLElement
+  delay: HTMLInputElement
+  save: HTMLButtonElement
+  status: HTMLElement
+}
+
+function getEls(): Els | null {
+  const byId = <T extends HTMLElement>(id: string) => document.getElementById(id) as T | null
+  const els = {
+    form: byId<HTMLFormElement>('set-form'),
+    placement: byId<HTMLSelectElement>('set-placement'),
+    opponent: byId<HTMLInputElement>('set-opponent'),
+    hideItems: byId<HTMLInputElement>('set-hide-items'),
+    hideSkills: byId<HTMLInputElement>('set-hide-skills'),
+    scale: byId<HTMLInputElement>('set-scale'),
+    scaleOut: byId<HTMLElement>('set-scale-out'),
+    delay: byId<HTMLInputElement>('set-delay'),
+    save: byId<HTMLButtonElement>('set-save'),
+    status: byId<HTMLElement>('set-status'),
+  }
+  return Object.values(els).every(Boolean) ? els as Els : null
+}
+
+// What the form currently says, as settings. Exported for tests.
+export function formSettings(v: {
+  placement: string
+  opponent: boolean
+  hideItems: boolean
+  hideSkills: boolean
+  scale: string
+  delay: string
+}): OverlaySettings {
+  const delay = Math.round(Number(v.delay))
+  return parseOverlaySettings({
+    tooltipPlacement: v.placement as TooltipPlacement,
+    opponentHover: v.opponent,
+    hiddenTypes: [...(v.hideItems ? ['Item'] : []), ...(v.hideSkills ? ['Skill'] : [])],
+    minTooltipScale: Number(v.scale),
+    spoilerDelaySec: Number.isFinite(delay) ? Math.min(MAX_SPOILER_DELAY_SEC, Math.max(0, delay)) : 0,
+  })
+}
+
+// Only the fields that differ from what's saved. Exported for tests.
+export function settingsPatch(saved: OverlaySettings, next: OverlaySettings): Partial<OverlaySettings> {
+  const patch: Record<string, unknown> = {}
+  for (const key of Object.keys(next) as (keyof OverlaySettings)[]) {
+    if (JSON.stringify(next[key]) !== JSON.stringify(saved[key])) patch[key] = next[key]
+  }
+  return patch as Partial<OverlaySettings>
+}
+
+export function initSettingsForm(ebsUrl: string): (token: string) => void {
+  const els = getEls()
+  if (!els) return () => {}
+  let token = ''
+  let saved: OverlaySettings = DEFAULT_OVERLAY_SETTINGS
+
+  const setStatus = (text: string, error = false) => {
+    els.status.textContent = text
+    els.status.className = error ? 'error' : 'muted'
+  }
+  const read = () => formSettings({
+    placement: els.placement.value,
+    opponent: els.opponent.checked,
+    hideItems: els.hideItems.checked,
+    hideSkills: els.hideSkills.checked,
+    scale: els.scale.value,
+    delay: els.delay.value,
+  })
+  const refresh = () => {
+    els.scaleOut.textContent = `${Math.round(Number(els.scale.value) * 100)}%`
+    els.save.disabled = !token || Object.keys(settingsPatch(saved, read())).length === 0
+  }
+  const fill = (s: OverlaySettings) => {
+    els.placement.value = s.tooltipPlacement
+    els.opponent.checked = s.opponentHover
+    els.hideItems.checked = s.hiddenTypes.includes('Item')
+    els.hideSkills.checked = s.hiddenTypes.includes('Skill')
+    els.scale.value = String(s.minTooltipScale)
+    els.delay.value = String(s.spoilerDelaySec)
+    refresh()
+  }
+
+  els.form.addEventListener('input', () => { setStatus(''); refresh() })
+  els.form.addEventListener('submit', async (e) => {
+    e.preventDefault()
+    const patch = settingsPatch(saved, read())
+    if (!token || !Object.keys(patch).length) return
+    els.save.disabled = true
+    try {
+      const res = await fetch(`${ebsUrl}/api/settings`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify(patch),
+      })
+      if (!res.ok) throw new Error(String(res.status))
+      saved = parseOverlaySettings(await res.json())
+      fill(saved)
+      setStatus('saved — open overlays update within a few seconds')
+    } catch {
+      setStatus('save failed — nothing changed, try again', true)
+      refresh()
+    }
+  })
+
+  fill(saved)
+  // onAuthorized fires again on every token refresh — only the first load fills the
+  // form, so a refresh never clobbers edits the broadcaster hasn't saved yet
+  return (t: string) => {
+    const first = !token
+    token = t
+    if (!first) return refresh()
+    fetch(`${ebsUrl}/api/settings`, { headers: { Authorization: `Bearer ${t}` } })
+      .then((res) => {
+        if (!res.ok) throw new Error(String(res.status))
+        return res.json()
+      })
+      .then((data) => {
+        saved = parseOverlaySettings(data)
+        fill(saved)
+        setStatus('')
+        els.form.hidden = false
+      })
+      .catch(() => setStatus('could not load overlay settings — reload to try again', true))
+  }
+}
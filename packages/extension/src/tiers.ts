@@ -1,4 +1,5 @@
 import type { BazaarCard, TierName } from '@bazaarinfo/shared/src/types'
+import type { DetectedSlot } from './components/HoverZone'
 
 // Colour doctrine for the overlay: monochrome by default, hue only where the hue IS
 // the information. Greys carry all structure and all text hierarchy (luminance =
@@ -54,3 +55,29 @@ export function isPlausibleTierString(s: unknown, valid: Set<string>): s is Tier
   if (valid.size > 0) return valid.has(s)
   return s in TIER_COLORS
 }
+
+// Guard for a slot arriving on a PubSub/stream frame — shared by the overlay and the panel,
+// which both feed frames through it before anything is rendered.
+export function makeSlotValidator(validTiers: Set<string>) {
+  return function isValidSlot(s: unknown): s is DetectedSlot {
+    if (!s || typeof s !== 'object') return false
+    const o = s as Record<string, unknown>
+    if (typeof o.title !== 'string' || o.title.length === 0 || o.title.length > 80) return false
+    if (!isPlausibleTierString(o.tier, validTiers)) return false
+    if (typeof o.x !== 'number' || typeof o.y !== 'number') return false
+    if (typeof o.w !== 'number' || typeof o.h !== 'number') return false
+    if (!Number.isFinite(o.x) || !Number.isFinite(o.y) || !Number.isFinite(o.w) || !Number.isFinite(o.h)) return false
+    if (o.x < 0 || o.x > 1 || o.y < 0 || o.y > 1) return false
+    if (o.w <= 0 || o.w > 1 || o.h <= 0 || o.h > 1) return false
+    // reject a zone big enough to blanket the video and swallow all clicks — no real
+    // card covers a fifth of the frame; a buggy/hostile whole-board bbox would.
+    if (o.w * o.h > 0.2) return false
+    // optional fields: if present they must be well-formed strings (a non-string
+    // slips through the `typeof === 'string'` guards below and violates the contract)
+    if (o.owner !== undefined && (typeof o.owner !== 'string' || o.owner.length > 50)) return false
+    if (o.type !== undefined && (typeof o.type !== 'string' || o.type.length > 50)) return false
+    if (o.enchantment !== undefined && (typeof o.enchantment !== 'string' || o.enchantment.length > 50)) return false
+    if (o.tierKnown !== undefined && typeof o.tierKnown !== 'boolean') return false
+    return true
+  }
+}
@@ -0,0 +1,192 @@
+import { describe, expect, it, afterEach, beforeAll, afterAll } from 'bun:test'
+import { sseParser, createBoardFeed, applyCardsDiff, fetchCards } from './twitch'
+import { assignIds, diffSlots } from '@bazaarinfo/shared/src/frames'
+import { DEFAULT_OVERLAY_SETTINGS } from '@bazaarinfo/shared/src/settings'
+
+// The overlay's /api/stream reader hands raw network chunks to this parser, and TCP
+// splits them wherever it likes — a frame must come out whole exactly once no matter
+// where the cuts land.
+
+function collect() {
+  const out: string[] = []
+  return { out, feed: sseParser((d) => out.push(d)) }
+}
+
+describe('sseParser', () => {
+  it('emits one data payload per event', () => {
+    const { out, feed } = collect()
+    feed('data: {"v":1,"cards":[]}\n\ndata: {"v":1,"cards":[1]}\n\n')
+    expect(out).toEqual(['{"v":1,"cards":[]}', '{"v":1,"cards":[1]}'])
+  })
+
+  it('reassembles an event split across chunks at any byte', () => {
+    const msg = 'data: {"v":1,"cards":[{"title":"Fang"}]}\n\n'
+    for (let cut = 1; cut < msg.length; cut++) {
+      const { out, feed } = collect()
+      feed(msg.slice(0, cut))
+      feed(msg.slice(cut))
+      expect(out).toEqual(['{"v":1,"cards":[{"title":"Fang"}]}'])
+    }
+  })
+
+  it('drops keep-alive comments and holds a partial event back', () => {
+    const { out, feed } = collect()
+    feed(': ping\n\n')
+    feed('data: {"v":1')
+    expect(out).toEqual([])
+  })
+
+  it('joins multi-line data and accepts data: with no space', () => {
+    const { out, feed } = collect()
+    feed('data:a\ndata: b\n\n')
+    expect(out).toEqual(['a\nb'])
+  })
+})
+
+describe('createBoardFeed', () => {
+  const realFetch = globalThis.fetch
+  afterEach(() => { globalThis.fetch = realFetch })
+
+  const slot = (title: string, x: number) => ({ title, tier: 'Gold', x, y: 0.6, w: 0.05, h: 0.2 })
+  const b1 = assignIds([], [slot('Fang', 0.1)], 1)
+  const b2 = assignIds(b1.slots, [slot('Fang', 0.1), slot('Barrel', 0.2)], b1.nextId)
+  const b3 = assignIds(b2.slots, [slot('Barrel', 0.2)], b2.nextId)
+  const keyframe = { v: 2, e: 'aa', seq: 2, cards: b2.slots }
+  const delta3 = JSON.stringify({ v: 2, e: 'aa', seq: 3, ...diffSlots(b2.slots, b3.slots) })
+  const titles = (cards: unknown[]) => (cards as { title: string }[]).map((c) => c.title)
+
+  function stubKeyframe(): string[] {
+    const calls: string[] = []
+    globalThis.fetch = (async (url: string) => {
+      calls.push(String(url))
+      return new Response(JSON.stringify(keyframe))
+    }) as unknown as typeof fetch
+    return calls
+  }
+
+  it('a gap fetches one keyframe and replays the held delta on top of it', async () => {
+    const calls = stubKeyframe()
+    const boards: string[][] = []
+    const feed = createBoardFeed(() => 'tok', (c) => boards.push(titles(c)))
+    feed(delta3)
+    feed(delta3)
+    await Bun.sleep(5)
+    expect(calls.filter((u) => u.endsWith('/api/keyframe')).length).toBe(1)
+    expect(boards).toEqual([['Barrel']])
+  })
+
+  it('a late keyframe the caller no longer wants is dropped', async () => {
+    stubKeyframe()
+    const boards: string[][] = []
+    const feed = createBoardFeed(() => 'tok', (c) => boards.push(titles(c)), () => false)
+    feed(delta3)
+    await Bun.sleep(5)
+    expect(boards).toEqual([])
+  })
+
+  it('renders full frames directly and shrugs off junk', () => {
+    const boards: string[][] = []
+    const feed = createBoardFeed(() => '', (c) => boards.push(titles(c)))
+    feed('not json')
+    feed(JSON.stringify({ v: 1, cards: [slot('Fang', 0.1)] }))
+    expect(boards).toEqual([['Fang']])
+  })
+
+  it('hands settings pushes to onSettings, parsed, without touching the board', () => {
+    const boards: string[][] = []
+    const pushed: unknown[] = []
+    const feed = createBoardFeed(() => '', (c) => boards.push(titles(c)), () => true, (s) => pushed.push(s))
+    feed(JSON.stringify({ v: 2, settings: { tooltipPlacement: 'side', spoilerDelaySec: 'soon' } }))
+    expect(boards).toEqual([])
+    expect(pushed).toEqual([{ ...DEFAULT_OVERLAY_SETTINGS, tooltipPlacement: 'side' }])
+  })
+})
+
+describe('applyCardsDiff', () => {
+  const base = [{ Title: 'A' }, { Title: 'B' }, { Title: 'C' }]
+
+  it('rebuilds the list from kept indexes and new cards, in order', () => {
+    expect(applyCardsDiff(base, [2, { Title: 'D' }, 0])).toEqual([{ Title: 'C' }, { Title: 'D' }, { Title: 'A' }])
+  })
+
+  it('refuses a diff that does not fit the copy it is applied to', () => {
+    expect(applyCardsDiff(base, [3])).toBeNull()
+    expect(applyCardsDiff(base, [-1])).toBeNull()
+    expect(applyCardsDiff(base, [1.5])).toBeNull()
+    expect(applyCardsDiff(base, ['A'])).toBeNull()
+    expect(applyCardsDiff(base, null)).toBeNull()
+  })
+})
+
+describe('fetchCards', () => {
+  const realFetch = globalThis.fetch
+  const store = new Map<string, string>()
+  const g = globalThis as unknown as { localStorage?: unknown }
+  const realStorage = g.localStorage
+  beforeAll(() => {
+    g.localStorage = {
+      getItem: (k: string) => store.get(k) ?? null,
+      setItem: (k: string, v: string) => { store.set(k, v) },
+      removeItem: (k: string) => { store.delete(k) },
+    }
+  })
+  afterAll(() => { g.localStorage = realStorage })
+  afterEach(() => {
+    globalThis.fetch = realFetch
+    store.clear()
+  })
+
+  function serve(responses: (Response | (() => Response))[]): string[] {
+    const calls: string[] = []
+    globalThis.fetch = (async (url: string) => {
+      calls.push(String(url))
+      const r = responses.shift()!
+      return typeof r === 'function' ? r() : r
+    }) as unknown as typeof fetch
+    return calls
+  }
+  const A = { Title: 'A' }
+  const B = { Title: 'B' }
+  const S = { Title: 'S', Type: 'Skill' }
+
+  it('asks for the slim v2 list and keeps it with its tag', async () => {
+    const calls = serve([Response.json({ v: 2, etag: '"d1-items.skills-overlay"', items: [A], skills: [S] })])
+    expect(await fetchCards('t')).toEqual([A, S] as never)
+    expect(calls[0]).toContain('v=2&kinds=items,skills&fields=overlay')
+    expect(calls[0]).not.toContain('since=')
+    expect(JSON.parse(store.get('bazaarinfo:cards')!).etag).toBe('"d1-items.skills-overlay"')
+  })
+
+  it('a returning viewer sends its tag and reuses its copy on a 304', async () => {
+    serve([Response.json({ v: 2, etag: '"d1-items.skills-overlay"', items: [A], skills: [S] })])
+    await fetchCards('t')
+    const calls = serve([new Response(null, { status: 304 })])
+    expect(await fetchCards('t')).toEqual([A, S] as never)
+    expect(calls[0]).toContain(`since=${encodeURIComponent('"d1-items.skills-overlay"')}`)
+  })
+
+  it('applies a diff onto the stored copy', async () => {
+    serve([Response.json({ v: 2, etag: '"d1-items.skills-overlay"', items: [A, B], skills: [S] })])
+    await fetchCards('t')
+    serve([Response.json({ v: 2, etag: '"d2-items.skills-overlay"', base: '"d1-items.skills-overlay"', items: [1, { Title: 'C' }], skills: [0] })])
+    expect(await fetchCards('t')).toEqual([B, { Title: 'C' }, S] as never)
+    expect(JSON.parse(store.get('bazaarinfo:cards')!).etag).toBe('"d2-items.skills-overlay"')
+  })
+
+  it('falls back to the whole list when a diff does not fit', async () => {
+    serve([Response.json({ v: 2, etag: '"d1-items.skills-overlay"', items: [A], skills: [] })])
+    await fetchCards('t')
+    const calls = serve([
+      Response.json({ v: 2, etag: '"d2-items.skills-overlay"', base: '"d1-items.skills-overlay"', items: [5], skills: [] }),
+      Response.json({ v: 2, etag: '"d2-items.skills-overlay"', items: [B], skills: [] }),
+    ])
+    expect(await fetchCards('t')).toEqual([B] as never)
+    expect(calls[1]).not.toContain('since=')
+  })
+
+  it('takes a plain v1 answer as-is and keeps nothing', async () => {
+    serve([Response.json({ items: [A], skills: [S], monsters: [] })])
+    expect(await fetchCards('t')).toEqual([A, S] as never)
+    expect(store.has('bazaarinfo:cards')).toBe(false)
+  })
+})
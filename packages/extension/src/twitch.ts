@@ -1,4 +1,7 @@
 import type { BazaarCard } from '@bazaarinfo/shared/src/types'
+import { createFrameDecoder } from '@bazaarinfo/shared/src/frames'
+import { parseOverlaySettings } from '@bazaarinfo/shared/src/settings'
+import type { OverlaySettings } from '@bazaarinfo/shared/src/settings'
 
 export const EBS_BASE = 'https://ebs.bazaarinfo.com'
 
@@ -7,18 +10,227 @@ export const EBS_BASE = 'https://ebs.bazaarinfo.com'
 // ms per attempt; the first is immediate.
 export const CARD_FETCH_BACKOFF = [0, 1_000, 5_000]
 
-export async function fetchCards(token: string): Promise<BazaarCard[]> {
+// Only the lists and fields the overlay and panel read (EBS routes/cards.ts, protocol
+// v2). A viewer who has loaded the cards before keeps them in localStorage with their
+// tag and, on the next stream, asks for what changed since — usually nothing (a 304),
+// after a patch only the changed cards.
+const CARDS_QUERY = 'v=2&kinds=items,skills&fields=overlay'
+const CARDS_STORE_KEY = 'bazaarinfo:cards'
+
+interface StoredCards {
+  etag: string
+  items: BazaarCard[]
+  skills: BazaarCard[]
+}
+
+// storage can be blocked (third-party iframes in some browsers) or full; either way
+// the viewer just downloads the whole list as before
+function loadStoredCards(): StoredCards | null {
+  try {
+    const s = JSON.parse(localStorage.getItem(CARDS_STORE_KEY) ?? 'null') as StoredCards | null
+    return s && typeof s.etag === 'string' && Array.isArray(s.items) && Array.isArray(s.skills) ? s : null
+  } catch {
+    return null
+  }
+}
+
+function storeCards(s: StoredCards | null): void {
+  try {
+    if (s) localStorage.setItem(CARDS_STORE_KEY, JSON.stringify(s))
+    else localStorage.removeItem(CARDS_STORE_KEY)
+  } catch {}
+}
+
+/** a v2 diff list over `base`: numbers are indexes into it, anything else a new card. null if it doesn't fit `base`. */
+export function applyCardsDiff<T>(base: T[], spec: unknown): T[] | null {
+  if (!Array.isArray(spec)) return null
+  const out: T[] = []
+  for (const x of spec) {
+    if (typeof x === 'number') {
+      if (!Number.isInteger(x) || x < 0 || x >= base.length) return null
+      out.push(base[x])
+    } else if (x && typeof x === 'object') {
+      out.push(x as T)
+    } else {
+      return null
+    }
+  }
+  return out
+}
+
+export async function fetchCards(token: string, useStored = true): Promise<BazaarCard[]> {
+  const stored = useStored ? loadStoredCards() : null
   const ac = new AbortController()
   const tid = setTimeout(() => ac.abort(), 8000)
+  let data: Record<string, unknown>
   try {
-    const res = await fetch(`${EBS_BASE}/api/cards`, {
+    const since = stored ? `&since=${encodeURIComponent(stored.etag)}` : ''
+    const res = await fetch(`${EBS_BASE}/api/cards?${CARDS_QUERY}${since}`, {
       headers: { Authorization: `Bearer ${token}` },
       signal: ac.signal,
     })
+    if (res.status === 304 && stored) return [...stored.items, ...stored.skills]
     if (!res.ok) throw new Error(`${res.status}`)
-    const data = await res.json() as { items: BazaarCard[]; skills: BazaarCard[] }
-    return [...(data.items ?? []), ...(data.skills ?? [])]
+    data = await res.json() as Record<string, unknown>
   } finally {
     clearTimeout(tid)
   }
+
+  let items = (data.items ?? []) as BazaarCard[]
+  let skills = (data.skills ?? []) as BazaarCard[]
+  if (data.base !== undefined) {
+    const i = stored && data.base === stored.etag ? applyCardsDiff(stored.items, data.items ?? []) : null
+    const s = stored && data.base === stored.etag ? applyCardsDiff(stored.skills, data.skills ?? []) : null
+    // a diff against a copy we don't have: drop ours and take the whole list
+    if (!i || !s) {
+      storeCards(null)
+      return fetchCards(token, false)
+    }
+    items = i
+    skills = s
+  }
+  // an EBS (or harness) without v2 answers with the plain list and no tag: use it, keep nothing
+  storeCards(typeof data.etag === 'string' ? { etag: data.etag, items, skills } : null)
+  return [...items, ...skills]
+}
+
+// The last frame PubSub delivered to this channel, whole — how the overlay resyncs
+// after missing a delta. null while the channel has no frames yet.
+export async function fetchKeyframe(token: string): Promise<unknown> {
+  const ac = new AbortController()
+  const tid = setTimeout(() => ac.abort(), 5000)
+  try {
+    const res = await fetch(`${EBS_BASE}/api/keyframe`, {
+      headers: { Authorization: `Bearer ${token}` },
+      signal: ac.signal,
+    })
+    if (res.status === 404) return null
+    if (!res.ok) throw new Error(`${res.status}`)
+    return await res.json()
+  } finally {
+    clearTimeout(tid)
+  }
+}
+
+// The channel's overlay settings. Parsed leniently: whatever this build can't judge
+// falls back to the default rather than failing the overlay.
+export async function fetchSettings(token: string): Promise<OverlaySettings> {
+  const ac = new AbortController()
+  const tid = setTimeout(() => ac.abort(), 5000)
+  try {
+    const res = await fetch(`${EBS_BASE}/api/settings`, {
+      headers: { Authorization: `Bearer ${token}` },
+      signal: ac.signal,
+    })
+    if (!res.ok) throw new Error(`${res.status}`)
+    return parseOverlaySettings(await res.json())
+  } finally {
+    clearTimeout(tid)
+  }
+}
+
+// Floor between keyframe fetches. A gap the fetch can't fill (EBS down, channel not
+// broadcasting yet) closes at PubSub's next scheduled keyframe anyway.
+const KEYFRAME_RETRY_MS = 3_000
+
+/**
+ * Frame messages in (PubSub, the EBS stream), whole boards out. Keyframes and deltas
+ * (shared/frames.ts) are rebuilt here; a delta that doesn't continue the board held —
+ * tuned in mid-stream, a PubSub message lost — is buffered while one keyframe fetch
+ * fills the gap. `keyframeWanted` can refuse a fetched keyframe that arrives too late
+ * to matter. Cards come out unvalidated: each view applies its own slot validator.
+ * A settings message (the broadcaster saved new ones) goes to `onSettings` instead.
+ */
+export function createBoardFeed(
+  getToken: () => string,
+  onCards: (cards: unknown[]) => void,
+  keyframeWanted: () => boolean = () => true,
+  onSettings: (settings: OverlaySettings) => void = () => {},
+): (message: string) => void {
+  const decoder = createFrameDecoder()
+  let keyframeAt = 0
+  const decode = (data: unknown) => {
+    const result = decoder.push(data)
+    if (!result) return
+    if ('gap' in result) requestKeyframe()
+    else onCards(result.cards)
+  }
+  const requestKeyframe = () => {
+    const token = getToken()
+    const now = Date.now()
+    if (!token || now - keyframeAt < KEYFRAME_RETRY_MS) return
+    keyframeAt = now
+    fetchKeyframe(token)
+      .then((data) => { if (data && keyframeWanted()) decode(data) })
+      .catch(() => {})
+  }
+  return (message) => {
+    try {
+      const data = JSON.parse(message)
+      if (data && typeof data === 'object' && 'settings' in data) onSettings(parseOverlaySettings(data.settings))
+      else decode(data)
+    } catch {}
+  }
+}
+
+// Reconnect delays for the live frame stream, in ms per consecutive failure; the
+// last one repeats. PubSub covers the overlay meanwhile, so there's no hurry.
+export const STREAM_RETRY_MS = [1_000, 5_000, 15_000, 30_000]
+// The EBS pings every 5s, so this long without a single byte is a dead connection
+// that never errored (a sleeping laptop, a NAT drop) — cut it and reconnect.
+const STREAM_SILENCE_MS = 15_000
+
+/** incremental Server-Sent Events parse: feed it text chunks, it calls `onData` once per complete event */
+export function sseParser(onData: (data: string) => void): (chunk: string) => void {
+  let buf = ''
+  return (chunk) => {
+    buf += chunk
+    let end
+    while ((end = buf.indexOf('\n\n')) !== -1) {
+      const event = buf.slice(0, end)
+      buf = buf.slice(end + 2)
+      // comment lines (": ping") and unknown fields carry nothing for us
+      const data = event.split('\n')
+        .filter((l) => l.startsWith('data:'))
+        .map((l) => l.slice(l.startsWith('data: ') ? 6 : 5))
+        .join('\n')
+      if (data) onData(data)
+    }
+  }
+}
+
+// Frames straight from the EBS as the companion posts them, ahead of PubSub's ~1/s.
+// Read with fetch rather than EventSource so the JWT rides in the Authorization
+// header like every other /api call. Resolves when the server ends the stream (token
+// expiry, restart); throws on a refused connect or a dropped connection.
+export async function streamFrames(
+  token: string,
+  signal: AbortSignal,
+  onOpen: () => void,
+  onFrame: (message: string) => void,
+): Promise<void> {
+  const res = await fetch(`${EBS_BASE}/api/stream`, {
+    headers: { Authorization: `Bearer ${token}` },
+    signal,
+  })
+  if (!res.ok || !res.body) throw new Error(`${res.status}`)
+  onOpen()
+  const reader = res.body.getReader()
+  const decoder = new TextDecoder()
+  const feed = sseParser(onFrame)
+  let silence: ReturnType<typeof setTimeout> | undefined
+  const arm = () => {
+    clearTimeout(silence)
+    silence = setTimeout(() => { reader.cancel().catch(() => {}) }, STREAM_SILENCE_MS)
+  }
+  try {
+    for (;;) {
+      arm()
+      const { done, value } = await reader.read()
+      if (done) return
+      feed(decoder.decode(value, { stream: true }))
+    }
+  } finally {
+    clearTimeout(silence)
+  }
 }
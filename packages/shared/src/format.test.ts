@@ -1,5 +1,5 @@
-import { describe, expect, it } from 'bun:test'
-import { truncate, formatItem, formatEnchantment, formatMonster, formatEvent, formatTagResults, formatDayResults, resolveTooltip, resolveTooltipParts, cooldownLadder } from './format'
+import { afterEach, describe, expect, it } from 'bun:test'
+import { truncate, formatItem, formatItemLadder, formatItemEnchants, formatEnchantment, formatMonster, formatEvent, formatTagResults, formatDayResults, formatComparison, alignTiers, formatPool, resolveTooltip, resolveTooltipParts, cooldownLadder, setCardPageBase, cardSlug } from './format'
 import type { TooltipPart } from './format'
 import type { BazaarCard, TierName, Monster } from './types'
 import type { SkillDetail } from './format'
@@ -406,6 +406,35 @@ describe('appendShortlink / formatItem — shortlink always present regression',
   })
 })
 
+// ---------------------------------------------------------------------------
+// card page links
+// ---------------------------------------------------------------------------
+describe('setCardPageBase / cardSlug', () => {
+  afterEach(() => setCardPageBase(''))
+
+  it('slugs titles down to lowercase ascii words', () => {
+    expect(cardSlug('Powder Keg')).toBe('powder-keg')
+    expect(cardSlug("Pop Snappers' Café!")).toBe('pop-snappers-cafe')
+    expect(cardSlug('  --  ')).toBe('')
+  })
+
+  it('links items and their enchant lines to the card page once a base is set', () => {
+    setCardPageBase('https://ebs.example.com/c/')
+    const card = makeCard({ Title: 'Powder Keg' })
+    expect(formatItem(card)).toEndWith(' · ebs.example.com/c/powder-keg')
+    expect(formatItemLadder(card)).toEndWith(' · ebs.example.com/c/powder-keg')
+    expect(formatEnchantment(card, 'Fiery', 'Gold')).toEndWith(' · ebs.example.com/c/powder-keg')
+    expect(formatItem(card)).not.toContain('bzdb.to')
+  })
+
+  it('keeps the bazaardb shortlink for events and by default', () => {
+    expect(formatItem(makeCard())).toEndWith(' · bzdb.to/boomerang')
+    setCardPageBase('https://ebs.example.com/c')
+    const event = makeCard({ Type: 'EventEncounter', Title: 'Zosima', Shortlink: 'https://bzdb.to/zos' })
+    expect(formatEvent(event)).toEndWith('bzdb.to/zos')
+  })
+})
+
 // ---------------------------------------------------------------------------
 // formatTagResults
 // ---------------------------------------------------------------------------
@@ -660,3 +689,162 @@ describe('resolveTooltipParts / cooldownLadder — tier ladders', () => {
     expect(cooldownLadder({ Bronze: 6, Silver: 5 }, 'Silver')).toBeNull()
   })
 })
+
+describe('formatComparison / alignTiers', () => {
+  const sword = makeCard({
+    Title: 'Sword',
+    Size: 'Small',
+    Tiers: ['Silver', 'Gold', 'Diamond'],
+    BaseTier: 'Silver',
+    Tooltips: [{ text: 'Deal {D} Damage', type: 'Active' }],
+    TooltipReplacements: { '{D}': { Silver: 20, Gold: 40, Diamond: 80 } },
+    Cooldown: { Silver: 5, Gold: 4, Diamond: 3 },
+    DisplayTags: ['Weapon'],
+    HiddenTags: ['Damage', 'DamageReference'],
+    Heroes: ['Vanessa'],
+    Shortlink: 'https://bzdb.to/sword',
+  })
+  const axe = makeCard({
+    Title: 'Axe',
+    Size: 'Medium',
+    Tooltips: [{ text: 'Deal {D} Damage', type: 'Active' }],
+    TooltipReplacements: { '{D}': { Bronze: 10, Silver: 30, Gold: 60, Diamond: 90 } },
+    Cooldown: 6,
+    DisplayTags: ['Weapon'],
+    HiddenTags: ['Damage'],
+    Heroes: ['Common'],
+    Shortlink: 'https://bzdb.to/axe',
+  })
+
+  it('aligns on the lowest shared tier by default', () => {
+    expect(alignTiers(sword, axe)).toEqual({ a: 'Silver', b: 'Silver', shared: true })
+    const r = formatComparison(sword, axe)
+    expect(r).toContain('[Sword vs Axe] ⚪ Silver')
+    expect(r).toContain('size S vs M')
+    expect(r).toContain('CD 5s vs 6s')
+    expect(r).toContain('heroes Vanessa vs Common')
+    expect(r).toContain('shared: Damage, Weapon')
+    expect(r).toContain('Sword: Deal 20 Damage')
+    expect(r).toContain('Axe: Deal 30 Damage')
+    expect(r).toContain('bzdb.to/sword · bzdb.to/axe')
+  })
+
+  it('honors an asked tier both can reach, else the closest shared tier below it', () => {
+    expect(formatComparison(sword, axe, 'Gold')).toContain('Axe: Deal 60 Damage')
+    expect(alignTiers(sword, axe, 'Legendary')).toEqual({ a: 'Diamond', b: 'Diamond', shared: true })
+    expect(alignTiers(sword, axe, 'Bronze')).toEqual({ a: 'Silver', b: 'Silver', shared: true })
+  })
+
+  it('says so when the cards share no tier', () => {
+    const relic = makeCard({ Title: 'Relic', Tiers: ['Legendary'], BaseTier: 'Legendary' })
+    const r = formatComparison(sword, relic)
+    expect(r).toContain('no shared tier')
+    expect(r).toContain('Silver vs')
+    expect(r).toContain('Legendary')
+  })
+
+  it('stays inside the chat budget with both links attached', () => {
+    const long = makeCard({ Title: 'Long', Tooltips: [{ text: 'x'.repeat(300) + ' words', type: 'Active' }] })
+    const r = formatComparison(long, { ...long, Title: 'Longer', Shortlink: 'https://bzdb.to/longer' })
+    expect([...r].length).toBeLessThanOrEqual(480)
+    expect(r).toEndWith('bzdb.to/boomerang · bzdb.to/longer')
+  })
+})
+
+describe('formatItemEnchants', () => {
+  it('lists every variant alphabetically at one tier', () => {
+    const card = makeCard({
+      Enchantments: {
+        Icy: { tags: [], tooltips: [{ text: 'Freeze for {F}', type: 'Active' }], tooltipReplacements: { '{F}': { Fixed: 1 } } },
+        Fiery: { tags: [], tooltips: [{ text: 'Burn {B}', type: 'Active' }], tooltipReplacements: { '{B}': { Bronze: 5, Silver: 10 } } },
+      },
+    })
+    const r = formatItemEnchants(card, 'Silver')
+    expect(r).toStartWith('⚪ [Boomerang enchants] Fiery: Burn 10 | Icy: Freeze for 1')
+    expect(r).toEndWith('bzdb.to/boomerang')
+  })
+
+  it('says so when a card takes no enchants', () => {
+    expect(formatItemEnchants(makeCard({ Enchantments: {} }), 'Bronze')).toBe('Boomerang has no enchantments')
+  })
+})
+
+describe('formatItemLadder', () => {
+  const scaling = makeCard({
+    Tooltips: [{ text: 'Deal {D} Damage', type: 'Active' }],
+    TooltipReplacements: { '{D}': { Bronze: 10, Silver: 20, Gold: 40, Diamond: 80 } },
+    Cooldown: { Bronze: 6, Silver: 5, Gold: 4, Diamond: 3 },
+  })
+
+  it('names every rung, cooldown included', () => {
+    const r = formatItemLadder(scaling)
+    expect(r).toContain('Boomerang [M] · Pyg')
+    expect(r).toContain('CD: Bronze 6s → Silver 5s → Gold 4s → Diamond 3s')
+    expect(r).toContain('Deal Bronze 10 → Silver 20 → Gold 40 → Diamond 80 Damage')
+    expect(r).toEndWith('bzdb.to/boomerang')
+  })
+
+  it('collapses a rung that repeats the one below it', () => {
+    const r = formatItemLadder(makeCard({
+      Tooltips: [{ text: 'Deal {D} Damage', type: 'Active' }],
+      TooltipReplacements: { '{D}': { Bronze: 5, Silver: 5, Gold: 5, Diamond: 10 } },
+    }))
+    expect(r).toContain('Deal Bronze 5 → Diamond 10 Damage')
+  })
+
+  it('prints a flat value once, with no tier names', () => {
+    const r = formatItemLadder(makeCard({ Cooldown: 4 }))
+    expect(r).toContain('| CD:4s |')
+    expect(r).toContain('Deal 60 Damage')
+    expect(r).not.toContain('Bronze')
+  })
+
+  it('stays inside the chat budget', () => {
+    const many = Array.from({ length: 12 }, (_, i) => ({ text: `Gain {v${i}} Shield and {w${i}} Regen`, type: 'Active' }))
+    const repl = Object.fromEntries(many.flatMap((_, i) => [
+      [`{v${i}}`, { Bronze: 1, Silver: 2, Gold: 3, Diamond: 4 }],
+      [`{w${i}}`, { Bronze: 5, Silver: 6, Gold: 7, Diamond: 8 }],
+    ]))
+    const r = formatItemLadder(makeCard({ Tooltips: many, TooltipReplacements: repl }))
+    expect([...r].length).toBeLessThanOrEqual(480)
+    expect(r).toEndWith('bzdb.to/boomerang')
+  })
+})
+
+describe('formatPool', () => {
+  const pool = Array.from({ length: 150 }, (_, i) => makeCard({
+    Title: `Card ${String(i).padStart(3, '0')} with a longish name`,
+    BaseTier: i % 3 === 0 ? 'Gold' : 'Bronze',
+  }))
+
+  it('covers every card exactly once across its pages, each inside the budget', () => {
+    const first = formatPool('Vanessa', pool)
+    expect(first.pages).toBeGreaterThan(1)
+    let seen = 0
+    for (let p = 1; p <= first.pages; p++) {
+      const { text } = formatPool('Vanessa', pool, p)
+      expect([...text].length).toBeLessThanOrEqual(480)
+      expect(text).not.toEndWith('...')
+      seen += text.split(': ')[1].split(' | ')[0].split(', ').length
+    }
+    expect(seen).toBe(150)
+  })
+
+  it('footers every page but the last with what is left', () => {
+    const { text, pages } = formatPool('Vanessa', pool)
+    expect(text).toMatch(/\| \+\d+ more — page 2$/)
+    expect(formatPool('Vanessa', pool, pages).text).not.toContain('more')
+  })
+
+  it('clamps an out-of-range page to the last one', () => {
+    const last = formatPool('Vanessa', pool, 999)
+    expect(last.page).toBe(last.pages)
+  })
+
+  it('opens each page with its tier marker', () => {
+    const { pages } = formatPool('Vanessa', pool)
+    const p2 = formatPool('Vanessa', pool, 2).text
+    expect(pages).toBeGreaterThan(1)
+    expect(p2.split(': ')[1]).toMatch(/^\p{Extended_Pictographic}/u)
+  })
+})
@@ -1,4 +1,5 @@
 import type { BazaarCard, TierName, ReplacementValue, Monster } from './types'
+import type { RoutePlan } from './route'
 
 export const TIER_ORDER: TierName[] = ['Bronze', 'Silver', 'Gold', 'Diamond', 'Legendary']
 const TIER_EMOJI: Record<string, string> = {
@@ -196,6 +197,39 @@ function appendShortlink(text: string, shortlink?: string): string {
   return cpText.slice(0, Math.max(0, room)).join('') + '...' + suffix
 }
 
+// --- card page links ---------------------------------------------------------------
+//
+// Every card line ends with a link, and by default it is bazaardb's Shortlink. A deploy
+// that runs the EBS card page (GET /c/<slug>) can point item and skill lines there
+// instead: one link then carries the whole tier ladder and every enchant variant, and it
+// keeps answering while bazaardb is down. The page credits bazaardb itself, so the
+// attribution the Shortlink exists for is still one click away. Monsters and events
+// have no page and keep their Shortlink.
+
+let cardPageBase = ''
+
+/** `https://ebs.example.com/c`, or '' to go back to bazaardb Shortlinks */
+export function setCardPageBase(base: string): void {
+  cardPageBase = base.replace(/\/+$/, '')
+}
+
+/** the URL-safe form of a title the card page is keyed by: "Hot Sauce!" → "hot-sauce" */
+export function cardSlug(title: string): string {
+  return title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+function cardLink(card: BazaarCard): string {
+  if (!cardPageBase || (card.Type !== 'Item' && card.Type !== 'Skill')) return card.Shortlink
+  // the page is keyed by English titles — a localized copy links by the one it came from
+  const slug = cardSlug(card.CanonicalTitle ?? card.Title)
+  return slug ? `${cardPageBase}/${slug}` : card.Shortlink
+}
+
 // `note` is an optional trailing segment (the caller's patch-change line). it rides in
 // the normal parts list so truncate and the required shortlink budget still apply.
 export function formatItem(card: BazaarCard, tier?: TierName, note?: string): string {
@@ -218,7 +252,171 @@ export function formatItem(card: BazaarCard, tier?: TierName, note?: string): st
   ].filter(Boolean)
 
   const result = truncate(parts.join(' | '))
-  return appendShortlink(result, card.Shortlink)
+  return appendShortlink(result, cardLink(card))
+}
+
+// --- tier ladder (chat) -------------------------------------------------------------
+//
+// the chat rendering of the same ladders the extension tooltip colors per rung. chat has
+// no hue, so every rung names its tier: "Bronze 10 → Silver 20 → Gold 40". a rung whose
+// value repeats the one below it is dropped ("Bronze 5 → Diamond 10" when Silver and Gold
+// hold at 5) — the tier that first reaches a value is the one worth reading, and the
+// collapse is what keeps four-tier items under the chat budget.
+
+function collapseLadder(steps: LadderStep[]): LadderStep[] {
+  return steps.filter((s, i) => i === 0 || s.value !== steps[i - 1].value)
+}
+
+function ladderText(steps: LadderStep[], unit = ''): string {
+  const rungs = collapseLadder(steps)
+  if (rungs.length === 1) return `${rungs[0].value}${unit}`
+  return rungs.map((s) => `${s.tier} ${s.value}${unit}`).join(' → ')
+}
+
+export function formatItemLadder(card: BazaarCard, note?: string): string {
+  const size = SIZE_LABEL[card.Size] ? ` [${SIZE_LABEL[card.Size]}]` : ''
+  const heroes = card.Heroes.filter((h) => !FAKE_HEROES.has(h)).map((h) => HERO_ABBREV[h] ?? h).join(', ')
+  const tags = card.DisplayTags?.length ? ` [${card.DisplayTags.join(', ')}]` : ''
+  const cdSteps = cooldownLadder(card.Cooldown)
+  const cd = cdSteps ? `CD: ${ladderText(cdSteps, 's')}` : formatCooldown(card.Cooldown)
+  const abilities = card.Tooltips.filter(isDisplayTooltip).map((t) =>
+    compressTooltip(resolveTooltipParts(t.text, card.TooltipReplacements)
+      .map((p) => (p.t === 'text' ? p.s : ladderText(p.steps)))
+      .join('')),
+  )
+
+  const parts = [
+    `${card.Title}${size}${heroes ? ` · ${heroes}` : ''}${tags}`,
+    cd,
+    ...abilities,
+    note,
+  ].filter(Boolean)
+
+  return appendShortlink(truncate(parts.join(' | ')), cardLink(card))
+}
+
+// --- side-by-side comparison ------------------------------------------------------
+//
+// "A vs B" is a statistics question — two cards' numbers at the same tier — so it is
+// answered from the dump, never the model. Both cards resolve at ONE tier so the numbers
+// line up: the asked tier when both can be it, else the lowest tier they share. Cards with
+// no tier in common each show their own base tier, and the header says so.
+
+export interface ComparisonTiers { a: TierName; b: TierName; shared: boolean }
+
+export function alignTiers(a: BazaarCard, b: BazaarCard, tier?: TierName): ComparisonTiers {
+  const shared = TIER_ORDER.filter((t) => a.Tiers.includes(t) && b.Tiers.includes(t))
+  if (!shared.length) return { a: a.BaseTier, b: b.BaseTier, shared: false }
+  if (tier && shared.includes(tier)) return { a: tier, b: tier, shared: true }
+  // asked for a tier one of them can't reach — the closest shared tier below it, if any
+  const below = tier ? shared.filter((t) => TIER_ORDER.indexOf(t) < TIER_ORDER.indexOf(tier)) : []
+  const pick = below.length ? below[below.length - 1] : shared[0]
+  return { a: pick, b: pick, shared: true }
+}
+
+// resolved ability text, ladders (untiered values) spelled out as plain "10/20/40"
+function abilityText(card: BazaarCard, tier?: TierName): string {
+  return card.Tooltips.filter(isDisplayTooltip).map((t) =>
+    compressTooltip(resolveTooltipParts(t.text, card.TooltipReplacements, tier)
+      .map((p) => (p.t === 'text' ? p.s : p.steps.map((s) => s.value).join('/')))
+      .join('')),
+  ).join('; ')
+}
+
+function heroLabel(card: BazaarCard): string {
+  const heroes = card.Heroes.filter((h) => !FAKE_HEROES.has(h)).map((h) => HERO_ABBREV[h] ?? h)
+  return heroes.length ? heroes.join('/') : 'Common'
+}
+
+// "BurnReference" only mentions Burn ("if your enemy is burning…"), it doesn't apply it
+export function mechanicTags(card: BazaarCard): Set<string> {
+  return new Set([...card.DisplayTags, ...card.HiddenTags].filter((t) => !t.endsWith('Reference')))
+}
+
+export function formatComparison(a: BazaarCard, b: BazaarCard, tier?: TierName): string {
+  const tiers = alignTiers(a, b, tier)
+  const header = tiers.shared
+    ? `[${a.Title} vs ${b.Title}] ${tierPrefix(tiers.a)}${tiers.a}`
+    : `[${a.Title} vs ${b.Title}] no shared tier — ${tierPrefix(tiers.a)}${tiers.a} vs ${tierPrefix(tiers.b)}${tiers.b}`
+  const cd = (c: BazaarCard, t: TierName) => formatCooldown(c.Cooldown, t).replace('CD:', '') || '—'
+  const tagsB = mechanicTags(b)
+  const shared = [...mechanicTags(a)].filter((t) => tagsB.has(t)).sort()
+
+  const parts = [
+    header,
+    `size ${SIZE_LABEL[a.Size] ?? a.Size} vs ${SIZE_LABEL[b.Size] ?? b.Size}`,
+    a.Cooldown != null || b.Cooldown != null ? `CD ${cd(a, tiers.a)} vs ${cd(b, tiers.b)}` : null,
+    `heroes ${heroLabel(a)} vs ${heroLabel(b)}`,
+    shared.length ? `shared: ${shared.join(', ')}` : 'no shared tags',
+    `${a.Title}: ${abilityText(a, tiers.a) || '—'}`,
+    `${b.Title}: ${abilityText(b, tiers.b) || '—'}`,
+  ].filter(Boolean)
+
+  const links = [cardLink(a), cardLink(b)].filter(Boolean).map((l) => l.replace(RE_HTTPS, '')).join(' · ')
+  return appendShortlink(truncate(parts.join(' | ')), links)
+}
+
+// --- hero pool pages ----------------------------------------------------------------
+//
+// a hero owns 100+ cards and one chat line holds ~40 titles, so the pool is paged. order is
+// base tier, then title — stable across calls, so "page 3" names the same cards every time
+// until the dump changes. pages are packed greedily against the chat budget rather than cut
+// at a fixed count, so long titles never push a page past truncate. a tier emoji opens each
+// tier run instead of riding on every title.
+
+export interface PoolPage {
+  text: string
+  page: number
+  pages: number
+}
+
+// room for " · p10/10: " after the header, and " | +123 more — page 10" at the end
+const POOL_HEADER_RESERVE = 12
+const POOL_FOOTER_RESERVE = 24
+
+export function sortPool(cards: BazaarCard[]): BazaarCard[] {
+  const rank = (c: BazaarCard) => TIER_ORDER.indexOf(c.BaseTier)
+  return [...cards].sort((a, b) => rank(a) - rank(b) || a.Title.localeCompare(b.Title))
+}
+
+function packPool(cards: BazaarCard[], budget: number): string[][] {
+  const pages: string[][] = []
+  let page: string[] = []
+  let used = 0
+  let tier: TierName | null = null
+  for (const c of cards) {
+    // each page restarts its tier marker, so a page read alone still says which tier it's in
+    const marker = page.length === 0 || c.BaseTier !== tier ? `${TIER_EMOJI[c.BaseTier] ?? ''}` : ''
+    const entry = `${marker}${c.Title}`
+    const cost = [...entry].length + 2
+    if (page.length && used + cost > budget) {
+      pages.push(page)
+      page = [`${TIER_EMOJI[c.BaseTier] ?? ''}${c.Title}`]
+      used = [...page[0]].length + 2
+    } else {
+      page.push(entry)
+      used += cost
+    }
+    tier = c.BaseTier
+  }
+  if (page.length) pages.push(page)
+  return pages
+}
+
+/** one page of `cards` (already filtered). `label` heads the line ("Vanessa · Small"). */
+export function formatPool(label: string, cards: BazaarCard[], page = 1): PoolPage {
+  const noun = cards.length === 1 ? 'item' : 'items'
+  const head = `[${label}] ${cards.length} ${noun}`
+  const budget = MAX_LEN - [...head].length - POOL_HEADER_RESERVE - POOL_FOOTER_RESERVE
+  const pages = packPool(sortPool(cards), budget)
+  const total = pages.length
+  const n = Math.min(Math.max(1, page), Math.max(1, total))
+  if (!total) return { text: head, page: 1, pages: 0 }
+  const shown = pages.slice(0, n).reduce((k, p) => k + p.length, 0)
+  const more = cards.length - shown
+  const pageTag = total > 1 ? ` · p${n}/${total}` : ''
+  const footer = more > 0 ? ` | +${more} more — page ${n + 1}` : ''
+  return { text: truncate(`${head}${pageTag}: ${pages[n - 1].join(', ')}${footer}`), page: n, pages: total }
 }
 
 export function formatTagResults(tag: string, cards: BazaarCard[]): string {
@@ -233,6 +431,25 @@ export function formatDayResults(day: number, monsters: Monster[]): string {
   return truncate(`[Day ${day}] ${entries.join(', ')}`)
 }
 
+// a single day has room for every monster; a wide range shares the line, so each day
+// keeps only its most dangerous few (the plan is sorted that way) and counts the rest
+const ROUTE_SLOTS = 9
+
+export function formatRoute(plan: RoutePlan): string {
+  const span = plan.from === plan.to ? `Day ${plan.from}` : `Days ${plan.from}–${plan.to}`
+  if (!plan.days.length) return `no monsters found for ${span.toLowerCase()}`
+  const perDay = Math.max(1, Math.floor(ROUTE_SLOTS / plan.days.length))
+  const days = plan.days.map(({ day, monsters }) => {
+    const shown = monsters.slice(0, perDay).map((m) => {
+      const threat = m.threat ? ` (${TIER_EMOJI[m.threat.tier] ?? ''}${m.threat.title}${m.threat.count > 1 ? ` x${m.threat.count}` : ''})` : ''
+      return `${m.title} ${m.health}HP${threat} ${m.danger}`
+    })
+    const more = monsters.length - shown.length
+    return `D${day}: ${shown.join(', ')}${more > 0 ? ` +${more} more` : ''}`
+  })
+  return truncate(`[${span}] ${days.join(' | ')}`)
+}
+
 export function formatEnchantment(card: BazaarCard, enchName: string, tier?: TierName): string {
   const ench = card.Enchantments[enchName]
   if (!ench) return `no ${enchName} enchantment on ${card.Title}`
@@ -243,7 +460,23 @@ export function formatEnchantment(card: BazaarCard, enchName: string, tier?: Tie
 
   const tags = ench.tags?.length ? ` [${ench.tags.join(', ')}]` : ''
   const result = truncate(`${tierPrefix(tier)}[${card.Title} - ${enchName}]${tags} ${tooltips.join(' | ')}`)
-  return appendShortlink(result, card.Shortlink)
+  return appendShortlink(result, cardLink(card))
+}
+
+// every enchant variant of one card at one tier — the whole Enchantments record on a line,
+// alphabetical, so chat can pick a variant without asking thirteen times
+export function formatItemEnchants(card: BazaarCard, tier: TierName): string {
+  const names = Object.keys(card.Enchantments).sort()
+  if (!names.length) return `${card.Title} has no enchantments`
+  const variants = names.map((name) => {
+    const ench = card.Enchantments[name]
+    const text = ench.tooltips.filter(isDisplayTooltip)
+      .map((t) => compressTooltip(resolveTooltip(t.text, ench.tooltipReplacements ?? {}, tier)))
+      .join('; ')
+    return `${name}: ${text || '?'}`
+  })
+  const result = truncate(`${tierPrefix(tier)}[${card.Title} enchants] ${variants.join(' | ')}`)
+  return appendShortlink(result, cardLink(card))
 }
 
 export interface SkillDetail {
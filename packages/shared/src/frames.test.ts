@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'bun:test'
+import { assignIds, diffSlots, applyDelta, createFrameDecoder } from './frames'
+import type { BoardSlot, KeyedSlot } from './frames'
+
+const slot = (title: string, x: number, extra: Partial<BoardSlot> = {}): BoardSlot =>
+  ({ title, tier: 'Gold', x, y: 0.6, w: 0.05, h: 0.2, owner: 'player', type: 'Item', ...extra })
+
+describe('assignIds', () => {
+  it('numbers a fresh board from nextId', () => {
+    const { slots, nextId } = assignIds([], [slot('Fang', 0.1), slot('Cutlass', 0.2)], 1)
+    expect(slots.map((s) => [s.title, s.id])).toEqual([['Fang', 1], ['Cutlass', 2]])
+    expect(nextId).toBe(3)
+  })
+
+  it('keeps a moved card on its id and gives a changed one a new id', () => {
+    const prev = assignIds([], [slot('Fang', 0.1), slot('Cutlass', 0.2)], 1)
+    const next = assignIds(prev.slots, [slot('Cutlass', 0.1), slot('Fang', 0.2, { tier: 'Diamond' })], prev.nextId)
+    expect(next.slots.map((s) => [s.title, s.id])).toEqual([['Cutlass', 2], ['Fang', 3]])
+  })
+
+  it('matches duplicates to the nearest previous copy', () => {
+    const prev = assignIds([], [slot('Fang', 0.1), slot('Fang', 0.5)], 1)
+    const next = assignIds(prev.slots, [slot('Fang', 0.45), slot('Fang', 0.12)], prev.nextId)
+    expect(next.slots.map((s) => [s.id, s.x])).toEqual([[1, 0.12], [2, 0.45]])
+    expect(next.nextId).toBe(3)
+  })
+})
+
+describe('diffSlots / applyDelta', () => {
+  const a = assignIds([], [slot('Fang', 0.1), slot('Cutlass', 0.2), slot('Barrel', 0.3)], 1)
+  const b = assignIds(a.slots, [slot('Fang', 0.15), slot('Barrel', 0.3), slot('Powder Keg', 0.4)], a.nextId)
+
+  it('describes only what changed', () => {
+    const d = diffSlots(a.slots, b.slots)
+    expect(d.add?.map((s) => s.title)).toEqual(['Powder Keg'])
+    expect(d.mv).toEqual([[1, 0.15, 0.6, 0.05, 0.2]])
+    expect(d.del).toEqual([2])
+  })
+
+  it('an unchanged board is an empty delta', () => {
+    expect(diffSlots(b.slots, b.slots)).toEqual({})
+  })
+
+  it('applying the diff rebuilds the next board exactly', () => {
+    expect(applyDelta(a.slots, diffSlots(a.slots, b.slots))).toEqual(b.slots)
+  })
+
+  it('skips malformed entries instead of throwing', () => {
+    const bad = { mv: [[1, 0.5], 'x'], add: [null, { title: 'no id' }], del: [99] } as never
+    expect(applyDelta(a.slots, bad)).toEqual(a.slots)
+  })
+})
+
+describe('createFrameDecoder', () => {
+  const board = (titles: string[], prev: KeyedSlot[] = [], nextId = 1) =>
+    assignIds(prev, titles.map((t, i) => slot(t, 0.1 * (i + 1))), nextId)
+  const b1 = board(['Fang', 'Cutlass'])
+  const b2 = board(['Fang', 'Cutlass', 'Barrel'], b1.slots, b1.nextId)
+  const b3 = board(['Cutlass', 'Barrel'], b2.slots, b2.nextId)
+  const key = (seq: number, slots: KeyedSlot[], e = 'aa') => ({ v: 2, e, seq, cards: slots })
+  const delta = (seq: number, from: KeyedSlot[], to: KeyedSlot[], e = 'aa') => ({ v: 2, e, seq, ...diffSlots(from, to) })
+  const titles = (r: ReturnType<ReturnType<typeof createFrameDecoder>['push']>) =>
+    r && 'cards' in r ? (r.cards as KeyedSlot[]).map((c) => c.title) : r
+
+  it('follows a keyframe with in-order deltas', () => {
+    const d = createFrameDecoder()
+    expect(titles(d.push(key(1, b1.slots)))).toEqual(['Fang', 'Cutlass'])
+    expect(titles(d.push(delta(2, b1.slots, b2.slots)))).toEqual(['Fang', 'Cutlass', 'Barrel'])
+    expect(titles(d.push(delta(3, b2.slots, b3.slots)))).toEqual(['Cutlass', 'Barrel'])
+  })
+
+  it('reports a gap for a delta with no base, then catches up from the keyframe', () => {
+    const d = createFrameDecoder()
+    expect(d.push(delta(3, b2.slots, b3.slots))).toEqual({ gap: true })
+    // the fetched keyframe is seq 2; the held seq-3 delta applies on top of it
+    expect(titles(d.push(key(2, b2.slots)))).toEqual(['Cutlass', 'Barrel'])
+  })
+
+  it('reports a gap when a seq is skipped', () => {
+    const d = createFrameDecoder()
+    d.push(key(1, b1.slots))
+    expect(d.push(delta(3, b2.slots, b3.slots))).toEqual({ gap: true })
+  })
+
+  it('ignores replayed deltas and older keyframes, but takes an equal-seq keyframe', () => {
+    const d = createFrameDecoder()
+    d.push(key(1, b1.slots))
+    d.push(delta(2, b1.slots, b2.slots))
+    expect(d.push(delta(2, b1.slots, b2.slots))).toBeNull()
+    expect(d.push(key(1, b1.slots))).toBeNull()
+    expect(titles(d.push(key(2, b3.slots)))).toEqual(['Cutlass', 'Barrel'])
+  })
+
+  it('a new epoch resets the sequence', () => {
+    const d = createFrameDecoder()
+    d.push(key(9, b2.slots))
+    expect(d.push(delta(2, b1.slots, b2.slots, 'bb'))).toEqual({ gap: true })
+    expect(titles(d.push(key(1, b1.slots, 'bb')))).toEqual(['Fang', 'Cutlass', 'Barrel'])
+  })
+
+  it('renders unsequenced full frames as-is and forgets the sequence', () => {
+    const d = createFrameDecoder()
+    d.push(key(1, b1.slots))
+    expect(titles(d.push({ v: 1, cards: [slot('Fang', 0.1)] }))).toEqual(['Fang'])
+    expect(d.push(delta(2, b1.slots, b2.slots))).toEqual({ gap: true })
+  })
+
+  it('ignores junk', () => {
+    const d = createFrameDecoder()
+    expect(d.push(null)).toBeNull()
+    expect(d.push({ v: 2, add: [] })).toBeNull()
+  })
+})
@@ -0,0 +1,190 @@
+// Overlay frame protocol v2: keyframes plus add/move/remove deltas keyed by slot id.
+//
+// PubSub caps a message at 5KB and a channel at ~1 message/s, and a crowded board
+// resent whole on every change burns both. The EBS now gives each detected slot a
+// stable id and, between keyframes, sends only what changed against the last frame it
+// actually delivered. The overlay rebuilds the board from those and, on a sequence gap,
+// buffers what it has and asks the EBS for a fresh keyframe.
+//
+// Wire shapes (all JSON, `v` = PROTOCOL_VERSION):
+//   keyframe  {v, e, seq, cards: KeyedSlot[]}
+//   delta     {v, e, seq, add?: KeyedSlot[], mv?: [id, x, y, w, h][], del?: id[]}
+// `e` is the sender's epoch — a fresh EBS (restart, idle eviction) starts its `seq`
+// over, and a new epoch is how a viewer tells that from a replay. A keyframe keeps the
+// `cards` key on purpose: v1 overlays only ever read `cards`, so they keep rendering
+// every keyframe and simply skip the deltas.
+
+export interface BoardSlot {
+  title: string
+  tier: string
+  x: number
+  y: number
+  w: number
+  h: number
+  owner?: string
+  type?: string
+  enchantment?: string
+  tierKnown?: boolean
+}
+
+export type KeyedSlot = BoardSlot & { id: number }
+
+export type SlotMove = [id: number, x: number, y: number, w: number, h: number]
+
+export interface SlotDelta {
+  add?: KeyedSlot[]
+  mv?: SlotMove[]
+  del?: number[]
+}
+
+export interface KeyframeMessage {
+  v: number
+  e: string
+  seq: number
+  cards: KeyedSlot[]
+}
+
+export type DeltaMessage = SlotDelta & { v: number; e: string; seq: number }
+
+// everything but geometry: the same card in the same state, possibly somewhere else.
+// a tier or enchantment change is a different slot (remove + add), not a move.
+function identity(s: BoardSlot): string {
+  return [s.title, s.tier, s.owner ?? '', s.type ?? '', s.enchantment ?? '', s.tierKnown ?? ''].join('\u0000')
+}
+
+/**
+ * Carry ids over from `prev` to `next`: each card takes the nearest unclaimed previous
+ * slot with the same identity, anything left gets a fresh id from `nextId`. Sorted by id
+ * — the order a delta-rebuilt board ends up in, so keyframes match it.
+ */
+export function assignIds(prev: KeyedSlot[], next: BoardSlot[], nextId: number): { slots: KeyedSlot[]; nextId: number } {
+  const pool = new Map<string, KeyedSlot[]>()
+  for (const s of prev) {
+    const k = identity(s)
+    const list = pool.get(k)
+    if (list) list.push(s)
+    else pool.set(k, [s])
+  }
+  const slots: KeyedSlot[] = []
+  for (const card of next) {
+    const list = pool.get(identity(card))
+    let id: number
+    if (list?.length) {
+      let best = 0
+      let bestDist = Infinity
+      for (let i = 0; i < list.length; i++) {
+        const d = Math.abs(list[i].x - card.x) + Math.abs(list[i].y - card.y)
+        if (d < bestDist) { best = i; bestDist = d }
+      }
+      id = list.splice(best, 1)[0].id
+    } else {
+      id = nextId++
+    }
+    slots.push({ ...card, id })
+  }
+  slots.sort((a, b) => a.id - b.id)
+  return { slots, nextId }
+}
+
+/** what turns `prev` into `next`; empty fields are omitted to keep the message small */
+export function diffSlots(prev: KeyedSlot[], next: KeyedSlot[]): SlotDelta {
+  const before = new Map(prev.map((s) => [s.id, s]))
+  const add: KeyedSlot[] = []
+  const mv: SlotMove[] = []
+  for (const s of next) {
+    const p = before.get(s.id)
+    before.delete(s.id)
+    if (!p) add.push(s)
+    else if (p.x !== s.x || p.y !== s.y || p.w !== s.w || p.h !== s.h) mv.push([s.id, s.x, s.y, s.w, s.h])
+  }
+  const out: SlotDelta = {}
+  if (add.length) out.add = add
+  if (mv.length) out.mv = mv
+  if (before.size) out.del = [...before.keys()]
+  return out
+}
+
+/** `diffSlots` in reverse. Malformed entries are skipped, never thrown on — the overlay's slot validator judges what's left. */
+export function applyDelta(prev: KeyedSlot[], delta: SlotDelta): KeyedSlot[] {
+  const byId = new Map(prev.map((s) => [s.id, s]))
+  if (Array.isArray(delta.del)) for (const id of delta.del) byId.delete(id)
+  if (Array.isArray(delta.mv)) {
+    for (const m of delta.mv) {
+      if (!Array.isArray(m) || m.length !== 5) continue
+      const s = byId.get(m[0])
+      if (s) byId.set(s.id, { ...s, x: m[1], y: m[2], w: m[3], h: m[4] })
+    }
+  }
+  if (Array.isArray(delta.add)) {
+    for (const s of delta.add) if (s && typeof s.id === 'number') byId.set(s.id, s)
+  }
+  return [...byId.values()].sort((a, b) => a.id - b.id)
+}
+
+// deltas held while a keyframe is on its way; past this the oldest go (and the
+// keyframe, being newer, makes them moot anyway)
+const MAX_PENDING = 16
+
+/** the board to render, a gap that needs a keyframe, or null for nothing to do */
+export type FrameResult = { cards: unknown[] } | { gap: true } | null
+
+function sequenced(f: Record<string, unknown>): f is Record<string, unknown> & { e: string; seq: number } {
+  return typeof f.e === 'string' && typeof f.seq === 'number'
+}
+
+/**
+ * The overlay's side of the protocol: feed it every parsed message, from PubSub, the
+ * EBS stream or a keyframe fetch, and it hands back what to render. Unsequenced full
+ * frames (the EBS stream, v1 senders) render as-is and drop any sequence state.
+ */
+export function createFrameDecoder() {
+  let base: { e: string; seq: number; slots: KeyedSlot[] } | null = null
+  let pending: DeltaMessage[] = []
+
+  // apply buffered deltas that continue `base`, discarding any it has overtaken
+  const drain = () => {
+    pending.sort((a, b) => a.seq - b.seq)
+    while (base && pending.length) {
+      const d = pending[0]
+      if (d.e !== base.e || d.seq <= base.seq) { pending.shift(); continue }
+      if (d.seq !== base.seq + 1) break
+      base = { e: base.e, seq: d.seq, slots: applyDelta(base.slots, d) }
+      pending.shift()
+    }
+  }
+
+  return {
+    push(data: unknown): FrameResult {
+      if (!data || typeof data !== 'object') return null
+      const f = data as Record<string, unknown>
+
+      if (Array.isArray(f.cards)) {
+        if (!sequenced(f)) {
+          base = null
+          pending = []
+          return { cards: f.cards }
+        }
+        // an equal seq is accepted: the EBS re-keys a frame whose delivery it couldn't
+        // confirm, and that keyframe must win over whatever the first attempt carried
+        if (base && base.e === f.e && f.seq < base.seq) return null
+        const slots = (f.cards as KeyedSlot[]).filter((s) => s && typeof s.id === 'number')
+        base = { e: f.e, seq: f.seq, slots }
+        drain()
+        return { cards: base.slots }
+      }
+
+      if (!sequenced(f)) return null
+      if (base && base.e === f.e) {
+        if (f.seq <= base.seq) return null
+        if (f.seq === base.seq + 1) {
+          base = { e: base.e, seq: f.seq, slots: applyDelta(base.slots, f as SlotDelta) }
+          drain()
+          return { cards: base.slots }
+        }
+      }
+      pending.push(f as unknown as DeltaMessage)
+      if (pending.length > MAX_PENDING) pending.shift()
+      return { gap: true }
+    },
+  }
+}
@@ -1,3 +1,6 @@
 export * from './types'
 export * from './search'
 export * from './format'
+export * from './route'
+export * from './frames'
+export * from './settings'
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'bun:test'
+import type { Monster, TierName } from './types'
+import { planRoute, routeMonster, dangerOf } from './route'
+import { formatRoute } from './format'
+
+function mob(title: string, tiers: TierName[], health = 500, boardTitles?: string[]): Monster {
+  return {
+    Type: 'CombatEncounter', Title: title, Size: 'Medium', Tags: [], DisplayTags: [], HiddenTags: [],
+    Heroes: ['Common'], Shortlink: `https://bzdb.to/${title.toLowerCase()}`,
+    MonsterMetadata: {
+      available: 'Day 1', day: 1, health,
+      board: tiers.map((tier, i) => ({ title: boardTitles?.[i] ?? `Item ${i}`, tier, id: `${i}` })),
+      skills: [],
+    },
+  }
+}
+
+describe('routeMonster', () => {
+  it('sums board tier ranks and bands the danger', () => {
+    const m = routeMonster(mob('Boar', ['Bronze', 'Silver', 'Gold']))
+    expect(m.tierPoints).toBe(6)
+    expect(m.danger).toBe('low')
+    expect(dangerOf(8)).toBe('moderate')
+    expect(dangerOf(14)).toBe('high')
+    expect(dangerOf(20)).toBe('deadly')
+  })
+
+  it('takes the highest-tier item as the threat, counting its copies', () => {
+    const m = routeMonster(mob('Boar', ['Silver', 'Gold', 'Bronze', 'Gold'], 500, ['Axe', 'Fang', 'Rock', 'Fang']))
+    expect(m.threat).toEqual({ title: 'Fang', tier: 'Gold', count: 2 })
+  })
+
+  it('has no threat for an empty board', () => {
+    expect(routeMonster(mob('Ghost', [])).threat).toBeNull()
+  })
+})
+
+describe('planRoute', () => {
+  const days: Record<number, Monster[]> = {
+    1: [mob('Rat', ['Bronze']), mob('Wolf', ['Silver', 'Silver'], 500, ['Fang', 'Fang'])],
+    3: [mob('Boar', ['Gold', 'Gold'], 900)],
+  }
+  const byDay = (d: number) => days[d] ?? []
+
+  it('orders each day most dangerous first and skips empty days', () => {
+    const plan = planRoute(byDay, 1, 3)
+    expect(plan.days.map((d) => d.day)).toEqual([1, 3])
+    expect(plan.days[0].monsters.map((m) => m.title)).toEqual(['Wolf', 'Rat'])
+  })
+
+  it('formats for chat with health, threat and rating', () => {
+    const out = formatRoute(planRoute(byDay, 1, 1))
+    expect(out).toBe('[Day 1] D1: Wolf 500HP (⚪Fang x2) low, Rat 500HP (🟤Item 0) low')
+  })
+
+  it('keeps a wide range inside the budget, counting what it left out', () => {
+    const many = (d: number) => Array.from({ length: 12 }, (_, i) => mob(`Mob ${d}-${i}`, ['Gold', 'Diamond', 'Gold']))
+    const out = formatRoute(planRoute(many, 1, 3))
+    expect(out).toContain('+9 more')
+    expect([...out].length).toBeLessThanOrEqual(480)
+  })
+
+  it('says so when the range has no monsters', () => {
+    expect(formatRoute(planRoute(() => [], 11, 12))).toBe('no monsters found for days 11–12')
+  })
+})
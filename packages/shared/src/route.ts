@@ -0,0 +1,91 @@
+import type { Monster, TierName } from './types'
+import { TIER_ORDER } from './format'
+
+// Day-range encounter planning ("!b route 3-6" in chat, GET /api/route for the panel).
+//
+// One computation, two renderers: the bot formats a plan for chat and the EBS serves the
+// same plan as JSON, so the panel and chat can never disagree about which fight is the
+// scary one. Everything is derived from MonsterMetadata alone — health plus the board's
+// tiers — so the plan needs no card lookups and runs anywhere the dump is loaded.
+
+export type DangerRating = 'low' | 'moderate' | 'high' | 'deadly'
+
+export interface RouteThreat {
+  title: string
+  tier: TierName
+  /** copies of this item at this tier on the board */
+  count: number
+}
+
+export interface RouteMonster {
+  title: string
+  health: number
+  /** sum of board tier ranks (Bronze 1 … Legendary 5) — the number `danger` is banded from */
+  tierPoints: number
+  danger: DangerRating
+  /** highest-tier board item; null for an empty board */
+  threat: RouteThreat | null
+  shortlink: string
+}
+
+export interface RouteDay {
+  day: number
+  /** most dangerous first */
+  monsters: RouteMonster[]
+}
+
+export interface RoutePlan {
+  from: number
+  to: number
+  days: RouteDay[]
+}
+
+// a whole run is ten-odd days; anything wider is a typo, not a plan
+export const MAX_ROUTE_SPAN = 10
+
+// Bands over summed board tier ranks. Day 1 boards sit at 4-7, mid-run at 10-20, and
+// the late-game walls at 25+ — the cut points split those populations, not the range.
+const DANGER_BANDS: [number, DangerRating][] = [[8, 'low'], [14, 'moderate'], [20, 'high']]
+
+function tierRank(tier: TierName): number {
+  return TIER_ORDER.indexOf(tier) + 1
+}
+
+export function dangerOf(tierPoints: number): DangerRating {
+  for (const [below, rating] of DANGER_BANDS) if (tierPoints < below) return rating
+  return 'deadly'
+}
+
+// the highest-tier item, duplicates counted; ties keep board order
+function topThreat(monster: Monster): RouteThreat | null {
+  let best: RouteThreat | null = null
+  for (const b of monster.MonsterMetadata.board) {
+    if (best && best.title === b.title && best.tier === b.tier) { best.count++; continue }
+    if (!best || tierRank(b.tier) > tierRank(best.tier)) best = { title: b.title, tier: b.tier, count: 1 }
+  }
+  return best
+}
+
+export function routeMonster(monster: Monster): RouteMonster {
+  const meta = monster.MonsterMetadata
+  const tierPoints = meta.board.reduce((n, b) => n + tierRank(b.tier), 0)
+  return {
+    title: monster.Title,
+    health: meta.health,
+    tierPoints,
+    danger: dangerOf(tierPoints),
+    threat: topThreat(monster),
+    shortlink: monster.Shortlink,
+  }
+}
+
+/** `byDay` is the caller's day index (store.monstersByDay in the bot) — days with no monsters are skipped */
+export function planRoute(byDay: (day: number) => Monster[], from: number, to: number): RoutePlan {
+  const days: RouteDay[] = []
+  for (let day = from; day <= to; day++) {
+    const monsters = byDay(day).map(routeMonster)
+      .sort((a, b) => b.tierPoints - a.tierPoints || b.health - a.health)
+    if (monsters.length) days.push({ day, monsters })
+  }
+  return { from, to, days }
+}
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'bun:test'
-import { buildIndex, searchCards, searchPrefix, buildTitleMap, findExact, searchAllWords } from './search'
+import { buildIndex, searchCards, searchPrefix, buildTitleMap, findExact, searchAllWords, foldAccents, buildLocalizedIndex } from './search'
 import type { BazaarCard } from './types'
 
 function makeCard(title: string): BazaarCard {
@@ -194,3 +194,23 @@ describe('buildTitleMap + findExact', () => {
     expect(map.size).toBe(1)
   })
 })
+
+describe('localized titles', () => {
+  const cards = [makeCard('Magic Shield'), makeCard('Boomerang'), makeCard('Anchor')]
+  const table = {
+    'Magic Shield': { Title: 'Escudo Mágico' },
+    Boomerang: { Title: 'Bumerangue' },
+  }
+
+  it('foldAccents drops diacritics and case', () => {
+    expect(foldAccents('Escudo Mágico')).toBe('escudo magico')
+    expect(foldAccents('Ñandú')).toBe('nandu')
+  })
+
+  it('indexes only cards the table names, and hits resolve to the canonical card', () => {
+    const idx = buildLocalizedIndex(cards, table)
+    const [hit] = idx.search('escudo magco', { limit: 1 })
+    expect(hit.item.card.Title).toBe('Magic Shield')
+    expect(idx.search('anchor')).toEqual([])
+  })
+})
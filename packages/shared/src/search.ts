@@ -1,5 +1,5 @@
 import Fuse, { type IFuseOptions } from 'fuse.js/basic'
-import type { BazaarCard } from './types'
+import type { BazaarCard, LocalizedCard } from './types'
 
 const fuseOptions: IFuseOptions<BazaarCard> = {
   keys: [
@@ -113,3 +113,33 @@ export function findExact(cards: BazaarCard[], name: string, titleMap?: Map<stri
   return cards.find((c) => c.Title.toLowerCase() === lower)
     ?? cards.find((c) => squashName(c.Title) === squashName(lower))
 }
+
+// "Escudo Mágico" -> "escudo magico". chat in pt/es drops accents far more often than it
+// types them, so localized titles are keyed and fuzzy-matched with them folded away.
+export function foldAccents(s: string): string {
+  return s.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase()
+}
+
+export interface LocalizedTitle {
+  /** accent-folded localized title — what the index matches against */
+  folded: string
+  /** the canonical card it names */
+  card: BazaarCard
+}
+
+// one locale's titles over the same fuzzy gate as the canonical index. each entry carries
+// the canonical card, so a localized hit is never a second copy of it.
+export function buildLocalizedIndex(cards: BazaarCard[], table: Record<string, LocalizedCard>) {
+  const entries: LocalizedTitle[] = []
+  for (const card of cards) {
+    const loc = table[card.Title]
+    if (loc?.Title) entries.push({ folded: foldAccents(loc.Title), card })
+  }
+  return new Fuse(entries, {
+    keys: ['folded'],
+    threshold: fuseOptions.threshold,
+    includeScore: true,
+    ignoreLocation: true,
+    minMatchCharLength: 2,
+  })
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'bun:test'
+import { DEFAULT_OVERLAY_SETTINGS, parseOverlaySettings, settingsPatchError } from './settings'
+
+describe('parseOverlaySettings', () => {
+  it('falls back to the defaults for anything that is not an object', () => {
+    expect(parseOverlaySettings(null)).toEqual(DEFAULT_OVERLAY_SETTINGS)
+    expect(parseOverlaySettings('side')).toEqual(DEFAULT_OVERLAY_SETTINGS)
+    expect(parseOverlaySettings([1, 2])).toEqual(DEFAULT_OVERLAY_SETTINGS)
+  })
+
+  it('keeps valid fields and drops malformed or unknown ones', () => {
+    const s = parseOverlaySettings({
+      tooltipPlacement: 'side',
+      opponentHover: 'no',
+      minTooltipScale: 9,
+      hiddenTypes: ['Skill', 'Skill'],
+      spoilerDelaySec: 30,
+      glow: true,
+    })
+    expect(s).toEqual({ ...DEFAULT_OVERLAY_SETTINGS, tooltipPlacement: 'side', hiddenTypes: ['Skill'], spoilerDelaySec: 30 })
+  })
+
+  it('layers over a base without sharing its arrays', () => {
+    const base = { ...DEFAULT_OVERLAY_SETTINGS, hiddenTypes: ['Item'] }
+    const s = parseOverlaySettings({ opponentHover: false }, base)
+    expect(s.hiddenTypes).toEqual(['Item'])
+    expect(s.opponentHover).toBe(false)
+    s.hiddenTypes.push('Skill')
+    expect(base.hiddenTypes).toEqual(['Item'])
+  })
+})
+
+describe('settingsPatchError', () => {
+  it('accepts a valid partial patch', () => {
+    expect(settingsPatchError({})).toBeNull()
+    expect(settingsPatchError({ minTooltipScale: 1.25, hiddenTypes: ['Item', 'Skill'] })).toBeNull()
+  })
+
+  it('names the first bad field', () => {
+    expect(settingsPatchError([])).toBe('settings must be an object')
+    expect(settingsPatchError({ glow: true })).toBe('unknown setting: glow')
+    expect(settingsPatchError(JSON.parse('{"__proto__":1}'))).toBe('unknown setting: __proto__')
+    expect(settingsPatchError({ toString: 1 })).toBe('unknown setting: toString')
+    expect(settingsPatchError({ constructor: 5 })).toBe('unknown setting: constructor')
+    expect(settingsPatchError({ spoilerDelaySec: 1.5 })).toBe('invalid value for spoilerDelaySec')
+    expect(settingsPatchError({ spoilerDelaySec: 601 })).toBe('invalid value for spoilerDelaySec')
+    expect(settingsPatchError({ hiddenTypes: ['Monster'] })).toBe('invalid value for hiddenTypes')
+    expect(settingsPatchError({ tooltipPlacement: 'left' })).toBe('invalid value for tooltipPlacement')
+  })
+})
@@ -0,0 +1,72 @@
+// Per-channel overlay settings: what the broadcaster picks in the extension config
+// view, stored on the EBS, applied by every viewer's overlay at runtime.
+//
+// One parser for both ends. The EBS rejects a bad write outright (settingsPatchError)
+// so the broadcaster hears about it; the overlay reads leniently (parseOverlaySettings)
+// because a field this build doesn't know — or a value from a newer one it can't
+// judge — must fall back to the default, never blank the overlay.
+
+export type TooltipPlacement = 'above' | 'below' | 'side'
+
+export interface OverlaySettings {
+  /** where the tooltip prefers to sit relative to the hovered card; each still flips when there's no room */
+  tooltipPlacement: TooltipPlacement
+  /** whether the opponent's cards get hover zones at all */
+  opponentHover: boolean
+  /** floor for the tooltip's size multiplier — viewers on small players still get readable text */
+  minTooltipScale: number
+  /** slot types ('Item', 'Skill') the overlay doesn't draw */
+  hiddenTypes: string[]
+  /** the EBS holds each board this long before any viewer gets it, to match a delayed broadcast */
+  spoilerDelaySec: number
+}
+
+export const DEFAULT_OVERLAY_SETTINGS: OverlaySettings = {
+  tooltipPlacement: 'above',
+  opponentHover: true,
+  minTooltipScale: 1,
+  hiddenTypes: [],
+  spoilerDelaySec: 0,
+}
+
+export const TOOLTIP_PLACEMENTS: readonly TooltipPlacement[] = ['above', 'below', 'side']
+export const HIDEABLE_TYPES: readonly string[] = ['Item', 'Skill']
+// the overlay's own ceiling (extension/src/scale.ts UI_MAX) — past it the tooltip is a wall
+export const MAX_TOOLTIP_SCALE = 1.75
+// ten minutes covers a tournament-style delay, and bounds how many boards the EBS
+// delay queue (ebs/src/delay.ts) holds per channel
+export const MAX_SPOILER_DELAY_SEC = 600
+
+type Check = (v: unknown) => boolean
+
+const CHECKS: { [K in keyof OverlaySettings]: Check } = {
+  tooltipPlacement: (v) => TOOLTIP_PLACEMENTS.includes(v as TooltipPlacement),
+  opponentHover: (v) => typeof v === 'boolean',
+  minTooltipScale: (v) => typeof v === 'number' && Number.isFinite(v) && v >= 1 && v <= MAX_TOOLTIP_SCALE,
+  hiddenTypes: (v) => Array.isArray(v) && v.length <= HIDEABLE_TYPES.length && v.every((t) => HIDEABLE_TYPES.includes(t as string)),
+  spoilerDelaySec: (v) => typeof v === 'number' && Number.isInteger(v) && v >= 0 && v <= MAX_SPOILER_DELAY_SEC,
+}
+
+/** every valid field of `raw` over `base`; anything missing, unknown or malformed keeps the base value. Never throws. */
+export function parseOverlaySettings(raw: unknown, base: OverlaySettings = DEFAULT_OVERLAY_SETTINGS): OverlaySettings {
+  const out: OverlaySettings = { ...base, hiddenTypes: [...base.hiddenTypes] }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return out
+  const o = raw as Record<string, unknown>
+  const set = out as unknown as Record<string, unknown>
+  for (const key of Object.keys(CHECKS) as (keyof OverlaySettings)[]) {
+    if (!(key in o) || !CHECKS[key](o[key])) continue
+    set[key] = key === 'hiddenTypes' ? [...new Set(o[key] as string[])] : o[key]
+  }
+  return out
+}
+
+/** why `raw` is not a valid partial update, or null when it is */
+export function settingsPatchError(raw: unknown): string | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return 'settings must be an object'
+  for (const [key, value] of Object.entries(raw)) {
+    // own keys only — a plain lookup also finds toString, constructor and __proto__
+    if (!Object.hasOwn(CHECKS, key)) return `unknown setting: ${key}`
+    if (!CHECKS[key as keyof OverlaySettings](value)) return `invalid value for ${key}`
+  }
+  return null
+}
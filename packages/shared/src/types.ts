@@ -33,6 +33,8 @@ export interface BazaarCard {
   Shortlink: string
   ArtKey?: string
   Cooldown?: number | Partial<Record<TierName, number>>
+  /** set on a localized display copy: the English Title that links and lookups key by */
+  CanonicalTitle?: string
 }
 
 export interface MonsterBoardEntry {
@@ -69,6 +71,25 @@ export interface CardCache {
   fetchedAt: string
 }
 
+// --- localized card text ---
+//
+// One table per language, loaded alongside CardCache rather than merged into it. Keys are
+// the canonical (English) Title, so a localized name always resolves back to the one card
+// every other feature already knows — stats, history, synergy and logging stay English.
+
+export interface LocalizedCard {
+  Title: string
+  /** parallel to the canonical card's Tooltips (same placeholders); absent → English text */
+  Tooltips?: string[]
+}
+
+export interface LocaleTable {
+  /** lowercase language code, e.g. "pt", "es" */
+  locale: string
+  fetchedAt: string
+  cards: Record<string, LocalizedCard>
+}
+
 // --- hearthstone battlegrounds live board ---
 //
 // The wire shape between the companion (which reads it out of Hearthstone's own log),
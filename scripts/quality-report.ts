@@ -20,6 +20,7 @@ import { Database } from 'bun:sqlite'
 import { homedir } from 'node:os'
 import { isDashClause, monotonyStreak, findUngroundedStats, deniesBoardSight } from '../packages/bot/src/ai-verify'
 import { OTHER_GAME_RE } from '../packages/bot/src/ai-context'
+import { triviaQuestionVerdict, type TriviaQuestionStats } from '../packages/bot/src/db'
 
 interface Row { query: string; response: string; latency_ms: number | null }
 
@@ -39,6 +40,8 @@ const jsonPath = arg('--json')
 const since = arg('--since')
 
 let rows: Row[]
+// the trivia questions chat keeps walking past — live db only, not in a --json export
+let worstTrivia: TriviaQuestionStats[] = []
 if (jsonPath) {
   rows = await Bun.file(jsonPath).json()
 } else {
@@ -50,6 +53,17 @@ if (jsonPath) {
        AND (? IS NULL OR created_at >= ?)
      ORDER BY created_at DESC LIMIT ?`,
   ).all(since ?? null, since ?? null, limit) as Row[]
+  // share of rounds skipped or timed out first, then sheer count. one-off flops are left out.
+  // a db from before per-question stats has no table to read, and so nothing to show
+  try {
+    worstTrivia = db.query(
+      `SELECT * FROM trivia_question_stats
+        WHERE answered + skipped + unanswered >= 2
+        ORDER BY CAST(skipped + unanswered AS REAL) / (answered + skipped + unanswered) DESC,
+                 skipped + unanswered DESC, close_misses DESC
+        LIMIT 10`,
+    ).all() as TriviaQuestionStats[]
+  } catch {}
   db.close()
 }
 
@@ -165,6 +179,18 @@ if (tics.length) {
   for (const [g, c] of tics) console.log(`  ${String(c).padStart(3)}x  ${g}`)
 }
 
+if (worstTrivia.length) {
+  console.log('\nworst trivia questions   asked  skip  t/out  close  avg answer')
+  for (const s of worstTrivia) {
+    const asked = s.answered + s.skipped + s.unanswered
+    const avg = s.answered ? `${(s.answer_ms_total / s.answered / 1000).toFixed(1)}s` : '-'
+    const verdict = triviaQuestionVerdict(s)
+    const tag = verdict === 'ok' ? '' : ` ${verdict.toUpperCase()}`
+    console.log(`  ${String(asked).padStart(28)}  ${String(s.skipped).padStart(4)}  ${String(s.unanswered).padStart(5)}  ${String(s.close_misses).padStart(5)}  ${avg.padStart(10)}${tag}`)
+    console.log(`    t${s.question_type} ${s.question.slice(0, 90)} → ${s.answer.slice(0, 40)}`)
+  }
+}
+
 const regressed = worse(rate(dashClause), BASELINE.dashClause)
   || worse(rate(inRunOf3), BASELINE.inRunOf3)
   || worse(rate(mean.length), BASELINE.meanRate)